@@ -1,14 +1,28 @@
 import { Command } from 'commander';
-import { readInput, writeOutput, parseJSON, parseJSONLines, formatJSON } from '../utils/file-io.js';
+import { readInput, writeOutput, writeFiles, parseDocuments, formatJSON } from '../utils/file-io.js';
 import { success, error as displayError, info } from '../utils/output.js';
-import { ambToNostr, nostrToAmb } from '../../converters/index.js';
-import { ConversionOptions } from '../../types/index.js';
-import { parsePrivateKey, derivePublicKey, signNostrEvent } from '../../utils/signing.js';
+import {
+  ambToNostr,
+  nostrToAmb,
+  nostrEventAddress,
+  htmlToAmb,
+  ambToMarkdown,
+  ambToCsl,
+  ambToBibtex,
+  citationKey,
+} from '../../converters/index.js';
+import { AmbLearningResource } from '../../types/index.js';
+import { signNostrEvent } from '../../utils/signing.js';
+import { slugify } from '../../utils/slug.js';
+import { bundledVocabularies, createVocabularyRegistry, defaultVocabularyRegistry } from '../../vocabularies/index.js';
+import { loadVocabulary } from '../utils/vocabulary.js';
+import { EventCommandOptions, parseConversionOptions } from '../utils/conversion-options.js';
 
 /**
- * Conversion direction
+ * Conversion direction. html:* reads a saved HTML page and extracts AMB from
+ * it first.
  */
-type ConversionDirection = 'amb:nostr' | 'nostr:amb';
+type ConversionDirection = 'amb:nostr' | 'nostr:amb' | 'html:amb' | 'html:nostr';
 
 /**
  * Parse conversion direction from string
@@ -23,18 +37,86 @@ function parseDirection(direction: string): ConversionDirection {
   if (normalized === 'nostr:amb' || normalized === 'nostr-amb') {
     return 'nostr:amb';
   }
+
+  if (normalized === 'html:amb' || normalized === 'html-amb') {
+    return 'html:amb';
+  }
+
+  if (normalized === 'html:nostr' || normalized === 'html-nostr') {
+    return 'html:nostr';
+  }
   
   throw new Error(
-    `Invalid conversion direction: "${direction}". Must be "amb:nostr" or "nostr:amb"`
+    `Invalid conversion direction: "${direction}". Must be "amb:nostr", "nostr:amb", "html:amb" or "html:nostr"`
   );
 }
 
-interface ConvertCommandOptions {
+interface ConvertCommandOptions extends EventCommandOptions {
   output?: string;
   pretty?: boolean;
   tags?: boolean;
-  nsec?: string;
-  privateKey?: string;
+  baseUrl?: string;
+  markdown?: boolean;
+  cite?: string;
+  enrichConcepts?: boolean;
+  vocabulary?: string[];
+}
+
+const CITATION_FORMATS: readonly string[] = ['csl', 'bibtex'];
+
+/**
+ * Write AMB records as Markdown files with front matter: one record to the
+ * output file (or stdout), several into the output directory, named after
+ * their titles
+ */
+async function writeMarkdown(records: AmbLearningResource[], output: string | undefined): Promise<void> {
+  if (records.length === 1) {
+    const markdown = ambToMarkdown(records[0]!).data!;
+    await writeOutput(output ? markdown : markdown.trimEnd(), output);
+    return;
+  }
+  if (!output) {
+    throw new Error('--markdown with several records needs -o <directory>');
+  }
+  const names = new Set<string>();
+  const files = records.map((record): [string, string] => {
+    const slug = slugify(record.name ?? '') || 'record';
+    let name = `${slug}.md`;
+    for (let n = 2; names.has(name); n++) name = `${slug}-${n}.md`;
+    names.add(name);
+    return [name, ambToMarkdown(record).data!];
+  });
+  await writeFiles(output, files);
+}
+
+/**
+ * Render AMB records as a citation list: a CSL-JSON array or BibTeX entries
+ * with unique keys, ready for import into a reference manager. Records
+ * converted from events cite the event address when nothing else links.
+ */
+function formatCitations(
+  records: AmbLearningResource[],
+  format: string,
+  addresses: Map<AmbLearningResource, string>,
+  pretty?: boolean
+): string {
+  const cslOptions = (record: AmbLearningResource) => {
+    const naddr = addresses.get(record);
+    return naddr ? { naddr } : {};
+  };
+  if (format === 'csl') {
+    return formatJSON(records.map(record => ambToCsl(record, cslOptions(record)).data!), pretty);
+  }
+  const keys = new Set<string>();
+  return records
+    .map(record => {
+      const base = citationKey(record);
+      let key = base;
+      for (let n = 2; keys.has(key); n++) key = `${base}-${n}`;
+      keys.add(key);
+      return ambToBibtex(record, { ...cslOptions(record), key }).data!;
+    })
+    .join('\n');
 }
 
 /**
@@ -46,78 +128,98 @@ async function executeConvert(
   options: ConvertCommandOptions
 ): Promise<void> {
   try {
-    // Validate mutually exclusive options
-    if (options.nsec && options.privateKey) {
-      throw new Error('Cannot specify both --nsec and --private-key options');
-    }
-    
+    // Signing keys only matter when producing events
+    const toNostr = direction === 'amb:nostr' || direction === 'html:nostr';
+    const { conversionOptions, privateKeyHex } = parseConversionOptions(options, toNostr);
+
     // Read input data
     const inputData = await readInput(inputFilePath);
     
     if (!inputData.trim()) {
       throw new Error('Input is empty');
     }
-    
-    // Handle private key if provided (only for amb:nostr direction)
-    let privateKeyHex: string | undefined;
-    let derivedPubkey: string | undefined;
-
-    if (direction === 'amb:nostr' && (options.nsec || options.privateKey)) {
-      const keyInput = options.nsec || options.privateKey!;
-      privateKeyHex = parsePrivateKey(keyInput);
-      derivedPubkey = derivePublicKey(privateKeyHex);
-      info(`Derived pubkey: ${derivedPubkey}`);
-    }
 
-    // Prepare conversion options
-    const conversionOptions: ConversionOptions = {};
+    // Vocabulary files add to the bundled ones
+    if (toNostr && options.vocabulary?.length) {
+      const vocabularies = await Promise.all(options.vocabulary.map(file => loadVocabulary(file)));
+      conversionOptions.enrichConcepts = createVocabularyRegistry([...bundledVocabularies(), ...vocabularies]);
+    } else if (toNostr && options.enrichConcepts) {
+      conversionOptions.enrichConcepts = defaultVocabularyRegistry();
+    }
 
-    // Use derived pubkey if signing
-    if (derivedPubkey) {
-      conversionOptions.pubkey = derivedPubkey;
+    if (options.cite && !CITATION_FORMATS.includes(options.cite)) {
+      throw new Error(`Invalid --cite format: "${options.cite}". Must be one of ${CITATION_FORMATS.join(', ')}`);
+    }
+    if (options.cite && options.markdown) {
+      throw new Error('Cannot specify both --cite and --markdown options');
     }
 
-    // Detect JSONL vs single JSON
+    // An HTML page is one record: extract it, then continue as AMB input.
+    // Other input is JSON, JSONL, YAML or Markdown with front matter.
     let inputs: any[];
     let isJsonl = false;
-
-    try {
-      const singleJson = parseJSON(inputData);
-      inputs = [singleJson];
-    } catch {
-      // Single JSON parse failed — try JSONL
-      inputs = parseJSONLines(inputData);
-      isJsonl = true;
+    if (direction === 'html:amb' || direction === 'html:nostr') {
+      const extracted = htmlToAmb(inputData, {
+        ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
+        ...(options.strict ? { strict: true } : {}),
+      });
+      if (!extracted.success || !extracted.data) {
+        throw new Error(extracted.error?.message || 'Extraction failed');
+      }
+      extracted.warnings?.forEach(warning => console.error(`⚠ Warning: ${warning}`));
+      inputs = [extracted.data];
+    } else {
+      if (options.baseUrl) {
+        console.error('⚠ Warning: --base-url option is ignored for JSON input');
+      }
+      ({ inputs, isJsonl } = parseDocuments(inputData, inputFilePath));
     }
 
-    // Warn about inapplicable options for nostr:amb
-    if (direction === 'nostr:amb') {
+    // Warn about inapplicable options when producing AMB
+    if (!toNostr) {
       if (options.nsec || options.privateKey) {
-        console.error('⚠ Warning: --nsec and --private-key options are ignored for nostr:amb conversion');
+        console.error(`⚠ Warning: --nsec and --private-key options are ignored for ${direction} conversion`);
       }
       if (options.tags) {
-        console.error('⚠ Warning: --tags option is ignored for nostr:amb conversion');
+        console.error(`⚠ Warning: --tags option is ignored for ${direction} conversion`);
+      }
+      if (options.enrichConcepts || options.vocabulary?.length) {
+        const option = options.enrichConcepts ? '--enrich-concepts' : '--vocabulary';
+        console.error(`⚠ Warning: ${option} option is ignored for ${direction} conversion`);
       }
+    } else if (options.markdown || options.cite) {
+      const option = options.markdown ? '--markdown' : '--cite';
+      console.error(`⚠ Warning: ${option} option is ignored for ${direction} conversion`);
     }
 
-    info(`Converting ${isJsonl ? `${inputs.length} objects` : '1 object'} ${direction === 'amb:nostr' ? 'AMB to Nostr' : 'Nostr to AMB'}...`);
+    const labels: Record<ConversionDirection, string> = {
+      'amb:nostr': 'AMB to Nostr',
+      'nostr:amb': 'Nostr to AMB',
+      'html:amb': 'HTML to AMB',
+      'html:nostr': 'HTML to Nostr',
+    };
+    info(`Converting ${isJsonl ? `${inputs.length} objects` : '1 object'} ${labels[direction]}...`);
 
     const results: string[] = [];
+    // Records written as Markdown files or a citation list once all are converted
+    const collected: AmbLearningResource[] = [];
+    const addresses = new Map<AmbLearningResource, string>();
     let errorCount = 0;
 
     // Use incrementing timestamps for bulk conversions to ensure unique created_at
     // values, which prevents cursor-based pagination issues on relays.
+    // Deterministic events take created_at from the record instead.
     const baseTimestamp = Math.floor(Date.now() / 1000);
 
     for (let i = 0; i < inputs.length; i++) {
       const inputJson = inputs[i];
-      const lineLabel = isJsonl ? ` (line ${i + 1})` : '';
+      const lineLabel = isJsonl ? ` (record ${i + 1})` : '';
 
       try {
         let result: any;
 
-        if (direction === 'amb:nostr') {
-          const itemOptions = inputs.length > 1
+        if (toNostr) {
+          const itemOptions = inputs.length > 1 && !options.deterministic
             ? { ...conversionOptions, timestamp: baseTimestamp + i }
             : conversionOptions;
           const conversionResult = ambToNostr(inputJson, itemOptions);
@@ -144,8 +246,10 @@ async function executeConvert(
           }
 
           result = options.tags ? event.tags : event;
+        } else if (direction === 'html:amb') {
+          result = inputJson;
         } else {
-          const conversionResult = nostrToAmb(inputJson);
+          const conversionResult = nostrToAmb(inputJson, { strict: options.strict ?? false });
 
           if (!conversionResult.success) {
             throw new Error(conversionResult.error?.message || 'Conversion failed');
@@ -156,25 +260,38 @@ async function executeConvert(
           }
 
           result = conversionResult.data;
+          const address = nostrEventAddress(inputJson);
+          if (address) addresses.set(result, address);
         }
 
-        results.push(formatJSON(result, options.pretty));
+        if ((options.markdown || options.cite) && !toNostr) {
+          const cited = options.cite ? ambToCsl(result) : undefined;
+          if (cited && !cited.success) {
+            throw new Error(cited.error?.message || 'Citation failed');
+          }
+          collected.push(result);
+        } else {
+          results.push(formatJSON(result, options.pretty));
+        }
       } catch (err) {
         errorCount++;
         console.error(`✗ Error${lineLabel}: ${err instanceof Error ? err.message : 'Unknown error'}`);
       }
     }
 
-    if (results.length === 0) {
+    if (results.length === 0 && collected.length === 0) {
       throw new Error('All conversions failed');
     }
 
-    // Join results: pretty mode uses blank line separator, compact uses newline
-    const separator = options.pretty ? '\n\n' : '\n';
-    const outputData = results.join(separator);
-
-    // Write output
-    await writeOutput(outputData, options.output);
+    if (collected.length > 0 && options.cite) {
+      await writeOutput(formatCitations(collected, options.cite, addresses, options.pretty), options.output);
+    } else if (collected.length > 0) {
+      await writeMarkdown(collected, options.output);
+    } else {
+      // Join results: pretty mode uses blank line separator, compact uses newline
+      const separator = options.pretty ? '\n\n' : '\n';
+      await writeOutput(results.join(separator), options.output);
+    }
     
     if (options.output) {
       success(`Conversion complete! Output written to: ${options.output}`);
@@ -195,17 +312,31 @@ async function executeConvert(
  * Create convert command
  */
 export function createConvertCommand(): Command {
-  const command = new Command();
+  const command = new Command('convert');
   
   command
     .description('Convert between AMB and Nostr educational event formats')
-    .argument('<direction>', 'Conversion direction: "amb:nostr" or "nostr:amb"')
-    .argument('[input]', 'Input file path (omit to read from stdin)')
+    .argument('<direction>', 'Conversion direction: "amb:nostr", "nostr:amb", "html:amb" or "html:nostr"')
+    .argument('[input]', 'JSON, JSONL, YAML or Markdown (front matter) file (omit to read from stdin)')
     .option('-o, --output <file>', 'Output file path (omit to write to stdout)')
     .option('-p, --pretty', 'Pretty-print JSON output', false)
     .option('--tags', 'Output only the tags array', false)
     .option('--nsec <key>', 'Sign event with nsec (bech32 format private key)')
     .option('--private-key <key>', 'Sign event with hex private key')
+    .option('--strict', 'Fail instead of normalizing lossy or non-standard input', false)
+    .option('--d-tag <strategy>', 'd tag strategy: "uri" (default), "hash" or "slug"')
+    .option('--boundary-markers', 'Emit explicit boundary tags between entries of repeated nested properties', false)
+    .option('--base-url <url>', 'URL a saved HTML page came from (html:* directions)')
+    .option('--markdown', 'Write AMB as Markdown with YAML front matter (several records: -o names a directory)', false)
+    .option('--cite <format>', 'Write AMB as a citation list: "csl" (CSL-JSON) or "bibtex"')
+    .option('--deterministic', 'Byte-identical events for identical input (created_at from dateModified/datePublished)', false)
+    .option('--enrich-concepts', 'Fill missing concept labels from the bundled SKOS vocabularies', false)
+    .option(
+      '--vocabulary <file>',
+      'SKOS vocabulary (JSON-LD or Turtle) to fill concept labels from; repeatable',
+      (file: string, files: string[]) => [...files, file],
+      [] as string[]
+    )
     .action(async (directionStr: string, inputFile: string | undefined, options: ConvertCommandOptions) => {
       try {
         const direction = parseDirection(directionStr);
@@ -0,0 +1,82 @@
+import { Command } from 'commander';
+import { readInput, writeOutput, parseDocument, formatJSON } from '../utils/file-io.js';
+import { error as displayError, info, formatChange } from '../utils/output.js';
+import { diffAmb, diffNostrAmbEvents, FieldChange } from '../../diff/index.js';
+
+interface DiffCommandOptions {
+  output?: string;
+  json?: boolean;
+}
+
+/**
+ * True for a Nostr event, false for an AMB record
+ */
+function isEvent(value: any): boolean {
+  return typeof value?.kind === 'number' && Array.isArray(value?.tags);
+}
+
+/**
+ * Execute the diff. Exit code follows diff(1): 0 identical, 1 different,
+ * 2 on errors.
+ */
+async function executeDiff(
+  beforePath: string,
+  afterPath: string,
+  options: DiffCommandOptions
+): Promise<void> {
+  try {
+    const before = parseDocument(await readInput(beforePath), beforePath);
+    const after = parseDocument(await readInput(afterPath), afterPath);
+
+    if (isEvent(before) !== isEvent(after)) {
+      throw new Error('Cannot compare a Nostr event with an AMB record');
+    }
+
+    let changes: FieldChange[];
+    if (isEvent(before)) {
+      const result = diffNostrAmbEvents(before, after);
+      if (!result.success || !result.data) {
+        throw new Error(result.error?.message || 'Diff failed');
+      }
+      result.warnings?.forEach(warning => console.error(`⚠ Warning: ${warning}`));
+      changes = result.data;
+    } else {
+      changes = diffAmb(before, after);
+    }
+
+    const outputData = options.json
+      ? formatJSON(changes, true)
+      : changes.map(formatChange).join('\n');
+    if (options.json || changes.length > 0) {
+      await writeOutput(outputData, options.output);
+    }
+
+    if (changes.length > 0) {
+      info(`${changes.length} change${changes.length === 1 ? '' : 's'}`);
+      process.exit(1);
+    }
+    info('No changes');
+  } catch (err) {
+    displayError(err instanceof Error ? err.message : 'Unknown error occurred');
+    process.exit(2);
+  }
+}
+
+/**
+ * Create diff command
+ */
+export function createDiffCommand(): Command {
+  const command = new Command('diff');
+
+  command
+    .description('Show field-level changes between two AMB records or two kind-30142 events')
+    .argument('<before>', 'Original AMB record or event')
+    .argument('<after>', 'Updated AMB record or event')
+    .option('-o, --output <file>', 'Output file path (omit to write to stdout)')
+    .option('--json', 'Write the changes as JSON', false)
+    .action(async (beforeFile: string, afterFile: string, options: DiffCommandOptions) => {
+      await executeDiff(beforeFile, afterFile, options);
+    });
+
+  return command;
+}
@@ -0,0 +1,89 @@
+import { Command } from 'commander';
+import { readInput, writeOutput, parseDocument, formatJSON } from '../utils/file-io.js';
+import { success, error as displayError, info } from '../utils/output.js';
+import { csvToAmb } from '../../converters/index.js';
+import { CsvMapping } from '../../types/index.js';
+
+interface ImportCsvCommandOptions {
+  mapping: string;
+  output?: string;
+  delimiter?: string;
+  language?: string;
+  strict?: boolean;
+}
+
+/**
+ * Convert a CSV/TSV spreadsheet to AMB records, one per line, ready for
+ * `convert amb:nostr`
+ */
+async function executeImportCsv(inputFilePath: string | undefined, options: ImportCsvCommandOptions): Promise<void> {
+  try {
+    const mapping = parseDocument(await readInput(options.mapping), options.mapping) as CsvMapping;
+    if (options.delimiter) {
+      mapping.delimiter = options.delimiter === '\\t' || options.delimiter === 'tab' ? '\t' : options.delimiter;
+    }
+
+    const inputData = await readInput(inputFilePath);
+    if (!inputData.trim()) {
+      throw new Error('Input is empty');
+    }
+
+    const imported = csvToAmb(inputData, mapping, {
+      ...(options.language ? { defaultLanguage: options.language } : {}),
+      ...(options.strict ? { strict: true } : {}),
+    });
+    if (!imported.success || !imported.data) {
+      throw new Error(imported.error?.message || 'Import failed');
+    }
+    imported.warnings?.forEach(message => console.error(`⚠ Warning: ${message}`));
+
+    const records = imported.data;
+    info(`Converting ${records.length} rows to AMB...`);
+
+    const lines: string[] = [];
+    let errorCount = 0;
+    for (const { row, result } of records) {
+      if (!result.success || !result.data) {
+        errorCount++;
+        console.error(`✗ Error (row ${row}): ${result.error?.message || 'Conversion failed'}`);
+        continue;
+      }
+      result.warnings?.forEach(message => console.error(`⚠ Warning (row ${row}): ${message}`));
+      lines.push(formatJSON(result.data));
+    }
+
+    if (lines.length === 0) {
+      throw new Error(errorCount > 0 ? 'All conversions failed' : 'Spreadsheet has no rows');
+    }
+
+    await writeOutput(lines.join('\n'), options.output);
+    const written = options.output ? `; output written to: ${options.output}` : '';
+    success(`Converted ${lines.length} of ${records.length} rows${written}`);
+  } catch (err) {
+    displayError(err instanceof Error ? err.message : 'Unknown error occurred');
+    process.exit(1);
+  }
+}
+
+/**
+ * Create import command
+ */
+export function createImportCommand(): Command {
+  const command = new Command('import');
+  command.description('Import metadata from other formats as AMB records, one per line');
+
+  command
+    .command('csv')
+    .description('Convert a CSV/TSV spreadsheet to AMB records using a column mapping')
+    .argument('[input]', 'CSV/TSV file (omit to read from stdin)')
+    .requiredOption('-m, --mapping <file>', 'JSON or YAML mapping of columns to AMB paths')
+    .option('-o, --output <file>', 'Output file path (omit to write to stdout)')
+    .option('--delimiter <char>', 'Field delimiter, e.g. ";" or "tab" (overrides the mapping; detected by default)')
+    .option('--language <code>', 'Language of the records (defaults to "de")')
+    .option('--strict', 'Fail rows instead of dropping values AMB cannot represent', false)
+    .action(async (inputFile: string | undefined, options: ImportCsvCommandOptions) => {
+      await executeImportCsv(inputFile, options);
+    });
+
+  return command;
+}
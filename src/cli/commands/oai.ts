@@ -0,0 +1,125 @@
+import { Command } from 'commander';
+import { createWriteStream } from 'fs';
+import { Writable } from 'stream';
+import { readInput, formatJSON } from '../utils/file-io.js';
+import { success, error as displayError, info, warning } from '../utils/output.js';
+import { ambToNostr, oaiPmhToAmb } from '../../converters/index.js';
+import { signNostrEvent } from '../../utils/signing.js';
+import { EventCommandOptions, parseConversionOptions } from '../utils/conversion-options.js';
+
+interface OaiCommandOptions extends EventCommandOptions {
+  output?: string;
+  amb?: boolean;
+  language?: string;
+}
+
+/**
+ * Convert a saved OAI-PMH ListRecords response, writing one line per record.
+ * The whole response is read and parsed first; a failing record is reported
+ * and skipped.
+ */
+async function executeOai(inputFilePath: string, options: OaiCommandOptions): Promise<void> {
+  try {
+    const { conversionOptions, privateKeyHex } = parseConversionOptions(options);
+
+    const inputData = await readInput(inputFilePath);
+    if (!inputData.trim()) {
+      throw new Error('Input is empty');
+    }
+
+    const listResult = oaiPmhToAmb(inputData, {
+      ...(options.strict ? { strict: true } : {}),
+      ...(options.language ? { defaultLanguage: options.language } : {}),
+    });
+    if (!listResult.success || !listResult.data) {
+      throw new Error(listResult.error?.message || 'Conversion failed');
+    }
+    const { records, resumptionToken } = listResult.data;
+
+    info(`Converting ${records.length} OAI-PMH records ${options.amb ? 'to AMB' : 'to Nostr events'}...`);
+
+    const output: Writable = options.output ? createWriteStream(options.output, 'utf-8') : process.stdout;
+    const baseTimestamp = Math.floor(Date.now() / 1000);
+    let written = 0;
+    let deletedCount = 0;
+    let errorCount = 0;
+
+    for (let i = 0; i < records.length; i++) {
+      const { identifier, deleted, result } = records[i]!;
+      const label = ` (${identifier || `record ${i + 1}`})`;
+
+      if (deleted || !result) {
+        deletedCount++;
+        continue;
+      }
+
+      try {
+        if (!result.success || !result.data) {
+          throw new Error(result.error?.message || 'Conversion failed');
+        }
+        result.warnings?.forEach(message => console.error(`⚠ Warning${label}: ${message}`));
+
+        let line: unknown = result.data;
+        if (!options.amb) {
+          // Incrementing timestamps keep created_at unique, as in convert
+          const itemOptions = options.deterministic ? conversionOptions : { ...conversionOptions, timestamp: baseTimestamp + i };
+          const eventResult = ambToNostr(result.data, itemOptions);
+          if (!eventResult.success || !eventResult.data) {
+            throw new Error(eventResult.error?.message || 'Conversion failed');
+          }
+          eventResult.warnings?.forEach(message => console.error(`⚠ Warning${label}: ${message}`));
+          line = privateKeyHex ? signNostrEvent(eventResult.data, privateKeyHex) : eventResult.data;
+        }
+
+        output.write(formatJSON(line) + '\n');
+        written++;
+      } catch (err) {
+        errorCount++;
+        console.error(`✗ Error${label}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    }
+
+    if (options.output) {
+      await new Promise<void>((resolve, reject) => output.end((err?: Error | null) => (err ? reject(err) : resolve())));
+    }
+
+    if (deletedCount > 0) {
+      info(`Skipped ${deletedCount} deleted records`);
+    }
+    if (resumptionToken) {
+      warning(`Response is incomplete; fetch the next page with resumptionToken=${resumptionToken}`);
+    }
+    if (written === 0 && errorCount > 0) {
+      throw new Error('All conversions failed');
+    }
+    success(`Converted ${written} of ${records.length} records${options.output ? `; output written to: ${options.output}` : ''}`);
+  } catch (err) {
+    displayError(err instanceof Error ? err.message : 'Unknown error occurred');
+    process.exit(1);
+  }
+}
+
+/**
+ * Create oai command
+ */
+export function createOaiCommand(): Command {
+  const command = new Command('oai');
+
+  command
+    .description('Convert a saved OAI-PMH ListRecords response (oai_dc) to Nostr events, one per line')
+    .argument('<input>', 'OAI-PMH ListRecords XML file')
+    .option('-o, --output <file>', 'Output file path (omit to write to stdout)')
+    .option('--amb', 'Write AMB records instead of Nostr events', false)
+    .option('--language <code>', 'Language for records whose titles carry no xml:lang')
+    .option('--nsec <key>', 'Sign events with nsec (bech32 format private key)')
+    .option('--private-key <key>', 'Sign events with hex private key')
+    .option('--strict', 'Fail records instead of dropping values AMB cannot represent', false)
+    .option('--d-tag <strategy>', 'd tag strategy: "uri" (default), "hash" or "slug"')
+    .option('--boundary-markers', 'Emit explicit boundary tags between entries of repeated nested properties', false)
+    .option('--deterministic', 'Byte-identical events for identical input (created_at from dateModified/datePublished)', false)
+    .action(async (inputFile: string, options: OaiCommandOptions) => {
+      await executeOai(inputFile, options);
+    });
+
+  return command;
+}
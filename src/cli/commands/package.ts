@@ -0,0 +1,86 @@
+import { Command } from 'commander';
+import { stat } from 'fs/promises';
+import { readInput, writeOutput, formatJSON } from '../utils/file-io.js';
+import { success, error as displayError, info } from '../utils/output.js';
+import { ambCollectionToNostr, manifestToAmb, packageToAmb } from '../../converters/index.js';
+import { ManifestToAmbOptions } from '../../types/index.js';
+import { signNostrEvent } from '../../utils/signing.js';
+import { EventCommandOptions, parseConversionOptions } from '../utils/conversion-options.js';
+
+interface PackageCommandOptions extends EventCommandOptions {
+  output?: string;
+  amb?: boolean;
+  baseUrl?: string;
+  language?: string;
+}
+
+/**
+ * Convert an IMS Common Cartridge / SCORM package (unzipped directory or its
+ * imsmanifest.xml) to linked events, one per line
+ */
+async function executePackage(inputPath: string, options: PackageCommandOptions): Promise<void> {
+  try {
+    const { conversionOptions, privateKeyHex } = parseConversionOptions(options);
+
+    const importOptions: ManifestToAmbOptions = {
+      ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
+      ...(options.language ? { defaultLanguage: options.language } : {}),
+      ...(options.strict ? { strict: true } : {}),
+    };
+    // A directory is read as an unzipped package, anything else as the manifest itself
+    const isDirectory = await stat(inputPath).then(stats => stats.isDirectory(), () => false);
+    const imported = isDirectory
+      ? await packageToAmb(inputPath, importOptions)
+      : manifestToAmb(await readInput(inputPath), importOptions);
+    if (!imported.success || !imported.data) {
+      throw new Error(imported.error?.message || 'Import failed');
+    }
+    imported.warnings?.forEach(message => console.error(`⚠ Warning: ${message}`));
+    const records = imported.data;
+
+    info(`Converting a course with ${records.length - 1} parts ${options.amb ? 'to AMB' : 'to Nostr events'}...`);
+
+    let lines: unknown[] = records;
+    if (!options.amb) {
+      const converted = ambCollectionToNostr(records, conversionOptions);
+      if (!converted.success || !converted.data) {
+        throw new Error(converted.error?.message || 'Conversion failed');
+      }
+      // The same warning (e.g. the default pubkey) may come from every record
+      new Set(converted.warnings).forEach(message => console.error(`⚠ Warning: ${message}`));
+      lines = privateKeyHex ? converted.data.map(event => signNostrEvent(event, privateKeyHex!)) : converted.data;
+    }
+
+    await writeOutput(lines.map(line => formatJSON(line)).join('\n'), options.output);
+    success(`Converted ${records.length} records${options.output ? `; output written to: ${options.output}` : ''}`);
+  } catch (err) {
+    displayError(err instanceof Error ? err.message : 'Unknown error occurred');
+    process.exit(1);
+  }
+}
+
+/**
+ * Create package command
+ */
+export function createPackageCommand(): Command {
+  const command = new Command('package');
+
+  command
+    .description('Convert an IMS Common Cartridge or SCORM package to linked Nostr events, one per line')
+    .argument('<input>', 'Unzipped package directory or its imsmanifest.xml')
+    .option('-o, --output <file>', 'Output file path (omit to write to stdout)')
+    .option('--amb', 'Write AMB records instead of Nostr events', false)
+    .option('--base-url <url>', 'URL the package content is published under (course id and item URLs)')
+    .option('--language <code>', 'Language for records whose metadata declares none')
+    .option('--nsec <key>', 'Sign events with nsec (bech32 format private key)')
+    .option('--private-key <key>', 'Sign events with hex private key')
+    .option('--strict', 'Fail instead of dropping metadata AMB cannot represent or cannot read', false)
+    .option('--d-tag <strategy>', 'd tag strategy: "uri" (default), "hash" or "slug"')
+    .option('--boundary-markers', 'Emit explicit boundary tags between entries of repeated nested properties', false)
+    .option('--deterministic', 'Byte-identical events for identical input (created_at from dateModified/datePublished)', false)
+    .action(async (inputPath: string, options: PackageCommandOptions) => {
+      await executePackage(inputPath, options);
+    });
+
+  return command;
+}
@@ -0,0 +1,91 @@
+import { Command } from 'commander';
+import { readInput, writeOutput, parseDocuments, formatJSON } from '../utils/file-io.js';
+import { success, error as displayError, info, formatChange } from '../utils/output.js';
+import { checkRoundTrip } from '../../diff/index.js';
+import { ConversionOptions } from '../../types/index.js';
+
+interface RoundtripCommandOptions {
+  output?: string;
+  json?: boolean;
+  boundaryMarkers?: boolean;
+}
+
+/**
+ * Execute the round-trip check; exits non-zero if any record loses data
+ */
+async function executeRoundtrip(
+  inputFilePath: string | undefined,
+  options: RoundtripCommandOptions
+): Promise<void> {
+  try {
+    const inputData = await readInput(inputFilePath);
+
+    if (!inputData.trim()) {
+      throw new Error('Input is empty');
+    }
+
+    const { inputs, isJsonl } = parseDocuments(inputData, inputFilePath);
+    const conversionOptions: ConversionOptions = {};
+    if (options.boundaryMarkers) {
+      conversionOptions.boundaryMarkers = true;
+    }
+
+    info(`Checking ${isJsonl ? `${inputs.length} records` : '1 record'}...`);
+
+    const lines: string[] = [];
+    let lossyCount = 0;
+
+    for (let i = 0; i < inputs.length; i++) {
+      const record = inputs[i];
+      const label = record?.id ?? (isJsonl ? `record ${i + 1}` : 'input');
+      const result = checkRoundTrip(record, conversionOptions);
+
+      if (!result.success || !result.data) {
+        lossyCount++;
+        const message = result.error?.message || 'Conversion failed';
+        lines.push(options.json ? formatJSON({ id: label, error: message }) : `✗ ${label}: ${message}`);
+        continue;
+      }
+
+      const { lossless, changes } = result.data;
+      if (!lossless) lossyCount++;
+
+      if (options.json) {
+        lines.push(formatJSON({ id: label, lossless, changes }));
+      } else {
+        lines.push(`${lossless ? '✓' : '✗'} ${label}`);
+        lines.push(...changes.map(formatChange));
+      }
+    }
+
+    await writeOutput(lines.join('\n'), options.output);
+
+    if (lossyCount > 0) {
+      displayError(`${lossyCount} of ${inputs.length} records do not survive the round trip`);
+      process.exit(1);
+    }
+    success('All records survive the round trip');
+  } catch (err) {
+    displayError(err instanceof Error ? err.message : 'Unknown error occurred');
+    process.exit(1);
+  }
+}
+
+/**
+ * Create roundtrip command
+ */
+export function createRoundtripCommand(): Command {
+  const command = new Command('roundtrip');
+
+  command
+    .description('Check that AMB records survive AMB → Nostr → AMB unchanged (JSON or JSONL)')
+    .argument('[input]', 'Input file path (omit to read from stdin)')
+    .option('-o, --output <file>', 'Report file path (omit to write to stdout)')
+    .option('--json', 'Write one JSON report per record', false)
+    .option('--boundary-markers', 'Convert with explicit object boundaries', false)
+    .action(async (inputFile: string | undefined, options: RoundtripCommandOptions) => {
+      await executeRoundtrip(inputFile, options);
+    });
+
+  return command;
+}
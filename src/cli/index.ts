@@ -2,6 +2,11 @@
 
 import { Command } from 'commander';
 import { createConvertCommand } from './commands/convert.js';
+import { createRoundtripCommand } from './commands/roundtrip.js';
+import { createDiffCommand } from './commands/diff.js';
+import { createOaiCommand } from './commands/oai.js';
+import { createPackageCommand } from './commands/package.js';
+import { createImportCommand } from './commands/import.js';
 import packageJson from '../../package.json' with { type: 'json' };
 
 const VERSION = packageJson.version;
@@ -10,15 +15,21 @@ const VERSION = packageJson.version;
  * Main CLI entry point
  */
 async function main() {
-  // Create program that directly uses convert command functionality
-  const convertCmd = createConvertCommand();
-  
-  // Configure the command as the main program
-  convertCmd
+  const program = new Command();
+
+  program
     .name('amb-convert')
     .version(VERSION);
 
-  await convertCmd.parseAsync(process.argv);
+  // convert stays the default, so `amb-convert amb:nostr file.json` keeps working
+  program.addCommand(createConvertCommand(), { isDefault: true });
+  program.addCommand(createRoundtripCommand());
+  program.addCommand(createDiffCommand());
+  program.addCommand(createOaiCommand());
+  program.addCommand(createPackageCommand());
+  program.addCommand(createImportCommand());
+
+  await program.parseAsync(process.argv);
 }
 
 // Run CLI
@@ -0,0 +1,61 @@
+import { ConversionOptions, DTagStrategy } from '../../types/index.js';
+import { parsePrivateKey, derivePublicKey } from '../../utils/signing.js';
+import { info } from './output.js';
+
+/**
+ * Flags shared by the commands that write Nostr events
+ */
+export interface EventCommandOptions {
+  nsec?: string;
+  privateKey?: string;
+  strict?: boolean;
+  deterministic?: boolean;
+  dTag?: string;
+  boundaryMarkers?: boolean;
+}
+
+/**
+ * ambToNostr options from the command flags, with the key to sign with
+ */
+export interface ParsedConversionOptions {
+  conversionOptions: ConversionOptions;
+  privateKeyHex?: string;
+}
+
+const D_TAG_STRATEGIES: readonly string[] = ['uri', 'hash', 'slug'];
+
+/**
+ * Parse the signing key, --strict, --deterministic, --boundary-markers and
+ * --d-tag flags into ambToNostr options. The key (which also sets the pubkey)
+ * is only read with `sign`; giving both --nsec and --private-key is an error
+ * either way.
+ */
+export function parseConversionOptions(options: EventCommandOptions, sign = true): ParsedConversionOptions {
+  if (options.nsec && options.privateKey) {
+    throw new Error('Cannot specify both --nsec and --private-key options');
+  }
+
+  const parsed: ParsedConversionOptions = { conversionOptions: {} };
+  const { conversionOptions } = parsed;
+  if (sign && (options.nsec || options.privateKey)) {
+    parsed.privateKeyHex = parsePrivateKey(options.nsec || options.privateKey!);
+    conversionOptions.pubkey = derivePublicKey(parsed.privateKeyHex);
+    info(`Derived pubkey: ${conversionOptions.pubkey}`);
+  }
+  if (options.strict) {
+    conversionOptions.strict = true;
+  }
+  if (options.deterministic) {
+    conversionOptions.deterministicIds = true;
+  }
+  if (options.boundaryMarkers) {
+    conversionOptions.boundaryMarkers = true;
+  }
+  if (options.dTag) {
+    if (!D_TAG_STRATEGIES.includes(options.dTag)) {
+      throw new Error(`Invalid --d-tag strategy: "${options.dTag}". Must be one of ${D_TAG_STRATEGIES.join(', ')}`);
+    }
+    conversionOptions.dTagStrategy = options.dTag as DTagStrategy;
+  }
+  return parsed;
+}
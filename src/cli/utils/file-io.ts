@@ -1,5 +1,8 @@
-import { readFile, writeFile } from 'fs/promises';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { extname, join } from 'path';
 import { stdin, stdout } from 'process';
+import { markdownToAmb } from '../../converters/markdownToAmb.js';
+import { parseYaml, splitFrontMatter } from '../../utils/yaml.js';
 
 /**
  * Read JSON data from a file or stdin
@@ -43,6 +46,16 @@ export async function writeOutput(
   }
 }
 
+/**
+ * Write files into a directory, creating it if needed
+ */
+export async function writeFiles(directory: string, files: Array<[name: string, data: string]>): Promise<void> {
+  await mkdir(directory, { recursive: true });
+  for (const [name, data] of files) {
+    await writeFile(join(directory, name), data, 'utf-8');
+  }
+}
+
 /**
  * Parse JSON data with error handling
  */
@@ -72,6 +85,83 @@ export function parseJSONLines(data: string): any[] {
   });
 }
 
+/**
+ * Parse input as a single JSON document, falling back to JSONL
+ */
+export function parseJSONOrLines(data: string): { inputs: any[]; isJsonl: boolean } {
+  try {
+    return { inputs: [parseJSON(data)], isJsonl: false };
+  } catch {
+    // Single JSON parse failed — try JSONL
+    return { inputs: parseJSONLines(data), isJsonl: true };
+  }
+}
+
+/**
+ * Read a Markdown file with front matter as an AMB record (the body becomes
+ * its description)
+ */
+function parseMarkdown(data: string): any {
+  const result = markdownToAmb(data);
+  if (!result.success) {
+    throw new Error(result.error?.message || 'Invalid Markdown front matter');
+  }
+  return result.data;
+}
+
+/**
+ * Parse a YAML document: a mapping is one record, a top-level list holds one
+ * record per item (reported per item, like JSONL)
+ */
+function parseYamlDocuments(data: string): { inputs: any[]; isJsonl: boolean } {
+  const value = parseYaml(data);
+  if (!value || typeof value !== 'object') {
+    throw new Error('YAML input must be a mapping or a list');
+  }
+  return Array.isArray(value) ? { inputs: value, isJsonl: true } : { inputs: [value], isJsonl: false };
+}
+
+/**
+ * Parse input as JSON, JSONL, YAML or Markdown with YAML front matter. The
+ * file extension decides (.yaml/.yml, .md/.markdown); otherwise, e.g. on
+ * stdin, JSON and JSONL are tried first, then front matter, then YAML.
+ * `isJsonl` is set for JSONL and YAML lists, which hold several records.
+ */
+export function parseDocuments(data: string, filePath?: string): { inputs: any[]; isJsonl: boolean } {
+  const extension = filePath ? extname(filePath).toLowerCase() : '';
+  if (extension === '.md' || extension === '.markdown') {
+    return { inputs: [parseMarkdown(data)], isJsonl: false };
+  }
+  if (extension === '.yaml' || extension === '.yml') {
+    return parseYamlDocuments(data);
+  }
+  try {
+    return parseJSONOrLines(data);
+  } catch (error) {
+    if (splitFrontMatter(data)) {
+      return { inputs: [parseMarkdown(data)], isJsonl: false };
+    }
+    try {
+      return parseYamlDocuments(data);
+    } catch {
+      // Not YAML either: report the JSON error
+      throw error;
+    }
+  }
+}
+
+/**
+ * Parse a single JSON, YAML or Markdown front matter document (see
+ * parseDocuments)
+ */
+export function parseDocument(data: string, filePath?: string): any {
+  const { inputs, isJsonl } = parseDocuments(data, filePath);
+  if (isJsonl) {
+    throw new Error(`Expected one document, got ${inputs.length} records`);
+  }
+  return inputs[0];
+}
+
 /**
  * Format JSON data for output
  */
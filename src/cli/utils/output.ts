@@ -1,4 +1,5 @@
 import chalk from 'chalk';
+import type { FieldChange } from '../../diff/index.js';
 
 /**
  * Display success message
@@ -27,3 +28,26 @@ export function info(message: string): void {
 export function warning(message: string): void {
   console.error(chalk.yellow('⚠'), message);
 }
+
+/**
+ * Shorten a value for the one-line change listing
+ */
+function preview(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > 60 ? `${text.slice(0, 59)}…` : text;
+}
+
+/**
+ * Render one change as a report line
+ */
+export function formatChange(change: FieldChange): string {
+  const kind = change.kind.padEnd(8);
+  switch (change.kind) {
+    case 'added':
+      return `  ${chalk.green(kind)} ${change.path}: ${preview(change.after)}`;
+    case 'removed':
+      return `  ${chalk.red(kind)} ${change.path}: ${preview(change.before)}`;
+    default:
+      return `  ${chalk.yellow(kind)} ${change.path}: ${preview(change.before)} → ${preview(change.after)}`;
+  }
+}
@@ -0,0 +1,13 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { SkosVocabulary } from '../../types/index.js';
+import { parseVocabulary, VocabularyFormat } from '../../vocabularies/index.js';
+
+/**
+ * Read a SKOS vocabulary file: Turtle for `.ttl`, JSON-LD otherwise unless
+ * `format` says so
+ */
+export async function loadVocabulary(path: string, format?: VocabularyFormat): Promise<SkosVocabulary> {
+  const text = await readFile(path, 'utf-8');
+  return parseVocabulary(text, format ?? (extname(path).toLowerCase() === '.ttl' ? 'turtle' : 'jsonld'));
+}
@@ -0,0 +1,112 @@
+/**
+ * Converter for AMB metadata to BibTeX citation entries
+ */
+
+import {
+  AmbLearningResource,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  AmbToBibtexOptions,
+  CslName,
+} from '../types/index.js';
+import { splitPersonName } from '../utils/personName.js';
+import { slugify } from '../utils/slug.js';
+import { ambToCsl } from './ambToCsl.js';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Characters BibTeX / LaTeX treat specially in field text. */
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '&': '\\&',
+  '%': '\\%',
+  $: '\\$',
+  '#': '\\#',
+  _: '\\_',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+/** Field text with LaTeX special characters escaped; non-ASCII text stays UTF-8. */
+function escape(text: string): string {
+  return text.replace(/[\\{}&%$#_~^]/g, char => SPECIAL_CHARACTERS[char]!);
+}
+
+/** A BibTeX name: "Family, Given" for people, braced for organizations so it is not split. */
+function bibtexName(name: CslName): string {
+  if ('literal' in name) return `{${escape(name.literal)}}`;
+  return name.given ? `${escape(name.family)}, ${escape(name.given)}` : escape(name.family);
+}
+
+/**
+ * Default citation key of a resource: first author's family name, year and
+ * first title word, as lowercase ASCII (e.g. "muster2024bruchrechnung")
+ */
+export function citationKey(resource: AmbLearningResource): string {
+  const creator = resource.creator?.[0];
+  const author = creator
+    ? creator.type === 'Person'
+      ? splitPersonName(creator).familyName
+      : creator.name.split(/\s+/)[0] ?? ''
+    : '';
+  const word = slugify(resource.name ?? '').split('-')[0] ?? '';
+  const key = `${slugify(author).replace(/-/g, '')}${resource.datePublished?.slice(0, 4) ?? ''}${word}`;
+  return key || 'resource';
+}
+
+/**
+ * Convert an AMB learning resource to a BibTeX entry with the fields of
+ * `ambToCsl`: `@book` for textbooks, `@misc` for everything else, with
+ * `url`, `doi`, `abstract` and `keywords` fields reference managers read.
+ */
+export function ambToBibtex(
+  ambResource: AmbLearningResource,
+  options: AmbToBibtexOptions = {}
+): ConversionResult<string> {
+  const { key, ...cslOptions } = options;
+  const csl = ambToCsl(ambResource, cslOptions);
+  if (!csl.success || !csl.data) {
+    return csl.error ? { success: false, error: csl.error } : { success: false };
+  }
+
+  try {
+    const item = csl.data;
+    const [year, month] = item.issued?.['date-parts'][0] ?? [];
+    const fields: Array<[string, string | undefined]> = [
+      ['author', item.author?.map(bibtexName).join(' and ')],
+      // Double braces keep the title's capitalization
+      ['title', `{${escape(item.title)}}`],
+      ['publisher', item.publisher && escape(item.publisher)],
+      ['year', year?.toString()],
+      ['month', month ? MONTHS[month - 1] : undefined],
+      ['url', item.URL],
+      ['doi', item.DOI],
+      ['abstract', item.abstract && escape(item.abstract)],
+      ['keywords', item.keyword && escape(item.keyword)],
+      ['language', item.language],
+    ];
+    // Month macros (jan, feb, …) go unbraced
+    const lines = fields.flatMap(([name, value]) =>
+      value ? [`  ${name} = ${name === 'month' ? value : `{${value}}`}`] : []
+    );
+
+    const type = item.type === 'book' ? 'book' : 'misc';
+    const entry = `@${type}{${key ?? citationKey(ambResource)},\n${lines.join(',\n')}\n}\n`;
+    return { success: true, data: entry };
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Converter for AMB metadata to CSL-JSON citation items
+ */
+
+import {
+  AmbLearningResource,
+  Organization,
+  Person,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  AmbToCslOptions,
+  CslItem,
+  CslName,
+  getContextLanguage,
+} from '../types/index.js';
+import { splitPersonName } from '../utils/personName.js';
+import { nostrGatewayUrl } from '../utils/nostrIds.js';
+
+const HCRT = 'https://w3id.org/kim/hcrt/';
+
+/** A DOI, bare, as `doi:` URI or as doi.org URL. */
+const DOI = /^(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,}\/\S+)$/i;
+
+/** Ids a citation can link: web URLs and NIP-21 `nostr:` ids. */
+const LINKABLE = /^(?:https?|nostr):/i;
+
+/** CSL item types for learningResourceType concepts; anything else is a "document". */
+const CSL_TYPES: Record<string, string> = {
+  [HCRT + 'video']: 'motion_picture',
+  [HCRT + 'audio']: 'song',
+  [HCRT + 'image']: 'graphic',
+  [HCRT + 'diagram']: 'graphic',
+  [HCRT + 'map']: 'map',
+  [HCRT + 'data']: 'dataset',
+  [HCRT + 'application']: 'software',
+  [HCRT + 'textbook']: 'book',
+  [HCRT + 'slide']: 'speech',
+  [HCRT + 'web_page']: 'webpage',
+  [HCRT + 'portal']: 'webpage',
+};
+
+/** CSL name of a creator: people as family and given name without honorifics, organizations literally. */
+function cslName(entity: Person | Organization): CslName {
+  if (entity.type !== 'Person') return { literal: entity.name };
+  const { familyName, givenName } = splitPersonName(entity);
+  return givenName ? { family: familyName, given: givenName } : { family: familyName };
+}
+
+/**
+ * Convert an AMB learning resource to a CSL-JSON item for reference
+ * managers such as Zotero. The item cites `creator` as authors, `publisher`,
+ * `datePublished` as issue date and the first `mainEntityOfPage` as URL
+ * (with its DOI, if it is one). Without a landing page the resource id is
+ * the URL — for records from `nostrToAmb` with a slug `d` tag the event's
+ * `nostr:naddr…` id, or its gateway URL with `options.gateway`. Records whose
+ * id links nowhere (e.g. a `urn:uuid:` id restored from the alias tag) cite
+ * `options.naddr` instead.
+ */
+export function ambToCsl(
+  ambResource: AmbLearningResource,
+  options: AmbToCslOptions = {}
+): ConversionResult<CslItem> {
+  try {
+    if (!ambResource.id) {
+      throw new ConversionError('AMB resource must have an id', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+    if (!ambResource.name) {
+      throw new ConversionError('AMB resource must have a name', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+
+    const page = ambResource.mainEntityOfPage?.find(entry => LINKABLE.test(entry.id))?.id;
+    const url = page ?? (LINKABLE.test(ambResource.id) ? ambResource.id : options.naddr);
+    const doi = [url, ambResource.id].map(id => id?.match(DOI)?.[1]).find(Boolean);
+    const type = ambResource.learningResourceType?.map(concept => CSL_TYPES[concept.id]).find(Boolean);
+    const publisher = (ambResource.publisher ?? []).map(entity => entity.name).join('; ');
+    const [year, month, day] = (ambResource.datePublished?.slice(0, 10).split('-') ?? []).map(Number);
+    const dateParts = [year, month, day].filter((part): part is number => !!part);
+    const language = ambResource.inLanguage?.[0] ?? getContextLanguage(ambResource);
+
+    const item: CslItem = {
+      id: ambResource.id,
+      type: type ?? 'document',
+      title: ambResource.name,
+    };
+    const authors = (ambResource.creator ?? []).map(cslName);
+    if (authors.length > 0) item.author = authors;
+    if (publisher) item.publisher = publisher;
+    if (year) item.issued = { 'date-parts': [dateParts as [number, number?, number?]] };
+    if (url) item.URL = options.gateway ? nostrGatewayUrl(url, options.gateway) : url;
+    if (doi) item.DOI = doi;
+    if (ambResource.description) item.abstract = ambResource.description;
+    if (ambResource.keywords?.length) item.keyword = ambResource.keywords.join(', ');
+    if (language) item.language = language;
+    if (ambResource.license?.id) item.license = ambResource.license.id;
+
+    return { success: true, data: item };
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
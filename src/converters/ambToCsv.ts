@@ -0,0 +1,111 @@
+/**
+ * Converter for AMB metadata to CSV/TSV spreadsheets, driven by a
+ * column-mapping profile
+ */
+
+import {
+  AmbLearningResource,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarningCode,
+  CsvMapping,
+  AmbToCsvOptions,
+} from '../types/index.js';
+import { formatCsv } from '../utils/csv.js';
+import { createWarningCollector } from '../utils/warnings.js';
+import { CsvColumn, ENTRY_TYPES, csvPathPattern, leafPaths, parseCsvMapping } from './csvMapping.js';
+
+/** The value at `path` within `node`. */
+function getPath(node: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], node);
+}
+
+const isScalar = (value: unknown): value is string | number | boolean =>
+  ['string', 'number', 'boolean'].includes(typeof value);
+
+/** Values generated on import that need no column. */
+function isImplied(path: string, value: unknown): boolean {
+  if (path === 'type') return value === 'LearningResource';
+  if (!path.endsWith('[].type')) return false;
+  return value === 'Concept' || value === ENTRY_TYPES[path.slice(0, -'[].type'.length)];
+}
+
+/** The cell for one column of a resource. */
+function cell(resource: AmbLearningResource, column: CsvColumn): string {
+  const { head, entry, list } = column.parsed;
+  const labels = new Map(Object.entries(column.values ?? {}).map(([label, value]) => [value, label]));
+  const text = (value: unknown) => (isScalar(value) ? (labels.get(String(value)) ?? String(value)) : '');
+  const value = getPath(resource, head);
+  if (!list) return text(value);
+  const items = Array.isArray(value) ? value : [];
+  if (entry.length === 0) return items.filter(isScalar).map(text).join(column.separator ?? ';');
+
+  // Keep the positions of entries without a value, so the columns of a list still line up
+  const values = items.map(item => text(getPath(item, entry)));
+  while (values.length > 0 && !values[values.length - 1]) values.pop();
+  return values.join(column.separator ?? ';');
+}
+
+/**
+ * Convert AMB learning resources to a CSV spreadsheet with one row per
+ * resource and the mapping's columns, in order. Values no column holds are
+ * reported as UNSUPPORTED_PROPERTY; `@context`, `LearningResource` and the
+ * entry types csvToAmb fills in are not.
+ */
+export function ambToCsv(
+  resources: AmbLearningResource[],
+  mapping: CsvMapping,
+  options: AmbToCsvOptions = {}
+): ConversionResult<string> {
+  // Dropped values warn by default and fail in strict mode
+  const { warn: normalize, warnings } = createWarningCollector(options.strict);
+
+  try {
+    const columns = parseCsvMapping(mapping);
+    const covered = new Set(columns.map(column => csvPathPattern(column.parsed)));
+
+    const rows = resources.map(resource => {
+      if (!resource.id) {
+        throw new ConversionError('AMB resource must have an id', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+      }
+      const reported = new Set<string>();
+      for (const [path, value] of leafPaths(resource)) {
+        if (path.startsWith('@context') || covered.has(path) || isImplied(path, value) || reported.has(path)) continue;
+        reported.add(path);
+        normalize(
+          {
+            code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+            message: `${resource.id}: ${path} has no column; dropped`,
+            path: `$.${path}`,
+            value: String(value),
+          },
+          ConversionErrorCode.UNSUPPORTED_PROPERTY
+        );
+      }
+      return columns.map(column => cell(resource, column));
+    });
+
+    const result: ConversionResult<string> = {
+      success: true,
+      data: formatCsv([columns.map(column => column.column), ...rows], mapping.delimiter ?? ','),
+    };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
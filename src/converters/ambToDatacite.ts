@@ -0,0 +1,306 @@
+/**
+ * Converter for AMB metadata to DataCite metadata (the JSON of the DataCite
+ * REST API)
+ */
+
+import {
+  AmbLearningResource,
+  Organization,
+  Person,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarningCode,
+  AmbToDataciteOptions,
+  DataciteCreator,
+  DataciteFundingReference,
+  DataciteRecord,
+  DataciteRelatedIdentifier,
+  getContextLanguage,
+} from '../types/index.js';
+import { splitPersonName } from '../utils/personName.js';
+import { createWarningCollector } from '../utils/warnings.js';
+import { EU_REPO_NAMESPACE } from './dcVocabularies.js';
+import { AMB_TO_DATACITE_TYPE, DATACITE_RELATIONS, DOI_RESOLVER, spdxLicenseId } from './dataciteVocabularies.js';
+
+const HCRT = 'https://w3id.org/kim/hcrt/';
+const SPDX_LICENSES = 'https://spdx.org/licenses/';
+
+/** A DOI, bare, as `doi:` URI or as doi.org URL. */
+const DOI = /^(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,}\/\S+)$/i;
+
+/** AMB properties with a DataCite property. */
+const SUPPORTED_PROPERTIES = new Set([
+  '@context', 'id', 'type', 'name', 'description', 'keywords', 'about', 'creator', 'contributor', 'publisher',
+  'datePublished', 'dateCreated', 'dateModified', 'learningResourceType', 'encoding', 'inLanguage', 'license',
+  'isAccessibleForFree', 'funder', 'hasPart', 'isPartOf', 'isBasedOn', 'mainEntityOfPage',
+]);
+
+/** Person / organization properties a DataCite creator carries. */
+const AGENT_PROPERTIES = new Set(['type', 'name', 'id', 'affiliation']);
+
+/** Identifier scheme of an ORCID, ROR or Crossref Funder ID URI. */
+function identifierScheme(uri: string): { scheme: string; schemeUri?: string } {
+  const known: Array<[RegExp, string, string]> = [
+    [/^https?:\/\/orcid\.org\//, 'ORCID', 'https://orcid.org'],
+    [/^https?:\/\/ror\.org\//, 'ROR', 'https://ror.org'],
+    [/^https?:\/\/(?:dx\.)?doi\.org\/10\.13039\//, 'Crossref Funder ID', 'https://doi.org'],
+  ];
+  const match = known.find(([pattern]) => pattern.test(uri));
+  return match ? { scheme: match[1], schemeUri: match[2] } : { scheme: 'Other' };
+}
+
+/**
+ * Convert an AMB learning resource to a DataCite record (the attributes of
+ * the REST API JSON). The DOI comes from a doi.org `mainEntityOfPage` or id,
+ * the landing page `url` from the id. ORCID and ROR ids become name and
+ * affiliation identifiers, `about` concepts subjects with a valueUri, the
+ * learningResourceType the resourceType (its HCRT id) and a matching
+ * resourceTypeGeneral, relations relatedIdentifiers and funding schemes the
+ * award of the funder before them, so `dataciteToAmb` restores them.
+ * Educational properties and everything else DataCite cannot carry are
+ * reported as UNSUPPORTED_PROPERTY.
+ */
+export function ambToDatacite(
+  ambResource: AmbLearningResource,
+  options: AmbToDataciteOptions = {}
+): ConversionResult<DataciteRecord> {
+  // Dropped properties warn by default and fail in strict mode
+  const { warn: normalize, warnings } = createWarningCollector(options.strict);
+  const unsupported = (path: string, detail: string, value?: string) =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+        message: `${path} ${detail}; dropped`,
+        path,
+        ...(value !== undefined ? { value } : {}),
+      },
+      ConversionErrorCode.UNSUPPORTED_PROPERTY
+    );
+
+  try {
+    if (!ambResource.id) {
+      throw new ConversionError('AMB resource must have an id', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+    if (!ambResource.name) {
+      throw new ConversionError('AMB resource must have a name', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+    const language = getContextLanguage(ambResource);
+
+    for (const type of ambResource.type ?? []) {
+      if (type !== 'LearningResource') unsupported('$.type', `"${type}" has no DataCite property`, type);
+    }
+    for (const property of Object.keys(ambResource)) {
+      if (!SUPPORTED_PROPERTIES.has(property)) unsupported(`$.${property}`, 'has no DataCite property');
+    }
+
+    // The DOI names the resource; a landing page other than doi.org is its url
+    const pages = ambResource.mainEntityOfPage ?? [];
+    const doiPage = pages.find(page => DOI.test(page.id));
+    const doi = (doiPage?.id ?? ambResource.id).match(DOI)?.[1];
+    pages.forEach((page, index) => {
+      if (page !== doiPage) unsupported(`$.mainEntityOfPage[${index}]`, 'is not a DOI', page.id);
+    });
+
+    const creator = (entity: Person | Organization, path: string): DataciteCreator => {
+      for (const key of Object.keys(entity)) {
+        if (!AGENT_PROPERTIES.has(key)) unsupported(`${path}.${key}`, 'has no DataCite property');
+      }
+      const identifier = entity.id ? identifierScheme(entity.id) : undefined;
+      const nameIdentifiers = identifier
+        ? {
+            nameIdentifiers: [
+              {
+                nameIdentifier: entity.id!,
+                nameIdentifierScheme: identifier.scheme,
+                ...(identifier.schemeUri ? { schemeUri: identifier.schemeUri } : {}),
+              },
+            ],
+          }
+        : {};
+      if (entity.type !== 'Person') {
+        return { name: entity.name, nameType: 'Organizational', ...nameIdentifiers };
+      }
+
+      const { familyName, givenName } = splitPersonName(entity);
+      const affiliation = entity.affiliation && {
+        name: entity.affiliation.name,
+        ...(entity.affiliation.id
+          ? {
+              affiliationIdentifier: entity.affiliation.id,
+              affiliationIdentifierScheme: identifierScheme(entity.affiliation.id).scheme,
+            }
+          : {}),
+      };
+      return {
+        name: givenName ? `${familyName}, ${givenName}` : familyName,
+        nameType: 'Personal',
+        ...(givenName ? { givenName } : {}),
+        familyName,
+        ...nameIdentifiers,
+        ...(affiliation ? { affiliation: [affiliation] } : {}),
+      };
+    };
+
+    const datacite: DataciteRecord = {
+      ...(doi ? { doi } : {}),
+      ...(ambResource.id.match(DOI) ? {} : { url: ambResource.id }),
+      types: { resourceTypeGeneral: 'Other' },
+      titles: [{ title: ambResource.name, ...(language ? { lang: language } : {}) }],
+    };
+
+    const creators = (ambResource.creator ?? []).map((entity, index) => creator(entity, `$.creator[${index}]`));
+    if (creators.length > 0) datacite.creators = creators;
+
+    const [publisher, ...publishers] = ambResource.publisher ?? [];
+    if (publisher) {
+      datacite.publisher = {
+        name: publisher.name,
+        ...(publisher.id
+          ? { publisherIdentifier: publisher.id, publisherIdentifierScheme: identifierScheme(publisher.id).scheme }
+          : {}),
+      };
+    }
+    publishers.forEach((other, index) =>
+      unsupported(`$.publisher[${index + 1}]`, 'is an additional publisher', other.name)
+    );
+
+    const published = ambResource.datePublished ?? ambResource.dateCreated;
+    if (published) datacite.publicationYear = Number(published.slice(0, 4));
+
+    const subjects = [
+      ...(ambResource.about ?? []).map(concept => {
+        const labels = Object.entries(concept.prefLabel ?? {});
+        const [lang, label] = labels.find(([key]) => key === language) ?? labels[0] ?? [];
+        return { subject: label ?? concept.id, valueUri: concept.id, ...(lang ? { lang } : {}) };
+      }),
+      ...(ambResource.keywords ?? []).map(keyword => ({ subject: keyword, ...(language ? { lang: language } : {}) })),
+    ];
+    if (subjects.length > 0) datacite.subjects = subjects;
+
+    const contributors = (ambResource.contributor ?? []).map((entity, index) => ({
+      ...creator(entity, `$.contributor[${index}]`),
+      contributorType: 'Other',
+    }));
+    if (contributors.length > 0) datacite.contributors = contributors;
+
+    const dates = (['datePublished', 'dateCreated', 'dateModified'] as const).flatMap(property => {
+      const date = ambResource[property];
+      const dateType = { datePublished: 'Issued', dateCreated: 'Created', dateModified: 'Updated' }[property];
+      return date ? [{ date, dateType }] : [];
+    });
+    if (dates.length > 0) datacite.dates = dates;
+
+    const [inLanguage, ...languages] = ambResource.inLanguage ?? [];
+    if (inLanguage) datacite.language = inLanguage;
+    languages.forEach((other, index) =>
+      unsupported(`$.inLanguage[${index + 1}]`, 'is an additional language', other)
+    );
+
+    // Type: the HCRT id as resourceType, so it maps back to the same concept
+    const [learningResourceType, ...others] = ambResource.learningResourceType ?? [];
+    if (learningResourceType) {
+      const id = learningResourceType.id;
+      datacite.types = {
+        resourceTypeGeneral: AMB_TO_DATACITE_TYPE[id] ?? 'Other',
+        resourceType: id.startsWith(HCRT) ? id.slice(HCRT.length) : id,
+      };
+    }
+    others.forEach((other, index) =>
+      unsupported(`$.learningResourceType[${index + 1}]`, 'is an additional resource type', other.id)
+    );
+
+    const relatedIdentifiers: DataciteRelatedIdentifier[] = [];
+    for (const [relationType, property] of Object.entries(DATACITE_RELATIONS)) {
+      (ambResource[property] ?? []).forEach((reference, index) => {
+        for (const key of Object.keys(reference)) {
+          if (key !== 'id') unsupported(`$.${property}[${index}].${key}`, 'has no DataCite property');
+        }
+        const relatedDoi = reference.id.match(DOI)?.[1];
+        relatedIdentifiers.push({
+          relatedIdentifier: relatedDoi ?? reference.id,
+          relatedIdentifierType: relatedDoi ? 'DOI' : /^https?:\/\//i.test(reference.id) ? 'URL' : 'URN',
+          relationType,
+        });
+      });
+    }
+    if (relatedIdentifiers.length > 0) datacite.relatedIdentifiers = relatedIdentifiers;
+
+    const encoding = ambResource.encoding ?? [];
+    encoding.forEach((media, index) => {
+      for (const key of Object.keys(media)) {
+        if (!['type', 'encodingFormat'].includes(key)) {
+          unsupported(`$.encoding[${index}].${key}`, 'has no DataCite property');
+        }
+      }
+    });
+    const formats = [...new Set(encoding.flatMap(media => media.encodingFormat ?? []))];
+    if (formats.length > 0) datacite.formats = formats;
+
+    const rightsList: NonNullable<DataciteRecord['rightsList']> = [];
+    if (ambResource.license?.id) {
+      const spdx = spdxLicenseId(ambResource.license.id);
+      rightsList.push({
+        ...(ambResource.license.name ? { rights: ambResource.license.name } : {}),
+        rightsUri: ambResource.license.id,
+        ...(spdx ? { rightsIdentifier: spdx, rightsIdentifierScheme: 'SPDX', schemeUri: SPDX_LICENSES } : {}),
+      });
+    }
+    if (ambResource.isAccessibleForFree === true) {
+      rightsList.push({ rights: 'Open Access', rightsUri: `${EU_REPO_NAMESPACE}openAccess` });
+    } else if (ambResource.isAccessibleForFree === false) {
+      unsupported('$.isAccessibleForFree', 'has no DataCite value for false', 'false');
+    }
+    if (rightsList.length > 0) datacite.rightsList = rightsList;
+
+    if (ambResource.description) {
+      datacite.descriptions = [
+        { description: ambResource.description, descriptionType: 'Abstract', ...(language ? { lang: language } : {}) },
+      ];
+    }
+
+    // Funding: a funding scheme is the award of the funder before it
+    const fundingReferences: DataciteFundingReference[] = [];
+    (ambResource.funder ?? []).forEach((funder, index) => {
+      const previous = fundingReferences.at(-1);
+      if (funder.type === 'FundingScheme') {
+        if (!previous || previous.awardTitle) {
+          unsupported(`$.funder[${index}]`, 'is a funding scheme without a funder', funder.name);
+          return;
+        }
+        previous.awardTitle = funder.name;
+        if (funder.id) previous.awardUri = funder.id;
+        return;
+      }
+      fundingReferences.push({
+        funderName: funder.name,
+        ...(funder.id
+          ? { funderIdentifier: funder.id, funderIdentifierType: identifierScheme(funder.id).scheme }
+          : {}),
+      });
+    });
+    if (fundingReferences.length > 0) datacite.fundingReferences = fundingReferences;
+
+    const result: ConversionResult<DataciteRecord> = {
+      success: true,
+      data: datacite,
+    };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
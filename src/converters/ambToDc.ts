@@ -0,0 +1,154 @@
+/**
+ * Converter for AMB metadata to simple Dublin Core (oai_dc) XML
+ */
+
+import {
+  AmbLearningResource,
+  Organization,
+  Person,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarningCode,
+  AmbToDcOptions,
+  getContextLanguage,
+} from '../types/index.js';
+import { buildXml } from '../utils/xml.js';
+import { splitPersonName } from '../utils/personName.js';
+import { createWarningCollector } from '../utils/warnings.js';
+import { AMB_TO_DCMI_TYPE, EU_REPO_NAMESPACE } from './dcVocabularies.js';
+
+const OAI_DC_NAMESPACE = 'http://www.openarchives.org/OAI/2.0/oai_dc/';
+const DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+const OAI_DC_SCHEMA = 'http://www.openarchives.org/OAI/2.0/oai_dc.xsd';
+
+/** AMB properties with a Dublin Core element. */
+const SUPPORTED_PROPERTIES = new Set([
+  '@context', 'id', 'type', 'name', 'description', 'keywords', 'about', 'creator', 'contributor',
+  'publisher', 'datePublished', 'dateCreated', 'learningResourceType', 'encoding', 'inLanguage', 'license',
+  'isAccessibleForFree',
+]);
+
+/** Person / organization properties a Dublin Core name carries. */
+const AGENT_PROPERTIES = new Set(['type', 'name']);
+
+/**
+ * Convert an AMB learning resource to a simple Dublin Core (oai_dc) record.
+ * People are written as "Family, Given", `about` concepts and
+ * learningResourceType as URIs (DCMI Type terms where one matches), content
+ * URLs as further dc:identifiers, so `dcToAmb` restores them (concept
+ * labels are not written). Everything else Dublin Core cannot carry —
+ * educational properties, agent ids and affiliations, dateCreated next to
+ * datePublished, … — is reported as UNSUPPORTED_PROPERTY.
+ */
+export function ambToDc(
+  ambResource: AmbLearningResource,
+  options: AmbToDcOptions = {}
+): ConversionResult<string> {
+  // Dropped properties warn by default and fail in strict mode
+  const { warn: normalize, warnings } = createWarningCollector(options.strict);
+  const unsupported = (path: string, detail: string, value?: string) =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+        message: `${path} ${detail}; dropped`,
+        path,
+        ...(value !== undefined ? { value } : {}),
+      },
+      ConversionErrorCode.UNSUPPORTED_PROPERTY
+    );
+
+  try {
+    if (!ambResource.id) {
+      throw new ConversionError('AMB resource must have an id', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+    if (!ambResource.name) {
+      throw new ConversionError('AMB resource must have a name', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+    const language = getContextLanguage(ambResource);
+
+    for (const type of ambResource.type ?? []) {
+      if (type !== 'LearningResource') unsupported('$.type', `"${type}" has no Dublin Core element`, type);
+    }
+    for (const property of Object.keys(ambResource)) {
+      if (!SUPPORTED_PROPERTIES.has(property)) unsupported(`$.${property}`, 'has no Dublin Core element');
+    }
+    // dc:date holds one date; datePublished wins
+    if (ambResource.dateCreated && ambResource.datePublished) {
+      unsupported('$.dateCreated', 'has no Dublin Core element next to datePublished', ambResource.dateCreated);
+    }
+
+    const agentNames = (property: 'creator' | 'contributor' | 'publisher') =>
+      (ambResource[property] ?? []).map((entity, index) => {
+        for (const key of Object.keys(entity)) {
+          if (!AGENT_PROPERTIES.has(key)) unsupported(`$.${property}[${index}].${key}`, 'has no Dublin Core element');
+        }
+        if (entity.type !== 'Person') return (entity as Organization).name;
+        const { familyName, givenName } = splitPersonName(entity as Person);
+        return givenName ? `${familyName}, ${givenName}` : familyName;
+      });
+
+    const encoding = ambResource.encoding ?? [];
+    encoding.forEach((media, index) => {
+      for (const key of Object.keys(media)) {
+        if (!['type', 'contentUrl', 'encodingFormat'].includes(key)) {
+          unsupported(`$.encoding[${index}].${key}`, 'has no Dublin Core element');
+        }
+      }
+    });
+
+    const rights: string[] = [];
+    if (ambResource.license?.id) rights.push(ambResource.license.id);
+    if (ambResource.isAccessibleForFree === true) {
+      rights.push(`${EU_REPO_NAMESPACE}openAccess`);
+    } else if (ambResource.isAccessibleForFree === false) {
+      unsupported('$.isAccessibleForFree', 'has no Dublin Core value for false', 'false');
+    }
+
+    const lang = (value: string) => (language ? { '@xml:lang': language, '#text': value } : value);
+    const dc: Record<string, unknown> = {
+      '@xmlns:oai_dc': OAI_DC_NAMESPACE,
+      '@xmlns:dc': DC_NAMESPACE,
+      '@xmlns:xsi': XSI_NAMESPACE,
+      '@xsi:schemaLocation': `${OAI_DC_NAMESPACE} ${OAI_DC_SCHEMA}`,
+      'dc:title': [lang(ambResource.name)],
+      'dc:creator': agentNames('creator'),
+      'dc:subject': [
+        ...(ambResource.keywords ?? []).map(lang),
+        ...(ambResource.about ?? []).map(concept => concept.id),
+      ],
+      'dc:description': ambResource.description ? [lang(ambResource.description)] : [],
+      'dc:publisher': agentNames('publisher'),
+      'dc:contributor': agentNames('contributor'),
+      'dc:date': [ambResource.datePublished ?? ambResource.dateCreated].filter(Boolean),
+      'dc:type': (ambResource.learningResourceType ?? []).map(concept => AMB_TO_DCMI_TYPE[concept.id] ?? concept.id),
+      'dc:format': encoding.flatMap(media => media.encodingFormat ?? []),
+      'dc:identifier': [ambResource.id, ...encoding.flatMap(media => media.contentUrl ?? [])],
+      'dc:language': ambResource.inLanguage ?? [],
+      'dc:rights': rights,
+    };
+
+    const result: ConversionResult<string> = {
+      success: true,
+      data: buildXml({ 'oai_dc:dc': dc }),
+    };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Converter for AMB metadata to IEEE LOM XML
+ */
+
+import {
+  AmbLearningResource,
+  Concept,
+  Organization,
+  Person,
+  FundingScheme,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarningCode,
+  AmbToLomOptions,
+  getContextLanguage,
+} from '../types/index.js';
+import { buildXml } from '../utils/xml.js';
+import { formatVCard } from '../utils/vcard.js';
+import { splitPersonName } from '../utils/personName.js';
+import { createWarningCollector } from '../utils/warnings.js';
+import { AMB_TO_LOM, LOM_SOURCE } from './lomVocabularies.js';
+
+const LOM_NAMESPACE = 'http://ltsc.ieee.org/xsd/LOM';
+
+/** AMB properties LOM has no element for. */
+const UNSUPPORTED_PROPERTIES = [
+  'funder', 'assesses', 'conditionsOfAccess', 'trailer', 'caption', 'image',
+  'mainEntityOfPage', 'dateModified', 'ext',
+] as const;
+
+/** AMB concept properties written as LOM classifications. */
+const CLASSIFICATIONS: Array<[keyof AmbLearningResource, string]> = [
+  ['about', 'discipline'],
+  ['educationalLevel', 'educational level'],
+  ['teaches', 'educational objective'],
+  ['competencyRequired', 'prerequisite'],
+];
+
+const RELATIONS: Array<['hasPart' | 'isPartOf' | 'isBasedOn', string]> = [
+  ['isPartOf', 'ispartof'],
+  ['hasPart', 'haspart'],
+  ['isBasedOn', 'isbasedon'],
+];
+
+/** Namespace of a concept URI: everything up to the last `/` or `#`. */
+const namespaceOf = (uri: string) => uri.slice(0, Math.max(uri.lastIndexOf('/'), uri.lastIndexOf('#')) + 1);
+
+const langString = (value: string, language: string) => ({ string: { '@language': language, '#text': value } });
+
+/**
+ * LOM vocabulary element for a concept: the LOMv1.0 value where one exists,
+ * else the concept URI with its namespace as source
+ */
+function vocabularyElement(concept: Concept) {
+  const lom = AMB_TO_LOM[concept.id];
+  return lom ? { source: LOM_SOURCE, value: lom.value } : { source: namespaceOf(concept.id), value: concept.id };
+}
+
+function vCardFor(entity: Person | Organization | FundingScheme): string {
+  if (entity.type === 'Person') {
+    const person = entity as Person;
+    return formatVCard({
+      ...splitPersonName(person),
+      fn: person.name,
+      ...(person.honorificPrefix ? { honorificPrefix: person.honorificPrefix } : {}),
+      ...(person.honorificSuffix ? { honorificSuffix: person.honorificSuffix } : {}),
+      ...(person.affiliation?.name ? { org: person.affiliation.name } : {}),
+      ...(person.email ? { email: person.email } : {}),
+      ...(person.id ? { uid: person.id } : {}),
+    });
+  }
+  const organization = entity as Organization;
+  return formatVCard({
+    fn: organization.name,
+    org: organization.name,
+    ...(organization.url ? { url: organization.url } : {}),
+    ...(organization.email ? { email: organization.email } : {}),
+    ...(organization.id ? { uid: organization.id } : {}),
+  });
+}
+
+/**
+ * Convert an AMB learning resource to an IEEE LOM XML record. Concepts map to
+ * LOMv1.0 vocabulary values where one exists and are otherwise written with
+ * their URI as value (vocabulary elements carry no labels, so their
+ * `prefLabel` is not written); `educationalLevel`, `about`, `teaches` and
+ * `competencyRequired` become classifications with the concept URI as taxon
+ * id, so `lomToAmb` restores them exactly. Everything else LOM cannot carry
+ * is reported as UNSUPPORTED_PROPERTY.
+ */
+export function ambToLom(
+  ambResource: AmbLearningResource,
+  options: AmbToLomOptions = {}
+): ConversionResult<string> {
+  // Dropped properties warn by default and fail in strict mode
+  const { warn: normalize, warnings } = createWarningCollector(options.strict);
+  const unsupported = (path: string, detail: string, value?: string) =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+        message: `${path} ${detail}; dropped`,
+        path,
+        ...(value !== undefined ? { value } : {}),
+      },
+      ConversionErrorCode.UNSUPPORTED_PROPERTY
+    );
+
+  try {
+    if (!ambResource.id) {
+      throw new ConversionError('AMB resource must have an id', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+    if (!ambResource.name) {
+      throw new ConversionError('AMB resource must have a name', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+    const language = getContextLanguage(ambResource) ?? 'x-none';
+
+    for (const type of ambResource.type ?? []) {
+      if (type !== 'LearningResource') unsupported('$.type', `"${type}" has no LOM element`, type);
+    }
+    for (const property of UNSUPPORTED_PROPERTIES) {
+      if (ambResource[property] !== undefined) unsupported(`$.${property}`, 'has no LOM element');
+    }
+
+    const general: Record<string, unknown> = {
+      identifier: { catalog: 'URI', entry: ambResource.id },
+      title: langString(ambResource.name, language),
+      ...(ambResource.inLanguage?.length ? { language: ambResource.inLanguage } : {}),
+      ...(ambResource.description ? { description: langString(ambResource.description, language) } : {}),
+      ...(ambResource.keywords?.length ? { keyword: ambResource.keywords.map(k => langString(k, language)) } : {}),
+    };
+
+    // Life cycle: one contribute per role
+    const contribute: unknown[] = [];
+    const addContribute = (
+      role: string,
+      property: 'creator' | 'publisher' | 'contributor',
+      date?: string
+    ) => {
+      const entities = ambResource[property];
+      if (!entities?.length) return false;
+      entities.forEach((entity, index) => {
+        const affiliation = (entity as Person).affiliation;
+        if (affiliation?.id) unsupported(`$.${property}[${index}].affiliation.id`, 'has no vCard property', affiliation.id);
+      });
+      contribute.push({
+        role: { source: LOM_SOURCE, value: role },
+        entity: entities.map(entity => ({ '#cdata': vCardFor(entity) })),
+        ...(date ? { date: { dateTime: date } } : {}),
+      });
+      return true;
+    };
+    if (!addContribute('author', 'creator', ambResource.dateCreated) && ambResource.dateCreated) {
+      unsupported('$.dateCreated', 'needs a creator to attach to', ambResource.dateCreated);
+    }
+    if (!addContribute('publisher', 'publisher', ambResource.datePublished) && ambResource.datePublished) {
+      unsupported('$.datePublished', 'needs a publisher to attach to', ambResource.datePublished);
+    }
+    addContribute('unknown', 'contributor');
+
+    // Technical
+    const encoding = ambResource.encoding ?? [];
+    encoding.forEach((media, index) => {
+      for (const key of Object.keys(media)) {
+        if (!['type', 'contentUrl', 'encodingFormat'].includes(key)) {
+          unsupported(`$.encoding[${index}].${key}`, 'has no LOM element');
+        }
+      }
+    });
+    const locations = encoding.flatMap(media => media.contentUrl ?? []);
+    const formats = encoding.flatMap(media => media.encodingFormat ?? []);
+    const technical: Record<string, unknown> = {
+      ...(formats.length ? { format: formats } : {}),
+      location: locations.length ? locations : ambResource.id,
+      ...(ambResource.duration ? { duration: { duration: ambResource.duration } } : {}),
+    };
+
+    // Educational
+    const age = ambResource.suggestedAge;
+    const educational: Record<string, unknown> = {
+      ...(ambResource.interactivityType ? { interactivityType: vocabularyElement(ambResource.interactivityType) } : {}),
+      ...(ambResource.learningResourceType?.length
+        ? { learningResourceType: ambResource.learningResourceType.map(vocabularyElement) }
+        : {}),
+      ...(ambResource.audience?.length ? { intendedEndUserRole: ambResource.audience.map(vocabularyElement) } : {}),
+      ...(age && (age.minValue !== undefined || age.maxValue !== undefined)
+        ? { typicalAgeRange: langString(`${age.minValue ?? ''}-${age.maxValue ?? ''}`, 'x-none') }
+        : {}),
+    };
+
+    // Rights
+    const rights: Record<string, unknown> = {
+      ...(ambResource.isAccessibleForFree !== undefined
+        ? { cost: { source: LOM_SOURCE, value: ambResource.isAccessibleForFree ? 'no' : 'yes' } }
+        : {}),
+      ...(ambResource.license?.id
+        ? {
+            copyrightAndOtherRestrictions: { source: LOM_SOURCE, value: 'yes' },
+            description: langString(ambResource.license.id, 'x-none'),
+          }
+        : {}),
+    };
+
+    const relation = RELATIONS.flatMap(([property, kind]) =>
+      (ambResource[property] ?? []).flatMap((reference, index) => {
+        if (!reference.id) {
+          unsupported(`$.${property}[${index}]`, 'has no id to reference');
+          return [];
+        }
+        for (const key of ['creator', 'license'] as const) {
+          if (reference[key] !== undefined) unsupported(`$.${property}[${index}].${key}`, 'has no LOM element');
+        }
+        return {
+          kind: { source: LOM_SOURCE, value: kind },
+          resource: {
+            identifier: { catalog: 'URI', entry: reference.id },
+            ...(reference.name ? { description: langString(reference.name, language) } : {}),
+          },
+        };
+      })
+    );
+
+    const classification = CLASSIFICATIONS.flatMap(([property, purpose]) => {
+      const concepts = (ambResource[property] as Concept[] | undefined) ?? [];
+      if (concepts.length === 0) return [];
+      return [
+        {
+          purpose: { source: LOM_SOURCE, value: purpose },
+          taxonPath: concepts.map(concept => ({
+            source: langString(namespaceOf(concept.id), 'x-none'),
+            taxon: {
+              id: concept.id,
+              ...(concept.prefLabel
+                ? {
+                    entry: {
+                      string: Object.entries(concept.prefLabel).map(([lang, label]) => ({
+                        '@language': lang,
+                        '#text': label,
+                      })),
+                    },
+                  }
+                : {}),
+            },
+          })),
+        },
+      ];
+    });
+
+    const lom: Record<string, unknown> = {
+      '@xmlns': LOM_NAMESPACE,
+      general,
+      ...(contribute.length ? { lifeCycle: { contribute } } : {}),
+      technical,
+      ...(Object.keys(educational).length ? { educational } : {}),
+      ...(Object.keys(rights).length ? { rights } : {}),
+      ...(relation.length ? { relation } : {}),
+      ...(classification.length ? { classification } : {}),
+    };
+
+    const result: ConversionResult<string> = {
+      success: true,
+      data: buildXml({ lom }),
+    };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Writer for AMB records as Markdown files with YAML front matter
+ */
+
+import { AmbLearningResource, ConversionResult } from '../types/index.js';
+import { formatYaml } from '../utils/yaml.js';
+
+/**
+ * Write an AMB record as a Markdown file: `description` becomes the body,
+ * everything else the YAML front matter, in the record's key order.
+ * `markdownToAmb` reads it back.
+ */
+export function ambToMarkdown(resource: AmbLearningResource): ConversionResult<string> {
+  const { description, ...record } = resource;
+  const frontMatter = `---\n${formatYaml(record)}---\n`;
+  return {
+    success: true,
+    data: description ? `${frontMatter}\n${description.trimEnd()}\n` : frontMatter,
+  };
+}
@@ -3,8 +3,9 @@
  * Converts AMB learning resources to Nostr educational events
  */
 
-import crypto from 'crypto';
-import { nip19 } from 'nostr-tools';
+import { nip19, getEventHash } from 'nostr-tools';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
 import {
   AmbLearningResource,
   getResourceType,
@@ -27,7 +28,13 @@ import {
   ConversionResult,
   ConversionError,
   ConversionErrorCode,
+  ConversionWarning,
+  ConversionWarningCode,
+  DTagStrategy,
 } from '../types/index.js';
+import { slugify } from '../utils/slug.js';
+import { createWarningCollector } from '../utils/warnings.js';
+import { enrichConcepts } from '../vocabularies/enrich.js';
 
 /**
  * Default public key for testing (should be overridden in production)
@@ -50,6 +57,68 @@ function assertColonFree(value: string, what: string): void {
   }
 }
 
+/**
+ * Deep copy with object keys sorted, so key order in the input (prefLabel
+ * languages, ext namespaces and facets) cannot change the emitted tag order.
+ * Array order is meaningful in AMB and kept.
+ */
+function canonicalize<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => canonicalize(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = canonicalize((value as Record<string, unknown>)[key]);
+    }
+    return sorted as T;
+  }
+  return value;
+}
+
+/**
+ * Unix seconds for an AMB date/dateTime string, or undefined if unparseable
+ */
+function toUnixSeconds(date: string | undefined): number | undefined {
+  if (!date) return undefined;
+  const ms = Date.parse(date);
+  return Number.isNaN(ms) ? undefined : Math.floor(ms / 1000);
+}
+
+/**
+ * Derive the d tag value for a resource
+ */
+function deriveDTag(resource: AmbLearningResource, strategy: DTagStrategy): string {
+  if (typeof strategy === 'function') {
+    const value = strategy(resource);
+    if (!value) {
+      throw new ConversionError('dTagStrategy returned an empty d tag', ConversionErrorCode.INVALID_FORMAT);
+    }
+    return value;
+  }
+  switch (strategy) {
+    case 'uri':
+      return resource.id;
+    case 'hash':
+      return bytesToHex(sha256(resource.id));
+    case 'slug': {
+      const slug = slugify(resource.name);
+      if (!slug) {
+        throw new ConversionError(
+          `name "${resource.name}" yields an empty slug`,
+          ConversionErrorCode.INVALID_FORMAT
+        );
+      }
+      return slug;
+    }
+    default:
+      throw new ConversionError(
+        `Unknown dTagStrategy "${String(strategy)}"`,
+        ConversionErrorCode.INVALID_FORMAT
+      );
+  }
+}
+
 /**
  * Convert AMB learning resource to Nostr educational event
  */
@@ -57,9 +126,18 @@ export function ambToNostr(
   ambResource: AmbLearningResource,
   options: ConversionOptions = {}
 ): ConversionResult<NostrEducationalEvent> {
-  const warnings: string[] = [];
+  // Lossy normalizations warn by default and fail in strict mode
+  const { warn: normalize, warnings } = createWarningCollector(options.strict);
 
   try {
+    if (options.enrichConcepts) {
+      ambResource = enrichConcepts(ambResource, options.enrichConcepts);
+    }
+
+    if (options.deterministicIds) {
+      ambResource = canonicalize(ambResource);
+    }
+
     // Validate input
     if (!ambResource.id) {
       throw new ConversionError(
@@ -81,18 +159,56 @@ export function ambToNostr(
     // Get pubkey (required for Nostr events)
     const pubkey = options.pubkey || DEFAULT_PUBKEY;
     if (pubkey === DEFAULT_PUBKEY) {
-      warnings.push('Using default pubkey - should provide a real pubkey in production');
+      normalize(
+        {
+          code: ConversionWarningCode.DEFAULT_PUBKEY,
+          message: 'Using default pubkey - should provide a real pubkey in production',
+        },
+        ConversionErrorCode.DEFAULT_PUBKEY
+      );
     }
 
-    // Get timestamp
-    const created_at = options.timestamp || Math.floor(Date.now() / 1000);
+    // Get timestamp. Deterministic events take it from the record itself so a
+    // re-import of an unchanged record yields the same event.
+    const now = (): number => (options.clock ? options.clock() : Math.floor(Date.now() / 1000));
+    let created_at: number;
+    if (options.timestamp) {
+      created_at = options.timestamp;
+    } else if (options.deterministicIds) {
+      const recordDate =
+        toUnixSeconds(ambResource.dateModified) ?? toUnixSeconds(ambResource.datePublished);
+      if (recordDate !== undefined) {
+        created_at = recordDate;
+      } else {
+        if (!options.clock) {
+          normalize(
+            {
+              code: ConversionWarningCode.NON_DETERMINISTIC_TIMESTAMP,
+              message: 'deterministicIds: no timestamp, clock, dateModified or datePublished; created_at uses the current time',
+              path: '$.dateModified',
+            },
+            ConversionErrorCode.NON_DETERMINISTIC_TIMESTAMP
+          );
+        }
+        created_at = now();
+      }
+    } else {
+      created_at = now();
+    }
 
     // Normalize non-standard AMB fields
     // Some sources (e.g. sitemap parsers) emit `type` as Concept[] instead of string[]
     let normalizedTypes: string[];
     const rawTypes = Array.isArray(ambResource.type) ? ambResource.type : [ambResource.type];
     if (rawTypes.length > 0 && typeof rawTypes[0] === 'object') {
-      warnings.push('Non-standard AMB: type contains Concept objects instead of strings, normalizing via id');
+      normalize(
+        {
+          code: ConversionWarningCode.NON_STANDARD_TYPE,
+          message: 'Non-standard AMB: type contains Concept objects instead of strings, normalizing via id',
+          path: '$.type',
+        },
+        ConversionErrorCode.NON_STANDARD_TYPE
+      );
       normalizedTypes = rawTypes.map((t: any) => t.id || String(t));
     } else {
       normalizedTypes = rawTypes as string[];
@@ -102,7 +218,14 @@ export function ambToNostr(
     let normalizedLicense: { id: string } | undefined;
     if (ambResource.license) {
       if (Array.isArray(ambResource.license)) {
-        warnings.push('Non-standard AMB: license is an array of Concepts, using first entry');
+        normalize(
+          {
+            code: ConversionWarningCode.LOSSY_LICENSE,
+            message: 'Non-standard AMB: license is an array of Concepts, using first entry',
+            path: '$.license',
+          },
+          ConversionErrorCode.LOSSY_LICENSE
+        );
         const first = (ambResource.license as any[])[0];
         if (first?.id) {
           normalizedLicense = { id: first.id };
@@ -115,8 +238,21 @@ export function ambToNostr(
     // Build tags array
     const tags: NostrTag[] = [];
 
-    // Add deterministic identifier (d tag) - use original AMB ID directly per spec
-    tags.push(createTag('d', ambResource.id));
+    // Opt-in explicit object boundary: a ["boundary", <property>] tag opens
+    // each entry of a multi-valued object property (or of a list nested in
+    // one, such as hasPart:creator), so nostrToAmb need not guess where one
+    // id-less entry ends and the next begins
+    const markBoundary = (property: string): void => {
+      if (options.boundaryMarkers) tags.push(createTag('boundary', property));
+    };
+
+    // Add deterministic identifier (d tag) - the original AMB ID per spec,
+    // unless a shorter strategy is configured; the alias tag keeps the id then
+    const dTag = deriveDTag(ambResource, options.dTagStrategy ?? 'uri');
+    tags.push(createTag('d', dTag));
+    if (dTag !== ambResource.id) {
+      tags.push(createTag('alias', ambResource.id));
+    }
 
     // Add resource types (can be multiple)
     normalizedTypes.forEach(type => {
@@ -152,7 +288,8 @@ export function ambToNostr(
     // flattened tags.
     const addPersonEntity = (
       entity: Person | Organization,
-      role: 'creator' | 'contributor'
+      role: 'creator' | 'contributor',
+      index: number
     ): void => {
       const entityId = 'id' in entity ? entity.id : undefined;
       const decoded = decodeNostrPersonId(entityId);
@@ -165,7 +302,12 @@ export function ambToNostr(
         return;
       }
       if (entityId?.startsWith('nostr:')) {
-        warnings.push(`${role} id "${entityId}" looks like a nostr: URI but could not be decoded; emitting flattened tags`);
+        warnings.push({
+          code: ConversionWarningCode.UNDECODABLE_NOSTR_ID,
+          message: `${role} id "${entityId}" looks like a nostr: URI but could not be decoded; emitting flattened tags`,
+          path: `$.${role}[${index}].id`,
+          value: entityId,
+        });
       } else if ('nostrPubkey' in entity && entity.nostrPubkey) {
         const relayHint = ('relayHint' in entity && entity.relayHint)
           ? entity.relayHint
@@ -173,20 +315,23 @@ export function ambToNostr(
         tags.push(['p', entity.nostrPubkey, relayHint, role]);
         return;
       }
+      // Only flattened entries need a boundary; a p tag is one entry on its own
+      markBoundary(role);
       addPersonOrOrgTags(tags, role, entity);
     };
 
     if (ambResource.creator && ambResource.creator.length > 0) {
-      ambResource.creator.forEach(creator => addPersonEntity(creator, 'creator'));
+      ambResource.creator.forEach((creator, i) => addPersonEntity(creator, 'creator', i));
     }
 
     if (ambResource.contributor && ambResource.contributor.length > 0) {
-      ambResource.contributor.forEach(contributor => addPersonEntity(contributor, 'contributor'));
+      ambResource.contributor.forEach((contributor, i) => addPersonEntity(contributor, 'contributor', i));
     }
 
     // Add publishers (using colon-delimited tags)
     if (ambResource.publisher && ambResource.publisher.length > 0) {
       ambResource.publisher.forEach(publisher => {
+        markBoundary('publisher');
         addPersonOrOrgTags(tags, 'publisher', publisher);
       });
     }
@@ -194,6 +339,7 @@ export function ambToNostr(
     // Add funders (using colon-delimited tags)
     if (ambResource.funder && ambResource.funder.length > 0) {
       ambResource.funder.forEach(funder => {
+        markBoundary('funder');
         addPersonOrOrgTags(tags, 'funder', funder);
       });
     }
@@ -226,6 +372,7 @@ export function ambToNostr(
     // Add subjects (using colon-delimited tags)
     if (ambResource.about && ambResource.about.length > 0) {
       ambResource.about.forEach(subject => {
+        markBoundary('about');
         if (subject.id) {
           tags.push(createTag('about:id', subject.id));
         }
@@ -243,6 +390,7 @@ export function ambToNostr(
     // Add educational level (using colon-delimited tags)
     if (ambResource.educationalLevel && ambResource.educationalLevel.length > 0) {
       ambResource.educationalLevel.forEach(level => {
+        markBoundary('educationalLevel');
         if (level.id) {
           tags.push(createTag('educationalLevel:id', level.id));
         }
@@ -260,6 +408,7 @@ export function ambToNostr(
     // Add audience (using colon-delimited tags)
     if (ambResource.audience && ambResource.audience.length > 0) {
       ambResource.audience.forEach(aud => {
+        markBoundary('audience');
         if (aud.id) {
           tags.push(createTag('audience:id', aud.id));
         }
@@ -277,6 +426,7 @@ export function ambToNostr(
     // Add learning resource type (using colon-delimited tags)
     if (ambResource.learningResourceType && ambResource.learningResourceType.length > 0) {
       ambResource.learningResourceType.forEach(lrt => {
+        markBoundary('learningResourceType');
         if (lrt.id) {
           tags.push(createTag('learningResourceType:id', lrt.id));
         }
@@ -334,6 +484,7 @@ export function ambToNostr(
     // Add encoding (MediaObject array)
     if (ambResource.encoding && ambResource.encoding.length > 0) {
       ambResource.encoding.forEach(enc => {
+        markBoundary('encoding');
         addMediaObjectTags(tags, 'encoding', enc);
       });
     }
@@ -341,6 +492,7 @@ export function ambToNostr(
     // Add caption (MediaObject array)
     if (ambResource.caption && ambResource.caption.length > 0) {
       ambResource.caption.forEach(cap => {
+        markBoundary('caption');
         addMediaObjectTags(tags, 'caption', cap);
       });
     }
@@ -348,6 +500,7 @@ export function ambToNostr(
     // Add teaches (Concept array)
     if (ambResource.teaches && ambResource.teaches.length > 0) {
       ambResource.teaches.forEach(concept => {
+        markBoundary('teaches');
         addConceptTags(tags, 'teaches', concept);
       });
     }
@@ -355,6 +508,7 @@ export function ambToNostr(
     // Add assesses (Concept array)
     if (ambResource.assesses && ambResource.assesses.length > 0) {
       ambResource.assesses.forEach(concept => {
+        markBoundary('assesses');
         addConceptTags(tags, 'assesses', concept);
       });
     }
@@ -362,6 +516,7 @@ export function ambToNostr(
     // Add competencyRequired (Concept array)
     if (ambResource.competencyRequired && ambResource.competencyRequired.length > 0) {
       ambResource.competencyRequired.forEach(concept => {
+        markBoundary('competencyRequired');
         addConceptTags(tags, 'competencyRequired', concept);
       });
     }
@@ -374,6 +529,7 @@ export function ambToNostr(
     // Add mainEntityOfPage (array of complex objects)
     if (ambResource.mainEntityOfPage && ambResource.mainEntityOfPage.length > 0) {
       ambResource.mainEntityOfPage.forEach(entity => {
+        markBoundary('mainEntityOfPage');
         tags.push(createTag('mainEntityOfPage:id', entity.id));
         if (entity.type) {
           tags.push(createTag('mainEntityOfPage:type', entity.type));
@@ -405,6 +561,7 @@ export function ambToNostr(
       const addRelationshipTags = (prefix: string, refs: typeof ambResource.hasPart) => {
         if (!refs || refs.length === 0) return;
         refs.forEach(ref => {
+          markBoundary(prefix);
           if (ref.id) {
             tags.push(createTag(`${prefix}:id`, ref.id));
           }
@@ -420,6 +577,7 @@ export function ambToNostr(
           // Add nested creator tags
           if (ref.creator && ref.creator.length > 0) {
             ref.creator.forEach(creator => {
+              markBoundary(`${prefix}:creator`);
               addPersonOrOrgTags(tags, `${prefix}:creator`, creator);
             });
           }
@@ -491,13 +649,18 @@ export function ambToNostr(
       content: ambResource.description || '',
     };
 
+    if (options.deterministicIds) {
+      event.id = getEventHash(event);
+    }
+
     const result: ConversionResult<NostrEducationalEvent> = {
       success: true,
       data: event,
     };
     
     if (warnings.length > 0) {
-      result.warnings = warnings;
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
     }
     
     return result;
@@ -521,6 +684,64 @@ export function ambToNostr(
 }
 
 
+/**
+ * Convert records that reference each other (a course and its parts) in one
+ * go. Every hasPart / isPartOf / isBasedOn reference to another record of the
+ * set gets an `a` tag, as if each had been listed in `relatedEvents`.
+ * Fails on the first record that does not convert.
+ */
+export function ambCollectionToNostr(
+  resources: AmbLearningResource[],
+  options: ConversionOptions = {}
+): ConversionResult<NostrEducationalEvent[]> {
+  const warnings: ConversionWarning[] = [];
+  try {
+    const pubkey = options.pubkey || DEFAULT_PUBKEY;
+    const relatedEvents = { ...options.relatedEvents };
+    for (const resource of resources) {
+      relatedEvents[resource.id] = {
+        pubkey,
+        dTag: deriveDTag(resource, options.dTagStrategy ?? 'uri'),
+        ...(options.defaultRelayHint ? { relayHint: options.defaultRelayHint } : {}),
+      };
+    }
+
+    const events: NostrEducationalEvent[] = [];
+    for (const resource of resources) {
+      const converted = ambToNostr(resource, { ...options, relatedEvents });
+      if (!converted.success || !converted.data) {
+        const reason = converted.error?.message ?? 'conversion failed';
+        throw new ConversionError(
+          `${resource.id}: ${reason}`,
+          converted.error instanceof ConversionError ? converted.error.code : ConversionErrorCode.CONVERSION_FAILED,
+          converted.error
+        );
+      }
+      events.push(converted.data);
+      warnings.push(...(converted.warningDetails ?? []));
+    }
+
+    const result: ConversionResult<NostrEducationalEvent[]> = { success: true, data: events };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
+
 /**
  * Decode a `nostr:npub…`/`nostr:nprofile…` id (NIP-21) to a hex pubkey plus
  * any embedded relay hints, else null.
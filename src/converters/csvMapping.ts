@@ -0,0 +1,142 @@
+/**
+ * Column-mapping profiles for CSV/TSV spreadsheets: validating a mapping and
+ * resolving its AMB paths
+ */
+
+import { ConversionError, ConversionErrorCode, CsvColumnMapping, CsvMapping } from '../types/index.js';
+
+/** AMB properties whose values are lists of strings. */
+const STRING_LISTS = new Set(['type', 'keywords', 'inLanguage']);
+
+/** AMB properties whose values are lists of objects. */
+const OBJECT_LISTS = new Set([
+  'creator', 'contributor', 'publisher', 'funder', 'about', 'learningResourceType', 'audience',
+  'educationalLevel', 'teaches', 'assesses', 'competencyRequired', 'encoding', 'caption', 'hasPart',
+  'isPartOf', 'isBasedOn', 'mainEntityOfPage',
+]);
+
+/** `type` of list entries whose column gives none. */
+export const ENTRY_TYPES: Record<string, string> = {
+  creator: 'Person',
+  contributor: 'Person',
+  publisher: 'Organization',
+  funder: 'Organization',
+};
+
+/**
+ * A parsed column path. Single-valued paths set `head`; list paths split the
+ * cell and append each value to the list at `head`, or, when `entry` is
+ * non-empty, set it within the list's entries (the n-th value of every
+ * column goes to the n-th entry).
+ */
+export interface CsvPath {
+  head: string[];
+  entry: string[];
+  list: boolean;
+}
+
+/** A mapping column with its parsed path. */
+export interface CsvColumn extends CsvColumnMapping {
+  parsed: CsvPath;
+}
+
+/** Whether `segments` name an ext facet (`ext.<ns>.<facet>`). */
+const isExtFacet = (segments: string[]) => segments.length === 3 && segments[0] === 'ext';
+
+/**
+ * Parse an AMB path such as `about[].id`. Throws a ConversionError
+ * (INVALID_INPUT) on paths that do not fit the shape of AMB.
+ */
+export function parseCsvPath(path: string): CsvPath {
+  const invalid = (reason: string) =>
+    new ConversionError(`Mapping path "${path}" ${reason}`, ConversionErrorCode.INVALID_INPUT);
+
+  const segments = path.split('.');
+  const listIndex = segments.findIndex(segment => segment.endsWith('[]'));
+  const names = segments.map(segment => segment.replace(/\[\]$/, ''));
+  if (names.some(name => !name || /[[\]]/.test(name) || name.startsWith('@'))) {
+    throw invalid('is not a dotted AMB path');
+  }
+  if (segments.filter(segment => segment.endsWith('[]')).length > 1) {
+    throw invalid('has more than one list ([]); nested lists cannot be mapped to one column');
+  }
+
+  if (listIndex === -1) {
+    if (OBJECT_LISTS.has(names[0]!)) {
+      throw invalid(`is in a list; write ${names[0]}[].${names.slice(1).join('.') || 'id'}`);
+    }
+    const list = STRING_LISTS.has(names[0]!) || isExtFacet(names);
+    if (list && names.length > (isExtFacet(names) ? 3 : 1)) throw invalid('goes into a list of strings');
+    return { head: names, entry: [], list };
+  }
+
+  const head = names.slice(0, listIndex + 1);
+  const entry = names.slice(listIndex + 1);
+  const isList = (head.length === 1 && (OBJECT_LISTS.has(head[0]!) || STRING_LISTS.has(head[0]!))) || isExtFacet(head);
+  if (!isList) throw invalid(`marks ${head.join('.')} as a list, which it is not`);
+  if (head.length === 1 && STRING_LISTS.has(head[0]!) && entry.length > 0) throw invalid('goes into a list of strings');
+  if (head.length === 1 && OBJECT_LISTS.has(head[0]!) && entry.length === 0) {
+    throw invalid(`is a list of objects; name a property, e.g. ${head[0]}[].id`);
+  }
+  return { head, entry, list: true };
+}
+
+/**
+ * The path pattern a column writes to, as `leafPaths` reports it
+ */
+export function csvPathPattern(path: CsvPath): string {
+  if (path.entry.length === 0) return path.head.join('.');
+  return `${path.head.join('.')}[].${path.entry.join('.')}`;
+}
+
+/**
+ * Validate a mapping (typically read from a JSON file) and parse its paths.
+ * Throws a ConversionError (INVALID_INPUT) when it is malformed.
+ */
+export function parseCsvMapping(mapping: CsvMapping): CsvColumn[] {
+  if (!mapping || !Array.isArray(mapping.columns) || mapping.columns.length === 0) {
+    throw new ConversionError('Mapping must have a non-empty columns list', ConversionErrorCode.INVALID_INPUT);
+  }
+  if (mapping.delimiter !== undefined && (typeof mapping.delimiter !== 'string' || !mapping.delimiter)) {
+    throw new ConversionError('Mapping delimiter must be a non-empty string', ConversionErrorCode.INVALID_INPUT);
+  }
+  const seen = new Set<string>();
+  return mapping.columns.map((column, index) => {
+    if (typeof column?.column !== 'string' || !column.column || typeof column.path !== 'string') {
+      throw new ConversionError(
+        `Mapping column ${index + 1} must have a column name and a path`,
+        ConversionErrorCode.INVALID_INPUT
+      );
+    }
+    if (seen.has(column.column)) {
+      throw new ConversionError(`Mapping names column "${column.column}" twice`, ConversionErrorCode.INVALID_INPUT);
+    }
+    if (column.separator !== undefined && (typeof column.separator !== 'string' || !column.separator)) {
+      throw new ConversionError(
+        `Mapping column "${column.column}" has an empty separator`,
+        ConversionErrorCode.INVALID_INPUT
+      );
+    }
+    seen.add(column.column);
+    return { ...column, parsed: parseCsvPath(column.path) };
+  });
+}
+
+/**
+ * Every leaf value of an AMB resource with its path pattern (`[]` for list
+ * entries that are objects), e.g. `creator[].name`
+ */
+export function leafPaths(value: unknown, path = '', leaves: Array<[string, unknown]> = []): Array<[string, unknown]> {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      leafPaths(item, item && typeof item === 'object' ? `${path}[]` : path, leaves);
+    }
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      leafPaths(child, path ? `${path}.${key}` : key, leaves);
+    }
+  } else if (value !== undefined && value !== null) {
+    leaves.push([path, value]);
+  }
+  return leaves;
+}
@@ -0,0 +1,258 @@
+/**
+ * Importer for CSV/TSV spreadsheets to AMB, driven by a column-mapping profile
+ */
+
+import {
+  AmbLearningResource,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarning,
+  ConversionWarningCode,
+  CsvMapping,
+  CsvRecord,
+  CsvToAmbOptions,
+} from '../types/index.js';
+import { isAmbDate, languageCode } from '../utils/ambValues.js';
+import { detectCsvDelimiter, parseCsv } from '../utils/csv.js';
+import { WarnFn, createWarningCollector } from '../utils/warnings.js';
+import { CsvColumn, ENTRY_TYPES, csvPathPattern, parseCsvMapping } from './csvMapping.js';
+
+/** Matches an RFC 3986 scheme prefix, i.e. an absolute URI. */
+const URI_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+const DATE_PROPERTIES = new Set(['dateCreated', 'datePublished', 'dateModified']);
+
+const BOOLEANS: Record<string, boolean> = {
+  true: true, yes: true, ja: true, '1': true, x: true,
+  false: false, no: false, nein: false, '0': false,
+};
+
+/** Set `value` at `path` within `target`, creating objects on the way. */
+function setPath(target: Record<string, any>, path: string[], value: unknown): void {
+  let node = target;
+  for (const key of path.slice(0, -1)) node = node[key] ??= {};
+  node[path[path.length - 1]!] = value;
+}
+
+/** The list at `path` within `target`, created if missing. */
+function listAt(target: Record<string, any>, path: string[]): any[] {
+  let node = target;
+  for (const key of path.slice(0, -1)) node = node[key] ??= {};
+  return (node[path[path.length - 1]!] ??= []);
+}
+
+/**
+ * The AMB value for one cell value of a column, or undefined (after a
+ * warning) when AMB cannot hold it
+ */
+function cellValue(raw: string, column: CsvColumn, normalize: WarnFn): unknown {
+  const { head, entry } = column.parsed;
+  const property = csvPathPattern(column.parsed);
+  const key = entry.length > 0 ? entry[entry.length - 1]! : head[head.length - 1]!;
+  const dropped = (detail: string) =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+        message: `Column "${column.column}" value "${raw}" ${detail}; dropped`,
+        path: `$.${property}`,
+        value: raw,
+      },
+      ConversionErrorCode.UNSUPPORTED_PROPERTY
+    );
+  const unmapped = () =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+        message: `Column "${column.column}" value "${raw}" has no mapping; dropped`,
+        path: `$.${property}`,
+        value: raw,
+      },
+      ConversionErrorCode.UNMAPPED_VOCABULARY_VALUE
+    );
+
+  let value = raw;
+  if (column.values) {
+    const mapped =
+      column.values[raw] ??
+      Object.entries(column.values).find(([label]) => label.toLowerCase() === raw.toLowerCase())?.[1];
+    if (mapped !== undefined) {
+      value = mapped;
+    } else if (key === 'id' && !URI_SCHEME.test(raw)) {
+      unmapped();
+      return undefined;
+    }
+  }
+
+  if (head[0] === 'inLanguage') {
+    const code = languageCode(value);
+    if (!code) unmapped();
+    return code;
+  }
+  if (DATE_PROPERTIES.has(key)) {
+    if (isAmbDate(value)) return value;
+    dropped('is not a full ISO 8601 date');
+    return undefined;
+  }
+  if (property === 'isAccessibleForFree') {
+    const flag = BOOLEANS[value.toLowerCase()];
+    if (flag === undefined) dropped('is not a yes/no value');
+    return flag;
+  }
+  if (head[0] === 'suggestedAge') {
+    if (/^\d+$/.test(value)) return Number(value);
+    dropped('is not a whole number');
+    return undefined;
+  }
+  if ((key === 'id' || key === 'contentUrl' || key === 'embedUrl') && !URI_SCHEME.test(value)) {
+    dropped('is not a URI');
+    return undefined;
+  }
+  return value;
+}
+
+/** The AMB resource for one row; throws a ConversionError when it has no id or name. */
+function convertRow(
+  cells: string[],
+  columns: Array<[CsvColumn, number]>,
+  options: CsvToAmbOptions,
+  normalize: WarnFn
+): AmbLearningResource {
+  const amb: Record<string, any> = {};
+  const entryLists = new Map<string, { path: string[]; list: any[] }>();
+
+  for (const [column, index] of columns) {
+    const cell = cells[index]?.trim();
+    if (!cell) continue;
+    const { head, entry, list } = column.parsed;
+    const parts = list ? cell.split(column.separator ?? ';').map(part => part.trim()) : [cell];
+
+    parts.forEach((part, position) => {
+      if (!part) return;
+      const value = cellValue(part, column, normalize);
+      if (value === undefined) return;
+      if (!list) {
+        setPath(amb, head, value);
+      } else if (entry.length === 0) {
+        const values = listAt(amb, head);
+        if (!values.includes(value)) values.push(value);
+      } else {
+        // Entries line up across columns by position; gaps are closed below
+        const values = listAt(amb, head);
+        entryLists.set(head.join('.'), { path: head, list: values });
+        setPath((values[position] ??= {}), entry, value);
+      }
+    });
+  }
+
+  for (const { path, list } of entryLists.values()) {
+    const type = path.length === 1 ? ENTRY_TYPES[path[0]!] : undefined;
+    const entries = list.filter(Boolean).map(entry => (type && !entry.type ? { type, ...entry } : entry));
+    setPath(amb, path, entries);
+  }
+
+  if (!amb.id) {
+    throw new ConversionError('Row has no id', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+  }
+  if (!amb.name) {
+    throw new ConversionError('Row has no name', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+  }
+  const { id, name, type, ...rest } = amb;
+  const types: string[] = type ?? [];
+  return {
+    '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': options.defaultLanguage ?? 'de' }],
+    id,
+    type: types.includes('LearningResource') ? types : ['LearningResource', ...types],
+    name,
+    ...rest,
+  } as AmbLearningResource;
+}
+
+/**
+ * Convert the rows of a CSV/TSV spreadsheet to AMB using a column mapping.
+ * The first row names the columns. Each row carries its own result, so one
+ * bad row does not fail the batch; blank rows are skipped. Columns the
+ * mapping does not name are reported on the batch result. Fails on a
+ * malformed mapping or CSV.
+ */
+export function csvToAmb(
+  csv: string,
+  mapping: CsvMapping,
+  options: CsvToAmbOptions = {}
+): ConversionResult<CsvRecord<AmbLearningResource>[]> {
+  const warnings: ConversionWarning[] = [];
+
+  const normalizeInto = (target: ConversionWarning[]): WarnFn => createWarningCollector(options.strict, target).warn;
+
+  try {
+    const columns = parseCsvMapping(mapping);
+    const [header, ...rows] = parseCsv(csv, mapping.delimiter ?? detectCsvDelimiter(csv));
+    if (!header) {
+      throw new ConversionError('CSV is empty', ConversionErrorCode.INVALID_FORMAT);
+    }
+    const names = header.map(name => name.trim());
+
+    // Mapped columns the sheet lacks are skipped, so one mapping serves sheets with fewer columns
+    const present = columns.flatMap((column): Array<[CsvColumn, number]> => {
+      const index = names.indexOf(column.column);
+      return index === -1 ? [] : [[column, index]];
+    });
+    for (const name of names) {
+      if (!name || columns.some(column => column.column === name)) continue;
+      normalizeInto(warnings)(
+        {
+          code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+          message: `Column "${name}" is not in the mapping; dropped`,
+          value: name,
+        },
+        ConversionErrorCode.UNSUPPORTED_PROPERTY
+      );
+    }
+
+    const records: CsvRecord<AmbLearningResource>[] = [];
+    rows.forEach((cells, index) => {
+      if (cells.every(cell => !cell.trim())) return;
+      const rowWarnings: ConversionWarning[] = [];
+      let result: ConversionResult<AmbLearningResource>;
+      try {
+        result = { success: true, data: convertRow(cells, present, options, normalizeInto(rowWarnings)) };
+        if (rowWarnings.length > 0) {
+          result.warnings = rowWarnings.map(w => w.message);
+          result.warningDetails = rowWarnings;
+        }
+      } catch (error) {
+        result = {
+          success: false,
+          error:
+            error instanceof ConversionError
+              ? error
+              : new ConversionError(
+                  `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+                  ConversionErrorCode.CONVERSION_FAILED,
+                  error
+                ),
+        };
+      }
+      records.push({ row: index + 2, result });
+    });
+
+    const result: ConversionResult<CsvRecord<AmbLearningResource>[]> = { success: true, data: records };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
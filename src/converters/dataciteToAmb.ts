@@ -0,0 +1,437 @@
+/**
+ * Converter for DataCite metadata (the JSON of the DataCite REST API, as
+ * Zenodo exports it) to AMB metadata
+ */
+
+import {
+  AmbLearningResource,
+  AmbLearningResourceReference,
+  Concept,
+  FundingScheme,
+  MediaObject,
+  Organization,
+  Person,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarningCode,
+  DataciteAffiliation,
+  DataciteCreator,
+  DataciteRecord,
+  DataciteToAmbOptions,
+} from '../types/index.js';
+import { languageCode, isAmbDate } from '../utils/ambValues.js';
+import { htmlToText } from '../utils/html.js';
+import { createWarningCollector } from '../utils/warnings.js';
+import { EU_REPO_NAMESPACE } from './dcVocabularies.js';
+import {
+  DATACITE_RELATIONS,
+  DEFAULT_DATACITE_TYPES,
+  DOI_RESOLVER,
+  IDENTIFIER_RESOLVERS,
+  RELATED_IDENTIFIER_RESOLVERS,
+  dataciteLicenseUrl,
+} from './dataciteVocabularies.js';
+
+/** Matches an RFC 3986 scheme prefix, i.e. an absolute URI. */
+const URI_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+/** A DOI, bare, as `doi:` URI or as doi.org URL. */
+const DOI = /^(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,}\/\S+)$/i;
+
+/** A MIME type, optionally with parameters. */
+const MIME_TYPE = /^([a-z]+\/[a-z0-9.+-]+)\s*(;.*)?$/i;
+
+/** DataCite dateTypes with an AMB date property. */
+const DATE_PROPERTIES: Record<string, 'datePublished' | 'dateCreated' | 'dateModified'> = {
+  Issued: 'datePublished',
+  Created: 'dateCreated',
+  Updated: 'dateModified',
+};
+
+/** DataCite properties AMB has no property for; the unmapped rest is REST API bookkeeping. */
+const UNSUPPORTED_PROPERTIES = ['sizes', 'version', 'geoLocations', 'alternateIdentifiers', 'relatedItems'] as const;
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * The record's attributes: a string or object holding a bare DataCite record
+ * or a REST API response (`{ data: { attributes } }`)
+ */
+function parseRecord(input: string | JsonObject): DataciteRecord {
+  let value: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      value = JSON.parse(input);
+    } catch (error) {
+      throw new ConversionError(
+        `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.INVALID_FORMAT
+      );
+    }
+  }
+  const data = (value as JsonObject | null)?.data as JsonObject | undefined;
+  const record = data?.attributes ?? value;
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    throw new ConversionError('DataCite record must be a JSON object', ConversionErrorCode.INVALID_FORMAT);
+  }
+  return record as DataciteRecord;
+}
+
+/** The bare DOI of a DOI, doi: URI or doi.org URL. */
+function bareDoi(value: string | undefined): string | undefined {
+  return value?.trim().match(DOI)?.[1];
+}
+
+/**
+ * URI for an identifier of a name, affiliation or funder: URIs as they are,
+ * bare identifiers of known schemes resolved
+ */
+function identifierUri(
+  value: string | undefined,
+  scheme: string | undefined,
+  schemeUri?: string
+): string | undefined {
+  const identifier = value?.trim();
+  if (!identifier) return undefined;
+  if (URI_SCHEME.test(identifier) && !DOI.test(identifier)) return identifier;
+  const doi = bareDoi(identifier);
+  if (doi) return DOI_RESOLVER + doi;
+  const resolver = IDENTIFIER_RESOLVERS[scheme?.toLowerCase() ?? ''] ?? schemeUri;
+  return resolver ? resolver.replace(/\/?$/, '/') + identifier : undefined;
+}
+
+/** URI for a relatedIdentifier: DOIs, Handles and ARKs resolved, URIs as they are. */
+function relatedUri(identifier: string, type: string): string | undefined {
+  if (type === 'DOI') {
+    const doi = bareDoi(identifier);
+    return doi ? DOI_RESOLVER + doi : undefined;
+  }
+  if (URI_SCHEME.test(identifier)) return identifier;
+  const resolver = RELATED_IDENTIFIER_RESOLVERS[type];
+  return resolver ? resolver + identifier : undefined;
+}
+
+/** Display name of a creator or contributor; "Family, Given" is turned around. */
+function displayName(creator: DataciteCreator): string {
+  if (creator.givenName?.trim() && creator.familyName?.trim()) {
+    return `${creator.givenName.trim()} ${creator.familyName.trim()}`;
+  }
+  const inverted = creator.nameType !== 'Organizational' && creator.name?.match(/^([^,]+),\s*([^,]+)$/);
+  return inverted ? `${inverted[2]!.trim()} ${inverted[1]!.trim()}` : (creator.name ?? '').trim();
+}
+
+/**
+ * Convert a DataCite record to AMB. `input` is the record's JSON (parsed or
+ * as a string): the attributes of a DataCite REST API response, or the
+ * response itself. The DOI becomes `mainEntityOfPage`, the landing page
+ * (`url`) the id unless `options.id` names one. Values AMB cannot represent
+ * (further titles and affiliations, partial dates, unmapped subjects,
+ * relation types and identifiers without an AMB counterpart, sizes,
+ * versions, …) are reported as warnings.
+ */
+export function dataciteToAmb(
+  input: string | JsonObject,
+  options: DataciteToAmbOptions = {}
+): ConversionResult<AmbLearningResource> {
+  // Lossy values warn by default and fail in strict mode
+  const { warn: normalize, warnings } = createWarningCollector(options.strict);
+  const dropped = (property: string, value: string, detail: string, path?: string) =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+        message: `${property} "${value}" ${detail}; dropped`,
+        ...(path ? { path } : {}),
+        value,
+      },
+      ConversionErrorCode.UNSUPPORTED_PROPERTY
+    );
+  const unmapped = (property: string, value: string, path: string) =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+        message: `${property} "${value}" has no AMB mapping; dropped`,
+        path,
+        value,
+      },
+      ConversionErrorCode.UNMAPPED_VOCABULARY_VALUE
+    );
+
+  const types: Record<string, string> = {
+    ...DEFAULT_DATACITE_TYPES,
+    ...Object.fromEntries(Object.entries(options.types ?? {}).map(([value, id]) => [value.toLowerCase(), id])),
+  };
+
+  try {
+    const record = parseRecord(input);
+    const code = record.language ? languageCode(record.language) : undefined;
+    if (record.language && !code) unmapped('language', record.language, '$.inLanguage');
+
+    // Titles: the first main title in the preferred language
+    const titles = (record.titles ?? []).filter(title => title.title?.trim());
+    const preferred = options.defaultLanguage ?? code;
+    const title =
+      titles.find(t => !t.titleType && preferred !== undefined && t.lang && languageCode(t.lang) === preferred) ??
+      titles.find(t => !t.titleType) ??
+      titles[0];
+    if (!title) {
+      throw new ConversionError('DataCite record must have a title', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+    const titleLanguage = title.lang ? (languageCode(title.lang) ?? title.lang) : undefined;
+    const language = titleLanguage ?? options.defaultLanguage ?? code ?? 'de';
+    for (const other of titles) {
+      if (other !== title) {
+        const detail = other.titleType ? `is a ${other.titleType}` : 'is an additional title';
+        dropped('titles', other.title, detail, '$.name');
+      }
+    }
+
+    const doi = bareDoi(record.doi) ?? record.identifiers?.flatMap(i => bareDoi(i.identifier) ?? [])[0];
+    const id = options.id ?? record.url ?? (doi ? DOI_RESOLVER + doi : undefined);
+    if (!id) {
+      throw new ConversionError('DataCite record has no url or DOI', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+
+    const amb: Record<string, any> = {
+      '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': language }],
+      id,
+      type: ['LearningResource'],
+      name: title.title.trim(),
+    };
+
+    // Description: the abstract in the title's language; Zenodo writes HTML
+    const descriptions = (record.descriptions ?? []).filter(d => d.description?.trim());
+    const inLanguage = (d: { lang?: string }) => !d.lang || (languageCode(d.lang) ?? d.lang) === language;
+    const description =
+      descriptions.find(d => (d.descriptionType ?? 'Abstract') === 'Abstract' && inLanguage(d)) ??
+      descriptions.find(d => (d.descriptionType ?? 'Abstract') === 'Abstract');
+    if (description) amb.description = htmlToText(description.description);
+    for (const other of descriptions) {
+      if (other !== description) {
+        const type = other.descriptionType ?? 'Abstract';
+        const detail = type === 'Abstract' ? 'is an additional description' : `is ${type}`;
+        dropped('descriptions', other.description, detail, '$.description');
+      }
+    }
+
+    const agent = (creator: DataciteCreator, path: string): Person | Organization => {
+      const isOrganization = creator.nameType === 'Organizational';
+      const identifiers = (creator.nameIdentifiers ?? []).flatMap(identifier => {
+        const { nameIdentifier, nameIdentifierScheme: scheme, schemeUri } = identifier;
+        const uri = identifierUri(nameIdentifier, scheme, schemeUri);
+        if (!uri && nameIdentifier?.trim()) {
+          dropped(`nameIdentifiers (${scheme ?? 'Other'})`, nameIdentifier, 'is not a URI', `${path}.id`);
+        }
+        return uri ? [{ uri, scheme: scheme?.toLowerCase() }] : [];
+      });
+      // ORCID and ROR ids come first
+      const primary = identifiers.find(i => i.scheme === (isOrganization ? 'ror' : 'orcid')) ?? identifiers[0];
+      for (const other of identifiers) {
+        if (other !== primary) dropped('nameIdentifiers', other.uri, 'is an additional identifier', `${path}.id`);
+      }
+      const name = displayName(creator);
+      const affiliations = (creator.affiliation ?? []).flatMap((affiliation): DataciteAffiliation[] =>
+        typeof affiliation === 'string' ? [{ name: affiliation }] : affiliation?.name?.trim() ? [affiliation] : []
+      );
+      // Organizations have no affiliation in AMB, people one
+      const [affiliation, ...others] = isOrganization ? [] : affiliations;
+      for (const other of isOrganization ? affiliations : others) {
+        const detail = isOrganization ? 'is an affiliation of an organization' : 'is an additional affiliation';
+        dropped('affiliation', other.name, detail, `${path}.affiliation`);
+      }
+      const id = primary ? { id: primary.uri } : {};
+      if (isOrganization) return { type: 'Organization', name, ...id };
+      if (!affiliation) return { type: 'Person', name, ...id };
+
+      const { affiliationIdentifier, affiliationIdentifierScheme, schemeUri } = affiliation;
+      const affiliationId = identifierUri(affiliationIdentifier, affiliationIdentifierScheme, schemeUri);
+      const organization: Organization = {
+        type: 'Organization',
+        name: affiliation.name.trim(),
+        ...(affiliationId ? { id: affiliationId } : {}),
+      };
+      return { type: 'Person', name, ...id, affiliation: organization };
+    };
+    const agents = (creators: DataciteCreator[] | undefined, property: string) =>
+      (creators ?? []).filter(creator => displayName(creator)).map(creator => agent(creator, `$.${property}[]`));
+
+    const creator = agents(record.creators, 'creator');
+    if (creator.length > 0) amb.creator = creator;
+    const contributor = agents(record.contributors, 'contributor');
+    if (contributor.length > 0) amb.contributor = contributor;
+
+    const publisher = typeof record.publisher === 'string' ? { name: record.publisher } : record.publisher;
+    if (publisher?.name?.trim()) {
+      const publisherId = identifierUri(
+        publisher.publisherIdentifier,
+        publisher.publisherIdentifierScheme,
+        publisher.schemeUri
+      );
+      const organization: Organization = {
+        type: 'Organization',
+        name: publisher.name.trim(),
+        ...(publisherId ? { id: publisherId } : {}),
+      };
+      amb.publisher = [organization];
+    }
+
+    // Subjects: concepts when they have a URI, keywords when they belong to no scheme
+    const about: Concept[] = [];
+    const keywords: string[] = [];
+    for (const subject of record.subjects ?? []) {
+      const label = subject.subject?.trim();
+      if (subject.valueUri) {
+        if (about.some(concept => concept.id === subject.valueUri)) continue;
+        const lang = subject.lang ? (languageCode(subject.lang) ?? subject.lang) : language;
+        const prefLabel = label && label !== subject.valueUri ? { prefLabel: { [lang]: label } } : {};
+        about.push({ id: subject.valueUri, ...prefLabel });
+      } else if (subject.subjectScheme) {
+        unmapped(`subjects (${subject.subjectScheme})`, label ?? '', '$.about');
+      } else if (label && !keywords.includes(label)) {
+        keywords.push(label);
+      }
+    }
+    if (keywords.length > 0) amb.keywords = keywords;
+    if (about.length > 0) amb.about = about;
+    if (code) amb.inLanguage = [code];
+
+    // Dates: Issued, Created and Updated when they are full dates
+    for (const { date, dateType } of record.dates ?? []) {
+      const property = DATE_PROPERTIES[dateType];
+      const path = property ? `$.${property}` : undefined;
+      if (!property) {
+        dropped(`dates (${dateType})`, date, 'has no AMB property');
+      } else if (!isAmbDate(date)) {
+        dropped(`dates (${dateType})`, date, 'is not a full ISO 8601 date', path);
+      } else if (amb[property]) {
+        dropped(`dates (${dateType})`, date, 'is an additional date', path);
+      } else {
+        amb[property] = date;
+      }
+    }
+    if (record.publicationYear !== undefined && !amb.datePublished) {
+      dropped('publicationYear', String(record.publicationYear), 'is not a full date', '$.datePublished');
+    }
+
+    // Type: the specific resourceType, else resourceTypeGeneral; "Other" on its own says nothing
+    const { resourceType, resourceTypeGeneral } = record.types ?? {};
+    const typeId = [resourceType?.trim(), resourceTypeGeneral?.trim()]
+      .map(value => value && (types[value.toLowerCase()] ?? (/^https?:\/\//i.test(value) ? value : undefined)))
+      .find(Boolean);
+    if (typeId) {
+      amb.learningResourceType = [{ id: typeId }];
+    } else if (resourceType?.trim() || (resourceTypeGeneral && resourceTypeGeneral !== 'Other')) {
+      unmapped('types', [resourceTypeGeneral, resourceType].filter(Boolean).join(' / '), '$.learningResourceType');
+    }
+
+    // Files: content URLs pair with the formats by position
+    const contentUrls = (Array.isArray(record.contentUrl) ? record.contentUrl : []).filter(
+      (url): url is string => typeof url === 'string' && URI_SCHEME.test(url)
+    );
+    const formats: string[] = [];
+    for (const format of record.formats ?? []) {
+      const mime = format.match(MIME_TYPE);
+      if (mime) {
+        formats.push(mime[1]!.toLowerCase());
+      } else {
+        dropped('formats', format, 'is not a MIME type', '$.encoding');
+      }
+    }
+    const encoding: MediaObject[] = [];
+    for (let i = 0; i < Math.max(contentUrls.length, formats.length); i++) {
+      const contentUrl = contentUrls[i];
+      const encodingFormat = formats[i] ?? (formats.length === 1 ? formats[0] : undefined);
+      encoding.push({
+        type: 'MediaObject',
+        ...(contentUrl ? { contentUrl } : {}),
+        ...(encodingFormat ? { encodingFormat } : {}),
+      });
+    }
+    if (encoding.length > 0) amb.encoding = encoding;
+
+    // Rights: a license and the OpenAIRE open access flag
+    for (const rights of record.rightsList ?? []) {
+      const label = rights.rightsUri ?? rights.rightsIdentifier ?? rights.rights ?? '';
+      const url = dataciteLicenseUrl(rights.rightsUri, rights.rightsIdentifier);
+      if (rights.rightsUri === `${EU_REPO_NAMESPACE}openAccess`) {
+        amb.isAccessibleForFree = true;
+      } else if (url && !amb.license) {
+        amb.license = { id: url };
+      } else {
+        dropped('rightsList', label, url ? 'is an additional license' : 'has no license URL', '$.license');
+      }
+    }
+
+    // Relations to other resources, as URIs
+    for (const related of record.relatedIdentifiers ?? []) {
+      const { relatedIdentifier, relatedIdentifierType, relationType } = related;
+      const property = DATACITE_RELATIONS[relationType as keyof typeof DATACITE_RELATIONS];
+      const uri = relatedUri(relatedIdentifier, relatedIdentifierType);
+      const path = property ? `$.${property}` : undefined;
+      if (!property) {
+        dropped(`relatedIdentifiers (${relationType})`, relatedIdentifier, 'has no AMB relation');
+      } else if (!uri) {
+        dropped(`relatedIdentifiers (${relatedIdentifierType})`, relatedIdentifier, 'is not a URI', path);
+      } else {
+        const references: AmbLearningResourceReference[] = (amb[property] ??= []);
+        if (!references.some(reference => reference.id === uri)) references.push({ id: uri });
+      }
+    }
+
+    // Funding: each funder, followed by its award as a funding scheme
+    const funder: Array<Organization | FundingScheme> = [];
+    for (const funding of record.fundingReferences ?? []) {
+      if (!funding.funderName?.trim()) continue;
+      const funderId = identifierUri(funding.funderIdentifier, funding.funderIdentifierType);
+      if (funding.funderIdentifier && !funderId) {
+        const property = `funderIdentifier (${funding.funderIdentifierType ?? 'Other'})`;
+        dropped(property, funding.funderIdentifier, 'is not a URI', '$.funder[].id');
+      }
+      funder.push({ type: 'Organization', name: funding.funderName.trim(), ...(funderId ? { id: funderId } : {}) });
+      const awardName = funding.awardTitle?.trim() || funding.awardNumber?.trim();
+      if (awardName) {
+        funder.push({ type: 'FundingScheme', name: awardName, ...(funding.awardUri ? { id: funding.awardUri } : {}) });
+      } else if (funding.awardUri) {
+        dropped('awardUri', funding.awardUri, 'has no award title or number', '$.funder[].id');
+      }
+    }
+    if (funder.length > 0) amb.funder = funder;
+
+    if (doi) amb.mainEntityOfPage = [{ id: DOI_RESOLVER + doi }];
+
+    for (const identifier of record.identifiers ?? []) {
+      if (bareDoi(identifier.identifier) !== doi && identifier.identifier !== record.url) {
+        dropped(`identifiers (${identifier.identifierType})`, identifier.identifier, 'is not the resource DOI or URL');
+      }
+    }
+    for (const property of UNSUPPORTED_PROPERTIES) {
+      const value = record[property];
+      if (value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0)) {
+        const text = Array.isArray(value) && value.every(item => typeof item === 'string') ? value.join('; ') : value;
+        dropped(property, typeof text === 'string' ? text : JSON.stringify(text), 'has no AMB property');
+      }
+    }
+
+    const result: ConversionResult<AmbLearningResource> = {
+      success: true,
+      data: amb as AmbLearningResource,
+    };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Mappings between DataCite values (resource types, rights identifiers,
+ * identifier schemes) and their AMB counterparts
+ */
+
+import { DEFAULT_LOM_MAPPINGS } from './lomVocabularies.js';
+
+const HCRT = 'https://w3id.org/kim/hcrt/';
+
+export const DOI_RESOLVER = 'https://doi.org/';
+
+/**
+ * Default resourceType / resourceTypeGeneral → learningResourceType
+ * mappings, keyed by lower-case value. The free-text resourceType is looked
+ * up first (Zenodo writes its upload subtypes there, ambToDatacite the HCRT
+ * id); bare HCRT ids and the LOM learning resource types are covered.
+ */
+export const DEFAULT_DATACITE_TYPES: Record<string, string> = {
+  ...DEFAULT_LOM_MAPPINGS.learningResourceType,
+  // resourceTypeGeneral (Image and Text are HCRT ids as well)
+  audiovisual: HCRT + 'video',
+  sound: HCRT + 'audio',
+  dataset: HCRT + 'data',
+  software: HCRT + 'application',
+  book: HCRT + 'text',
+  // Zenodo upload subtypes
+  photo: HCRT + 'image',
+  drawing: HCRT + 'image',
+  lesson: HCRT + 'lesson_plan',
+};
+
+/**
+ * resourceTypeGeneral written by ambToDatacite for a learningResourceType
+ * concept; concepts not listed are "Other"
+ */
+export const AMB_TO_DATACITE_TYPE: Record<string, string> = {
+  [HCRT + 'video']: 'Audiovisual',
+  [HCRT + 'image']: 'Image',
+  [HCRT + 'diagram']: 'Image',
+  [HCRT + 'map']: 'Image',
+  [HCRT + 'audio']: 'Sound',
+  [HCRT + 'data']: 'Dataset',
+  [HCRT + 'application']: 'Software',
+  [HCRT + 'simulation']: 'InteractiveResource',
+  [HCRT + 'educational_game']: 'InteractiveResource',
+  [HCRT + 'course']: 'Collection',
+  ...Object.fromEntries(
+    ['text', 'textbook', 'script', 'worksheet', 'lesson_plan', 'reference_work', 'sheet_music'].map(id => [
+      HCRT + id,
+      'Text',
+    ])
+  ),
+};
+
+/** Creative Commons licenses by SPDX id suffix, e.g. CC-BY-SA-4.0. */
+const CC_SPDX = /^cc-(by(?:-nc)?(?:-sa|-nd)?)-([1-4]\.0)$/i;
+
+/** A Creative Commons license or public domain tool URL, possibly of its legal code or a deed. */
+const CC_URL =
+  /^https?:\/\/(?:www\.)?creativecommons\.org\/((?:licenses|publicdomain)\/[a-z-]+\/\d\.\d(?:\/[a-z]{2})?)(?:\/.*)?$/i;
+
+/** GNU licenses AMB accepts, by SPDX id (without the -only / -or-later suffix). */
+const GNU_LICENSES: Record<string, string> = {
+  'gpl-3.0': 'http://www.gnu.org/licenses/gpl-3.0',
+  'agpl-3.0': 'http://www.gnu.org/licenses/agpl-3.0',
+  'lgpl-3.0': 'http://www.gnu.org/licenses/lgpl-3.0',
+  'gfdl-1.3': 'http://www.gnu.org/licenses/fdl-1.3',
+};
+
+/**
+ * License URL for a rightsList entry: Creative Commons URLs in the canonical
+ * form AMB expects (https, no /legalcode, trailing slash), SPDX ids of CC and
+ * GNU licenses resolved, other http(s) rightsUris as they are. Undefined when
+ * the entry names no license.
+ */
+export function dataciteLicenseUrl(
+  rightsUri: string | undefined,
+  rightsIdentifier: string | undefined
+): string | undefined {
+  const cc = rightsUri?.match(CC_URL);
+  if (cc) return `https://creativecommons.org/${cc[1]!.toLowerCase()}/`;
+
+  const spdx = rightsIdentifier?.trim().toLowerCase();
+  if (spdx) {
+    const license = spdx.match(CC_SPDX);
+    if (license) return `https://creativecommons.org/licenses/${license[1]}/${license[2]}/`;
+    if (spdx === 'cc0-1.0') return 'https://creativecommons.org/publicdomain/zero/1.0/';
+    const gnu = GNU_LICENSES[spdx.replace(/-(?:only|or-later)$/, '')];
+    if (gnu) return gnu;
+  }
+  return rightsUri && /^https?:\/\//i.test(rightsUri) ? rightsUri : undefined;
+}
+
+/**
+ * SPDX id of an AMB license URL, for the rightsIdentifier; undefined for
+ * licenses SPDX does not list (ported CC licenses, the Public Domain Mark)
+ */
+export function spdxLicenseId(url: string): string | undefined {
+  const cc = url.match(/^https:\/\/creativecommons\.org\/licenses\/([a-z-]+)\/(\d\.\d)\/$/);
+  if (cc) return `CC-${cc[1]!.toUpperCase()}-${cc[2]}`;
+  if (url === 'https://creativecommons.org/publicdomain/zero/1.0/') return 'CC0-1.0';
+  const gnu = Object.entries(GNU_LICENSES).find(([, gnuUrl]) => gnuUrl === url)?.[0];
+  if (gnu) return gnu === 'gfdl-1.3' ? 'GFDL-1.3-only' : `${gnu.toUpperCase()}-only`;
+  return undefined;
+}
+
+/**
+ * Resolver prefixes for bare identifiers of the name, affiliation and funder
+ * identifier schemes, keyed by lower-case scheme
+ */
+export const IDENTIFIER_RESOLVERS: Record<string, string> = {
+  orcid: 'https://orcid.org/',
+  ror: 'https://ror.org/',
+  isni: 'https://isni.org/isni/',
+  gnd: 'https://d-nb.info/gnd/',
+  wikidata: 'http://www.wikidata.org/entity/',
+  // Crossref Funder IDs are DOIs; bare ones are given without the prefix
+  'crossref funder id': `${DOI_RESOLVER}10.13039/`,
+};
+
+/**
+ * Resolver prefixes for relatedIdentifier types whose identifiers AMB keeps
+ * as URIs; URLs and URNs are URIs already
+ */
+export const RELATED_IDENTIFIER_RESOLVERS: Record<string, string> = {
+  DOI: DOI_RESOLVER,
+  Handle: 'https://hdl.handle.net/',
+  ARK: 'https://n2t.net/',
+};
+
+/** relatedIdentifier relation types with an AMB relation, and back. */
+export const DATACITE_RELATIONS = {
+  IsPartOf: 'isPartOf',
+  HasPart: 'hasPart',
+  IsDerivedFrom: 'isBasedOn',
+} as const;
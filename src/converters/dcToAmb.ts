@@ -0,0 +1,378 @@
+/**
+ * Converter for simple Dublin Core (oai_dc) records and OAI-PMH ListRecords
+ * responses to AMB metadata
+ */
+
+import {
+  AmbLearningResource,
+  Concept,
+  MediaObject,
+  Organization,
+  Person,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarningCode,
+  DcToAmbOptions,
+  OaiPmhListRecords,
+  OaiPmhRecord,
+} from '../types/index.js';
+import { XmlElement, parseXml, findXmlElement, xmlChild, xmlChildren, xmlText, xmlAttr } from '../utils/xml.js';
+import { languageCode, isAmbDate } from '../utils/ambValues.js';
+import { createWarningCollector } from '../utils/warnings.js';
+import { DCMI_TYPE_NAMESPACE, DEFAULT_DC_TYPES, EU_REPO_NAMESPACE } from './dcVocabularies.js';
+
+/** Matches an absolute http(s) URI. */
+const HTTP_URI = /^https?:\/\//i;
+
+/** A DOI, bare, as `doi:` URI or as doi.org URL. */
+const DOI = /^(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,}\/\S+)$/i;
+
+/** A MIME type, optionally with parameters. */
+const MIME_TYPE = /^([a-z]+\/[a-z0-9.+-]+)\s*(;.*)?$/i;
+
+/** Dublin Core elements AMB has no property for. */
+const UNSUPPORTED_ELEMENTS = ['source', 'relation', 'coverage'] as const;
+
+interface DcValue {
+  value: string;
+  language?: string;
+}
+
+/**
+ * The non-empty values of the `dc:<name>` elements, `xml:lang` normalized
+ * like dc:language
+ */
+function dcValues(dc: XmlElement, name: string): DcValue[] {
+  return xmlChildren(dc, name).flatMap(element => {
+    const value = xmlText(element)?.trim();
+    const lang = xmlAttr(element, 'lang');
+    const language = lang && (languageCode(lang) ?? lang);
+    return value ? [{ value, ...(language ? { language } : {}) }] : [];
+  });
+}
+
+/**
+ * Resource URI for a dc:identifier: http(s) URLs as they are, DOIs as
+ * doi.org URLs; undefined for anything else (ISBNs, URNs, local ids)
+ */
+function identifierUri(value: string): string | undefined {
+  const doi = value.match(DOI);
+  if (doi) return `https://doi.org/${doi[1]}`;
+  return HTTP_URI.test(value) ? value : undefined;
+}
+
+/**
+ * Person for a dc:creator / dc:contributor; "Family, Given" is turned into
+ * a display name. Dublin Core does not tell people from organizations, so
+ * every agent is a Person.
+ */
+function personFromDc(value: string): Person {
+  const inverted = value.match(/^([^,]+),\s*([^,]+)$/);
+  return { type: 'Person', name: inverted ? `${inverted[2]!.trim()} ${inverted[1]!.trim()}` : value };
+}
+
+/**
+ * Convert a parsed `oai_dc:dc` element. `fallbackId` (the OAI-PMH record
+ * identifier) is the resource id when no dc:identifier is a URL or DOI.
+ */
+function convertDcRecord(
+  dc: XmlElement,
+  options: DcToAmbOptions,
+  fallbackId?: string
+): ConversionResult<AmbLearningResource> {
+  // Lossy values warn by default and fail in strict mode
+  const { warn: normalize, warnings } = createWarningCollector(options.strict);
+  const dropped = (element: string, value: string, detail: string, path?: string) =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+        message: `dc:${element} "${value}" ${detail}; dropped`,
+        ...(path ? { path } : {}),
+        value,
+      },
+      ConversionErrorCode.UNSUPPORTED_PROPERTY
+    );
+  const unmapped = (element: string, value: string, path: string) =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+        message: `dc:${element} "${value}" has no AMB mapping; dropped`,
+        path,
+        value,
+      },
+      ConversionErrorCode.UNMAPPED_VOCABULARY_VALUE
+    );
+
+  const types: Record<string, string> = {
+    ...DEFAULT_DC_TYPES,
+    ...Object.fromEntries(Object.entries(options.types ?? {}).map(([value, id]) => [value.toLowerCase(), id])),
+  };
+
+  try {
+    // Languages first: the first one picks the title when titles are tagged
+    const inLanguage: string[] = [];
+    for (const { value } of dcValues(dc, 'language')) {
+      const code = languageCode(value);
+      if (!code) {
+        unmapped('language', value, '$.inLanguage');
+      } else if (!inLanguage.includes(code)) {
+        inLanguage.push(code);
+      }
+    }
+
+    const titles = dcValues(dc, 'title');
+    const preferred = options.defaultLanguage ?? inLanguage[0];
+    const title = titles.find(t => preferred !== undefined && t.language === preferred) ?? titles[0];
+    if (!title) {
+      throw new ConversionError('Dublin Core record must have a dc:title', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+    const language = title.language ?? options.defaultLanguage ?? inLanguage[0] ?? 'de';
+    for (const other of titles) {
+      if (other !== title) dropped('title', other.value, 'is an additional title', '$.name');
+    }
+
+    // Identifiers: the first URL or DOI is the id, further URLs are content
+    const identifiers = dcValues(dc, 'identifier').map(({ value }) => ({ value, uri: identifierUri(value) }));
+    const primary = identifiers.find(identifier => identifier.uri);
+    const id = primary?.uri ?? fallbackId;
+    if (!id) {
+      throw new ConversionError(
+        'Dublin Core record has no dc:identifier that is a URL or DOI',
+        ConversionErrorCode.MISSING_REQUIRED_FIELD
+      );
+    }
+    const contentUrls: string[] = [];
+    for (const identifier of identifiers) {
+      if (identifier === primary) continue;
+      if (identifier.uri && !DOI.test(identifier.value)) {
+        contentUrls.push(identifier.uri);
+      } else {
+        dropped('identifier', identifier.value, 'is not the resource URL', '$.id');
+      }
+    }
+
+    const amb: Record<string, any> = {
+      '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': language }],
+      id,
+      type: ['LearningResource'],
+      name: title.value,
+    };
+
+    const descriptions: string[] = [];
+    for (const description of dcValues(dc, 'description')) {
+      if (description.language === undefined || description.language === language) {
+        descriptions.push(description.value);
+      } else {
+        dropped('description', description.value, `is in another language (${description.language})`, '$.description');
+      }
+    }
+    if (descriptions.length > 0) amb.description = descriptions.join('\n\n');
+
+    // Subjects: URIs are concepts, everything else a keyword
+    const about: Concept[] = [];
+    const keywords: string[] = [];
+    for (const { value } of dcValues(dc, 'subject')) {
+      if (HTTP_URI.test(value)) {
+        if (!about.some(concept => concept.id === value)) about.push({ id: value });
+      } else if (!keywords.includes(value)) {
+        keywords.push(value);
+      }
+    }
+    if (keywords.length > 0) amb.keywords = keywords;
+    if (about.length > 0) amb.about = about;
+    if (inLanguage.length > 0) amb.inLanguage = inLanguage;
+
+    const creators = dcValues(dc, 'creator').map(({ value }) => personFromDc(value));
+    if (creators.length > 0) amb.creator = creators;
+    const contributors = dcValues(dc, 'contributor').map(({ value }) => personFromDc(value));
+    if (contributors.length > 0) amb.contributor = contributors;
+    const publishers = dcValues(dc, 'publisher').map(({ value }): Organization => ({ type: 'Organization', name: value }));
+    if (publishers.length > 0) amb.publisher = publishers;
+
+    // Dates: the first full date is the publication date
+    for (const { value } of dcValues(dc, 'date')) {
+      if (!isAmbDate(value)) {
+        dropped('date', value, 'is not a full ISO 8601 date', '$.datePublished');
+      } else if (amb.datePublished) {
+        dropped('date', value, 'is an additional date', '$.datePublished');
+      } else {
+        amb.datePublished = value;
+      }
+    }
+
+    const learningResourceType: Concept[] = [];
+    for (const { value } of dcValues(dc, 'type')) {
+      const key = value.startsWith(DCMI_TYPE_NAMESPACE) ? value.slice(DCMI_TYPE_NAMESPACE.length) : value;
+      const conceptId = types[key.toLowerCase()] ?? (HTTP_URI.test(value) ? value : undefined);
+      if (!conceptId) {
+        unmapped('type', value, '$.learningResourceType');
+      } else if (!learningResourceType.some(concept => concept.id === conceptId)) {
+        learningResourceType.push({ id: conceptId });
+      }
+    }
+    if (learningResourceType.length > 0) amb.learningResourceType = learningResourceType;
+
+    // Formats pair with the content URLs by position
+    const formats: string[] = [];
+    for (const { value } of dcValues(dc, 'format')) {
+      const mime = value.match(MIME_TYPE);
+      if (mime) {
+        formats.push(mime[1]!.toLowerCase());
+      } else {
+        dropped('format', value, 'is not a MIME type', '$.encoding');
+      }
+    }
+    const encoding: MediaObject[] = [];
+    for (let i = 0; i < Math.max(contentUrls.length, formats.length); i++) {
+      const contentUrl = contentUrls[i];
+      const encodingFormat = formats[i] ?? (formats.length === 1 ? formats[0] : undefined);
+      encoding.push({
+        type: 'MediaObject',
+        ...(contentUrl ? { contentUrl } : {}),
+        ...(encodingFormat ? { encodingFormat } : {}),
+      });
+    }
+    if (encoding.length > 0) amb.encoding = encoding;
+
+    // Rights: a license URL and the OpenAIRE open access flag
+    for (const { value } of dcValues(dc, 'rights')) {
+      const url = value.match(/https?:\/\/[^\s<>"]+/)?.[0]?.replace(/[.,;)]+$/, '');
+      if (value === `${EU_REPO_NAMESPACE}openAccess`) {
+        amb.isAccessibleForFree = true;
+      } else if (url && !amb.license) {
+        amb.license = { id: url };
+      } else {
+        dropped('rights', value, url ? 'is an additional license' : 'has no license URL', '$.license');
+      }
+    }
+
+    for (const element of UNSUPPORTED_ELEMENTS) {
+      for (const { value } of dcValues(dc, element)) {
+        dropped(element, value, 'has no AMB property');
+      }
+    }
+
+    const result: ConversionResult<AmbLearningResource> = {
+      success: true,
+      data: amb as AmbLearningResource,
+    };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
+
+/**
+ * Convert a simple Dublin Core (oai_dc) record to AMB. The `dc` element may
+ * be wrapped in an envelope such as an OAI-PMH GetRecord response. Values
+ * AMB cannot represent (additional titles and dates, partial dates, non-MIME
+ * formats, dc:source/relation/coverage, …) are reported as warnings.
+ */
+export function dcToAmb(
+  xml: string,
+  options: DcToAmbOptions = {}
+): ConversionResult<AmbLearningResource> {
+  let dc: XmlElement | undefined;
+  try {
+    dc = findXmlElement(parseXml(xml), 'dc');
+  } catch (error) {
+    if (error instanceof ConversionError) return { success: false, error };
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+  if (!dc) {
+    return {
+      success: false,
+      error: new ConversionError('No oai_dc record found', ConversionErrorCode.INVALID_FORMAT),
+    };
+  }
+  return convertDcRecord(dc, options);
+}
+
+/**
+ * Convert every record of an OAI-PMH ListRecords response (metadataPrefix
+ * oai_dc) to AMB. Each record carries its own result, so one bad record does
+ * not fail the batch; records without a URL or DOI identifier use their OAI
+ * identifier as id. Fails on a malformed response or an OAI-PMH error other
+ * than noRecordsMatch.
+ */
+export function oaiPmhToAmb(
+  xml: string,
+  options: DcToAmbOptions = {}
+): ConversionResult<OaiPmhListRecords<AmbLearningResource>> {
+  try {
+    const response = xmlChild(parseXml(xml), 'OAI-PMH');
+    if (!response) {
+      throw new ConversionError('Not an OAI-PMH response', ConversionErrorCode.INVALID_FORMAT);
+    }
+    const error = xmlChild(response, 'error');
+    const errorCode = xmlAttr(error, 'code');
+    if (error && errorCode !== 'noRecordsMatch') {
+      throw new ConversionError(
+        `OAI-PMH error ${errorCode ?? ''}: ${xmlText(error) ?? ''}`.trim(),
+        ConversionErrorCode.INVALID_FORMAT
+      );
+    }
+
+    const listRecords = xmlChild(response, 'ListRecords');
+    const records = xmlChildren(listRecords, 'record').map((record): OaiPmhRecord<AmbLearningResource> => {
+      const header = xmlChild(record, 'header');
+      const identifier = xmlText(xmlChild(header, 'identifier')) ?? '';
+      const datestamp = xmlText(xmlChild(header, 'datestamp'));
+      const base = { identifier, ...(datestamp ? { datestamp } : {}) };
+      if (xmlAttr(header, 'status') === 'deleted') {
+        return { ...base, deleted: true };
+      }
+      const dc = findXmlElement(xmlChild(record, 'metadata') ?? {}, 'dc');
+      return {
+        ...base,
+        deleted: false,
+        result: dc
+          ? convertDcRecord(dc, options, identifier || undefined)
+          : {
+              success: false,
+              error: new ConversionError('Record has no oai_dc metadata', ConversionErrorCode.INVALID_FORMAT),
+            },
+      };
+    });
+
+    const resumptionToken = xmlText(xmlChild(listRecords, 'resumptionToken'));
+    return {
+      success: true,
+      data: { records, ...(resumptionToken ? { resumptionToken } : {}) },
+    };
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
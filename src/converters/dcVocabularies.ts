@@ -0,0 +1,49 @@
+/**
+ * Mappings between Dublin Core values (DCMI Type, info:eu-repo genres) and
+ * their AMB counterparts
+ */
+
+import { DEFAULT_LOM_MAPPINGS } from './lomVocabularies.js';
+
+const HCRT = 'https://w3id.org/kim/hcrt/';
+
+export const DCMI_TYPE_NAMESPACE = 'http://purl.org/dc/dcmitype/';
+export const EU_REPO_NAMESPACE = 'info:eu-repo/semantics/';
+
+/**
+ * Default dc:type → learningResourceType mappings, keyed by lower-case value.
+ * DCMI Type terms (with or without namespace), the textual info:eu-repo
+ * genres and bare HCRT ids are covered; values that already are http(s) URIs
+ * are taken as concept ids.
+ */
+export const DEFAULT_DC_TYPES: Record<string, string> = {
+  ...DEFAULT_LOM_MAPPINGS.learningResourceType,
+  // DCMI Type
+  text: HCRT + 'text',
+  image: HCRT + 'image',
+  stillimage: HCRT + 'image',
+  movingimage: HCRT + 'video',
+  sound: HCRT + 'audio',
+  dataset: HCRT + 'data',
+  software: HCRT + 'application',
+  // info:eu-repo genres that are text documents
+  ...Object.fromEntries(
+    [
+      'article', 'book', 'bookpart', 'report', 'doctoralthesis', 'masterthesis', 'bachelorthesis',
+      'workingpaper', 'preprint', 'review', 'contributiontoperiodical',
+    ].map(genre => [EU_REPO_NAMESPACE.toLowerCase() + genre, HCRT + 'text'])
+  ),
+};
+
+/**
+ * learningResourceType concepts written as DCMI Type terms by ambToDc; the
+ * inverse of the DCMI entries above, so they survive a round trip
+ */
+export const AMB_TO_DCMI_TYPE: Record<string, string> = {
+  [HCRT + 'text']: 'Text',
+  [HCRT + 'image']: 'Image',
+  [HCRT + 'video']: 'MovingImage',
+  [HCRT + 'audio']: 'Sound',
+  [HCRT + 'data']: 'Dataset',
+  [HCRT + 'application']: 'Software',
+};
@@ -0,0 +1,222 @@
+/**
+ * Importer for H5P content metadata (h5p.json, optionally content.json) to
+ * AMB
+ */
+
+import {
+  AmbLearningResource,
+  Person,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarningCode,
+  H5pToAmbOptions,
+} from '../types/index.js';
+import { languageCode } from '../utils/ambValues.js';
+import { htmlToText } from '../utils/html.js';
+import { createWarningCollector } from '../utils/warnings.js';
+import { DEFAULT_H5P_LIBRARIES, H5P_MEDIA_TYPE, H5P_ROLES, h5pLicenseUrl } from './h5pVocabularies.js';
+
+type JsonObject = Record<string, unknown>;
+
+/** Matches an RFC 3986 scheme prefix, i.e. an absolute URI. */
+const URI_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+/** content.json fields that hold the task description of common content types. */
+const DESCRIPTION_PATHS = [['introPage', 'introduction'], ['taskDescription']];
+
+/** h5p.json fields that carry no metadata about the content itself. */
+const TECHNICAL_FIELDS = new Set([
+  'embedTypes', 'preloadedDependencies', 'editorDependencies', 'dynamicDependencies',
+  'defaultLanguage', 'a11yTitle', 'extraTitle', 'authorComments',
+  'w', 'h', 'contentType',
+]);
+
+function parseJson(input: string | JsonObject, file: string): JsonObject {
+  if (typeof input !== 'string') return input;
+  try {
+    const parsed: unknown = JSON.parse(input);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed as JsonObject;
+  } catch {
+    // reported below
+  }
+  throw new ConversionError(`${file} is not a JSON object`, ConversionErrorCode.INVALID_FORMAT);
+}
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : undefined;
+
+/**
+ * Convert H5P metadata to AMB. `h5pJson` is the package's h5p.json (parsed or
+ * as a string); the optional content.json supplies a description for content
+ * types with an introduction or task description. H5P files carry no URL, so
+ * `options.id` or `options.contentUrl` must name one.
+ */
+export function h5pToAmb(
+  h5pJson: string | JsonObject,
+  contentJson?: string | JsonObject,
+  options: H5pToAmbOptions = {}
+): ConversionResult<AmbLearningResource> {
+  // Lossy values warn by default and fail in strict mode
+  const { warn: normalize, warnings } = createWarningCollector(options.strict);
+  const dropped = (field: string, value: string, detail: string, path?: string) =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+        message: `h5p.json ${field} "${value}" ${detail}; dropped`,
+        ...(path ? { path } : {}),
+        value,
+      },
+      ConversionErrorCode.UNSUPPORTED_PROPERTY
+    );
+  const unmapped = (field: string, value: string, path: string) =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+        message: `h5p.json ${field} "${value}" has no AMB mapping; dropped`,
+        path,
+        value,
+      },
+      ConversionErrorCode.UNMAPPED_VOCABULARY_VALUE
+    );
+
+  try {
+    const h5p = parseJson(h5pJson, 'h5p.json');
+    const content = contentJson !== undefined ? parseJson(contentJson, 'content.json') : undefined;
+
+    const name = text(h5p.title);
+    if (!name) {
+      throw new ConversionError('h5p.json must have a title', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+    const id = options.id ?? options.contentUrl;
+    if (!id) {
+      throw new ConversionError(
+        'H5P content has no URL; pass id or contentUrl',
+        ConversionErrorCode.MISSING_REQUIRED_FIELD
+      );
+    }
+
+    // "und" is H5P's "undetermined"
+    const language = text(h5p.language);
+    const code = language && language !== 'und' ? languageCode(language) : undefined;
+    if (language && language !== 'und' && !code) unmapped('language', language, '$.inLanguage');
+
+    const amb: Record<string, any> = {
+      '@context': [
+        'https://w3id.org/kim/amb/context.jsonld',
+        { '@language': code ?? options.defaultLanguage ?? 'de' },
+      ],
+      id,
+      type: ['LearningResource'],
+      name,
+    };
+
+    // The task description from content.json, else the package's metaDescription
+    for (const path of DESCRIPTION_PATHS) {
+      const value = path.reduce<unknown>((node, key) => (node as JsonObject | undefined)?.[key], content);
+      const description = typeof value === 'string' ? htmlToText(value) : '';
+      if (description) {
+        amb.description = description;
+        break;
+      }
+    }
+    const metaDescription = text(h5p.metaDescription);
+    if (metaDescription && !amb.description) amb.description = metaDescription;
+    const keywords = text(h5p.metaKeywords)?.split(',').map(keyword => keyword.trim()).filter(Boolean) ?? [];
+    if (keywords.length > 0) amb.keywords = [...new Set(keywords)];
+    if (code) amb.inLanguage = [code];
+
+    // Authors by role; H5P does not tell people from organizations
+    const authors = Array.isArray(h5p.authors) ? (h5p.authors as JsonObject[]) : [];
+    for (const author of authors) {
+      const authorName = text(author?.name);
+      if (!authorName) continue;
+      const role = text(author.role)?.toLowerCase() ?? 'author';
+      const property = H5P_ROLES[role];
+      if (!property) {
+        unmapped('author role', text(author.role)!, '$.contributor');
+        continue;
+      }
+      const person: Person = { type: 'Person', name: authorName };
+      const list: Person[] = (amb[property] ??= []);
+      if (!list.some(existing => existing.name === authorName)) list.push(person);
+    }
+
+    const license = text(h5p.license);
+    if (license) {
+      const version = text(h5p.licenseVersion);
+      const url = h5pLicenseUrl(license, version);
+      if (url) {
+        amb.license = { id: url };
+      } else if (url === undefined) {
+        dropped('license', version ? `${license} ${version}` : license, 'has no license URL', '$.license');
+      }
+    }
+
+    const mainLibrary = text(h5p.mainLibrary);
+    if (mainLibrary) {
+      const type = options.libraries?.[mainLibrary] ?? DEFAULT_H5P_LIBRARIES[mainLibrary];
+      if (type) {
+        amb.learningResourceType = [{ id: type }];
+      } else {
+        unmapped('mainLibrary', mainLibrary, '$.learningResourceType');
+      }
+    }
+
+    const source = text(h5p.source);
+    if (source) {
+      if (URI_SCHEME.test(source)) {
+        amb.isBasedOn = [{ id: source }];
+      } else {
+        dropped('source', source, 'is not a URI', '$.isBasedOn');
+      }
+    }
+
+    // AMB dates are full dates; H5P only records years
+    for (const field of ['yearFrom', 'yearTo']) {
+      const year = text(h5p[field]);
+      if (year) dropped(field, year, 'is not a full ISO 8601 date', '$.dateCreated');
+    }
+
+    amb.encoding = [
+      {
+        type: 'MediaObject',
+        encodingFormat: H5P_MEDIA_TYPE,
+        ...(options.contentUrl ? { contentUrl: options.contentUrl } : {}),
+      },
+    ];
+
+    // Whatever else h5p.json describes (changes, licenseExtras, …) has no AMB place
+    const handled = new Set([
+      'title', 'language', 'authors', 'license', 'licenseVersion', 'mainLibrary', 'source', 'yearFrom', 'yearTo',
+      'metaDescription', 'metaKeywords',
+    ]);
+    for (const [field, value] of Object.entries(h5p)) {
+      if (handled.has(field) || TECHNICAL_FIELDS.has(field) || value === undefined || value === '') continue;
+      if (Array.isArray(value) && value.length === 0) continue;
+      dropped(field, typeof value === 'string' ? value : JSON.stringify(value), 'has no AMB counterpart');
+    }
+
+    const result: ConversionResult<AmbLearningResource> = {
+      success: true,
+      data: amb as AmbLearningResource,
+    };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
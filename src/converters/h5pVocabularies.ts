@@ -0,0 +1,95 @@
+/**
+ * Mappings from H5P metadata values (content type libraries, license codes,
+ * author roles) to their AMB counterparts
+ */
+
+const HCRT = 'https://w3id.org/kim/hcrt/';
+
+/** Media type of `.h5p` packages, as in the AMB specification's example. */
+export const H5P_MEDIA_TYPE = 'application/vnd.h5p+zip';
+
+/**
+ * Default learningResourceType per H5P main library (machine name). Content
+ * types that only arrange other content (Column, Accordion, …) are mapped by
+ * what they typically hold.
+ */
+export const DEFAULT_H5P_LIBRARIES: Record<string, string> = {
+  // Quizzes and tests
+  'H5P.QuestionSet': HCRT + 'assessment',
+  'H5P.SingleChoiceSet': HCRT + 'assessment',
+  'H5P.MultiChoice': HCRT + 'assessment',
+  'H5P.TrueFalse': HCRT + 'assessment',
+  'H5P.Essay': HCRT + 'assessment',
+  'H5P.ArithmeticQuiz': HCRT + 'assessment',
+  'H5P.Questionnaire': HCRT + 'questionnaire',
+  'H5P.DocumentationTool': HCRT + 'worksheet',
+  // Practice
+  'H5P.Blanks': HCRT + 'drill_and_practice',
+  'H5P.DragQuestion': HCRT + 'drill_and_practice',
+  'H5P.DragText': HCRT + 'drill_and_practice',
+  'H5P.MarkTheWords': HCRT + 'drill_and_practice',
+  'H5P.Summary': HCRT + 'drill_and_practice',
+  'H5P.Flashcards': HCRT + 'drill_and_practice',
+  'H5P.Dialogcards': HCRT + 'drill_and_practice',
+  'H5P.ImageSequencing': HCRT + 'drill_and_practice',
+  'H5P.SortParagraphs': HCRT + 'drill_and_practice',
+  'H5P.SpeakTheWords': HCRT + 'drill_and_practice',
+  // Games
+  'H5P.MemoryGame': HCRT + 'educational_game',
+  'H5P.ImagePair': HCRT + 'educational_game',
+  'H5P.Crossword': HCRT + 'educational_game',
+  'H5P.FindTheWords': HCRT + 'educational_game',
+  'H5P.GameMap': HCRT + 'educational_game',
+  // Presentation and media
+  'H5P.CoursePresentation': HCRT + 'slide',
+  'H5P.InteractiveBook': HCRT + 'textbook',
+  'H5P.InteractiveVideo': HCRT + 'video',
+  'H5P.Video': HCRT + 'video',
+  'H5P.Audio': HCRT + 'audio',
+  'H5P.AudioRecorder': HCRT + 'application',
+  'H5P.Image': HCRT + 'image',
+  'H5P.ImageHotspots': HCRT + 'image',
+  'H5P.ImageSlider': HCRT + 'image',
+  'H5P.ImageJuxtaposition': HCRT + 'image',
+  'H5P.Agamotto': HCRT + 'image',
+  'H5P.Collage': HCRT + 'image',
+  'H5P.Chart': HCRT + 'diagram',
+  'H5P.Timeline': HCRT + 'diagram',
+  'H5P.Accordion': HCRT + 'text',
+  'H5P.Column': HCRT + 'text',
+  'H5P.BranchingScenario': HCRT + 'simulation',
+  'H5P.ThreeImage': HCRT + 'simulation',
+};
+
+/** AMB property per H5P author role (lower case). */
+export const H5P_ROLES: Record<string, 'creator' | 'contributor'> = {
+  author: 'creator',
+  originator: 'creator',
+  editor: 'contributor',
+  licensee: 'contributor',
+};
+
+/** Creative Commons path segments per H5P license code. */
+const CC_LICENSES: Record<string, string> = {
+  'CC BY': 'by',
+  'CC BY-SA': 'by-sa',
+  'CC BY-ND': 'by-nd',
+  'CC BY-NC': 'by-nc',
+  'CC BY-NC-SA': 'by-nc-sa',
+  'CC BY-NC-ND': 'by-nc-nd',
+};
+
+/**
+ * License URL for an H5P `license` / `licenseVersion` pair, null for the
+ * codes that mean "no license" (U = undisclosed, C = copyright) and
+ * undefined for those with no URL AMB accepts
+ */
+export function h5pLicenseUrl(license: string, version: string | undefined): string | null | undefined {
+  if (license === 'U' || license === 'C') return null;
+  if (license === 'CC0 1.0') return 'https://creativecommons.org/publicdomain/zero/1.0/';
+  if (license === 'CC PDM') return 'https://creativecommons.org/publicdomain/mark/1.0/';
+  if (license === 'GNU GPL' && version === 'v3') return 'http://www.gnu.org/licenses/gpl-3.0';
+  const cc = CC_LICENSES[license];
+  if (cc && version && /^\d\.\d$/.test(version)) return `https://creativecommons.org/licenses/${cc}/${version}/`;
+  return undefined;
+}
@@ -0,0 +1,441 @@
+/**
+ * Extractor for AMB metadata from HTML pages: schema.org JSON-LD, with Open
+ * Graph and standard meta tags filling the gaps
+ */
+
+import {
+  AmbLearningResource,
+  AmbLearningResourceReference,
+  Concept,
+  Organization,
+  Person,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarningCode,
+  HtmlToAmbOptions,
+} from '../types/index.js';
+import { HtmlDocument, scanHtml } from '../utils/html.js';
+import { languageCode, isAmbDate } from '../utils/ambValues.js';
+import { createWarningCollector } from '../utils/warnings.js';
+import { DEFAULT_LOM_MAPPINGS } from './lomVocabularies.js';
+
+type JsonObject = Record<string, unknown>;
+
+/** schema.org LearningResource and its subtypes. */
+const LEARNING_RESOURCE_TYPES = new Set(['LearningResource', 'Course', 'Quiz', 'Syllabus']);
+
+/** schema.org Organization subtypes that do not end in "Organization". */
+const ORGANIZATION_TYPES = /Organization$|^(CollegeOrUniversity|School|Corporation|NGO|Library|Consortium)$/;
+
+const AUDIENCE_ROLE = 'http://purl.org/dcx/lrmi-vocabs/educationalAudienceRole/';
+
+/** LRMI educationalAudienceRole ids by lower-case label ("general public", "generalpublic"), plus the LOM roles. */
+const AUDIENCE_ROLES: Record<string, string> = {
+  ...Object.fromEntries(
+    ['administrator', 'generalPublic', 'mentor', 'parent', 'peerTutor', 'professional', 'student', 'teacher'].flatMap(
+      role => [
+        [role.toLowerCase(), AUDIENCE_ROLE + role],
+        [role.replace(/[A-Z]/g, char => ` ${char.toLowerCase()}`), AUDIENCE_ROLE + role],
+      ]
+    )
+  ),
+  ...DEFAULT_LOM_MAPPINGS.intendedEndUserRole,
+};
+
+/** AMB duration form (the schema's ISO 8601 duration pattern). */
+const DURATION = /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/;
+
+/** Concept-valued properties and the table their text values go through. */
+const CONCEPT_PROPERTIES: Array<[keyof AmbLearningResource, Record<string, string>]> = [
+  ['about', {}],
+  ['learningResourceType', DEFAULT_LOM_MAPPINGS.learningResourceType],
+  ['educationalLevel', {}],
+  ['teaches', {}],
+  ['assesses', {}],
+  ['competencyRequired', {}],
+];
+
+const RELATIONS = ['isPartOf', 'hasPart', 'isBasedOn'] as const;
+
+/** schema.org properties read from the node (others are reported as dropped). */
+const HANDLED_PROPERTIES = new Set<string>([
+  '@context', '@id', 'id', '@type', 'type', 'url', 'mainEntityOfPage', 'headline', 'name', 'description',
+  'keywords', 'author', 'creator', 'contributor', 'publisher', 'datePublished', 'dateCreated', 'dateModified',
+  'inLanguage', 'license', 'image', 'thumbnailUrl', 'isAccessibleForFree', 'audience', 'interactivityType',
+  'timeRequired', 'duration', ...CONCEPT_PROPERTIES.map(([property]) => property), ...RELATIONS,
+]);
+
+const asArray = (value: unknown): unknown[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Strip a `schema:` or schema.org namespace prefix from a term. */
+const term = (key: string) => key.replace(/^(?:schema:|https?:\/\/schema\.org\/)/, '');
+
+/** The `@type`s of a node, without namespace prefixes. */
+const typesOf = (node: JsonObject): string[] =>
+  asArray(node['@type'] ?? node.type).flatMap(type => (typeof type === 'string' ? [term(type)] : []));
+
+/**
+ * The node's properties keyed by bare schema.org term
+ */
+function termsOf(node: JsonObject): JsonObject {
+  return Object.fromEntries(Object.entries(node).map(([key, value]) => [term(key), value]));
+}
+
+/**
+ * Text of a JSON-LD value: a string, a value object, or the first of a list
+ */
+function textOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (Array.isArray(value)) return value.map(textOf).find(Boolean);
+  if (isObject(value) && typeof value['@value'] === 'string') return value['@value'].trim() || undefined;
+  return undefined;
+}
+
+/**
+ * Absolute http(s) URL for `value` resolved against `base`, undefined otherwise
+ */
+function resolveUrl(value: string | undefined, base: string | undefined): string | undefined {
+  // Blank node ids are not relative URLs
+  if (!value || value.startsWith('_:')) return undefined;
+  try {
+    const url = new URL(value.trim(), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * JSON-LD nodes in a parsed block: top-level nodes, `@graph` members and the
+ * `mainEntity` of pages
+ */
+function collectNodes(value: unknown, nodes: JsonObject[]): void {
+  for (const item of asArray(value)) {
+    if (!isObject(item)) continue;
+    nodes.push(item);
+    collectNodes(item['@graph'], nodes);
+    collectNodes(item.mainEntity ?? item['schema:mainEntity'], nodes);
+  }
+}
+
+/**
+ * Content of the first `<meta>` whose name or property is one of `keys`
+ */
+function metaContent(document: HtmlDocument, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const tag = document.meta.find(
+      meta => (meta.attributes.property ?? meta.attributes.name)?.toLowerCase() === key && meta.attributes.content
+    );
+    if (tag) return tag.attributes.content!.trim();
+  }
+  return undefined;
+}
+
+/**
+ * `href` of the first `<link>` whose rel list contains `rel`
+ */
+function linkHref(document: HtmlDocument, rel: string): string | undefined {
+  return document.links.find(link => link.attributes.rel?.toLowerCase().split(/\s+/).includes(rel))?.attributes.href;
+}
+
+/**
+ * Extract an AMB learning resource from an HTML page. The first schema.org
+ * JSON-LD node typed LearningResource (or a subtype such as Course), else
+ * CreativeWork, supplies the metadata; Open Graph, `<meta name="description|
+ * keywords|author">`, `<html lang>` and `<link rel="license">` fill what it
+ * leaves out, or everything when the page has no such node. The page URL —
+ * JSON-LD `mainEntityOfPage`, the canonical link, `og:url` or
+ * `options.baseUrl` — becomes `mainEntityOfPage` and, when the node has no
+ * URL of its own, the id. Nothing is fetched.
+ */
+export function htmlToAmb(
+  html: string,
+  options: HtmlToAmbOptions = {}
+): ConversionResult<AmbLearningResource> {
+  // Dropped values warn by default and fail in strict mode
+  const { warn: normalize, warnings } = createWarningCollector(options.strict);
+  const dropped = (path: string, detail: string, value?: string) =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+        message: `${path} ${detail}; dropped`,
+        path,
+        ...(value !== undefined ? { value } : {}),
+      },
+      ConversionErrorCode.UNSUPPORTED_PROPERTY
+    );
+  const unmapped = (path: string, value: string) =>
+    normalize(
+      {
+        code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+        message: `${path} "${value}" is text, not a concept URI; dropped`,
+        path,
+        value,
+      },
+      ConversionErrorCode.UNMAPPED_VOCABULARY_VALUE
+    );
+
+  try {
+    if (options.baseUrl !== undefined && !resolveUrl(options.baseUrl, undefined)) {
+      throw new ConversionError(
+        `baseUrl "${options.baseUrl}" is not an absolute http(s) URL`,
+        ConversionErrorCode.INVALID_INPUT
+      );
+    }
+    const document = scanHtml(html);
+    const base = resolveUrl(document.baseHref, options.baseUrl) ?? options.baseUrl;
+    const url = (value: unknown) => (typeof value === 'string' ? resolveUrl(value, base) : undefined);
+    // URL of a node reference: the node's @id / id / url, or a string that
+    // is an absolute URL (relative strings are more likely plain text)
+    const nodeUrl = (value: unknown): string | undefined =>
+      isObject(value) ? url(value['@id'] ?? value.id) ?? url(textOf(value.url)) : resolveUrl(textOf(value), undefined);
+
+    // JSON-LD: the first learning resource, else the first creative work
+    const nodes: JsonObject[] = [];
+    document.jsonLd.forEach((block, index) => {
+      try {
+        collectNodes(JSON.parse(block), nodes);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        normalize(
+          {
+            code: ConversionWarningCode.INVALID_JSON_LD,
+            message: `JSON-LD block ${index + 1} is not valid JSON (${reason}); skipped`,
+            value: block.length > 80 ? `${block.slice(0, 79)}…` : block,
+          },
+          ConversionErrorCode.INVALID_JSON_LD
+        );
+      }
+    });
+    const node =
+      nodes.find(n => typesOf(n).some(type => LEARNING_RESOURCE_TYPES.has(type))) ??
+      nodes.find(n => typesOf(n).includes('CreativeWork'));
+    const props = node ? termsOf(node) : {};
+
+    const pageUrl =
+      nodeUrl(asArray(props.mainEntityOfPage)[0]) ??
+      url(linkHref(document, 'canonical')) ??
+      url(metaContent(document, 'og:url')) ??
+      options.baseUrl;
+    const id = url(props['@id'] ?? props.id) ?? url(textOf(props.url)) ?? pageUrl;
+    if (!id) {
+      throw new ConversionError(
+        'Page has no URL: pass baseUrl or add a canonical link',
+        ConversionErrorCode.MISSING_REQUIRED_FIELD
+      );
+    }
+
+    const name =
+      textOf(props.name) ??
+      textOf(props.headline) ??
+      metaContent(document, 'og:title', 'twitter:title') ??
+      document.title;
+    if (!name) {
+      throw new ConversionError('Page has no title', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+
+    // Languages: JSON-LD inLanguage, else the page language
+    const inLanguage: string[] = [];
+    const addLanguage = (value: string | undefined, path: string) => {
+      if (!value) return;
+      const code = languageCode(value);
+      if (!code) {
+        dropped(path, `"${value}" is not a language code`, value);
+      } else if (!inLanguage.includes(code)) {
+        inLanguage.push(code);
+      }
+    };
+    for (const language of asArray(props.inLanguage)) {
+      const value = isObject(language) ? textOf(language.alternateName) ?? textOf(language.name) : textOf(language);
+      addLanguage(value, '$.inLanguage');
+    }
+    if (inLanguage.length === 0) {
+      addLanguage(document.lang ?? metaContent(document, 'og:locale'), '$.inLanguage');
+    }
+    const language = inLanguage[0] ?? options.defaultLanguage ?? 'de';
+
+    const types = typesOf(props).filter(type => type !== 'CreativeWork' && type !== 'LearningResource');
+    const amb: Record<string, any> = {
+      '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': language }],
+      id,
+      type: ['LearningResource', ...types],
+      name,
+    };
+
+    const description =
+      textOf(props.description) ?? metaContent(document, 'og:description', 'description', 'twitter:description');
+    if (description) amb.description = description;
+
+    const keywordSource = props.keywords ?? metaContent(document, 'keywords');
+    const keywords = [
+      ...new Set(
+        asArray(keywordSource).flatMap(keyword =>
+          typeof keyword === 'string' ? keyword.split(',') : [textOf(isObject(keyword) ? keyword.name : keyword) ?? '']
+        ).map(keyword => keyword.trim()).filter(Boolean)
+      ),
+    ];
+    if (keywords.length > 0) amb.keywords = keywords;
+
+    // Concepts: URIs (or nodes with one) as ids; text only through a table
+    const conceptsOf = (values: unknown, path: string, table: Record<string, string>): Concept[] => {
+      const concepts: Concept[] = [];
+      for (const value of asArray(values)) {
+        const conceptId = nodeUrl(value);
+        const label = textOf(
+          isObject(value) ? value.name ?? value.prefLabel ?? value.educationalRole ?? value.audienceType : value
+        );
+        const mapped = conceptId ?? (label ? table[label.toLowerCase()] : undefined);
+        if (!mapped) {
+          if (label) unmapped(path, label);
+          continue;
+        }
+        if (concepts.some(concept => concept.id === mapped)) continue;
+        // Only labels of concept nodes are labels; a mapped text value is not
+        const prefLabel = isObject(value) && conceptId && label ? { prefLabel: { [language]: label } } : {};
+        concepts.push({ id: mapped, ...prefLabel });
+      }
+      return concepts;
+    };
+    for (const [property, table] of CONCEPT_PROPERTIES) {
+      const concepts = conceptsOf(props[property], `$.${property}`, table);
+      if (concepts.length > 0) amb[property] = concepts;
+    }
+    if (inLanguage.length > 0) amb.inLanguage = inLanguage;
+
+    // Agents: JSON-LD nodes or names, meta author as fallback
+    const agentsOf = (values: unknown, path: string): Array<Person | Organization> =>
+      asArray(values).flatMap((value, index): Array<Person | Organization> => {
+        if (!isObject(value)) {
+          const text = textOf(value);
+          return text ? [{ type: 'Person', name: text }] : [];
+        }
+        const agentName =
+          textOf(value.name) ??
+          ([textOf(value.givenName), textOf(value.familyName)].filter(Boolean).join(' ') || undefined);
+        if (!agentName) {
+          dropped(`${path}[${index}]`, 'has no name');
+          return [];
+        }
+        const agentId = url(value['@id'] ?? value.id) ?? asArray(value.sameAs).map(url).find(Boolean);
+        if (typesOf(value).some(type => ORGANIZATION_TYPES.test(type))) {
+          const homepage = url(textOf(value.url));
+          return [
+            {
+              type: 'Organization',
+              name: agentName,
+              ...(agentId ? { id: agentId } : {}),
+              ...(homepage ? { url: homepage } : {}),
+            },
+          ];
+        }
+        const affiliation = asArray(value.affiliation)[0];
+        const affiliationName = textOf(isObject(affiliation) ? affiliation.name : affiliation);
+        return [
+          {
+            type: 'Person',
+            name: agentName,
+            ...(agentId ? { id: agentId } : {}),
+            ...(affiliationName ? { affiliation: { type: 'Organization', name: affiliationName } } : {}),
+          },
+        ];
+      });
+    const creators = agentsOf(props.creator ?? props.author ?? metaContent(document, 'author'), '$.creator');
+    if (creators.length > 0) amb.creator = creators;
+    const contributors = agentsOf(props.contributor, '$.contributor');
+    if (contributors.length > 0) amb.contributor = contributors;
+    const publishers = agentsOf(props.publisher, '$.publisher');
+    if (publishers.length > 0) amb.publisher = publishers;
+
+    const audience = conceptsOf(props.audience, '$.audience', AUDIENCE_ROLES);
+    if (audience.length > 0) amb.audience = audience;
+    const interactivity = conceptsOf(
+      props.interactivityType,
+      '$.interactivityType',
+      DEFAULT_LOM_MAPPINGS.interactivityType
+    )[0];
+    if (interactivity) amb.interactivityType = interactivity;
+
+    // Dates: JSON-LD, else the Open Graph article times
+    const dates: Array<['dateCreated' | 'datePublished' | 'dateModified', string | undefined]> = [
+      ['dateCreated', textOf(props.dateCreated)],
+      ['datePublished', textOf(props.datePublished) ?? metaContent(document, 'article:published_time')],
+      ['dateModified', textOf(props.dateModified) ?? metaContent(document, 'article:modified_time', 'og:updated_time')],
+    ];
+    for (const [property, value] of dates) {
+      if (!value) continue;
+      if (isAmbDate(value)) {
+        amb[property] = value;
+      } else {
+        dropped(`$.${property}`, `"${value}" is not a full ISO 8601 date`, value);
+      }
+    }
+    const duration = textOf(props.timeRequired) ?? textOf(props.duration);
+    if (duration) {
+      if (DURATION.test(duration)) {
+        amb.duration = duration;
+      } else {
+        dropped('$.duration', `"${duration}" is not an ISO 8601 duration`, duration);
+      }
+    }
+
+    const license = nodeUrl(asArray(props.license)[0]) ?? url(linkHref(document, 'license'));
+    if (license) amb.license = { id: license };
+    const free = asArray(props.isAccessibleForFree)[0];
+    if (free === true || free === 'true' || free === 'True') amb.isAccessibleForFree = true;
+    if (free === false || free === 'false' || free === 'False') amb.isAccessibleForFree = false;
+
+    const imageUrl = (value: unknown) => (isObject(value) ? url(textOf(value.contentUrl)) ?? nodeUrl(value) : url(textOf(value)));
+    const image =
+      asArray(props.image).map(imageUrl).find(Boolean) ??
+      url(textOf(props.thumbnailUrl)) ??
+      url(metaContent(document, 'og:image', 'twitter:image'));
+    if (image) amb.image = image;
+
+    for (const property of RELATIONS) {
+      const references: AmbLearningResourceReference[] = [];
+      asArray(props[property]).forEach((value, index) => {
+        const referenceId = nodeUrl(value);
+        if (!referenceId) {
+          dropped(`$.${property}[${index}]`, 'has no URL');
+          return;
+        }
+        const referenceName = isObject(value) ? textOf(value.name) : undefined;
+        references.push({ id: referenceId, ...(referenceName ? { name: referenceName } : {}) });
+      });
+      if (references.length > 0) amb[property] = references;
+    }
+
+    if (pageUrl) amb.mainEntityOfPage = [{ id: pageUrl }];
+
+    for (const key of Object.keys(props)) {
+      if (!HANDLED_PROPERTIES.has(key)) dropped(`$.${key}`, 'has no AMB property');
+    }
+
+    const result: ConversionResult<AmbLearningResource> = {
+      success: true,
+      data: amb as AmbLearningResource,
+    };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
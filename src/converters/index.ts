@@ -1,6 +1,24 @@
 /**
- * Converters for AMB ↔ Nostr transformations
+ * Converters for AMB ↔ Nostr, AMB ↔ LOM, AMB ↔ Dublin Core and AMB ↔ DataCite
+ * transformations, AMB ↔ CSV and AMB ↔ Markdown front matter, AMB extraction
+ * from HTML pages, IMS content packages and H5P, and citation export
+ * (CSL-JSON, BibTeX)
  */
 
 export * from './ambToNostr.js';
 export * from './nostrToAmb.js';
+export * from './lomToAmb.js';
+export * from './ambToLom.js';
+export * from './dcToAmb.js';
+export * from './ambToDc.js';
+export * from './dataciteToAmb.js';
+export * from './ambToDatacite.js';
+export * from './htmlToAmb.js';
+export * from './manifestToAmb.js';
+export * from './h5pToAmb.js';
+export * from './csvToAmb.js';
+export * from './ambToCsv.js';
+export * from './markdownToAmb.js';
+export * from './ambToMarkdown.js';
+export * from './ambToCsl.js';
+export * from './ambToBibtex.js';
@@ -0,0 +1,441 @@
+/**
+ * Converter for IEEE LOM / LOM-DE XML records to AMB metadata
+ */
+
+import {
+  AmbLearningResource,
+  Concept,
+  Organization,
+  Person,
+  MediaObject,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarningCode,
+  LomToAmbOptions,
+  LomVocabulary,
+} from '../types/index.js';
+import { XmlElement, parseXml, findXmlElement, xmlChild, xmlChildren, xmlText, xmlAttr } from '../utils/xml.js';
+import { VCard, parseVCard } from '../utils/vcard.js';
+import { createWarningCollector } from '../utils/warnings.js';
+import { DEFAULT_LOM_MAPPINGS, LOM_PURPOSES, LOM_RELATIONS, LOM_ROLES } from './lomVocabularies.js';
+
+/** Matches an absolute http(s) URI. */
+const HTTP_URI = /^https?:\/\//i;
+
+/** Matches an RFC 3986 scheme prefix, i.e. an absolute URI. */
+const URI_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+/** LangString language for "no language". */
+const NO_LANGUAGE = 'x-none';
+
+interface LangString {
+  language?: string;
+  value: string;
+}
+
+/**
+ * The `<string>` entries of a LOM LangString (bare text counts as one entry)
+ */
+function langStrings(element: XmlElement | undefined): LangString[] {
+  const strings = xmlChildren(element, 'string');
+  if (strings.length === 0) {
+    const text = xmlText(element);
+    return text ? [{ value: text }] : [];
+  }
+  return strings.flatMap(string => {
+    const value = xmlText(string);
+    const language = xmlAttr(string, 'language');
+    return value ? [{ value, ...(language ? { language } : {}) }] : [];
+  });
+}
+
+const realLanguage = (language: string | undefined) =>
+  language && language !== NO_LANGUAGE ? language : undefined;
+
+/**
+ * The entry in `language`, else the first with a real language, else the first
+ */
+function pickLangString(strings: LangString[], language: string | undefined): LangString | undefined {
+  return (
+    strings.find(s => language !== undefined && s.language === language) ??
+    strings.find(s => realLanguage(s.language)) ??
+    strings[0]
+  );
+}
+
+/** Text of the `<value>` of a LOM vocabulary element. */
+const vocabularyValue = (element: XmlElement | undefined) => xmlText(xmlChild(element, 'value'));
+
+/**
+ * Concept URI for a taxon: its id if that is a URI, else the id resolved
+ * against the taxonPath source (".../scheme" and "..." both act as namespace)
+ */
+function taxonUri(source: string | undefined, id: string | undefined): string | undefined {
+  if (!id) return undefined;
+  if (HTTP_URI.test(id)) return id;
+  if (!source || !HTTP_URI.test(source)) return undefined;
+  const namespace = source.endsWith('/scheme')
+    ? source.slice(0, -'scheme'.length)
+    : source.endsWith('/') || source.endsWith('#')
+      ? source
+      : `${source}/`;
+  return namespace + id;
+}
+
+/**
+ * AMB Person or Organization for a vCard, null if it names neither. Without
+ * an N property the entity is an Organization when ORG is set and FN (if
+ * any) repeats it.
+ */
+function agentFromVCard(card: VCard): Person | Organization | null {
+  const id = card.uid && URI_SCHEME.test(card.uid) ? card.uid : undefined;
+  const isPerson = card.familyName || card.givenName || (card.fn && card.org === undefined);
+  const isOrganization = !isPerson && card.org !== undefined && (card.fn === undefined || card.fn === card.org);
+
+  if (isOrganization) {
+    return {
+      type: 'Organization',
+      name: card.org!,
+      ...(id ? { id } : {}),
+      ...(card.url ? { url: card.url } : {}),
+      ...(card.email ? { email: card.email } : {}),
+    };
+  }
+  const name = card.fn ?? [card.givenName, card.familyName].filter(Boolean).join(' ');
+  if (!name) return null;
+  return {
+    type: 'Person',
+    name,
+    ...(id ? { id } : {}),
+    ...(card.honorificPrefix ? { honorificPrefix: card.honorificPrefix } : {}),
+    ...(card.honorificSuffix ? { honorificSuffix: card.honorificSuffix } : {}),
+    ...(card.email ? { email: card.email } : {}),
+    ...(card.org ? { affiliation: { type: 'Organization', name: card.org } } : {}),
+  };
+}
+
+/**
+ * Parse a LOM typicalAgeRange ("10-12", "10-", "-12", "18+", "12")
+ */
+function parseAgeRange(range: string): { minValue?: number; maxValue?: number } | undefined {
+  const match = range.trim().match(/^(\d+)?\s*(-|\+)?\s*(\d+)?$/);
+  if (!match || (match[1] === undefined && match[3] === undefined)) return undefined;
+  const [, min, separator, max] = match;
+  if (!separator) return { minValue: Number(min), maxValue: Number(min) };
+  return {
+    ...(min !== undefined ? { minValue: Number(min) } : {}),
+    ...(max !== undefined ? { maxValue: Number(max) } : {}),
+  };
+}
+
+/**
+ * What a LOM record embedded in another document (e.g. a content package
+ * manifest) takes from its surroundings
+ */
+export interface LomRecordContext {
+  // id when the record has neither a URI identifier nor an absolute location
+  id?: string;
+  // name when the record has no general.title
+  name?: string;
+  // URL relative technical.locations resolve against
+  baseUrl?: string;
+}
+
+/**
+ * Convert an IEEE LOM / LOM-DE XML record to AMB. Covers general, lifeCycle
+ * (vCard contributors), technical, educational, rights, relation and
+ * classification; the `lom` element may be wrapped in an envelope such as an
+ * OAI-PMH record.
+ */
+export function lomToAmb(
+  xml: string,
+  options: LomToAmbOptions = {}
+): ConversionResult<AmbLearningResource> {
+  let lom: XmlElement | undefined;
+  try {
+    lom = findXmlElement(parseXml(xml), 'lom');
+  } catch (error) {
+    if (error instanceof ConversionError) return { success: false, error };
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+  if (!lom) {
+    return { success: false, error: new ConversionError('No LOM record found', ConversionErrorCode.INVALID_FORMAT) };
+  }
+  return lomElementToAmb(lom, options);
+}
+
+/**
+ * Convert a parsed `lom` element to AMB, for converters that find LOM records
+ * inside other XML documents
+ */
+export function lomElementToAmb(
+  lom: XmlElement,
+  options: LomToAmbOptions = {},
+  context: LomRecordContext = {}
+): ConversionResult<AmbLearningResource> {
+  // Dropped input warns by default and fails in strict mode
+  const { warn: normalize, warnings } = createWarningCollector(options.strict);
+
+  const mappings = Object.fromEntries(
+    (Object.keys(DEFAULT_LOM_MAPPINGS) as LomVocabulary[]).map(vocabulary => [
+      vocabulary,
+      {
+        ...DEFAULT_LOM_MAPPINGS[vocabulary],
+        ...Object.fromEntries(
+          Object.entries(options.vocabularies?.[vocabulary] ?? {}).map(([value, id]) => [value.toLowerCase(), id])
+        ),
+      },
+    ])
+  ) as Record<LomVocabulary, Record<string, string>>;
+
+  // Vocabulary value → concept. Values that already are URIs (common in
+  // LOM-DE exports) are taken as the concept id.
+  const toConcept = (vocabulary: LomVocabulary, element: XmlElement, path: string): Concept | undefined => {
+    const value = vocabularyValue(element);
+    if (!value) return undefined;
+    if (HTTP_URI.test(value)) return { id: value };
+    const id = mappings[vocabulary][value.toLowerCase()];
+    if (id) return { id };
+    normalize(
+      {
+        code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+        message: `LOM ${vocabulary} value "${value}" has no AMB mapping; dropped`,
+        path,
+        value,
+      },
+      ConversionErrorCode.UNMAPPED_VOCABULARY_VALUE
+    );
+    return undefined;
+  };
+
+  try {
+    const general = xmlChild(lom, 'general');
+    const lifeCycle = xmlChild(lom, 'lifeCycle');
+    const technical = xmlChild(lom, 'technical');
+    const rights = xmlChild(lom, 'rights');
+
+    // General
+    const languages = xmlChildren(general, 'language').flatMap(l => xmlText(l) ?? []);
+    const preferred = options.defaultLanguage ?? languages[0];
+    const title =
+      pickLangString(langStrings(xmlChild(general, 'title')), preferred) ??
+      (context.name ? { value: context.name } : undefined);
+    if (!title) {
+      throw new ConversionError('LOM record must have a general.title', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    }
+    const language = realLanguage(title.language) ?? options.defaultLanguage ?? 'de';
+
+    const locations = xmlChildren(technical, 'location').flatMap(l => {
+      const location = xmlText(l);
+      if (!location || !context.baseUrl) return location ?? [];
+      try {
+        return new URL(location, context.baseUrl).href;
+      } catch {
+        return location;
+      }
+    });
+    const identifiers = xmlChildren(general, 'identifier').flatMap(identifier => {
+      const entry = xmlText(xmlChild(identifier, 'entry'));
+      if (!entry) return [];
+      if (URI_SCHEME.test(entry)) return [entry];
+      return xmlText(xmlChild(identifier, 'catalog'))?.toLowerCase() === 'doi' ? [`https://doi.org/${entry}`] : [];
+    });
+    const id = identifiers[0] ?? locations.find(location => URI_SCHEME.test(location)) ?? context.id ?? locations[0];
+    if (!id) {
+      throw new ConversionError(
+        'LOM record has neither a URI identifier nor a technical.location',
+        ConversionErrorCode.MISSING_REQUIRED_FIELD
+      );
+    }
+
+    const amb: Record<string, any> = {
+      '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': language }],
+      id,
+      type: ['LearningResource'],
+      name: title.value,
+    };
+
+    const description = pickLangString(langStrings(xmlChild(general, 'description')), language);
+    if (description) amb.description = description.value;
+
+    const keywords = xmlChildren(general, 'keyword').flatMap(
+      keyword => pickLangString(langStrings(keyword), language)?.value ?? []
+    );
+    if (keywords.length > 0) amb.keywords = [...new Set(keywords)];
+    if (languages.length > 0) amb.inLanguage = languages;
+
+    // Life cycle: vCard entities by role
+    xmlChildren(lifeCycle, 'contribute').forEach(contribute => {
+      const role = vocabularyValue(xmlChild(contribute, 'role'))?.toLowerCase() ?? 'unknown';
+      const property = LOM_ROLES[role] ?? 'contributor';
+      for (const entity of xmlChildren(contribute, 'entity')) {
+        const agent = agentFromVCard(parseVCard(xmlText(entity) ?? ''));
+        if (!agent) {
+          normalize(
+            {
+              code: ConversionWarningCode.INVALID_VCARD,
+              message: `${role} vCard has neither FN, N nor ORG; dropped`,
+              path: `$.${property}`,
+              ...(xmlText(entity) ? { value: xmlText(entity)! } : {}),
+            },
+            ConversionErrorCode.INVALID_VCARD
+          );
+          continue;
+        }
+        (amb[property] ??= []).push(agent);
+      }
+      const date = xmlText(xmlChild(xmlChild(contribute, 'date'), 'dateTime'));
+      if (date && property === 'creator') amb.dateCreated ??= date;
+      if (date && property === 'publisher') amb.datePublished ??= date;
+    });
+
+    // Technical: locations paired with formats by position
+    const formats = xmlChildren(technical, 'format').flatMap(f => xmlText(f) ?? []);
+    const encoding: MediaObject[] = [];
+    for (let i = 0; i < Math.max(locations.length, formats.length); i++) {
+      const contentUrl = locations[i];
+      const encodingFormat = formats[i] ?? (formats.length === 1 ? formats[0] : undefined);
+      if (contentUrl === id && !encodingFormat) continue;
+      encoding.push({
+        type: 'MediaObject',
+        ...(contentUrl ? { contentUrl } : {}),
+        ...(encodingFormat ? { encodingFormat } : {}),
+      });
+    }
+    if (encoding.length > 0) amb.encoding = encoding;
+    const duration = xmlText(xmlChild(xmlChild(technical, 'duration'), 'duration'));
+    if (duration) amb.duration = duration;
+
+    // Educational
+    const addConcept = (property: string, concept: Concept | undefined) => {
+      if (!concept) return;
+      const list: Concept[] = (amb[property] ??= []);
+      if (!list.some(existing => existing.id === concept.id)) list.push(concept);
+    };
+    for (const educational of xmlChildren(lom, 'educational')) {
+      for (const element of xmlChildren(educational, 'learningResourceType')) {
+        addConcept('learningResourceType', toConcept('learningResourceType', element, '$.learningResourceType'));
+      }
+      for (const element of xmlChildren(educational, 'intendedEndUserRole')) {
+        addConcept('audience', toConcept('intendedEndUserRole', element, '$.audience'));
+      }
+      for (const element of xmlChildren(educational, 'context')) {
+        addConcept('educationalLevel', toConcept('context', element, '$.educationalLevel'));
+      }
+      const interactivity = xmlChild(educational, 'interactivityType');
+      if (interactivity && !amb.interactivityType) {
+        const concept = toConcept('interactivityType', interactivity, '$.interactivityType');
+        if (concept) amb.interactivityType = concept;
+      }
+      const ageRange = langStrings(xmlChild(educational, 'typicalAgeRange'))[0];
+      const suggestedAge = ageRange && parseAgeRange(ageRange.value);
+      if (suggestedAge && !amb.suggestedAge) amb.suggestedAge = suggestedAge;
+    }
+
+    // Rights
+    const cost = vocabularyValue(xmlChild(rights, 'cost'))?.toLowerCase();
+    if (cost === 'no') amb.isAccessibleForFree = true;
+    if (cost === 'yes') amb.isAccessibleForFree = false;
+    for (const { value } of langStrings(xmlChild(rights, 'description'))) {
+      const url = value.match(/https?:\/\/[^\s<>"]+/)?.[0]?.replace(/[.,;)]+$/, '');
+      if (url) {
+        amb.license = { id: url };
+        break;
+      }
+    }
+
+    // Relations
+    for (const relation of xmlChildren(lom, 'relation')) {
+      const kind = vocabularyValue(xmlChild(relation, 'kind'));
+      const resource = xmlChild(relation, 'resource');
+      const target = xmlChildren(resource, 'identifier')
+        .map(identifier => xmlText(xmlChild(identifier, 'entry')))
+        .find(entry => entry && URI_SCHEME.test(entry));
+      if (!kind || !target) continue;
+      const property = LOM_RELATIONS[kind.toLowerCase().replace(/\s+/g, '')];
+      if (!property) {
+        normalize(
+          {
+            code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+            message: `LOM relation kind "${kind}" has no AMB mapping; dropped`,
+            value: kind,
+          },
+          ConversionErrorCode.UNMAPPED_VOCABULARY_VALUE
+        );
+        continue;
+      }
+      const name = pickLangString(langStrings(xmlChild(resource, 'description')), language);
+      (amb[property] ??= []).push({ id: target, ...(name ? { name: name.value } : {}) });
+    }
+
+    // Classification: the leaf taxon of each taxonPath
+    for (const classification of xmlChildren(lom, 'classification')) {
+      const purpose = vocabularyValue(xmlChild(classification, 'purpose'))?.toLowerCase() ?? 'discipline';
+      const property = LOM_PURPOSES[purpose];
+      if (!property) {
+        normalize(
+          {
+            code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+            message: `LOM classification purpose "${purpose}" has no AMB mapping; dropped`,
+            value: purpose,
+          },
+          ConversionErrorCode.UNMAPPED_VOCABULARY_VALUE
+        );
+        continue;
+      }
+      for (const taxonPath of xmlChildren(classification, 'taxonPath')) {
+        const source = pickLangString(langStrings(xmlChild(taxonPath, 'source')), language)?.value;
+        const taxon = xmlChildren(taxonPath, 'taxon').at(-1);
+        const taxonId = xmlText(xmlChild(taxon, 'id'));
+        const entries = langStrings(xmlChild(taxon, 'entry'));
+        const conceptId = taxonUri(source, taxonId);
+        if (!conceptId) {
+          normalize(
+            {
+              code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+              message: `taxon "${taxonId ?? entries[0]?.value ?? ''}" has no URI and its source is not a URI; dropped`,
+              path: `$.${property}`,
+              ...(taxonId ?? entries[0]?.value ? { value: (taxonId ?? entries[0]?.value)! } : {}),
+            },
+            ConversionErrorCode.UNMAPPED_VOCABULARY_VALUE
+          );
+          continue;
+        }
+        const prefLabel = Object.fromEntries(
+          entries.map(entry => [realLanguage(entry.language) ?? language, entry.value])
+        );
+        addConcept(property, { id: conceptId, ...(entries.length > 0 ? { prefLabel } : {}) });
+      }
+    }
+
+    const result: ConversionResult<AmbLearningResource> = {
+      success: true,
+      data: amb as AmbLearningResource,
+    };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Mappings between LOM / LOM-DE vocabulary values and the AMB controlled
+ * vocabularies (HCRT, KIM educationalLevel, LRMI educationalAudienceRole and
+ * interactivityType)
+ */
+
+import type { LomVocabulary, LomVocabularyMappings } from '../types/index.js';
+
+export const LOM_SOURCE = 'LOMv1.0';
+
+const HCRT = 'https://w3id.org/kim/hcrt/';
+const EDUCATIONAL_LEVEL = 'https://w3id.org/kim/educationalLevel/';
+const AUDIENCE_ROLE = 'http://purl.org/dcx/lrmi-vocabs/educationalAudienceRole/';
+const INTERACTIVITY_TYPE = 'http://purl.org/dcx/lrmi-vocabs/interactivityType/';
+
+const HCRT_IDS = [
+  'application', 'assessment', 'audio', 'case_study', 'course', 'data', 'diagram',
+  'drill_and_practice', 'educational_game', 'experiment', 'image', 'index', 'lesson_plan',
+  'map', 'other', 'portal', 'questionnaire', 'reference_work', 'script', 'sheet_music',
+  'simulation', 'slide', 'text', 'textbook', 'video', 'web_page', 'worksheet',
+];
+
+/**
+ * Default LOM → AMB mappings. LOM-DE values that equal an HCRT id (e.g.
+ * `case_study`, `video`) map to that id; `context` only maps values that name
+ * a single educational level, since LOMv1.0's `school` and `higher education`
+ * span several.
+ */
+export const DEFAULT_LOM_MAPPINGS: Required<LomVocabularyMappings> = {
+  learningResourceType: {
+    ...Object.fromEntries(HCRT_IDS.map(id => [id, HCRT + id])),
+    exercise: HCRT + 'drill_and_practice',
+    'drill and practice': HCRT + 'drill_and_practice',
+    'case study': HCRT + 'case_study',
+    'educational game': HCRT + 'educational_game',
+    'lesson plan': HCRT + 'lesson_plan',
+    figure: HCRT + 'image',
+    graph: HCRT + 'diagram',
+    table: HCRT + 'data',
+    'narrative text': HCRT + 'text',
+    exam: HCRT + 'assessment',
+    'self assessment': HCRT + 'assessment',
+    'problem statement': HCRT + 'worksheet',
+    presentation: HCRT + 'slide',
+    reference: HCRT + 'reference_work',
+    glossary: HCRT + 'reference_work',
+    website: HCRT + 'web_page',
+    'web page': HCRT + 'web_page',
+    tool: HCRT + 'application',
+  },
+  context: {
+    'pre-school': EDUCATIONAL_LEVEL + 'level_0',
+    'early childhood education': EDUCATIONAL_LEVEL + 'level_0',
+    'primary education': EDUCATIONAL_LEVEL + 'level_1',
+    'lower secondary education': EDUCATIONAL_LEVEL + 'level_2',
+    'upper secondary education': EDUCATIONAL_LEVEL + 'level_3',
+  },
+  intendedEndUserRole: {
+    teacher: AUDIENCE_ROLE + 'teacher',
+    learner: AUDIENCE_ROLE + 'student',
+    manager: AUDIENCE_ROLE + 'administrator',
+    parent: AUDIENCE_ROLE + 'parent',
+    mentor: AUDIENCE_ROLE + 'mentor',
+  },
+  interactivityType: {
+    active: INTERACTIVITY_TYPE + 'active',
+    expositive: INTERACTIVITY_TYPE + 'expositive',
+    mixed: INTERACTIVITY_TYPE + 'mixed',
+  },
+};
+
+/**
+ * Preferred LOMv1.0 value per concept URI, for AMB → LOM. Concepts without
+ * an entry are written with their URI as value.
+ */
+export const AMB_TO_LOM: Record<string, { vocabulary: LomVocabulary; value: string }> = {
+  [HCRT + 'drill_and_practice']: { vocabulary: 'learningResourceType', value: 'exercise' },
+  [HCRT + 'simulation']: { vocabulary: 'learningResourceType', value: 'simulation' },
+  [HCRT + 'questionnaire']: { vocabulary: 'learningResourceType', value: 'questionnaire' },
+  [HCRT + 'diagram']: { vocabulary: 'learningResourceType', value: 'diagram' },
+  [HCRT + 'image']: { vocabulary: 'learningResourceType', value: 'figure' },
+  [HCRT + 'index']: { vocabulary: 'learningResourceType', value: 'index' },
+  [HCRT + 'slide']: { vocabulary: 'learningResourceType', value: 'slide' },
+  [HCRT + 'data']: { vocabulary: 'learningResourceType', value: 'table' },
+  [HCRT + 'text']: { vocabulary: 'learningResourceType', value: 'narrative text' },
+  [HCRT + 'assessment']: { vocabulary: 'learningResourceType', value: 'exam' },
+  [HCRT + 'experiment']: { vocabulary: 'learningResourceType', value: 'experiment' },
+  [HCRT + 'worksheet']: { vocabulary: 'learningResourceType', value: 'problem statement' },
+  [AUDIENCE_ROLE + 'teacher']: { vocabulary: 'intendedEndUserRole', value: 'teacher' },
+  [AUDIENCE_ROLE + 'student']: { vocabulary: 'intendedEndUserRole', value: 'learner' },
+  [AUDIENCE_ROLE + 'administrator']: { vocabulary: 'intendedEndUserRole', value: 'manager' },
+  [INTERACTIVITY_TYPE + 'active']: { vocabulary: 'interactivityType', value: 'active' },
+  [INTERACTIVITY_TYPE + 'expositive']: { vocabulary: 'interactivityType', value: 'expositive' },
+  [INTERACTIVITY_TYPE + 'mixed']: { vocabulary: 'interactivityType', value: 'mixed' },
+};
+
+/**
+ * LOM lifeCycle roles → AMB properties; every other role is a contributor
+ */
+export const LOM_ROLES: Record<string, 'creator' | 'publisher'> = {
+  author: 'creator',
+  publisher: 'publisher',
+};
+
+/**
+ * LOM classification purposes → AMB concept properties
+ */
+export const LOM_PURPOSES: Record<string, 'about' | 'educationalLevel' | 'teaches' | 'competencyRequired'> = {
+  discipline: 'about',
+  idea: 'about',
+  'educational level': 'educationalLevel',
+  'educational objective': 'teaches',
+  competency: 'teaches',
+  prerequisite: 'competencyRequired',
+};
+
+/**
+ * LOM relation kinds → AMB relationship properties
+ */
+export const LOM_RELATIONS: Record<string, 'isPartOf' | 'hasPart' | 'isBasedOn'> = {
+  ispartof: 'isPartOf',
+  haspart: 'hasPart',
+  isbasedon: 'isBasedOn',
+};
@@ -0,0 +1,305 @@
+/**
+ * Importer for IMS content package manifests (imsmanifest.xml) as found in
+ * IMS Common Cartridge and SCORM packages: the organization tree becomes a
+ * Course record linked to one record per item
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import {
+  AmbLearningResource,
+  AmbLearningResourceReference,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarning,
+  ConversionWarningCode,
+  ManifestToAmbOptions,
+  getContextLanguage,
+} from '../types/index.js';
+import { XmlElement, parseXml, findXmlElement, xmlChild, xmlChildren, xmlText, xmlAttr } from '../utils/xml.js';
+import { createWarningCollector } from '../utils/warnings.js';
+import { LomRecordContext, lomElementToAmb } from './lomToAmb.js';
+
+/** Matches an RFC 3986 scheme prefix, i.e. an absolute URI. */
+const URI_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+/** File name of the manifest at the root of a package. */
+export const IMS_MANIFEST = 'imsmanifest.xml';
+
+/** Parsed external metadata files, keyed by their href in the manifest. */
+type MetadataFiles = Record<string, XmlElement>;
+
+interface ImportedManifest {
+  resources: AmbLearningResource[];
+  warnings: ConversionWarning[];
+}
+
+function findManifest(xml: string): XmlElement {
+  const manifest = findXmlElement(parseXml(xml), 'manifest');
+  if (!manifest) {
+    throw new ConversionError('No IMS manifest found', ConversionErrorCode.INVALID_FORMAT);
+  }
+  return manifest;
+}
+
+/**
+ * hrefs of the external metadata files (`<adlcp:location>`, as SCORM 2004
+ * and Common Cartridge packages use them) the manifest refers to
+ */
+function metadataLocations(element: XmlElement): string[] {
+  const locations = new Set<string>();
+  for (const metadata of xmlChildren(element, 'metadata')) {
+    xmlChildren(metadata, 'location').forEach(location => xmlText(location) && locations.add(xmlText(location)!));
+  }
+  for (const [key, value] of Object.entries(element)) {
+    if (key === 'metadata' || key.startsWith('@') || !Array.isArray(value)) continue;
+    for (const child of value) {
+      if (typeof child !== 'string') metadataLocations(child).forEach(location => locations.add(location));
+    }
+  }
+  return [...locations];
+}
+
+function resolveUrl(href: string | undefined, base: string | undefined): string | undefined {
+  if (!href) return undefined;
+  try {
+    return new URL(href, base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert a parsed manifest. `files` holds the external metadata files read
+ * from the package; undefined when only the manifest itself is available.
+ */
+function importManifest(
+  manifest: XmlElement,
+  options: ManifestToAmbOptions,
+  files: MetadataFiles | undefined
+): ImportedManifest {
+  // Unread metadata warns by default and fails in strict mode
+  const { warn: normalize, warnings } = createWarningCollector(options.strict);
+
+  // The LOM record of a manifest, item or resource: inline, else an external file
+  const lomOf = (element: XmlElement | undefined, label: string): XmlElement | undefined => {
+    const metadata = xmlChild(element, 'metadata');
+    const inline = xmlChild(metadata, 'lom');
+    if (inline) return inline;
+    const location = xmlText(xmlChild(metadata, 'location'));
+    if (!location) return undefined;
+    const file = files?.[location];
+    if (file) return findXmlElement(file, 'lom');
+    normalize(
+      {
+        code: ConversionWarningCode.MISSING_METADATA_FILE,
+        message: files
+          ? `${label}: metadata file "${location}" could not be read from the package; dropped`
+          : `${label}: metadata file "${location}" is not read from a bare manifest; import the unzipped package`,
+        value: location,
+      },
+      ConversionErrorCode.MISSING_METADATA_FILE
+    );
+    return undefined;
+  };
+
+  // AMB for a LOM record (falling back to the manifest's title and URL), or
+  // a bare record when there is no LOM
+  let language = options.defaultLanguage ?? 'de';
+  const toAmb = (
+    lom: XmlElement | undefined,
+    context: LomRecordContext,
+    label: string
+  ): AmbLearningResource => {
+    if (lom) {
+      const converted = lomElementToAmb(lom, options, context);
+      if (!converted.success || !converted.data) {
+        throw new ConversionError(
+          `${label}: ${converted.error?.message ?? 'conversion failed'}`,
+          converted.error instanceof ConversionError ? converted.error.code : ConversionErrorCode.CONVERSION_FAILED,
+          converted.error
+        );
+      }
+      for (const warning of converted.warningDetails ?? []) {
+        warnings.push({ ...warning, message: `${label}: ${warning.message}` });
+      }
+      return converted.data;
+    }
+    if (!context.id) {
+      throw new ConversionError(
+        'Manifest identifier is not a URI and the manifest has no LOM id; pass baseUrl',
+        ConversionErrorCode.MISSING_REQUIRED_FIELD
+      );
+    }
+    if (!context.name) {
+      throw new ConversionError(
+        `${label} has neither a title nor LOM metadata`,
+        ConversionErrorCode.MISSING_REQUIRED_FIELD
+      );
+    }
+    return {
+      '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': language }],
+      id: context.id,
+      type: ['LearningResource'],
+      name: context.name,
+    };
+  };
+
+  // Course: manifest metadata, titled after the default organization
+  const organizations = xmlChild(manifest, 'organizations');
+  const organizationList = xmlChildren(organizations, 'organization');
+  const organization =
+    organizationList.find(o => xmlAttr(o, 'identifier') === xmlAttr(organizations, 'default')) ?? organizationList[0];
+  const identifier = xmlAttr(manifest, 'identifier');
+  const courseId = options.baseUrl ?? (identifier && URI_SCHEME.test(identifier) ? identifier : undefined);
+  const organizationTitle = xmlText(xmlChild(organization, 'title'));
+
+  const course = toAmb(
+    lomOf(manifest, 'manifest'),
+    {
+      ...(courseId ? { id: courseId } : {}),
+      ...(organizationTitle ? { name: organizationTitle } : {}),
+      ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
+    },
+    'manifest'
+  );
+  const courseTypes: string[] = course.type;
+  if (!courseTypes.includes('Course')) course.type = [...courseTypes, 'Course'];
+  language = getContextLanguage(course) ?? language;
+
+  // Resource hrefs resolve against the xml:base chain below baseUrl
+  const manifestBase = resolveUrl(xmlAttr(manifest, 'base'), options.baseUrl) ?? options.baseUrl;
+  const resourcesElement = xmlChild(manifest, 'resources');
+  const resourcesBase = resolveUrl(xmlAttr(resourcesElement, 'base'), manifestBase) ?? manifestBase;
+  const packageResources = new Map(
+    xmlChildren(resourcesElement, 'resource').map(resource => [xmlAttr(resource, 'identifier') ?? '', resource])
+  );
+
+  const records = new Map<string, AmbLearningResource>([[course.id, course]]);
+  const reference = (resource: AmbLearningResource): AmbLearningResourceReference => ({
+    id: resource.id,
+    name: resource.name,
+  });
+  const link = (parent: AmbLearningResource, child: AmbLearningResource) => {
+    if (!parent.hasPart?.some(part => part.id === child.id)) (parent.hasPart ??= []).push(reference(child));
+    if (!child.isPartOf?.some(whole => whole.id === parent.id)) (child.isPartOf ??= []).push(reference(parent));
+  };
+
+  const addItems = (items: XmlElement[], parent: AmbLearningResource): void => {
+    for (const item of items) {
+      const itemIdentifier = xmlAttr(item, 'identifier') ?? `item${records.size}`;
+      const title = xmlText(xmlChild(item, 'title'));
+      const resource = packageResources.get(xmlAttr(item, 'identifierref') ?? '');
+      const children = xmlChildren(item, 'item');
+
+      // Untitled grouping items without content, such as the root item of a
+      // Common Cartridge organization, are transparent
+      if (!title && !resource) {
+        addItems(children, parent);
+        continue;
+      }
+
+      const label = `item "${itemIdentifier}"`;
+      const resourceBase = resolveUrl(xmlAttr(resource, 'base'), resourcesBase) ?? resourcesBase;
+      const href = resolveUrl(xmlAttr(resource, 'href'), resourceBase);
+      const fallbackId =
+        href && href !== course.id ? href : `${course.id}#${encodeURIComponent(itemIdentifier)}`;
+      const part = toAmb(
+        lomOf(item, label) ?? (resource ? lomOf(resource, label) : undefined),
+        { id: fallbackId, ...(title ? { name: title } : {}), ...(href ? { baseUrl: href } : {}) },
+        label
+      );
+      if (href && href !== part.id && !part.encoding?.some(encoding => encoding.contentUrl === href)) {
+        (part.encoding ??= []).push({ type: 'MediaObject', contentUrl: href });
+      }
+
+      // An item referring to content another item already brought in links
+      // that record instead of duplicating it
+      const record = records.get(part.id) ?? part;
+      records.set(record.id, record);
+      link(parent, record);
+      addItems(children, record);
+    }
+  };
+  addItems(xmlChildren(organization, 'item'), course);
+
+  return { resources: [...records.values()], warnings };
+}
+
+function toResult(imported: ImportedManifest): ConversionResult<AmbLearningResource[]> {
+  const result: ConversionResult<AmbLearningResource[]> = { success: true, data: imported.resources };
+  if (imported.warnings.length > 0) {
+    result.warnings = imported.warnings.map(w => w.message);
+    result.warningDetails = imported.warnings;
+  }
+  return result;
+}
+
+function toFailure(error: unknown): ConversionResult<AmbLearningResource[]> {
+  if (error instanceof ConversionError) {
+    return { success: false, error };
+  }
+  return {
+    success: false,
+    error: new ConversionError(
+      `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+      ConversionErrorCode.CONVERSION_FAILED,
+      error
+    ),
+  };
+}
+
+/**
+ * Convert an IMS content package manifest (Common Cartridge, SCORM 1.2 /
+ * 2004) to AMB: a Course record first, then one record per organization
+ * item in document order. Parents list their items in `hasPart`, items point
+ * back through `isPartOf`; embedded LOM metadata is used where present.
+ * External metadata files are not available here — see packageToAmb.
+ */
+export function manifestToAmb(
+  xml: string,
+  options: ManifestToAmbOptions = {}
+): ConversionResult<AmbLearningResource[]> {
+  try {
+    return toResult(importManifest(findManifest(xml), options, undefined));
+  } catch (error) {
+    return toFailure(error);
+  }
+}
+
+/**
+ * manifestToAmb for an unzipped package directory, reading the external
+ * metadata files the manifest refers to as well
+ */
+export async function packageToAmb(
+  directory: string,
+  options: ManifestToAmbOptions = {}
+): Promise<ConversionResult<AmbLearningResource[]>> {
+  try {
+    const root = path.resolve(directory);
+    let xml: string;
+    try {
+      xml = await readFile(path.join(root, IMS_MANIFEST), 'utf-8');
+    } catch (error) {
+      throw new ConversionError(`No ${IMS_MANIFEST} in ${directory}`, ConversionErrorCode.INVALID_INPUT, error);
+    }
+    const manifest = findManifest(xml);
+
+    const files: MetadataFiles = {};
+    for (const location of metadataLocations(manifest)) {
+      try {
+        const file = path.resolve(root, decodeURIComponent(location));
+        // Only files inside the package; unreadable ones are reported by importManifest
+        if (!file.startsWith(root + path.sep)) continue;
+        files[location] = parseXml(await readFile(file, 'utf-8'));
+      } catch {
+        continue;
+      }
+    }
+
+    return toResult(importManifest(manifest, options, files));
+  } catch (error) {
+    return toFailure(error);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Reader for AMB records authored as Markdown files with YAML front matter
+ */
+
+import { AmbLearningResource, ConversionResult, ConversionError, ConversionErrorCode } from '../types/index.js';
+import { parseYaml, splitFrontMatter } from '../utils/yaml.js';
+
+/**
+ * Read an AMB record from a Markdown file: the YAML front matter is the
+ * record, the Markdown body (if any) its `description`. The record is not
+ * validated; run `validateAmb` on it as for JSON input.
+ */
+export function markdownToAmb(markdown: string): ConversionResult<AmbLearningResource> {
+  try {
+    const parts = splitFrontMatter(markdown);
+    if (!parts) {
+      throw new ConversionError('Markdown file has no YAML front matter', ConversionErrorCode.INVALID_FORMAT);
+    }
+    const record = parseYaml(parts.frontMatter);
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new ConversionError('Front matter must be a YAML mapping', ConversionErrorCode.INVALID_FORMAT);
+    }
+
+    // Blank lines after the front matter only separate it from the body
+    const body = parts.body.replace(/^\s*\n/, '').trimEnd();
+    const amb = record as Record<string, unknown>;
+    if (body) {
+      if (amb.description !== undefined) {
+        throw new ConversionError(
+          'description is set both in the front matter and as the Markdown body',
+          ConversionErrorCode.INVALID_INPUT
+        );
+      }
+      amb.description = body;
+    }
+    return { success: true, data: amb as unknown as AmbLearningResource };
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
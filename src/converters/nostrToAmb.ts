@@ -9,7 +9,17 @@ import {
   ConversionResult,
   ConversionError,
   ConversionErrorCode,
+  ConversionWarning,
+  ConversionWarningCode,
+  NostrToAmbOptions,
+  AmbIdResolver,
+  parseExtKey,
+  getTagValue,
 } from '../types/index.js';
+import { lookupLabelLanguage } from '../utils/labels.js';
+
+/** Tag whose value names the property whose next entry it opens. */
+const BOUNDARY_TAG = 'boundary';
 
 /** Matches an RFC 3986 scheme prefix, i.e. an absolute URI. */
 const URI_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
@@ -19,7 +29,7 @@ const URI_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
  */
 export function nostrToAmb(
   event: NostrEvent,
-  options?: { defaultLanguage?: string }
+  options?: NostrToAmbOptions
 ): ConversionResult<AmbLearningResource> {
   try {
     // Validate event structure
@@ -43,22 +53,22 @@ export function nostrToAmb(
       };
     }
 
-    const warnings: string[] = [];
+    const warnings: ConversionWarning[] = [];
     const defaultLanguage = options?.defaultLanguage || 'de';
 
     // Partition tags: r dropped (C5), p/a held for native mapping, ext routed out,
     // everything else is AMB-core for the generic unflattener.
     const coreTags: string[][] = [];
-    const extTags: string[][] = [];
+    const extTags: Array<{ tag: string[]; index: number }> = [];
     const pTags: string[][] = [];
     const aTags: string[][] = [];
-    for (const tag of event.tags) {
+    for (const [index, tag] of event.tags.entries()) {
       const key = tag[0];
-      if (key === 'r') continue;
+      if (key === 'r' || key === 'alias') continue;
       if (key === 'p') { pTags.push(tag); continue; }
       if (key === 'a') { aTags.push(tag); continue; }
       if (typeof key === 'string' && (key.startsWith('ext:') || key.startsWith('ekw:'))) {
-        extTags.push(tag); continue;
+        extTags.push({ tag, index }); continue;
       }
       coreTags.push(tag);
     }
@@ -67,7 +77,7 @@ export function nostrToAmb(
     const amb: any = unflattenTags(coreTags, defaultLanguage);
 
     // C1/C6: extension namespace reconstruction
-    const ext = reconstructExt(extTags, warnings);
+    const ext = reconstructExt(extTags, warnings, options?.strict ?? false);
     if (ext) amb.ext = ext;
 
     // C2: Nostr-native creator/contributor (p tags)
@@ -94,8 +104,21 @@ export function nostrToAmb(
       amb.suggestedAge = coerced;
     }
 
+    // A shortened d tag (hash, slug, …) maps back to the original id via the
+    // caller's resolver, else the alias tag
+    const restoredId = options?.resolveId?.(event) || getTagValue(event, 'alias');
+    if (restoredId) amb.id = restoredId;
+
     // Non-URI d values (slugs) derive the AMB id as nostr:<naddr> per NIP-AMB.
-    if (typeof amb.id === 'string' && amb.id && !URI_SCHEME.test(amb.id)) {
+    if (!restoredId && typeof amb.id === 'string' && amb.id && !URI_SCHEME.test(amb.id)) {
+      const dIndex = event.tags.findIndex(tag => tag[0] === 'd');
+      const nonUriWarning = (message: string): ConversionWarning => ({
+        code: ConversionWarningCode.NON_URI_D_TAG,
+        message,
+        path: '$.id',
+        ...(dIndex >= 0 ? { tagIndex: dIndex } : {}),
+        value: amb.id,
+      });
       if (event.pubkey) {
         try {
           const naddr = nip19.naddrEncode({
@@ -105,13 +128,18 @@ export function nostrToAmb(
           });
           amb.id = `nostr:${naddr}`;
         } catch {
-          warnings.push(`d tag "${amb.id}" is not an absolute URI and naddr derivation failed; id kept verbatim`);
+          warnings.push(nonUriWarning(`d tag "${amb.id}" is not an absolute URI and naddr derivation failed; id kept verbatim`));
         }
       } else {
-        warnings.push(`d tag "${amb.id}" is not an absolute URI and the event has no pubkey; id kept verbatim`);
+        warnings.push(nonUriWarning(`d tag "${amb.id}" is not an absolute URI and the event has no pubkey; id kept verbatim`));
       }
     }
 
+    // Label language selection for single-language consumers
+    if (options?.languages || options?.flattenLabels) {
+      applyLabelPreferences(amb, options.languages ?? [defaultLanguage, '*'], options.flattenLabels ?? false);
+    }
+
     // Validate required fields
     if (!amb.id) {
       return { success: false, error: new ConversionError('Missing required field: id (d tag)', ConversionErrorCode.MISSING_REQUIRED_FIELD) };
@@ -124,9 +152,15 @@ export function nostrToAmb(
     }
 
     const result: ConversionResult<AmbLearningResource> = { success: true, data: amb as AmbLearningResource };
-    if (warnings.length > 0) result.warnings = warnings;
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
     return result;
   } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
     return {
       success: false,
       error: new ConversionError(
@@ -137,6 +171,21 @@ export function nostrToAmb(
   }
 }
 
+/**
+ * NIP-21 address (`nostr:naddr1…`) of an addressable event: its kind, pubkey
+ * and d tag. Holds for every kind-30142 event, whatever id the record carries.
+ * Undefined without a d tag or a valid pubkey.
+ */
+export function nostrEventAddress(event: NostrEvent): string | undefined {
+  const dTag = getTagValue(event, 'd');
+  if (dTag === undefined || !event.pubkey) return undefined;
+  try {
+    return `nostr:${nip19.naddrEncode({ identifier: dTag, pubkey: event.pubkey, kind: event.kind })}`;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Unflatten Nostr tags to AMB structure
  */
@@ -175,6 +224,9 @@ function unflattenTags(
       continue;
     }
 
+    // Boundary markers are picked up per property below
+    if (key === BOUNDARY_TAG) continue;
+
     // Group all other tags
     if (!tagGroups.has(key)) {
       tagGroups.set(key, []);
@@ -207,6 +259,14 @@ function unflattenTags(
       // Skip special tags
       if (tagKey === 'd' || tagKey === 't') continue;
       
+      // Boundary markers for this property keep their position
+      if (tagKey === BOUNDARY_TAG) {
+        if (tag[1] === baseKey || tag[1]?.startsWith(baseKey + ':')) {
+          relatedTags.push({ key: BOUNDARY_TAG, values: [tag[1]] });
+        }
+        continue;
+      }
+
       // Check if this tag matches our base key
       if (tagKey === key || tagKey.startsWith(baseKey + ':')) {
         const [, ...values] = tag;
@@ -278,6 +338,7 @@ function reconstructProperty(
 ): any {
   // Check if this is a nested structure
   const hasNested = tags.some((t) => t.key.includes(':'));
+  tags = hasNested ? tags : tags.filter((t) => t.key !== BOUNDARY_TAG);
 
   if (!hasNested) {
     // Simple property
@@ -292,6 +353,23 @@ function reconstructProperty(
   return reconstructNestedObjects(tags);
 }
 
+/**
+ * Walk (and create) the objects along a path of sub-properties, stepping into
+ * the last entry where a nested list has been opened by a boundary tag
+ */
+function navigate(root: any, path: string[]): any {
+  let target = root;
+  for (const part of path) {
+    if (!part) continue;
+    if (!target[part]) {
+      target[part] = {};
+    }
+    const child = target[part];
+    target = Array.isArray(child) ? child[child.length - 1] : child;
+  }
+  return target;
+}
+
 /**
  * Reconstruct nested objects from flat tags
  * This handles arrays of objects like about, creator, etc.
@@ -305,6 +383,28 @@ function reconstructNestedObjects(
   let lastKeyAtTargetLevel: string | null = null;
 
   for (const tag of tags) {
+    // Explicit boundary marker: close the current object. Without markers
+    // (or between them) the heuristics below still apply.
+    if (tag.key === BOUNDARY_TAG) {
+      // A marker for a nested list (e.g. hasPart:creator) opens its next entry
+      // within the current object instead
+      const path = tag.values[0]?.split(':').slice(1) ?? [];
+      const list = path.pop();
+      if (list) {
+        const parent = navigate(currentObject, path);
+        const entries = parent[list];
+        parent[list] = entries === undefined ? [{}] : [...(Array.isArray(entries) ? entries : [entries]), {}];
+        continue;
+      }
+
+      if (Object.keys(currentObject).length > 0) {
+        objects.push(currentObject);
+        currentObject = {};
+      }
+      lastKeyAtTargetLevel = null;
+      continue;
+    }
+
     const parts = tag.key.split(':');
     const finalKey = parts[parts.length - 1];
     const value = tag.values[0];
@@ -312,16 +412,7 @@ function reconstructNestedObjects(
     if (!finalKey || !value) continue;
 
     // Build nested structure to get target object
-    let target = currentObject;
-    for (let i = 1; i < parts.length - 1; i++) {
-      const part = parts[i];
-      if (part) {
-        if (!target[part]) {
-          target[part] = {};
-        }
-        target = target[part];
-      }
-    }
+    let target = navigate(currentObject, parts.slice(1, -1));
 
     // BOUNDARY DETECTION: Check if we should start a new object
     // Three-tier strategy:
@@ -354,16 +445,7 @@ function reconstructNestedObjects(
       lastKeyAtTargetLevel = null;
 
       // Re-navigate to target in the new object
-      target = currentObject;
-      for (let i = 1; i < parts.length - 1; i++) {
-        const part = parts[i];
-        if (part) {
-          if (!target[part]) {
-            target[part] = {};
-          }
-          target = target[part];
-        }
-      }
+      target = navigate(currentObject, parts.slice(1, -1));
     }
 
     // Handle multi-language prefLabel (e.g., about:prefLabel:de, about:prefLabel:en)
@@ -375,16 +457,7 @@ function reconstructNestedObjects(
       const langCode = finalKey;
 
       // Navigate to parent of prefLabel
-      let prefLabelTarget = currentObject;
-      for (let i = 1; i < parts.length - 2; i++) {
-        const part = parts[i];
-        if (part) {
-          if (!prefLabelTarget[part]) {
-            prefLabelTarget[part] = {};
-          }
-          prefLabelTarget = prefLabelTarget[part];
-        }
-      }
+      const prefLabelTarget = navigate(currentObject, parts.slice(1, -2));
 
       // Initialize or extend prefLabel object
       if (!prefLabelTarget.prefLabel) {
@@ -418,77 +491,21 @@ function reconstructNestedObjects(
   return objects.length === 1 ? objects[0] : objects;
 }
 
-/**
- * Sub-properties an ext key may carry, per NIP-AMB. Anything else means the
- * key has a surplus segment.
- */
-function isValidExtSub(sub: string): boolean {
-  if (sub === 'id' || sub === 'type' || sub === 'name') return true;
-  if (!sub.startsWith('prefLabel:')) return false;
-  const lang = sub.slice('prefLabel:'.length);
-  return lang.length > 0 && !lang.includes(':');
-}
-
-/**
- * Split an ext/ekw tag key into { ns, facet, sub, legacy }, parsing
- * left-anchored with the fixed arity NIP-AMB defines:
- *
- *   ext-key = "ext" ":" ns ":" facet [ ":" sub ]
- *   sub     = "id" / "type" / "name" / "prefLabel" ":" lang
- *
- * `<ns>` and `<facet>` MUST NOT contain ':'; `sub` is null for a scalar facet.
- * The unprefixed `ekw:<facet>[:<sub>]` shape is accepted as acknowledged legacy
- * and reported via `legacy`.
- *
- * Returns null for any key outside the grammar. A surplus segment makes the
- * split ambiguous — `ext:ekw:konfi:themen:id` reads as ns=ekw/facet=konfi
- * left-anchored and ns=ekw:konfi/facet=themen right-anchored, and our own
- * implementations picked different answers for the same bytes — so the NIP
- * requires consumers to ignore such keys rather than guess at a segmentation.
- */
-function parseExtKey(
-  key: string
-): { ns: string; facet: string; sub: string | null; legacy: boolean } | null {
-  if (!key) return null;
-  const segments = key.split(':');
-
-  // Prefixed keys drop the leading "ext"; legacy unprefixed keys use segment 0
-  // as the namespace directly.
-  let offset: number;
-  let legacy = false;
-  if (segments[0] === 'ext') {
-    offset = 1;
-  } else if (segments[0] === 'ekw') {
-    offset = 0;
-    legacy = true;
-  } else {
-    return null;
-  }
-
-  const ns = segments[offset];
-  const facet = segments[offset + 1];
-  if (!ns || !facet) return null;
-
-  const rest = segments.slice(offset + 2);
-  if (rest.length === 0) return { ns, facet, sub: null, legacy };
-
-  const sub = rest.join(':');
-  if (!isValidExtSub(sub)) return null;
-  return { ns, facet, sub, legacy };
-}
-
 /**
  * Reconstruct output.ext.<ns>.<facet> from ext/ekw tags. Concept facets
  * (with :id) become arrays of { id, type, prefLabel? }; scalar facets (bare
- * key) become string arrays. Pushes a migrate-warning per legacy namespace.
+ * key) become string arrays. Pushes a migrate-warning per legacy namespace;
+ * in strict mode, legacy namespaces and ignored keys throw instead.
  */
 function reconstructExt(
-  extTags: string[][],
-  warnings: string[]
+  extTags: Array<{ tag: string[]; index: number }>,
+  warnings: ConversionWarning[],
+  strict: boolean
 ): Record<string, Record<string, any>> | undefined {
   if (extTags.length === 0) return undefined;
-  const legacyNamespaces = new Set<string>();
-  const ignoredKeys = new Set<string>();
+  // First tag index per legacy namespace / ignored key, for the warnings
+  const legacyNamespaces = new Map<string, number>();
+  const ignoredKeys = new Map<string, number>();
   // A facet may legitimately carry both vocabulary concepts and free-text
   // scalars — the Konfi "pick from the list AND type your own" case. Concepts
   // and scalars accumulate separately and concatenate at the end (concepts
@@ -498,7 +515,7 @@ function reconstructExt(
   // the other half away.
   const work: Record<string, Record<string, { concepts: any[]; scalars: string[] }>> = {};
 
-  for (const tag of extTags) {
+  for (const { tag, index } of extTags) {
     const key = tag[0];
     if (typeof key !== 'string') continue;
     const parsed = parseExtKey(key);
@@ -506,11 +523,27 @@ function reconstructExt(
       // Outside the NIP-AMB grammar. Ignoring is normative — the segmentation
       // is ambiguous — but it is silent data loss from the caller's side, so
       // surface it rather than dropping it quietly.
-      ignoredKeys.add(key);
+      if (strict) {
+        throw new ConversionError(
+          `Strict mode: non-conforming ext key '${key}' would be ignored`,
+          ConversionErrorCode.NON_CONFORMING_EXT_KEY,
+          { key }
+        );
+      }
+      if (!ignoredKeys.has(key)) ignoredKeys.set(key, index);
       continue;
     }
     const { ns, facet, sub, legacy } = parsed;
-    if (legacy) legacyNamespaces.add(ns);
+    if (legacy) {
+      if (strict) {
+        throw new ConversionError(
+          `Strict mode: legacy unprefixed ext namespace '${ns}'; producers should migrate to 'ext:${ns}:'`,
+          ConversionErrorCode.LEGACY_EXT_NAMESPACE,
+          { key }
+        );
+      }
+      if (!legacyNamespaces.has(ns)) legacyNamespaces.set(ns, index);
+    }
     const value = typeof tag[1] === 'string' ? tag[1] : '';
 
     if (!work[ns]) work[ns] = {};
@@ -561,15 +594,25 @@ function reconstructExt(
     }
   }
 
-  for (const ns of legacyNamespaces) {
-    warnings.push(`legacy unprefixed ext namespace '${ns}'; producers should migrate to 'ext:${ns}:'`);
+  for (const [ns, tagIndex] of legacyNamespaces) {
+    warnings.push({
+      code: ConversionWarningCode.LEGACY_EXT_NAMESPACE,
+      message: `legacy unprefixed ext namespace '${ns}'; producers should migrate to 'ext:${ns}:'`,
+      path: `$.ext.${ns}`,
+      tagIndex,
+      value: ns,
+    });
   }
 
-  for (const key of ignoredKeys) {
-    warnings.push(
-      `ignored non-conforming ext key '${key}'; NIP-AMB requires ext:<ns>:<facet>[:<sub>] ` +
-        `with colon-free <ns>/<facet> and <sub> in {id, type, name, prefLabel:<lang>}`
-    );
+  for (const [key, tagIndex] of ignoredKeys) {
+    warnings.push({
+      code: ConversionWarningCode.NON_CONFORMING_EXT_KEY,
+      message:
+        `ignored non-conforming ext key '${key}'; NIP-AMB requires ext:<ns>:<facet>[:<sub>] ` +
+        `with colon-free <ns>/<facet> and <sub> in {id, type, name, prefLabel:<lang>}`,
+      tagIndex,
+      value: key,
+    });
   }
 
   return Object.keys(out).length > 0 ? out : undefined;
@@ -636,3 +679,38 @@ function applyRelationTags(amb: any, aTags: string[][]): void {
     amb[role].push(relation);
   }
 }
+
+/**
+ * Resolver for `resolveId` that restores the AMB id from the first
+ * `mainEntityOfPage:id` tag, for producers that publish the canonical URI
+ * as the landing page
+ */
+export const idFromMainEntityOfPage: AmbIdResolver = (event) =>
+  getTagValue(event, 'mainEntityOfPage:id');
+
+/**
+ * Prune every prefLabel map in the record — core concepts, nested objects and
+ * ext facet concepts alike — to the first language found along `languages`,
+ * or with `flatten` replace it by that label as a plain `label` string.
+ */
+function applyLabelPreferences(node: any, languages: string[], flatten: boolean): void {
+  if (Array.isArray(node)) {
+    for (const entry of node) applyLabelPreferences(entry, languages, flatten);
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === '@context') continue;
+    if (key === 'prefLabel' && value && typeof value === 'object' && !Array.isArray(value)) {
+      const labels = value as Record<string, string>;
+      const language = lookupLabelLanguage(labels, languages);
+      delete node.prefLabel;
+      if (language === undefined) continue;
+      if (flatten) node.label = labels[language];
+      else node.prefLabel = { [language]: labels[language] };
+    } else {
+      applyLabelPreferences(value, languages, flatten);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Field-level diff of AMB records and kind-30142 events
+ */
+
+import { nostrToAmb } from '../converters/nostrToAmb.js';
+import {
+  AmbLearningResource,
+  NostrEvent,
+  NostrToAmbOptions,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarning,
+} from '../types/index.js';
+import { FieldChange, diffValues } from './diffValues.js';
+
+/**
+ * Compare two AMB records field by field. Array entries are matched by
+ * identity (keywords by value, concepts/persons/references by `id`, else
+ * `name`), so reordering is not a change and an added keyword, a replaced
+ * `about` concept or a new `hasPart` child shows up as one entry each.
+ */
+export function diffAmb(a: AmbLearningResource, b: AmbLearningResource): FieldChange[] {
+  return diffValues(a, b, { unordered: true });
+}
+
+/**
+ * Compare two kind-30142 events at the AMB field level, independent of tag
+ * order: both are converted with `nostrToAmb` and compared with `diffAmb`.
+ * Typical use is reviewing what a replacement event changes before it is
+ * published.
+ */
+export function diffNostrAmbEvents(
+  a: NostrEvent,
+  b: NostrEvent,
+  options: NostrToAmbOptions = {}
+): ConversionResult<FieldChange[]> {
+  const before = nostrToAmb(a, options);
+  const after = nostrToAmb(b, options);
+  for (const [side, result] of [['first', before], ['second', after]] as const) {
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: new ConversionError(
+          `Cannot convert the ${side} event: ${result.error?.message ?? 'conversion failed'}`,
+          ConversionErrorCode.CONVERSION_FAILED,
+          result.error
+        ),
+      };
+    }
+  }
+
+  const result: ConversionResult<FieldChange[]> = {
+    success: true,
+    data: diffAmb(before.data!, after.data!),
+  };
+
+  const warnings: ConversionWarning[] = [...(before.warningDetails ?? []), ...(after.warningDetails ?? [])];
+  if (warnings.length > 0) {
+    result.warnings = warnings.map(w => w.message);
+    result.warningDetails = warnings;
+  }
+  return result;
+}
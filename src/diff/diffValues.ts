@@ -0,0 +1,143 @@
+/**
+ * Field-level structural diff of two JSON values
+ */
+
+import { toJsonPath } from '../validators/amb.js';
+
+/**
+ * How a field differs between the two sides
+ */
+export type FieldChangeKind = 'added' | 'removed' | 'changed' | 'retyped';
+
+/**
+ * One differing field. `path` is a JSON path (`$.creator[1].name`); `before`
+ * and `after` are absent on the side where the field does not exist.
+ */
+export interface FieldChange {
+  path: string;
+  kind: FieldChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+type JsonType = 'array' | 'object' | 'null' | 'string' | 'number' | 'boolean' | 'undefined';
+
+function jsonType(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as JsonType;
+}
+
+/**
+ * Diff options
+ */
+export interface DiffOptions {
+  // Match array entries by identity instead of position: primitives by value,
+  // objects by `id`, else `name`, else their full content. Reordering is then
+  // not a change, and an added or removed entry is reported as such instead
+  // of shifting every later index.
+  unordered?: boolean;
+}
+
+/**
+ * Identity of an array entry for unordered matching
+ */
+function entryKey(value: unknown): string {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const { id, name } = value as { id?: unknown; name?: unknown };
+    if (typeof id === 'string') return `id:${id}`;
+    if (typeof name === 'string') return `name:${name}`;
+  }
+  return `value:${stableStringify(value)}`;
+}
+
+/** JSON with object keys sorted, so key order does not affect matching. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function diffArrays(
+  a: unknown[],
+  b: unknown[],
+  path: Array<string | number>,
+  options: DiffOptions
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  if (!options.unordered) {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      changes.push(...diffAt(a[i], b[i], [...path, i], options));
+    }
+    return changes;
+  }
+
+  // Unmatched indices of b per entry key, consumed in order
+  const unmatched = new Map<string, number[]>();
+  b.forEach((entry, j) => {
+    const key = entryKey(entry);
+    unmatched.set(key, [...(unmatched.get(key) ?? []), j]);
+  });
+
+  a.forEach((entry, i) => {
+    const j = unmatched.get(entryKey(entry))?.shift();
+    if (j === undefined) {
+      changes.push({ path: toJsonPath([...path, i]), kind: 'removed', before: entry });
+    } else {
+      changes.push(...diffAt(entry, b[j], [...path, j], options));
+    }
+  });
+
+  const added = [...unmatched.values()].flat().sort((x, y) => x - y);
+  for (const j of added) {
+    changes.push({ path: toJsonPath([...path, j]), kind: 'added', after: b[j] });
+  }
+  return changes;
+}
+
+function diffAt(
+  before: unknown,
+  after: unknown,
+  path: Array<string | number>,
+  options: DiffOptions
+): FieldChange[] {
+  const beforeType = jsonType(before);
+  const afterType = jsonType(after);
+
+  if (beforeType === 'undefined' && afterType === 'undefined') return [];
+  if (beforeType === 'undefined') return [{ path: toJsonPath(path), kind: 'added', after }];
+  if (afterType === 'undefined') return [{ path: toJsonPath(path), kind: 'removed', before }];
+  if (beforeType !== afterType) {
+    return [{ path: toJsonPath(path), kind: 'retyped', before, after }];
+  }
+
+  if (beforeType === 'array') {
+    return diffArrays(before as unknown[], after as unknown[], path, options);
+  }
+
+  if (beforeType === 'object') {
+    const a = before as Record<string, unknown>;
+    const b = after as Record<string, unknown>;
+    const changes: FieldChange[] = [];
+    for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      changes.push(...diffAt(a[key], b[key], [...path, key], options));
+    }
+    return changes;
+  }
+
+  return before === after ? [] : [{ path: toJsonPath(path), kind: 'changed', before, after }];
+}
+
+/**
+ * Compare two JSON values field by field. Objects are compared per key and
+ * arrays per index by default, so an entry merged into its neighbour shows up
+ * as a changed entry plus a removed one.
+ */
+export function diffValues(before: unknown, after: unknown, options: DiffOptions = {}): FieldChange[] {
+  return diffAt(before, after, [], options);
+}
@@ -0,0 +1,7 @@
+/**
+ * Structural diffs and round-trip checks
+ */
+
+export * from './diffValues.js';
+export * from './roundTrip.js';
+export * from './diffAmb.js';
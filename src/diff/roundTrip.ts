@@ -0,0 +1,69 @@
+/**
+ * Round-trip fidelity check: AMB → Nostr → AMB
+ */
+
+import { ambToNostr } from '../converters/ambToNostr.js';
+import { nostrToAmb } from '../converters/nostrToAmb.js';
+import {
+  AmbLearningResource,
+  NostrEducationalEvent,
+  ConversionOptions,
+  ConversionResult,
+  ConversionWarning,
+  getContextLanguage,
+} from '../types/index.js';
+import { FieldChange, diffValues } from './diffValues.js';
+
+/**
+ * Outcome of a round trip. `lossless` is false as soon as a field was
+ * removed, changed or re-typed; fields only the round trip adds (e.g. the
+ * default `@language`) are listed but do not count as loss.
+ */
+export interface RoundTripReport {
+  lossless: boolean;
+  changes: FieldChange[];
+  event: NostrEducationalEvent;
+  roundTripped: AmbLearningResource;
+}
+
+/**
+ * Run `ambToNostr` → `nostrToAmb` and report every field that changed, was
+ * dropped or was re-typed on the way. The reverse conversion uses the
+ * record's own `@language`, so only real losses show up.
+ */
+export function checkRoundTrip(
+  amb: AmbLearningResource,
+  options: ConversionOptions = {}
+): ConversionResult<RoundTripReport> {
+  const forward = ambToNostr(amb, options);
+  if (!forward.success || !forward.data) {
+    return forward.error ? { success: false, error: forward.error } : { success: false };
+  }
+
+  const language = getContextLanguage(amb);
+  const reverse = nostrToAmb(forward.data, {
+    ...(language !== undefined ? { defaultLanguage: language } : {}),
+    ...(options.strict !== undefined ? { strict: options.strict } : {}),
+  });
+  if (!reverse.success || !reverse.data) {
+    return reverse.error ? { success: false, error: reverse.error } : { success: false };
+  }
+
+  const changes = diffValues(amb, reverse.data);
+  const result: ConversionResult<RoundTripReport> = {
+    success: true,
+    data: {
+      lossless: changes.every(change => change.kind === 'added'),
+      changes,
+      event: forward.data,
+      roundTripped: reverse.data,
+    },
+  };
+
+  const warnings: ConversionWarning[] = [...(forward.warningDetails ?? []), ...(reverse.warningDetails ?? [])];
+  if (warnings.length > 0) {
+    result.warnings = warnings.map(w => w.message);
+    result.warningDetails = warnings;
+  }
+  return result;
+}
@@ -7,3 +7,7 @@ export * from './types/index.js';
 export * from './converters/index.js';
 export * from './validators/index.js';
 export * from './profiles/index.js';
+export * from './diff/index.js';
+export * from './jsonld/index.js';
+export * from './search/index.js';
+export * from './vocabularies/index.js';
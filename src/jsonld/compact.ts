@@ -0,0 +1,214 @@
+/**
+ * JSON-LD pre- and post-processing around the AMB ↔ Nostr converters
+ * Expands arbitrary AMB JSON-LD (extra @context entries, prefixed IRIs,
+ * @graph wrappers) and re-compacts it against the AMB context, yielding the
+ * shape ambToNostr expects.
+ */
+
+import jsonld, { JsonLdDocument, Options } from 'jsonld';
+import { ambToNostr } from '../converters/ambToNostr.js';
+import { nostrToAmb } from '../converters/nostrToAmb.js';
+import {
+  AmbLearningResource,
+  NostrEvent,
+  NostrEducationalEvent,
+  ConversionOptions,
+  NostrToAmbOptions,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarning,
+  getContextLanguage,
+} from '../types/index.js';
+import { AMB_CONTEXT_URL, DocumentLoader, createAmbDocumentLoader, unbundledContextWarnings } from './documentLoader.js';
+
+/**
+ * Options for the JSON-LD stage
+ */
+export interface AmbJsonLdOptions {
+  // Loader for contexts other than the bundled AMB context. Without one,
+  // they resolve to an empty context and produce a warning.
+  documentLoader?: DocumentLoader;
+}
+
+const SCHEMA_LEARNING_RESOURCE = 'https://schema.org/LearningResource';
+
+/** Top-level AMB properties whose value is always an array. */
+const ARRAY_PROPERTIES = [
+  'type', 'inLanguage', 'keywords', 'about', 'creator', 'contributor',
+  'learningResourceType', 'audience', 'publisher', 'funder', 'educationalLevel',
+  'teaches', 'assesses', 'competencyRequired', 'encoding', 'caption',
+  'hasPart', 'isPartOf', 'isBasedOn', 'mainEntityOfPage',
+];
+
+/** Relationship properties whose entries carry array-valued type/creator. */
+const RELATION_PROPERTIES = ['hasPart', 'isPartOf', 'isBasedOn'];
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * Compaction turns single-element arrays into scalars; restore the array
+ * shape the AMB schema prescribes.
+ */
+function restoreArrays(resource: Record<string, any>): void {
+  for (const property of ARRAY_PROPERTIES) {
+    if (resource[property] !== undefined) resource[property] = asArray(resource[property]);
+  }
+  for (const property of RELATION_PROPERTIES) {
+    for (const ref of resource[property] ?? []) {
+      if (!ref || typeof ref !== 'object') continue;
+      if (ref.type !== undefined) ref.type = asArray(ref.type);
+      if (ref.creator !== undefined) ref.creator = asArray(ref.creator);
+    }
+  }
+  if (resource.ext && typeof resource.ext === 'object') {
+    for (const facets of Object.values(resource.ext as Record<string, Record<string, unknown>>)) {
+      if (!facets || typeof facets !== 'object') continue;
+      for (const facet of Object.keys(facets)) facets[facet] = asArray(facets[facet]);
+    }
+  }
+}
+
+/**
+ * Pick the resource node of a flattened graph: the only LearningResource,
+ * else the one no other node points to; without any LearningResource, the
+ * only unreferenced node
+ */
+function findRootId(nodes: Array<Record<string, any>>): string {
+  const referenced = new Set<string>();
+  for (const node of nodes) {
+    for (const [key, values] of Object.entries(node)) {
+      if (key.startsWith('@')) continue;
+      for (const value of asArray(values) as Array<Record<string, unknown> | null>) {
+        if (value && typeof value === 'object' && typeof value['@id'] === 'string') referenced.add(value['@id']);
+      }
+    }
+  }
+  const unreferenced = (node: Record<string, any>) => !referenced.has(node['@id']);
+  const learningResources = nodes.filter(node => asArray(node['@type']).includes(SCHEMA_LEARNING_RESOURCE));
+  const candidates =
+    learningResources.length === 1
+      ? learningResources
+      : learningResources.length > 1
+        ? learningResources.filter(unreferenced)
+        : nodes.filter(unreferenced);
+  if (candidates.length !== 1) {
+    throw new ConversionError(
+      candidates.length === 0
+        ? 'JSON-LD input contains no learning resource'
+        : `JSON-LD input contains ${candidates.length} learning resources; expected one`,
+      ConversionErrorCode.INVALID_FORMAT
+    );
+  }
+  const id = candidates[0]!['@id'];
+  if (typeof id !== 'string' || id.startsWith('_:')) {
+    throw new ConversionError('AMB resource must have an id', ConversionErrorCode.MISSING_REQUIRED_FIELD);
+  }
+  return id;
+}
+
+/**
+ * Expand arbitrary AMB JSON-LD and re-compact it against the AMB context.
+ * Extra context entries are resolved, prefixed IRIs expanded, `@graph`
+ * wrappers unwrapped (with referenced nodes embedded), and the result carries
+ * the canonical `@context` (the AMB context plus the input's `@language`).
+ * Properties outside the AMB context come out as full IRIs. Runs offline:
+ * the AMB context is bundled.
+ */
+export async function compactAmbJsonLd(
+  input: JsonLdDocument,
+  options: AmbJsonLdOptions = {}
+): Promise<ConversionResult<AmbLearningResource>> {
+  const warnings: ConversionWarning[] = [];
+  const documentLoader = createAmbDocumentLoader(options.documentLoader);
+
+  try {
+    if (!options.documentLoader) {
+      warnings.push(...unbundledContextWarnings(input));
+    }
+
+    const language = getContextLanguage(input);
+    const context = language !== undefined ? [AMB_CONTEXT_URL, { '@language': language }] : [AMB_CONTEXT_URL];
+
+    const flattenOptions: Options.Flatten = { documentLoader };
+    const flattened = await jsonld.flatten(input, undefined, flattenOptions);
+    const rootId = findRootId(asArray(flattened) as Array<Record<string, any>>);
+    const frame: JsonLdDocument = { '@context': context, '@id': rootId };
+    const frameOptions: Options.Frame & Options.DocLoader = { documentLoader, embed: '@always', omitGraph: true };
+    const framed: Record<string, any> = await jsonld.frame(flattened, frame, frameOptions);
+
+    const { '@context': _, ...rest } = framed;
+    const resource: Record<string, any> = { '@context': context, ...rest };
+    restoreArrays(resource);
+
+    const result: ConversionResult<AmbLearningResource> = {
+      success: true,
+      data: resource as AmbLearningResource,
+    };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return { success: false, error };
+    }
+    return {
+      success: false,
+      error: new ConversionError(
+        `JSON-LD processing failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.INVALID_FORMAT,
+        error
+      ),
+    };
+  }
+}
+
+/**
+ * Merge the warnings of two pipeline stages into `result`
+ */
+function withWarnings<T>(result: ConversionResult<T>, ...stages: Array<ConversionResult<unknown>>): ConversionResult<T> {
+  const warnings = stages.flatMap(stage => stage.warningDetails ?? []);
+  if (warnings.length > 0) {
+    result.warnings = warnings.map(w => w.message);
+    result.warningDetails = warnings;
+  }
+  return result;
+}
+
+/**
+ * `compactAmbJsonLd` followed by `ambToNostr`, for AMB input that is not in
+ * the canonical compacted shape
+ */
+export async function ambJsonLdToNostr(
+  input: JsonLdDocument,
+  options: ConversionOptions & AmbJsonLdOptions = {}
+): Promise<ConversionResult<NostrEducationalEvent>> {
+  const { documentLoader, ...conversionOptions } = options;
+  const compacted = await compactAmbJsonLd(input, documentLoader ? { documentLoader } : {});
+  if (!compacted.success || !compacted.data) {
+    return compacted.error ? { success: false, error: compacted.error } : { success: false };
+  }
+  const converted = ambToNostr(compacted.data, conversionOptions);
+  const { warnings: _, warningDetails: __, ...result } = converted;
+  return withWarnings(result, compacted, converted);
+}
+
+/**
+ * `nostrToAmb` followed by `compactAmbJsonLd`, so the output is compacted
+ * JSON-LD against the AMB context
+ */
+export async function nostrToAmbJsonLd(
+  event: NostrEvent,
+  options: NostrToAmbOptions & AmbJsonLdOptions = {}
+): Promise<ConversionResult<AmbLearningResource>> {
+  const { documentLoader, ...conversionOptions } = options;
+  const converted = nostrToAmb(event, conversionOptions);
+  if (!converted.success || !converted.data) {
+    return converted;
+  }
+  const compacted = await compactAmbJsonLd(converted.data, documentLoader ? { documentLoader } : {});
+  const { warnings: _, warningDetails: __, ...result } = compacted;
+  return withWarnings(result, converted, compacted);
+}
@@ -0,0 +1,100 @@
+/**
+ * Offline JSON-LD document loader with the AMB context bundled
+ */
+
+import { NodeObject } from 'jsonld';
+import ambContext from '../schemas/amb/context.json' with { type: 'json' };
+import { ConversionWarning, ConversionWarningCode } from '../types/index.js';
+
+/**
+ * Canonical URL of the AMB JSON-LD context
+ */
+export const AMB_CONTEXT_URL = 'https://w3id.org/kim/amb/context.jsonld';
+
+/**
+ * The bundled AMB JSON-LD context document. Retyped once here because
+ * @types/jsonld has `@version` as the string "1.1", where JSON-LD 1.1 (and
+ * jsonld.js) require the number.
+ */
+export const AMB_CONTEXT = ambContext as unknown as NodeObject;
+
+/** URLs under which the AMB context is published. */
+const AMB_CONTEXT_URLS = new Set([
+  AMB_CONTEXT_URL,
+  'http://w3id.org/kim/amb/context.jsonld',
+  'https://w3id.org/kim/amb/draft/context.jsonld',
+  'http://w3id.org/kim/amb/draft/context.jsonld',
+]);
+
+/**
+ * A loaded remote document, in the shape jsonld.js expects
+ */
+export interface RemoteDocument {
+  contextUrl?: string;
+  documentUrl: string;
+  document: NodeObject | NodeObject[];
+}
+
+/**
+ * jsonld.js document loader
+ */
+export type DocumentLoader = (url: string) => Promise<RemoteDocument>;
+
+/**
+ * True for the URLs the bundled AMB context is served under
+ */
+export function isAmbContextUrl(url: string): boolean {
+  return AMB_CONTEXT_URLS.has(url);
+}
+
+/**
+ * Create a document loader that serves the AMB context from the bundle and
+ * never touches the network. Any other context URL goes to `fallback` if one
+ * is given, else resolves to an empty context, so the terms it would define
+ * fall back to the AMB `@vocab` (schema.org).
+ */
+export function createAmbDocumentLoader(fallback?: DocumentLoader): DocumentLoader {
+  return async (url: string) => {
+    if (isAmbContextUrl(url)) {
+      return { documentUrl: url, document: AMB_CONTEXT };
+    }
+    if (fallback) {
+      return fallback(url);
+    }
+    return { documentUrl: url, document: { '@context': {} } };
+  };
+}
+
+/**
+ * Remote context URLs referenced anywhere in a document
+ */
+function collectContextUrls(value: unknown, urls: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectContextUrls(item, urls));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '@context') {
+        for (const entry of Array.isArray(child) ? child : [child]) {
+          if (typeof entry === 'string') urls.add(entry);
+        }
+      }
+      collectContextUrls(child, urls);
+    }
+  }
+  return urls;
+}
+
+/**
+ * One UNBUNDLED_CONTEXT warning per remote context the default loader
+ * resolves to an empty context
+ */
+export function unbundledContextWarnings(document: unknown): ConversionWarning[] {
+  return [...collectContextUrls(document)]
+    .filter(url => !isAmbContextUrl(url))
+    .map(url => ({
+      code: ConversionWarningCode.UNBUNDLED_CONTEXT,
+      message: `context ${url} is not bundled and was not fetched; its terms fall back to the AMB vocabulary`,
+      path: '$["@context"]',
+      value: url,
+    }));
+}
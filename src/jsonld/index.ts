@@ -0,0 +1,10 @@
+/**
+ * JSON-LD expansion and compaction against the bundled AMB context, RDF and
+ * embeddable schema.org output
+ */
+
+export * from './documentLoader.js';
+export * from './compact.js';
+export * from './turtle.js';
+export * from './rdf.js';
+export * from './script.js';
@@ -0,0 +1,112 @@
+/**
+ * RDF output (N-Quads / Turtle) from AMB records and Nostr events
+ */
+
+import jsonld, { JsonLdDocument, Options } from 'jsonld';
+import { nostrToAmb } from '../converters/nostrToAmb.js';
+import {
+  NostrEvent,
+  NostrToAmbOptions,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarning,
+} from '../types/index.js';
+import { createAmbDocumentLoader, unbundledContextWarnings } from './documentLoader.js';
+import { AmbJsonLdOptions } from './compact.js';
+import { toTurtle } from './turtle.js';
+import { stableNostrIri } from '../utils/nostrIds.js';
+
+/**
+ * RDF serialization
+ */
+export type RdfFormat = 'nquads' | 'turtle';
+
+/**
+ * Options for RDF output
+ */
+export interface RdfOptions extends AmbJsonLdOptions {
+  // Serialization (default: nquads)
+  format?: RdfFormat;
+  // Maps `nostr:` ids to the IRIs used in the graph (default: stableNostrIri)
+  nostrIri?: (id: string) => string;
+}
+
+export { stableNostrIri };
+
+/**
+ * Copy of `document` with every `nostr:` id mapped through `mapId`
+ */
+function mapNostrIds(document: JsonLdDocument, mapId: (id: string) => string): JsonLdDocument {
+  return JSON.parse(JSON.stringify(document), (key: string, value: unknown) =>
+    (key === 'id' || key === '@id') && typeof value === 'string' && value.startsWith('nostr:') ? mapId(value) : value
+  );
+}
+
+/**
+ * Serialize an AMB record as RDF. The record is interpreted with the bundled
+ * AMB context, so nothing is fetched; `nostr:` ids become stable IRIs.
+ * N-Quads output is sorted, so equal records give byte-identical output.
+ */
+export async function ambToRdf(resource: JsonLdDocument, options: RdfOptions = {}): Promise<ConversionResult<string>> {
+  const warnings: ConversionWarning[] = options.documentLoader ? [] : unbundledContextWarnings(resource);
+  const documentLoader = createAmbDocumentLoader(options.documentLoader);
+
+  try {
+    const document = mapNostrIds(resource, options.nostrIri ?? stableNostrIri);
+    // Without a format, toRDF returns the quads as objects; with n-quads, a string
+    const toRdfOptions: Options.ToRdf = options.format === 'turtle'
+      ? { documentLoader }
+      : { documentLoader, format: 'application/n-quads' };
+    const rdf = await jsonld.toRDF(document, toRdfOptions);
+    let data: string;
+    if (typeof rdf === 'string') {
+      data = rdf;
+    } else if (Array.isArray(rdf)) {
+      data = toTurtle(rdf);
+    } else {
+      throw new Error('jsonld.toRDF returned neither N-Quads nor quads');
+    }
+
+    const result: ConversionResult<string> = { success: true, data };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    return {
+      success: false,
+      error: new ConversionError(
+        `JSON-LD processing failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.INVALID_FORMAT,
+        error
+      ),
+    };
+  }
+}
+
+/**
+ * `nostrToAmb` followed by `ambToRdf`
+ */
+export async function nostrToRdf(
+  event: NostrEvent,
+  options: NostrToAmbOptions & RdfOptions = {}
+): Promise<ConversionResult<string>> {
+  const { format, nostrIri, documentLoader, ...conversionOptions } = options;
+  const converted = nostrToAmb(event, conversionOptions);
+  if (!converted.success || !converted.data) {
+    return converted.error ? { success: false, error: converted.error } : { success: false };
+  }
+  const rdf = await ambToRdf(converted.data, {
+    ...(format ? { format } : {}),
+    ...(nostrIri ? { nostrIri } : {}),
+    ...(documentLoader ? { documentLoader } : {}),
+  });
+  const warnings = [...(converted.warningDetails ?? []), ...(rdf.warningDetails ?? [])];
+  if (rdf.success && warnings.length > 0) {
+    rdf.warnings = warnings.map(w => w.message);
+    rdf.warningDetails = warnings;
+  }
+  return rdf;
+}
@@ -0,0 +1,227 @@
+/**
+ * schema.org JSON-LD for embedding in HTML pages
+ * Renders AMB records as the compact `<script type="application/ld+json">`
+ * blocks search engines read, with `nostr:` ids resolved to gateway URLs.
+ */
+
+import { nostrToAmb, nostrEventAddress } from '../converters/nostrToAmb.js';
+import {
+  AmbLearningResource,
+  NostrEvent,
+  NostrToAmbOptions,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarning,
+  ConversionWarningCode,
+  getContextLanguage,
+} from '../types/index.js';
+import { DEFAULT_NOSTR_GATEWAY, nostrGatewayUrl } from '../utils/nostrIds.js';
+
+/**
+ * Options for schema.org JSON-LD output
+ */
+export interface JsonLdScriptOptions {
+  // URL template for `nostr:` ids. `{bech32}`, `{naddr}`, `{npub}`,
+  // `{nprofile}`, `{note}` and `{nevent}` are all replaced by the NIP-19
+  // entity (default: DEFAULT_NOSTR_GATEWAY)
+  gateway?: string;
+
+  // Language of concept labels (defaults to the record's `@language`, then "de")
+  language?: string;
+
+  // 'script' wraps the document in a `<script type="application/ld+json">`
+  // element, 'json' returns the bare document (default: script)
+  format?: 'script' | 'json';
+
+  // Fail instead of dropping properties schema.org has no term for
+  strict?: boolean;
+}
+
+/** AMB properties holding concepts that schema.org expects as DefinedTerm. */
+const DEFINED_TERM_PROPERTIES = [
+  'about', 'learningResourceType', 'educationalLevel', 'teaches', 'assesses', 'competencyRequired',
+];
+
+/** AMB properties holding concepts that schema.org expects as text. */
+const TEXT_CONCEPT_PROPERTIES = ['interactivityType', 'conditionsOfAccess'];
+
+/** Nostr-specific keys with no schema.org counterpart; dropped silently. */
+const NOSTR_KEYS = ['nostrPubkey', 'relayHint', 'nostrEvent'];
+
+export { DEFAULT_NOSTR_GATEWAY, nostrGatewayUrl };
+
+interface RenderContext {
+  gateway: string;
+  language: string;
+  warn: (warning: ConversionWarning) => void;
+}
+
+/** Single-element arrays become scalars, as in compacted JSON-LD. */
+const unwrap = (values: unknown[]): unknown => (values.length === 1 ? values[0] : values);
+
+function conceptLabel(concept: Record<string, any>, language: string): string | undefined {
+  const labels: Record<string, string> = concept.prefLabel ?? {};
+  return labels[language] ?? Object.values(labels)[0];
+}
+
+/** Last path segment of a concept id, e.g. "teacher" for an LRMI role. */
+function conceptNotation(id: string): string {
+  return id.replace(/[/#]+$/, '').split(/[/#]/).pop() ?? id;
+}
+
+function renderValue(key: string, value: unknown, context: RenderContext, path: string): unknown {
+  if (Array.isArray(value)) {
+    return unwrap(value.map((item, index) => renderValue(key, item, context, `${path}[${index}]`)));
+  }
+  if (!value || typeof value !== 'object') return value;
+  const object = value as Record<string, any>;
+
+  if (DEFINED_TERM_PROPERTIES.includes(key) && typeof object.id === 'string') {
+    const name = conceptLabel(object, context.language);
+    return { '@type': 'DefinedTerm', '@id': nostrGatewayUrl(object.id, context.gateway), ...(name ? { name } : {}) };
+  }
+  if (TEXT_CONCEPT_PROPERTIES.includes(key) && typeof object.id === 'string') {
+    return conceptLabel(object, context.language) ?? conceptNotation(object.id);
+  }
+  if (key === 'audience' && typeof object.id === 'string') {
+    return {
+      '@type': 'EducationalAudience',
+      '@id': object.id,
+      educationalRole: conceptLabel(object, context.language) ?? conceptNotation(object.id),
+    };
+  }
+  if (key === 'license' && typeof object.id === 'string') return object.id;
+  return renderNode(object, context, path);
+}
+
+function renderNode(node: Record<string, any>, context: RenderContext, path: string): Record<string, unknown> {
+  const rendered: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === '@context' || NOSTR_KEYS.includes(key) || value === undefined) continue;
+    const childPath = `${path}.${key}`;
+
+    if (key === 'id') {
+      rendered['@id'] = typeof value === 'string' ? nostrGatewayUrl(value, context.gateway) : value;
+    } else if (key === 'type') {
+      rendered['@type'] = Array.isArray(value) ? unwrap(value) : value;
+    } else if (key === 'prefLabel') {
+      const name = conceptLabel(node, context.language);
+      if (name) rendered.name = name;
+    } else if (key === 'suggestedAge') {
+      const { minValue, maxValue } = value as { minValue?: number; maxValue?: number };
+      if (minValue !== undefined || maxValue !== undefined) {
+        rendered.typicalAgeRange = `${minValue ?? ''}-${maxValue ?? ''}`;
+      }
+    } else if (key === 'ext') {
+      context.warn({
+        code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+        message: `${childPath} has no schema.org counterpart; dropped`,
+        path: childPath,
+      });
+    } else {
+      rendered[key] = renderValue(key, value, context, childPath);
+    }
+  }
+  return rendered;
+}
+
+function renderDocument(document: Record<string, unknown>, format: JsonLdScriptOptions['format']): string {
+  // `<` is escaped so the JSON cannot close the script element or open a comment
+  const json = JSON.stringify(document, null, 2).replace(/</g, '\\u003c');
+  return format === 'json' ? json : `<script type="application/ld+json">\n${json}\n</script>`;
+}
+
+function convert(
+  resource: AmbLearningResource,
+  options: JsonLdScriptOptions,
+  sameAs?: string
+): ConversionResult<string> {
+  const warnings: ConversionWarning[] = [];
+  const context: RenderContext = {
+    gateway: options.gateway ?? DEFAULT_NOSTR_GATEWAY,
+    language: options.language ?? getContextLanguage(resource) ?? 'de',
+    // The only warning is UNSUPPORTED_PROPERTY
+    warn: warning => {
+      if (options.strict) {
+        throw new ConversionError(`Strict mode: ${warning.message}`, ConversionErrorCode.UNSUPPORTED_PROPERTY, warning);
+      }
+      warnings.push(warning);
+    },
+  };
+
+  try {
+    if (!resource || typeof resource !== 'object' || typeof resource.id !== 'string') {
+      throw new ConversionError('Invalid AMB resource: missing id', ConversionErrorCode.INVALID_INPUT);
+    }
+    const node = renderNode(resource as unknown as Record<string, any>, context, '$');
+    const document: Record<string, unknown> = { '@context': 'https://schema.org', ...node };
+    if (sameAs) {
+      const sameAsUrl = nostrGatewayUrl(sameAs, context.gateway);
+      if (sameAsUrl !== document['@id']) document.sameAs = sameAsUrl;
+    }
+
+    const result: ConversionResult<string> = { success: true, data: renderDocument(document, options.format) };
+    if (warnings.length > 0) {
+      result.warnings = warnings.map(w => w.message);
+      result.warningDetails = warnings;
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ConversionError) return { success: false, error };
+    return {
+      success: false,
+      error: new ConversionError(
+        `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        ConversionErrorCode.CONVERSION_FAILED,
+        error
+      ),
+    };
+  }
+}
+
+/**
+ * Render an AMB record as schema.org JSON-LD for embedding in a page.
+ * Concepts become DefinedTerms labelled in the record's language, `nostr:`
+ * ids become gateway URLs, and `ext` is dropped with a warning.
+ */
+export function ambToJsonLdScript(
+  resource: AmbLearningResource,
+  options: JsonLdScriptOptions = {}
+): ConversionResult<string> {
+  return convert(resource, options);
+}
+
+/**
+ * `nostrToAmb` followed by `ambToJsonLdScript`. The document's `sameAs`
+ * links the event itself (its naddr) through the gateway.
+ */
+export function nostrToJsonLdScript(
+  event: NostrEvent,
+  options: NostrToAmbOptions & JsonLdScriptOptions = {}
+): ConversionResult<string> {
+  const { gateway, language, format, ...conversionOptions } = options;
+  const converted = nostrToAmb(event, conversionOptions);
+  if (!converted.success || !converted.data) {
+    return converted.error ? { success: false, error: converted.error } : { success: false };
+  }
+
+  const eventId = nostrEventAddress(event);
+
+  const script = convert(
+    converted.data,
+    {
+      ...(gateway ? { gateway } : {}),
+      ...(language ? { language } : {}),
+      ...(format ? { format } : {}),
+      ...(options.strict ? { strict: true } : {}),
+    },
+    eventId
+  );
+  const warnings = [...(converted.warningDetails ?? []), ...(script.warningDetails ?? [])];
+  if (script.success && warnings.length > 0) {
+    script.warnings = warnings.map(w => w.message);
+    script.warningDetails = warnings;
+  }
+  return script;
+}
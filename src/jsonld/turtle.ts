@@ -0,0 +1,145 @@
+/**
+ * Minimal Turtle serializer for the RDF/JS quads jsonld.js produces
+ */
+
+/**
+ * An RDF term as produced by `jsonld.toRDF`
+ */
+export interface RdfTerm {
+  termType: 'NamedNode' | 'BlankNode' | 'Literal' | 'DefaultGraph';
+  value: string;
+  datatype?: { termType: 'NamedNode'; value: string };
+  language?: string;
+}
+
+/**
+ * An RDF quad as produced by `jsonld.toRDF`
+ */
+export interface RdfQuad {
+  subject: RdfTerm;
+  predicate: RdfTerm;
+  object: RdfTerm;
+  graph: RdfTerm;
+}
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const XSD_STRING = 'http://www.w3.org/2001/XMLSchema#string';
+const RDF_LANG_STRING = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString';
+
+/** Prefixes used for the vocabularies the AMB context maps to. */
+const PREFIXES: Record<string, string> = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+  schema: 'https://schema.org/',
+  skos: 'http://www.w3.org/2004/02/skos/core#',
+};
+
+// Conservative subset of PN_LOCAL that needs no escaping
+const LOCAL_NAME = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+function escapeIri(iri: string): string {
+  return iri.replace(/[\u0000- <>"{}|^`\\]/g, char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
+
+function escapeString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * Serialize quads of the default graph as Turtle. Subjects come out sorted
+ * (IRIs before blank nodes), `rdf:type` first as `a`; blank nodes referenced
+ * exactly once are inlined as `[ … ]`. Named graphs are not supported.
+ */
+export function toTurtle(quads: RdfQuad[]): string {
+  const used = new Set<string>();
+
+  const iri = (value: string): string => {
+    for (const [prefix, namespace] of Object.entries(PREFIXES)) {
+      if (value.startsWith(namespace) && LOCAL_NAME.test(value.slice(namespace.length))) {
+        used.add(prefix);
+        return `${prefix}:${value.slice(namespace.length)}`;
+      }
+    }
+    return `<${escapeIri(value)}>`;
+  };
+
+  const bySubject = new Map<string, RdfQuad[]>();
+  const referrers = new Map<string, RdfTerm[]>();
+  for (const quad of quads) {
+    const key = `${quad.subject.termType}:${quad.subject.value}`;
+    bySubject.set(key, [...(bySubject.get(key) ?? []), quad]);
+    if (quad.object.termType === 'BlankNode') {
+      referrers.set(quad.object.value, [...(referrers.get(quad.object.value) ?? []), quad.subject]);
+    }
+  }
+
+  // A blank node is inlined when it is referenced once and its chain of
+  // referrers ends at a written subject (not in a cycle of blank nodes)
+  const inlined = (node: RdfTerm): boolean => {
+    if (node.termType !== 'BlankNode' || !bySubject.has(`BlankNode:${node.value}`)) return false;
+    const seen = new Set<string>();
+    let current = node;
+    while (current.termType === 'BlankNode') {
+      if (seen.has(current.value)) return false;
+      seen.add(current.value);
+      const refs = referrers.get(current.value);
+      if (!refs || refs.length !== 1) return current !== node;
+      current = refs[0]!;
+    }
+    return true;
+  };
+
+  const term = (node: RdfTerm, indent: string): string => {
+    if (node.termType === 'NamedNode') return iri(node.value);
+    if (node.termType === 'BlankNode') {
+      return inlined(node) ? `[\n${body(`BlankNode:${node.value}`, `${indent}  `)}\n${indent}]` : node.value;
+    }
+    const literal = `"${escapeString(node.value)}"`;
+    if (node.language) return `${literal}@${node.language}`;
+    const datatype = node.datatype?.value;
+    if (!datatype || datatype === XSD_STRING || datatype === RDF_LANG_STRING) return literal;
+    return `${literal}^^${iri(datatype)}`;
+  };
+
+  // predicate-object list of one subject, one predicate per line
+  const body = (key: string, indent: string): string => {
+    const predicates = new Map<string, RdfTerm[]>();
+    for (const quad of bySubject.get(key) ?? []) {
+      predicates.set(quad.predicate.value, [...(predicates.get(quad.predicate.value) ?? []), quad.object]);
+    }
+    const ordered = [...predicates.keys()].sort((a, b) =>
+      a === RDF_TYPE ? -1 : b === RDF_TYPE ? 1 : a.localeCompare(b)
+    );
+    return ordered
+      .map(predicate => {
+        const objects = predicates.get(predicate)!.map(object => term(object, indent));
+        return `${indent}${predicate === RDF_TYPE ? 'a' : iri(predicate)} ${objects.join(', ')}`;
+      })
+      .join(' ;\n');
+  };
+
+  const subjects = [...bySubject.entries()]
+    .filter(([, subjectQuads]) => !inlined(subjectQuads[0]!.subject))
+    .sort(([a], [b]) => {
+      const blankA = a.startsWith('BlankNode:');
+      const blankB = b.startsWith('BlankNode:');
+      return blankA === blankB ? a.localeCompare(b) : blankA ? 1 : -1;
+    });
+
+  const statements = subjects.map(([key, subjectQuads]) => {
+    const subject = subjectQuads[0]!.subject;
+    const label = subject.termType === 'BlankNode' ? subject.value : iri(subject.value);
+    return `${label}\n${body(key, '  ')} .`;
+  });
+
+  const prefixes = Object.entries(PREFIXES)
+    .filter(([prefix]) => used.has(prefix))
+    .map(([prefix, namespace]) => `@prefix ${prefix}: <${namespace}> .`);
+
+  return [prefixes.join('\n'), ...statements].filter(Boolean).join('\n\n') + '\n';
+}
@@ -6,6 +6,8 @@ import {
   NostrEvent,
   AmbLearningResource,
   ConversionResult,
+  ConversionWarning,
+  ConversionWarningCode,
 } from '../types/index.js';
 
 export interface ProfileResolutionOptions {
@@ -69,16 +71,16 @@ export async function nostrToAmbWithProfiles(
 
   // Collect person entries that have a nostr id and no real name yet
   // (missing, or the npub fallback nostrToAmb emits for schema validity).
-  const targets: Array<{ entry: { name?: string }; pubkey: string }> = [];
+  const targets: Array<{ entry: { name?: string }; pubkey: string; path: string }> = [];
   for (const field of PERSON_FIELDS) {
     const list = (amb as Record<string, unknown>)[field];
     if (!Array.isArray(list)) continue;
-    for (const entry of list) {
+    for (const [index, entry] of list.entries()) {
       if (!entry || typeof entry !== 'object') continue;
       const pubkey = decodePubkey((entry as { id?: unknown }).id);
       if (!pubkey) continue;
       if (!isReplaceableName((entry as { name?: string }).name, pubkey)) continue;
-      targets.push({ entry: entry as { name?: string }, pubkey });
+      targets.push({ entry: entry as { name?: string }, pubkey, path: `$.${field}[${index}].name` });
     }
   }
 
@@ -88,23 +90,36 @@ export async function nostrToAmbWithProfiles(
   const relays = options.relays ?? DEFAULT_PROFILE_RELAYS;
   const fetchProfile = options.fetchProfile ?? websocketFetcher;
   const timeoutMs = options.timeoutMs ?? 4000;
-  const warnings = base.warnings ? [...base.warnings] : [];
+  const warnings: ConversionWarning[] = base.warningDetails ? [...base.warningDetails] : [];
 
   let names: Map<string, ProfileInfo>;
   try {
     names = await fetchProfile(uniquePubkeys, relays, timeoutMs);
   } catch (err) {
-    warnings.push(`profile fetch failed: ${err instanceof Error ? err.message : String(err)}`);
-    return { ...base, warnings };
+    warnings.push({
+      code: ConversionWarningCode.PROFILE_FETCH_FAILED,
+      message: `profile fetch failed: ${err instanceof Error ? err.message : String(err)}`,
+    });
+    return { ...base, warnings: warnings.map(w => w.message), warningDetails: warnings };
   }
 
-  for (const { entry, pubkey } of targets) {
+  for (const { entry, pubkey, path } of targets) {
     const name = names.get(pubkey)?.name;
     if (name) entry.name = name;
-    else warnings.push(`no profile name for ${shortNpub(pubkey)}`);
+    else {
+      warnings.push({
+        code: ConversionWarningCode.PROFILE_NOT_FOUND,
+        message: `no profile name for ${shortNpub(pubkey)}`,
+        path,
+        value: pubkey,
+      });
+    }
   }
 
   const result: ConversionResult<AmbLearningResource> = { ...base, data: amb };
-  if (warnings.length > 0) result.warnings = warnings;
+  if (warnings.length > 0) {
+    result.warnings = warnings.map(w => w.message);
+    result.warningDetails = warnings;
+  }
   return result;
 }
@@ -0,0 +1,191 @@
+/**
+ * Search documents for AMB records
+ * Flattens a record into the facet-friendly fields of `SEARCH_FIELDS`, for
+ * indexing in Typesense or OpenSearch.
+ */
+
+import { nostrToAmb } from '../converters/nostrToAmb.js';
+import {
+  AmbLearningResource,
+  Concept,
+  NostrEvent,
+  NostrToAmbOptions,
+  ConversionResult,
+  ConversionError,
+  ConversionErrorCode,
+} from '../types/index.js';
+import { SearchBackend } from './schema.js';
+
+/**
+ * A flattened search document
+ */
+export type SearchDocument = Record<string, string | string[] | number | boolean>;
+
+/**
+ * Options for search document output
+ */
+export interface SearchDocumentOptions {
+  // Target search engine; decides how dates are written (default: typesense)
+  schema?: SearchBackend;
+}
+
+/** Concept properties indexed as `<property>_id` and `<property>_label_<lang>`. */
+const CONCEPT_PROPERTIES = ['about', 'learningResourceType', 'educationalLevel', 'audience'] as const;
+
+/** Field-name segment for a language tag: `de-CH` → `de_CH`. */
+const fieldSegment = (value: string): string => value.replace(/[^A-Za-z0-9]+/g, '_');
+
+/**
+ * Escape a namespace or facet for a field name, reversibly: letters and
+ * digits stay, every other UTF-8 byte becomes `_` and two uppercase hex
+ * digits (`org.edufeed` → `org_2Eedufeed`, `b_c` → `b_5Fc`)
+ */
+const escapeSegment = (value: string): string =>
+  Array.from(new TextEncoder().encode(value), byte => {
+    const char = String.fromCharCode(byte);
+    return /[A-Za-z0-9]/.test(char) ? char : `_${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+  }).join('');
+
+/**
+ * Search field of an ext facet: `ext__<ns>__<facet>` with both parts escaped.
+ * An escaped part never holds `__` or `_label_`, so distinct facets never
+ * share a field and the label fields beside it stay apart.
+ */
+export function extSearchField(namespace: string, facet: string): string {
+  return `ext__${escapeSegment(namespace)}__${escapeSegment(facet)}`;
+}
+
+/** Append values to an array field, skipping duplicates. */
+function add(document: SearchDocument, field: string, values: string[]): void {
+  if (values.length === 0) return;
+  const existing = (document[field] as string[] | undefined) ?? [];
+  document[field] = [...existing, ...values.filter(value => !existing.includes(value))];
+}
+
+/** Concept labels per language; an ext concept's bare `name` counts as undetermined ("und"). */
+function addLabels(document: SearchDocument, prefix: string, concept: Concept & { name?: string }): void {
+  for (const [language, label] of Object.entries(concept.prefLabel ?? {})) {
+    if (label) add(document, `${prefix}_label_${fieldSegment(language).toLowerCase()}`, [label]);
+  }
+  if (typeof concept.name === 'string' && concept.name) add(document, `${prefix}_label_und`, [concept.name]);
+}
+
+/** Date field value: Unix seconds for Typesense, the date as is for OpenSearch. */
+function dateValue(date: string, backend: SearchBackend): string | number | undefined {
+  if (backend === 'opensearch') return date;
+  const time = Date.parse(date);
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+}
+
+function project(
+  resource: AmbLearningResource,
+  backend: SearchBackend,
+  event?: { id: string; eventId?: string; pubkey: string; createdAt: number }
+): SearchDocument {
+  const document: SearchDocument = { id: event?.id ?? resource.id, resource_id: resource.id };
+  if (event) {
+    if (event.eventId) document.event_id = event.eventId;
+    document.pubkey = event.pubkey;
+    document.created_at = event.createdAt;
+  }
+  document.name = resource.name;
+  if (resource.description) document.description = resource.description;
+  add(document, 'keywords', resource.keywords ?? []);
+  add(document, 'inLanguage', resource.inLanguage ?? []);
+  if (resource.license?.id) document.license_id = resource.license.id;
+  if (typeof resource.isAccessibleForFree === 'boolean') document.isAccessibleForFree = resource.isAccessibleForFree;
+
+  for (const property of CONCEPT_PROPERTIES) {
+    for (const concept of resource[property] ?? []) {
+      add(document, `${property}_id`, [concept.id]);
+      addLabels(document, property, concept);
+    }
+  }
+
+  add(document, 'creator_name', (resource.creator ?? []).map(entity => entity.name).filter(Boolean));
+  add(document, 'publisher_name', (resource.publisher ?? []).map(entity => entity.name).filter(Boolean));
+  if (resource.datePublished) {
+    const published = dateValue(resource.datePublished, backend);
+    if (published !== undefined) document.datePublished = published;
+  }
+
+  // ext facets: concept ids and free-text scalars in one field, concept labels beside it
+  for (const [ns, facets] of Object.entries(resource.ext ?? {})) {
+    for (const [facet, values] of Object.entries(facets)) {
+      const field = extSearchField(ns, facet);
+      for (const value of values) {
+        if (typeof value === 'string') {
+          add(document, field, [value]);
+        } else if (value && typeof value === 'object') {
+          if (value.id) add(document, field, [value.id]);
+          addLabels(document, field, value);
+        }
+      }
+    }
+  }
+
+  return document;
+}
+
+function conversionFailed(error: unknown): ConversionResult<never> {
+  if (error instanceof ConversionError) return { success: false, error };
+  return {
+    success: false,
+    error: new ConversionError(
+      `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+      ConversionErrorCode.CONVERSION_FAILED,
+      error
+    ),
+  };
+}
+
+/**
+ * Flatten an AMB record into a search document. The document id is the
+ * record id; see `searchSchema` for the fields.
+ */
+export function ambToSearchDocument(
+  resource: AmbLearningResource,
+  options: SearchDocumentOptions = {}
+): ConversionResult<SearchDocument> {
+  try {
+    if (!resource || typeof resource !== 'object' || typeof resource.id !== 'string' || !resource.id) {
+      throw new ConversionError('Invalid AMB resource: missing id', ConversionErrorCode.INVALID_INPUT);
+    }
+    return { success: true, data: project(resource, options.schema ?? 'typesense') };
+  } catch (error) {
+    return conversionFailed(error);
+  }
+}
+
+/**
+ * `nostrToAmb` followed by the search projection, as the relay-side indexer
+ * runs it. The document id is the event's address (`<kind>:<pubkey>:<d>`),
+ * so a replaced event overwrites its predecessor; `event_id`, `pubkey` and
+ * `created_at` are added. Warnings of `nostrToAmb` are passed on.
+ */
+export function nostrToSearchDocument(
+  event: NostrEvent,
+  options: NostrToAmbOptions & SearchDocumentOptions = {}
+): ConversionResult<SearchDocument> {
+  const { schema, ...conversionOptions } = options;
+  const converted = nostrToAmb(event, conversionOptions);
+  if (!converted.success || !converted.data) {
+    return converted.error ? { success: false, error: converted.error } : { success: false };
+  }
+
+  try {
+    const dTag = event.tags.find(tag => tag[0] === 'd')?.[1] ?? '';
+    const document = project(converted.data, schema ?? 'typesense', {
+      id: `${event.kind}:${event.pubkey}:${dTag}`,
+      ...(event.id ? { eventId: event.id } : {}),
+      pubkey: event.pubkey,
+      createdAt: event.created_at,
+    });
+    const result: ConversionResult<SearchDocument> = { success: true, data: document };
+    if (converted.warnings) result.warnings = converted.warnings;
+    if (converted.warningDetails) result.warningDetails = converted.warningDetails;
+    return result;
+  } catch (error) {
+    return conversionFailed(error);
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Search documents and collection schemas for Typesense and OpenSearch
+ */
+
+export * from './schema.js';
+export * from './document.js';
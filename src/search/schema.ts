@@ -0,0 +1,146 @@
+/**
+ * Search collection schemas for AMB search documents
+ * One field table yields both the Typesense collection schema and the
+ * OpenSearch index mapping, so every indexer creates the same fields.
+ */
+
+export type SearchBackend = 'typesense' | 'opensearch';
+
+/**
+ * A field of the search document. `date` fields are Unix seconds in
+ * Typesense (it has no date type) and dates in OpenSearch.
+ */
+export interface SearchField {
+  // Field name; `*` marks a wildcard (per-language labels, ext facets)
+  name: string;
+  type: 'string' | 'string[]' | 'int64' | 'bool' | 'date';
+  // Aggregated / filtered on
+  facet?: boolean;
+  // Full-text searched
+  text?: boolean;
+  // Present in every document
+  required?: boolean;
+}
+
+/**
+ * Fields of `ambToSearchDocument` / `nostrToSearchDocument` documents.
+ * Concept properties index their ids in `<property>_id` and their labels
+ * in `<property>_label_<lang>`; ext facets are `ext__<ns>__<facet>` (see
+ * `extSearchField`).
+ */
+export const SEARCH_FIELDS: SearchField[] = [
+  { name: 'id', type: 'string', required: true },
+  { name: 'resource_id', type: 'string', required: true },
+  { name: 'event_id', type: 'string' },
+  { name: 'pubkey', type: 'string', facet: true },
+  { name: 'created_at', type: 'date' },
+  { name: 'name', type: 'string', text: true, required: true },
+  { name: 'description', type: 'string', text: true },
+  { name: 'keywords', type: 'string[]', text: true, facet: true },
+  { name: 'inLanguage', type: 'string[]', facet: true },
+  { name: 'license_id', type: 'string', facet: true },
+  { name: 'isAccessibleForFree', type: 'bool', facet: true },
+  { name: 'about_id', type: 'string[]', facet: true },
+  { name: 'learningResourceType_id', type: 'string[]', facet: true },
+  { name: 'educationalLevel_id', type: 'string[]', facet: true },
+  { name: 'audience_id', type: 'string[]', facet: true },
+  { name: 'creator_name', type: 'string[]', text: true, facet: true },
+  { name: 'publisher_name', type: 'string[]', text: true, facet: true },
+  { name: 'datePublished', type: 'date' },
+  { name: '*_label_*', type: 'string[]', text: true, facet: true },
+  { name: 'ext_*', type: 'string[]', facet: true },
+];
+
+/**
+ * Typesense collection schema (POST /collections)
+ */
+export interface TypesenseCollectionSchema {
+  name: string;
+  fields: Array<{
+    name: string;
+    type: string;
+    facet?: boolean;
+    optional?: boolean;
+    index?: boolean;
+  }>;
+}
+
+/**
+ * OpenSearch index body (PUT /<index>) with the mapping
+ */
+export interface OpenSearchIndexMapping {
+  mappings: {
+    dynamic_templates: Array<Record<string, { match: string; match_mapping_type: 'string'; mapping: object }>>;
+    properties: Record<string, object>;
+  };
+}
+
+export interface SearchSchemaOptions {
+  // Typesense collection name (default: "amb")
+  name?: string;
+}
+
+/** Typesense matches wildcard field names as regular expressions. */
+const typesenseName = (name: string): string => name.replace(/\*/g, '.*');
+
+function typesenseField(field: SearchField): TypesenseCollectionSchema['fields'][number] {
+  return {
+    name: typesenseName(field.name),
+    type: field.type === 'date' ? 'int64' : field.type,
+    ...(field.facet ? { facet: true } : {}),
+    ...(field.required ? {} : { optional: true }),
+  };
+}
+
+function openSearchMapping(field: SearchField): object {
+  switch (field.type) {
+    case 'int64':
+      return { type: 'long' };
+    case 'bool':
+      return { type: 'boolean' };
+    case 'date':
+      return { type: 'date', format: 'strict_date_optional_time||epoch_second' };
+    default:
+      // Arrays need no mapping of their own in OpenSearch
+      if (!field.text) return { type: 'keyword' };
+      return field.facet ? { type: 'text', fields: { keyword: { type: 'keyword' } } } : { type: 'text' };
+  }
+}
+
+/**
+ * Generate the collection schema (Typesense) or index mapping (OpenSearch)
+ * for AMB search documents. Wildcard fields become regular-expression
+ * fields in Typesense and dynamic templates in OpenSearch.
+ */
+export function searchSchema(backend: 'typesense', options?: SearchSchemaOptions): TypesenseCollectionSchema;
+export function searchSchema(backend: 'opensearch', options?: SearchSchemaOptions): OpenSearchIndexMapping;
+export function searchSchema(
+  backend: SearchBackend,
+  options?: SearchSchemaOptions
+): TypesenseCollectionSchema | OpenSearchIndexMapping;
+export function searchSchema(
+  backend: SearchBackend,
+  options: SearchSchemaOptions = {}
+): TypesenseCollectionSchema | OpenSearchIndexMapping {
+  if (backend === 'typesense') {
+    return { name: options.name ?? 'amb', fields: SEARCH_FIELDS.map(typesenseField) };
+  }
+
+  const properties: Record<string, object> = {};
+  const templates: OpenSearchIndexMapping['mappings']['dynamic_templates'] = [];
+  for (const field of SEARCH_FIELDS) {
+    if (field.name.includes('*')) {
+      templates.push({
+        // Template name: the field name without wildcards ("label", "ext")
+        [field.name.split(/[^A-Za-z0-9]+/).filter(Boolean).join('_')]: {
+          match: field.name,
+          match_mapping_type: 'string',
+          mapping: openSearchMapping(field),
+        },
+      });
+    } else {
+      properties[field.name] = openSearchMapping(field);
+    }
+  }
+  return { mappings: { dynamic_templates: templates, properties } };
+}
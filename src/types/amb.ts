@@ -24,6 +24,8 @@ export interface Concept {
   id: string;
   type?: 'Concept';
   prefLabel?: LocalizedString;
+  /** Single-language label replacing prefLabel (`nostrToAmb` with `flattenLabels`; not AMB) */
+  label?: string;
 }
 
 /**
@@ -265,4 +267,20 @@ export function isResourceType(
   type: string
 ): boolean {
   return (resource.type as string[]).includes(type);
-}
\ No newline at end of file
+}
+
+/**
+ * The `@language` declared in a JSON-LD `@context` (string, object or array
+ * form), if any
+ */
+export function getContextLanguage(document: unknown): string | undefined {
+  const context = (document as { '@context'?: unknown } | null)?.['@context'];
+  const entries = Array.isArray(context) ? context : [context];
+  for (const entry of entries) {
+    const language = (entry as { '@language'?: unknown } | null)?.['@language'];
+    if (entry && typeof entry === 'object' && typeof language === 'string') {
+      return language;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,36 @@
+/**
+ * CSL-JSON (Citation Style Language) Type Definitions
+ * The item variables citation export writes; reference managers such as
+ * Zotero import them
+ * Based on https://citeproc-js.readthedocs.io/en/latest/csl-json/markup.html
+ */
+
+/**
+ * A name: a person as family and given name, an organization as literal
+ */
+export type CslName = { family: string; given?: string } | { literal: string };
+
+/**
+ * A date as [year, month?, day?]
+ */
+export interface CslDate {
+  'date-parts': Array<[number, number?, number?]>;
+}
+
+/**
+ * A CSL-JSON item
+ */
+export interface CslItem {
+  id: string;
+  type: string;
+  title: string;
+  author?: CslName[];
+  publisher?: string;
+  issued?: CslDate;
+  URL?: string;
+  DOI?: string;
+  abstract?: string;
+  keyword?: string;
+  language?: string;
+  license?: string;
+}
@@ -0,0 +1,131 @@
+/**
+ * DataCite Metadata Schema (4.x) Type Definitions
+ * The JSON form of the DataCite REST API (`data.attributes`), as Zenodo and
+ * other repositories export it; only the properties the crosswalk maps
+ * Based on https://schema.datacite.org/
+ */
+
+/**
+ * Identifier of a creator or contributor (ORCID, ROR, ISNI, …)
+ */
+export interface DataciteNameIdentifier {
+  nameIdentifier: string;
+  nameIdentifierScheme?: string;
+  schemeUri?: string;
+}
+
+/**
+ * Affiliation of a creator or contributor; older records give plain names
+ */
+export interface DataciteAffiliation {
+  name: string;
+  affiliationIdentifier?: string;
+  affiliationIdentifierScheme?: string;
+  schemeUri?: string;
+}
+
+/**
+ * Creator or contributor
+ */
+export interface DataciteCreator {
+  name: string;
+  nameType?: 'Personal' | 'Organizational';
+  givenName?: string;
+  familyName?: string;
+  nameIdentifiers?: DataciteNameIdentifier[];
+  affiliation?: Array<DataciteAffiliation | string>;
+}
+
+export interface DataciteContributor extends DataciteCreator {
+  contributorType?: string;
+}
+
+export interface DataciteTitle {
+  title: string;
+  titleType?: string;
+  lang?: string;
+}
+
+/**
+ * Publisher: a name (schema 4.4) or an object with an identifier (4.5)
+ */
+export type DatacitePublisher =
+  | string
+  | { name: string; publisherIdentifier?: string; publisherIdentifierScheme?: string; schemeUri?: string };
+
+export interface DataciteSubject {
+  subject: string;
+  subjectScheme?: string;
+  schemeUri?: string;
+  valueUri?: string;
+  classificationCode?: string;
+  lang?: string;
+}
+
+export interface DataciteDate {
+  date: string;
+  dateType: string;
+  dateInformation?: string;
+}
+
+export interface DataciteTypes {
+  resourceTypeGeneral: string;
+  resourceType?: string;
+}
+
+export interface DataciteRelatedIdentifier {
+  relatedIdentifier: string;
+  relatedIdentifierType: string;
+  relationType: string;
+  resourceTypeGeneral?: string;
+}
+
+export interface DataciteRights {
+  rights?: string;
+  rightsUri?: string;
+  rightsIdentifier?: string;
+  rightsIdentifierScheme?: string;
+  schemeUri?: string;
+  lang?: string;
+}
+
+export interface DataciteDescription {
+  description: string;
+  descriptionType?: string;
+  lang?: string;
+}
+
+export interface DataciteFundingReference {
+  funderName: string;
+  funderIdentifier?: string;
+  funderIdentifierType?: string;
+  awardNumber?: string;
+  awardUri?: string;
+  awardTitle?: string;
+}
+
+/**
+ * A DataCite record
+ */
+export interface DataciteRecord {
+  doi?: string;
+  url?: string;
+  identifiers?: Array<{ identifier: string; identifierType: string }>;
+  creators?: DataciteCreator[];
+  titles?: DataciteTitle[];
+  publisher?: DatacitePublisher;
+  publicationYear?: number | string;
+  subjects?: DataciteSubject[];
+  contributors?: DataciteContributor[];
+  dates?: DataciteDate[];
+  language?: string;
+  types?: DataciteTypes;
+  relatedIdentifiers?: DataciteRelatedIdentifier[];
+  formats?: string[];
+  rightsList?: DataciteRights[];
+  descriptions?: DataciteDescription[];
+  fundingReferences?: DataciteFundingReference[];
+  // Further DataCite properties (sizes, version, geoLocations, …) and REST
+  // API bookkeeping (state, created, viewCount, …)
+  [property: string]: unknown;
+}
@@ -4,6 +4,13 @@
 
 export * from './amb.js';
 export * from './nostr.js';
+export * from './datacite.js';
+export * from './csl.js';
+export * from './vocabulary.js';
+
+import type { AmbLearningResource } from './amb.js';
+import type { NostrEvent } from './nostr.js';
+import type { VocabularyRegistry } from './vocabulary.js';
 
 /**
  * Nostr event reference for a tag generation
@@ -14,6 +21,19 @@ export interface NostrEventReference {
   relayHint?: string;
 }
 
+/**
+ * How ambToNostr derives the `d` tag from an AMB resource: the id verbatim
+ * ('uri'), the SHA-256 hex of the id ('hash'), a slug of the name ('slug'),
+ * or a caller-supplied function
+ */
+export type DTagStrategy = 'uri' | 'hash' | 'slug' | ((resource: AmbLearningResource) => string);
+
+/**
+ * Reverse of a DTagStrategy: returns the AMB id for an event, or undefined to
+ * fall back to the `alias` tag and the `d` tag
+ */
+export type AmbIdResolver = (event: NostrEvent) => string | undefined;
+
 /**
  * Conversion options
  */
@@ -27,7 +47,13 @@ export interface ConversionOptions {
   // Custom timestamp (defaults to current time)
   timestamp?: number;
 
-  // Whether to generate deterministic event IDs based on AMB IDs
+  // Clock returning Unix seconds, used for created_at when no timestamp is
+  // given (defaults to the system time)
+  clock?: () => number;
+
+  // Produce byte-identical events for identical AMB input: created_at from
+  // dateModified/datePublished (else the clock), canonical tag order, and a
+  // precomputed event id
   deterministicIds?: boolean;
 
   // Default relay hint for p tags (creator/contributor pubkeys)
@@ -36,6 +62,313 @@ export interface ConversionOptions {
   // Map of AMB resource IDs to Nostr event info for a tag generation
   // Key is the AMB id, value is the Nostr event reference
   relatedEvents?: Record<string, NostrEventReference>;
+
+  // Fail instead of normalizing lossy or non-standard input (Concept-typed
+  // `type`, array `license`, missing pubkey)
+  strict?: boolean;
+
+  // Emit a ["boundary", <property>] tag before each entry of multi-valued
+  // object properties (creator, about, encoding, …) so the reverse
+  // conversion does not have to infer entry boundaries
+  boundaryMarkers?: boolean;
+
+  // How the d tag is derived (defaults to 'uri'). Any other strategy also
+  // emits an `alias` tag carrying the original id.
+  dTagStrategy?: DTagStrategy;
+
+  // Fill missing prefLabel languages of about, educationalLevel,
+  // learningResourceType, audience and teaches concepts from this registry
+  // of SKOS vocabularies before conversion (e.g. `defaultVocabularyRegistry()`)
+  enrichConcepts?: VocabularyRegistry;
+}
+
+/**
+ * Options for Nostr→AMB conversion
+ */
+export interface NostrToAmbOptions {
+  // Value for `@context @language` (defaults to "de")
+  defaultLanguage?: string;
+
+  // Label languages in order of preference, e.g. ['en', 'de', '*']: every
+  // concept's prefLabel map keeps only the first language found along the
+  // list ("*" matches any). Concepts with no match lose their prefLabel
+  languages?: string[];
+
+  // Replace each concept's prefLabel map with a single `label` string, in the
+  // first language of `languages` it has (default: defaultLanguage, then any)
+  flattenLabels?: boolean;
+
+  // Fail instead of ignoring non-conforming ext keys or accepting legacy
+  // unprefixed ext namespaces
+  strict?: boolean;
+
+  // Restore the AMB id of events whose d tag is not the id
+  resolveId?: AmbIdResolver;
+}
+
+/**
+ * The LOM vocabularies the LOM converters map, keyed by LOM element name
+ */
+export type LomVocabulary = 'learningResourceType' | 'context' | 'intendedEndUserRole' | 'interactivityType';
+
+/**
+ * Per-vocabulary map of LOM values (lower case) to concept URIs
+ */
+export type LomVocabularyMappings = Partial<Record<LomVocabulary, Record<string, string>>>;
+
+/**
+ * Options for LOM→AMB conversion
+ */
+export interface LomToAmbOptions {
+  // Language whose LangString wins for name/description/keywords, and the
+  // `@context @language` when the record's strings carry none (defaults to "de")
+  defaultLanguage?: string;
+
+  // Extra LOM value → concept URI mappings, merged over the defaults
+  vocabularies?: LomVocabularyMappings;
+
+  // Fail instead of dropping unmapped vocabulary values or unusable vCards
+  strict?: boolean;
+}
+
+/**
+ * Options for AMB→LOM conversion
+ */
+export interface AmbToLomOptions {
+  // Fail instead of dropping AMB properties LOM has no element for
+  strict?: boolean;
+}
+
+/**
+ * Options for H5P metadata (h5p.json) import
+ */
+export interface H5pToAmbOptions {
+  // AMB id, e.g. the page the content is embedded on (defaults to contentUrl)
+  id?: string;
+
+  // URL of the .h5p file, the `contentUrl` of its encoding
+  contentUrl?: string;
+
+  // `@context @language` when h5p.json declares no language (defaults to "de")
+  defaultLanguage?: string;
+
+  // Extra main library (machine name) → learningResourceType URI mappings,
+  // merged over the defaults
+  libraries?: Record<string, string>;
+
+  // Fail instead of dropping values AMB cannot represent
+  strict?: boolean;
+}
+
+/**
+ * Options for importing an IMS content package manifest (IMS Common
+ * Cartridge, SCORM)
+ */
+export interface ManifestToAmbOptions extends LomToAmbOptions {
+  // URL the unzipped package is published under. Resource hrefs resolve
+  // against it, and it is the course id unless the manifest metadata has one
+  // (defaults to the manifest identifier, if that is a URI).
+  baseUrl?: string;
+}
+
+/**
+ * Options for Dublin Core (oai_dc)→AMB conversion
+ */
+export interface DcToAmbOptions {
+  // `@context @language` when dc:title carries no xml:lang (defaults to the
+  // first dc:language, then "de")
+  defaultLanguage?: string;
+
+  // Extra dc:type value (lower case) → learningResourceType URI mappings,
+  // merged over the defaults
+  types?: Record<string, string>;
+
+  // Fail instead of dropping values AMB cannot represent
+  strict?: boolean;
+}
+
+/**
+ * Options for AMB→Dublin Core (oai_dc) conversion
+ */
+export interface AmbToDcOptions {
+  // Fail instead of dropping AMB properties Dublin Core has no element for
+  strict?: boolean;
+}
+
+/**
+ * Options for DataCite→AMB conversion
+ */
+export interface DataciteToAmbOptions {
+  // AMB id (defaults to the record's landing page `url`, then its DOI URL)
+  id?: string;
+
+  // Preferred title and description language, and the `@context @language`
+  // when the title carries no lang (defaults to the record's language, then "de")
+  defaultLanguage?: string;
+
+  // Extra resourceType / resourceTypeGeneral value (lower case) →
+  // learningResourceType URI mappings, merged over the defaults
+  types?: Record<string, string>;
+
+  // Fail instead of dropping values AMB cannot represent
+  strict?: boolean;
+}
+
+/**
+ * Options for AMB→DataCite conversion
+ */
+export interface AmbToDataciteOptions {
+  // Fail instead of dropping AMB properties DataCite has no property for
+  strict?: boolean;
+}
+
+/**
+ * Options for AMB→CSL-JSON citation export
+ */
+export interface AmbToCslOptions {
+  // URL template for `nostr:` ids used as the item URL, e.g.
+  // "https://njump.me/{bech32}" (default: the `nostr:naddr…` URI as it is)
+  gateway?: string;
+
+  // Address of the record's event (`nostr:naddr1…`, see `nostrEventAddress`),
+  // the URL when the record has neither a landing page nor a web or `nostr:` id
+  naddr?: string;
+}
+
+/**
+ * Options for AMB→BibTeX citation export
+ */
+export interface AmbToBibtexOptions extends AmbToCslOptions {
+  // Citation key (defaults to `citationKey(resource)`, e.g. "muster2024bruchrechnung")
+  key?: string;
+}
+
+/**
+ * Options for extracting AMB from an HTML page
+ */
+export interface HtmlToAmbOptions {
+  // URL the page was saved from: resolves relative links and is the page
+  // URL (`mainEntityOfPage`) when the page declares no canonical link
+  baseUrl?: string;
+
+  // `@context @language` when the page declares no language (defaults to "de")
+  defaultLanguage?: string;
+
+  // Fail instead of dropping unparseable JSON-LD or values AMB cannot represent
+  strict?: boolean;
+}
+
+/**
+ * One column of a CSV mapping profile
+ */
+export interface CsvColumnMapping {
+  // Column header
+  column: string;
+
+  // AMB path the column holds: `name`, `license.id`, `keywords`,
+  // `about[].id`, `creator[].name`, `ext.<ns>.<facet>`, … `[]` marks the
+  // list whose entries the cell's values become
+  path: string;
+
+  // Separates the values of list paths within a cell (defaults to ";")
+  separator?: string;
+
+  // Cell value → AMB value, e.g. subject names → concept URIs
+  values?: Record<string, string>;
+}
+
+/**
+ * Declarative mapping between spreadsheet columns and AMB paths
+ */
+export interface CsvMapping {
+  // Field delimiter (defaults to the most frequent of ",", ";" and tab in the
+  // header row when reading, "," when writing)
+  delimiter?: string;
+
+  columns: CsvColumnMapping[];
+}
+
+/**
+ * Options for CSV→AMB conversion
+ */
+export interface CsvToAmbOptions {
+  // `@context @language` (defaults to "de")
+  defaultLanguage?: string;
+
+  // Fail instead of dropping unmapped columns or values AMB cannot represent
+  strict?: boolean;
+}
+
+/**
+ * Options for AMB→CSV conversion
+ */
+export interface AmbToCsvOptions {
+  // Fail instead of dropping AMB values no column holds
+  strict?: boolean;
+}
+
+/**
+ * One spreadsheet row; `row` is its line number as a spreadsheet shows it
+ * (the header is row 1)
+ */
+export interface CsvRecord<T> {
+  row: number;
+  result: ConversionResult<T>;
+}
+
+/**
+ * One record of an OAI-PMH ListRecords response
+ */
+export interface OaiPmhRecord<T> {
+  identifier: string;
+  datestamp?: string;
+  // Deleted records carry no metadata, so they have no result
+  deleted: boolean;
+  result?: ConversionResult<T>;
+}
+
+/**
+ * The records of an OAI-PMH ListRecords response; `resumptionToken` is set
+ * when the repository has more records to harvest
+ */
+export interface OaiPmhListRecords<T> {
+  records: OaiPmhRecord<T>[];
+  resumptionToken?: string;
+}
+
+/**
+ * Machine-readable warning codes
+ */
+export enum ConversionWarningCode {
+  DEFAULT_PUBKEY = 'DEFAULT_PUBKEY',
+  NON_STANDARD_TYPE = 'NON_STANDARD_TYPE',
+  LOSSY_LICENSE = 'LOSSY_LICENSE',
+  UNDECODABLE_NOSTR_ID = 'UNDECODABLE_NOSTR_ID',
+  NON_CONFORMING_EXT_KEY = 'NON_CONFORMING_EXT_KEY',
+  LEGACY_EXT_NAMESPACE = 'LEGACY_EXT_NAMESPACE',
+  NON_URI_D_TAG = 'NON_URI_D_TAG',
+  NON_DETERMINISTIC_TIMESTAMP = 'NON_DETERMINISTIC_TIMESTAMP',
+  PROFILE_FETCH_FAILED = 'PROFILE_FETCH_FAILED',
+  PROFILE_NOT_FOUND = 'PROFILE_NOT_FOUND',
+  UNBUNDLED_CONTEXT = 'UNBUNDLED_CONTEXT',
+  UNMAPPED_VOCABULARY_VALUE = 'UNMAPPED_VOCABULARY_VALUE',
+  INVALID_VCARD = 'INVALID_VCARD',
+  UNSUPPORTED_PROPERTY = 'UNSUPPORTED_PROPERTY',
+  INVALID_JSON_LD = 'INVALID_JSON_LD',
+  MISSING_METADATA_FILE = 'MISSING_METADATA_FILE',
+}
+
+/**
+ * Structured conversion warning. `path` is a JSON path into the AMB side
+ * (e.g. `$.creator[1].id`), `tagIndex` an index into the Nostr event's tags,
+ * `value` the offending input value.
+ */
+export interface ConversionWarning {
+  code: ConversionWarningCode;
+  message: string;
+  path?: string;
+  tagIndex?: number;
+  value?: string;
 }
 
 /**
@@ -45,7 +378,9 @@ export interface ConversionResult<T> {
   success: boolean;
   data?: T;
   error?: Error;
+  // Warning messages; warningDetails carries the same warnings, structured
   warnings?: string[];
+  warningDetails?: ConversionWarning[];
 }
 
 /**
@@ -68,4 +403,16 @@ export enum ConversionErrorCode {
   INVALID_FORMAT = 'INVALID_FORMAT',
   CONVERSION_FAILED = 'CONVERSION_FAILED',
   VALIDATION_FAILED = 'VALIDATION_FAILED',
+  // Strict mode: input the converter would otherwise normalize or drop
+  DEFAULT_PUBKEY = 'DEFAULT_PUBKEY',
+  NON_STANDARD_TYPE = 'NON_STANDARD_TYPE',
+  LOSSY_LICENSE = 'LOSSY_LICENSE',
+  NON_CONFORMING_EXT_KEY = 'NON_CONFORMING_EXT_KEY',
+  LEGACY_EXT_NAMESPACE = 'LEGACY_EXT_NAMESPACE',
+  NON_DETERMINISTIC_TIMESTAMP = 'NON_DETERMINISTIC_TIMESTAMP',
+  UNMAPPED_VOCABULARY_VALUE = 'UNMAPPED_VOCABULARY_VALUE',
+  INVALID_VCARD = 'INVALID_VCARD',
+  UNSUPPORTED_PROPERTY = 'UNSUPPORTED_PROPERTY',
+  INVALID_JSON_LD = 'INVALID_JSON_LD',
+  MISSING_METADATA_FILE = 'MISSING_METADATA_FILE',
 }
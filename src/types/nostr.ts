@@ -33,6 +33,8 @@ export type NostrTagType =
   | 'p'           // Pubkey reference
   | 'a'           // Address reference (NIP-33)
   | 'd'           // Identifier (for replaceable events)
+  | 'alias'       // Original AMB id when the d tag is shortened
+  | 'boundary'    // Opens the next entry of the named multi-valued property (e.g. creator, hasPart:creator)
   | 't'           // Hashtag
   | 'r'           // URL reference
   | 'i'           // External identity
@@ -255,6 +257,310 @@ export function isValidNostrEvent(obj: any): obj is NostrEvent {
   );
 }
 
+/**
+ * Sub-properties an ext key may carry, per NIP-AMB. Anything else means the
+ * key has a surplus segment.
+ */
+function isValidExtSub(sub: string): boolean {
+  if (sub === 'id' || sub === 'type' || sub === 'name') return true;
+  if (!sub.startsWith('prefLabel:')) return false;
+  const lang = sub.slice('prefLabel:'.length);
+  return lang.length > 0 && !lang.includes(':');
+}
+
+/**
+ * Split an ext/ekw tag key into { ns, facet, sub, legacy }, parsing
+ * left-anchored with the fixed arity NIP-AMB defines:
+ *
+ *   ext-key = "ext" ":" ns ":" facet [ ":" sub ]
+ *   sub     = "id" / "type" / "name" / "prefLabel" ":" lang
+ *
+ * `<ns>` and `<facet>` MUST NOT contain ':'; `sub` is null for a scalar facet.
+ * The unprefixed `ekw:<facet>[:<sub>]` shape is accepted as acknowledged legacy
+ * and reported via `legacy`.
+ *
+ * Returns null for any key outside the grammar. A surplus segment makes the
+ * split ambiguous — `ext:ekw:konfi:themen:id` reads as ns=ekw/facet=konfi
+ * left-anchored and ns=ekw:konfi/facet=themen right-anchored, and our own
+ * implementations picked different answers for the same bytes — so the NIP
+ * requires consumers to ignore such keys rather than guess at a segmentation.
+ */
+export function parseExtKey(
+  key: string
+): { ns: string; facet: string; sub: string | null; legacy: boolean } | null {
+  if (!key) return null;
+  const segments = key.split(':');
+
+  // Prefixed keys drop the leading "ext"; legacy unprefixed keys use segment 0
+  // as the namespace directly.
+  let offset: number;
+  let legacy = false;
+  if (segments[0] === 'ext') {
+    offset = 1;
+  } else if (segments[0] === 'ekw') {
+    offset = 0;
+    legacy = true;
+  } else {
+    return null;
+  }
+
+  const ns = segments[offset];
+  const facet = segments[offset + 1];
+  if (!ns || !facet) return null;
+
+  const rest = segments.slice(offset + 2);
+  if (rest.length === 0) return { ns, facet, sub: null, legacy };
+
+  const sub = rest.join(':');
+  if (!isValidExtSub(sub)) return null;
+  return { ns, facet, sub, legacy };
+}
+
+/**
+ * Severity of a NIP-AMB grammar issue. Errors make the event non-conforming
+ * (relays should reject it); warnings flag tags consumers ignore or tolerate.
+ */
+export type NostrAmbIssueSeverity = 'error' | 'warning';
+
+/**
+ * A NIP-AMB grammar issue. `tagIndex` points into `event.tags`; it is absent
+ * for event-level issues such as a wrong kind or a missing required tag.
+ */
+export interface NostrAmbEventIssue {
+  severity: NostrAmbIssueSeverity;
+  message: string;
+  tagIndex?: number;
+}
+
+/**
+ * Result of validating an event against the NIP-AMB tag grammar
+ */
+export interface NostrAmbValidationResult {
+  valid: boolean;
+  issues: NostrAmbEventIssue[];
+}
+
+/** Sub-paths of a SKOS Concept property (`prefLabel:<lang>` is handled separately). */
+const CONCEPT_SUBS = ['id', 'type', 'inLanguage'];
+
+/** Sub-paths of a Person/Organization/FundingScheme property. */
+const PERSON_SUBS = [
+  'id', 'name', 'type', 'honorificPrefix', 'honorificSuffix', 'email', 'url',
+  'affiliation:id', 'affiliation:name', 'affiliation:type', 'affiliation:url', 'affiliation:email',
+];
+
+/** Sub-paths of a MediaObject property. */
+const MEDIA_SUBS = [
+  'id', 'type', 'contentUrl', 'embedUrl', 'encodingFormat', 'sha256', 'inLanguage', 'contentSize', 'bitrate',
+];
+
+/** Sub-paths of a relationship reference (hasPart, isPartOf, isBasedOn). */
+const RELATION_SUBS = [
+  'id', 'name', 'type', 'license', 'license:id',
+  ...PERSON_SUBS.map(sub => `creator:${sub}`),
+];
+
+/**
+ * AMB-core tag grammar: base property → allowed sub-paths. An empty list is a
+ * scalar property that must not carry sub-paths; `concept` properties also
+ * accept `prefLabel:<lang>`.
+ */
+const AMB_CORE_GRAMMAR: Record<string, { subs: string[]; concept?: boolean; bare?: boolean }> = {
+  type: { subs: [] },
+  name: { subs: [] },
+  description: { subs: [] },
+  inLanguage: { subs: [] },
+  image: { subs: [] },
+  isAccessibleForFree: { subs: [] },
+  dateCreated: { subs: [] },
+  datePublished: { subs: [] },
+  dateModified: { subs: [] },
+  duration: { subs: [] },
+  about: { subs: CONCEPT_SUBS, concept: true },
+  learningResourceType: { subs: CONCEPT_SUBS, concept: true },
+  audience: { subs: CONCEPT_SUBS, concept: true },
+  educationalLevel: { subs: CONCEPT_SUBS, concept: true },
+  teaches: { subs: CONCEPT_SUBS, concept: true },
+  assesses: { subs: CONCEPT_SUBS, concept: true },
+  competencyRequired: { subs: CONCEPT_SUBS, concept: true },
+  interactivityType: { subs: CONCEPT_SUBS, concept: true },
+  conditionsOfAccess: { subs: CONCEPT_SUBS, concept: true },
+  creator: { subs: PERSON_SUBS },
+  contributor: { subs: PERSON_SUBS },
+  publisher: { subs: PERSON_SUBS },
+  funder: { subs: PERSON_SUBS },
+  license: { subs: ['id'] },
+  suggestedAge: { subs: ['minValue', 'maxValue'] },
+  trailer: { subs: MEDIA_SUBS },
+  encoding: { subs: MEDIA_SUBS },
+  caption: { subs: MEDIA_SUBS },
+  hasPart: { subs: RELATION_SUBS },
+  isPartOf: { subs: RELATION_SUBS },
+  isBasedOn: { subs: RELATION_SUBS },
+  mainEntityOfPage: {
+    subs: ['id', 'type', 'provider:id', 'provider:name', 'provider:type', 'dateCreated', 'dateModified'],
+    bare: true,
+  },
+};
+
+/**
+ * Nostr-native tags a 30142 event may carry besides the AMB-core grammar,
+ * plus `alias` (the original AMB id when the d tag is shortened).
+ */
+const NOSTR_NATIVE_KEYS = new Set(['d', 't', 'p', 'a', 'r', 'e', 'alt', 'client', 'alias']);
+
+const HEX_PUBKEY = /^[0-9a-f]{64}$/;
+const PERSON_ROLES = new Set(['creator', 'contributor']);
+const RELATION_ROLES = new Set(['isBasedOn', 'isPartOf', 'hasPart', 'form']);
+
+/** Multi-valued object properties nested in an entry, which boundary tags may also name. */
+const NESTED_LISTS = new Set([...RELATION_ROLES].filter(role => role !== 'form').map(role => `${role}:creator`));
+
+/**
+ * Check a relay hint slot: empty, or a ws(s) URL.
+ */
+function isValidRelayHint(hint: string | undefined): boolean {
+  return !hint || /^wss?:\/\/\S+$/.test(hint);
+}
+
+/**
+ * Check an AMB-core key such as `creator:affiliation:name` or
+ * `about:prefLabel:de` against the grammar. Returns an error message, or null.
+ */
+function checkCoreKey(key: string): string | null {
+  const [base, ...rest] = key.split(':');
+  const rule = base ? AMB_CORE_GRAMMAR[base] : undefined;
+  if (!rule) return `unknown tag key '${key}'`;
+  if (rest.length === 0) {
+    return rule.subs.length === 0 || rule.bare
+      ? null
+      : `'${key}' needs a sub-property (${base}:<${rule.subs.join('|')}>)`;
+  }
+  const sub = rest.join(':');
+  if (rule.subs.includes(sub)) return null;
+  if (rule.concept && rest[0] === 'prefLabel') {
+    if (rest.length === 2 && rest[1]) return null;
+    return `'${key}' must have the shape ${base}:prefLabel:<lang>`;
+  }
+  return `unknown sub-property '${sub}' for '${base}'`;
+}
+
+/**
+ * Validate a kind-30142 event against the NIP-AMB tag grammar: required
+ * d/type/name tags, AMB-core keys and their sub-paths, `prefLabel:<lang>`
+ * shapes, p/a tag arity and roles, and the ext:<ns>:<facet>[:<sub>] grammar.
+ */
+export function validateNostrAmbEvent(event: NostrEvent): NostrAmbValidationResult {
+  const issues: NostrAmbEventIssue[] = [];
+  const error = (message: string, tagIndex?: number) =>
+    issues.push(tagIndex === undefined ? { severity: 'error', message } : { severity: 'error', message, tagIndex });
+  const warn = (message: string, tagIndex?: number) =>
+    issues.push(tagIndex === undefined ? { severity: 'warning', message } : { severity: 'warning', message, tagIndex });
+
+  if (!isValidNostrEvent(event)) {
+    error('not a valid Nostr event (pubkey, created_at, kind, tags and content are required)');
+    if (!event || !Array.isArray((event as NostrEvent).tags)) {
+      return { valid: false, issues };
+    }
+  }
+  if (event.kind !== NostrEducationalKind.AMB) {
+    error(`kind must be ${NostrEducationalKind.AMB}, got ${event.kind}`);
+  }
+
+  const counts: Record<string, number> = { d: 0, type: 0, name: 0 };
+  let hasLearningResourceType = false;
+
+  event.tags.forEach((tag, i) => {
+    if (!Array.isArray(tag) || tag.length < 2 || tag.some(v => typeof v !== 'string')) {
+      error('tag must be an array of at least two strings', i);
+      return;
+    }
+    const key = tag[0]!;
+    const value = tag[1]!;
+
+    if (key in counts) counts[key]! += 1;
+
+    if (key === 'd') {
+      if (!value) error('d tag must not be empty', i);
+      return;
+    }
+    if (key === 'type' && value === 'LearningResource') hasLearningResourceType = true;
+
+    if (key === 'p') {
+      if (!HEX_PUBKEY.test(value)) error('p tag pubkey must be 64 lowercase hex characters', i);
+      if (!isValidRelayHint(tag[2])) warn(`p tag relay hint '${tag[2]}' is not a ws(s):// URL`, i);
+      const role = tag[3];
+      if (role === undefined) warn('p tag has no role; consumers ignore it (expected creator|contributor)', i);
+      else if (!PERSON_ROLES.has(role)) warn(`p tag role '${role}' is not creator|contributor; consumers ignore it`, i);
+      if (tag.length > 4) warn('p tag has surplus elements', i);
+      return;
+    }
+
+    if (key === 'a') {
+      const [kind, pubkey, ...identifier] = value.split(':');
+      if (!kind || !/^\d+$/.test(kind) || !pubkey || !HEX_PUBKEY.test(pubkey) || identifier.length === 0) {
+        error(`a tag coordinate '${value}' must have the shape <kind>:<pubkey>:<d>`, i);
+      }
+      if (!isValidRelayHint(tag[2])) warn(`a tag relay hint '${tag[2]}' is not a ws(s):// URL`, i);
+      const role = tag[3];
+      if (role === undefined) warn('a tag has no role; consumers ignore it (expected isBasedOn|isPartOf|hasPart|form)', i);
+      else if (!RELATION_ROLES.has(role)) warn(`a tag role '${role}' is unknown; consumers ignore it`, i);
+      if (tag.length > 4) warn('a tag has surplus elements', i);
+      return;
+    }
+
+    if (key === 'boundary') {
+      const grammar = AMB_CORE_GRAMMAR[value];
+      if ((!grammar || grammar.subs.length === 0) && !NESTED_LISTS.has(value)) {
+        warn(`boundary tag names '${value}', which is not a multi-valued object property; consumers ignore it`, i);
+      }
+      return;
+    }
+
+    if (NOSTR_NATIVE_KEYS.has(key)) return;
+
+    if (key.startsWith('ext:') || key.startsWith('ekw:')) {
+      const parsed = parseExtKey(key);
+      if (!parsed) {
+        error(
+          `non-conforming ext key '${key}'; expected ext:<ns>:<facet>[:<sub>] with colon-free ` +
+            `<ns>/<facet> and <sub> in {id, type, name, prefLabel:<lang>}`,
+          i
+        );
+      } else if (parsed.legacy) {
+        warn(`legacy unprefixed ext namespace '${parsed.ns}'; producers should migrate to 'ext:${parsed.ns}:'`, i);
+      }
+      return;
+    }
+
+    const problem = checkCoreKey(key);
+    if (problem) {
+      // Unknown base keys are tolerated by consumers; malformed known keys are not.
+      const base = key.split(':')[0] ?? '';
+      if (base in AMB_CORE_GRAMMAR) error(problem, i);
+      else warn(problem, i);
+      return;
+    }
+
+    if (key === 'isAccessibleForFree' && value !== 'true' && value !== 'false') {
+      error(`isAccessibleForFree must be "true" or "false", got '${value}'`, i);
+    }
+    if (key.startsWith('suggestedAge:') && !/^\d+$/.test(value)) {
+      error(`${key} must be a non-negative integer, got '${value}'`, i);
+    }
+    if (!value) warn(`'${key}' has an empty value`, i);
+  });
+
+  if (counts['d'] === 0) error('missing required d tag');
+  else if (counts['d']! > 1) error('event must have exactly one d tag');
+  if (counts['type'] === 0) error('missing required type tag');
+  else if (!hasLearningResourceType) warn("type tags should include 'LearningResource'");
+  if (counts['name'] === 0) error('missing required name tag');
+  else if (counts['name']! > 1) error('event must have exactly one name tag');
+
+  return { valid: !issues.some(issue => issue.severity === 'error'), issues };
+}
+
 /**
  * Check if event is an educational event
  */
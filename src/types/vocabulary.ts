@@ -0,0 +1,39 @@
+/**
+ * SKOS Vocabulary Type Definitions
+ * Controlled vocabularies (SKOS concept schemes) as far as concept label
+ * enrichment needs them: concept ids and their labels
+ * Based on https://www.w3.org/TR/skos-reference/
+ */
+
+import type { LocalizedString } from './amb.js';
+
+/**
+ * A skos:Concept with its skos:prefLabel per language
+ */
+export interface SkosConcept {
+  id: string;
+  prefLabel: LocalizedString;
+}
+
+/**
+ * A skos:ConceptScheme with its concepts
+ */
+export interface SkosVocabulary {
+  id: string;
+  title?: LocalizedString;
+  concepts: SkosConcept[];
+}
+
+/**
+ * Labels of concepts from one or more vocabularies, looked up by concept id
+ */
+export interface VocabularyRegistry {
+  readonly vocabularies: SkosVocabulary[];
+
+  // Add a vocabulary; its labels win over those already registered
+  add(vocabulary: SkosVocabulary): void;
+
+  // Labels of a concept, or undefined for unknown ids. `http` and `https`
+  // ids of the same concept match
+  lookup(id: string): LocalizedString | undefined;
+}
@@ -0,0 +1,38 @@
+/**
+ * Normalizing values from other metadata formats to the forms the AMB schema
+ * accepts (ISO 639-1 language codes, ISO 8601 dates)
+ */
+
+/**
+ * ISO 639-2 (bibliographic and terminology) codes → ISO 639-1, for the
+ * languages repositories commonly tag with three letters
+ */
+const ISO_639_2_TO_1: Record<string, string> = {
+  ger: 'de', deu: 'de', eng: 'en', fre: 'fr', fra: 'fr', spa: 'es', ita: 'it',
+  dut: 'nl', nld: 'nl', por: 'pt', pol: 'pl', rus: 'ru', dan: 'da', swe: 'sv',
+  nor: 'no', fin: 'fi', cze: 'cs', ces: 'cs', gre: 'el', ell: 'el', tur: 'tr',
+  ara: 'ar', chi: 'zh', zho: 'zh', jpn: 'ja', lat: 'la',
+};
+
+/** The date / date-time form the AMB schema accepts. */
+const AMB_DATE =
+  /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]([01]\d|2[0-3]):[0-5]\d)?)?$/;
+
+/**
+ * ISO 639-1 code for a language value (ISO 639-1/-2, a BCP 47 tag or a
+ * POSIX locale such as de_DE); undefined if there is none
+ */
+export function languageCode(value: string): string | undefined {
+  const code = value.trim().toLowerCase();
+  if (/^[a-z]{2}$/.test(code)) return code;
+  if (/^[a-z]{2}[-_]/.test(code)) return code.slice(0, 2);
+  return ISO_639_2_TO_1[code];
+}
+
+/**
+ * Whether a value is a full ISO 8601 date or date-time, as AMB requires
+ * (year-only and year-month dates are not)
+ */
+export function isAmbDate(value: string): boolean {
+  return AMB_DATE.test(value);
+}
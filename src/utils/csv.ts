@@ -0,0 +1,89 @@
+/**
+ * CSV/TSV reading and writing (RFC 4180: quoted fields, doubled quotes,
+ * line breaks inside quotes)
+ */
+
+import { ConversionError, ConversionErrorCode } from '../types/index.js';
+
+/** Delimiters detected from the header row, most common first. */
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * The delimiter a spreadsheet export uses: whichever of comma, semicolon
+ * (German Excel) and tab occurs most often in the header row
+ */
+export function detectCsvDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0]!.replace(/"[^"]*"/g, '');
+  let best = DELIMITERS[0]!;
+  for (const delimiter of DELIMITERS) {
+    if (header.split(delimiter).length > header.split(best).length) best = delimiter;
+  }
+  return best;
+}
+
+/**
+ * Parse CSV text into rows of cells (a blank line is a row with one empty
+ * cell). A byte order mark is skipped.
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const source = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(cell);
+    rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  while (i < source.length) {
+    const char = source[i]!;
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      i++;
+      continue;
+    }
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (source.startsWith(delimiter, i)) {
+      row.push(cell);
+      cell = '';
+      i += delimiter.length;
+      continue;
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+      if (char === '\r' && source[i + 1] === '\n') i++;
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+  if (quoted) {
+    throw new ConversionError('CSV has an unterminated quoted field', ConversionErrorCode.INVALID_FORMAT);
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Format rows as CSV, quoting cells that contain the delimiter, quotes or
+ * line breaks
+ */
+export function formatCsv(rows: string[][], delimiter: string): string {
+  const quote = (cell: string) =>
+    cell.includes(delimiter) || /["\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  return rows.map(row => row.map(quote).join(delimiter)).join('\n');
+}
@@ -0,0 +1,107 @@
+/**
+ * Minimal HTML scanning for metadata extraction: start tags with their
+ * attributes, script and title contents. Not a full HTML parser — it reads
+ * what the document head declares and nothing else.
+ */
+
+/**
+ * A start tag with its attributes (names lower-cased, values entity-decoded)
+ */
+export interface HtmlTag {
+  name: string;
+  attributes: Record<string, string>;
+}
+
+/**
+ * The parts of an HTML page metadata extraction needs
+ */
+export interface HtmlDocument {
+  // `<html lang>`
+  lang?: string;
+  // `<title>` text
+  title?: string;
+  // `<base href>`
+  baseHref?: string;
+  meta: HtmlTag[];
+  links: HtmlTag[];
+  // Contents of `<script type="application/ld+json">` blocks, in order
+  jsonLd: string[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  auml: 'ä', ouml: 'ö', uuml: 'ü', Auml: 'Ä', Ouml: 'Ö', Uuml: 'Ü', szlig: 'ß',
+  eacute: 'é', egrave: 'è', agrave: 'à', ndash: '–', mdash: '—', hellip: '…',
+  laquo: '«', raquo: '»', bdquo: '„', ldquo: '“', rdquo: '”', lsquo: '‘', rsquo: '’', copy: '©',
+};
+
+/**
+ * Decode character references: numeric ones and the common named ones
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[ref] ?? match;
+  });
+}
+
+/**
+ * Plain text of a rich-text fragment: line breaks at <br> and paragraph ends,
+ * other tags removed
+ */
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(html.replace(/<br\s*\/?>|<\/p>/gi, '\n').replace(/<[^>]*>/g, ''))
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+const ATTRIBUTE = /([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>"']+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1]!.toLowerCase();
+    attributes[name] ??= decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/** Start tags named `name` (void elements such as meta, link, base, html). */
+function startTags(html: string, name: string): HtmlTag[] {
+  const pattern = new RegExp(`<${name}\\b((?:[^>"']|"[^"]*"|'[^']*')*)>`, 'gi');
+  return [...html.matchAll(pattern)].map(match => ({ name, attributes: parseAttributes(match[1]!) }));
+}
+
+/**
+ * Scan an HTML page for its metadata. Comments are skipped, so commented-out
+ * tags are not picked up.
+ */
+export function scanHtml(html: string): HtmlDocument {
+  const source = html.replace(/<!--[\s\S]*?-->/g, '');
+
+  const jsonLd: string[] = [];
+  const scripts = /<script\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/script\s*>/gi;
+  for (const match of source.matchAll(scripts)) {
+    const type = parseAttributes(match[1]!).type?.split(';')[0]?.trim().toLowerCase();
+    if (type === 'application/ld+json') jsonLd.push(match[2]!.trim());
+  }
+  // Script bodies may contain markup-like text; drop them before reading tags
+  const markup = source.replace(scripts, '');
+
+  const title = markup.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i)?.[1];
+  const lang = startTags(markup, 'html')[0]?.attributes.lang;
+  const baseHref = startTags(markup, 'base')[0]?.attributes.href;
+
+  return {
+    ...(lang ? { lang } : {}),
+    ...(title?.trim() ? { title: decodeHtmlEntities(title.replace(/\s+/g, ' ').trim()) } : {}),
+    ...(baseHref ? { baseHref } : {}),
+    meta: startTags(markup, 'meta'),
+    links: startTags(markup, 'link'),
+    jsonLd,
+  };
+}
@@ -0,0 +1,24 @@
+/**
+ * Choosing among the languages of a `prefLabel` map
+ */
+
+/**
+ * The key of `labels` best matching a language preference list, by RFC 4647
+ * lookup: each range is tried as is, then with its last subtag cut off
+ * ("de-CH" → "de"); "*" matches the first language present. Undefined when
+ * nothing in the list matches.
+ */
+export function lookupLabelLanguage(labels: Record<string, string>, languages: string[]): string | undefined {
+  const keys = Object.keys(labels);
+  const byLowerCase = new Map(keys.map(key => [key.toLowerCase(), key]));
+  for (const range of languages) {
+    if (range === '*') return keys[0];
+    const subtags = range.toLowerCase().split('-');
+    while (subtags.length > 0) {
+      const key = byLowerCase.get(subtags.join('-'));
+      if (key !== undefined) return key;
+      subtags.pop();
+    }
+  }
+  return undefined;
+}
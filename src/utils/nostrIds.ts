@@ -0,0 +1,45 @@
+/**
+ * Stable IRIs and gateway URLs for NIP-21 `nostr:` ids
+ */
+
+import { nip19 } from 'nostr-tools';
+
+export const DEFAULT_NOSTR_GATEWAY = 'https://njump.me/{bech32}';
+
+const GATEWAY_PLACEHOLDER = /\{(bech32|naddr|npub|nprofile|note|nevent)\}/g;
+
+/**
+ * Stable IRI for a NIP-21 `nostr:` id. Relay hints change over time, so
+ * `nprofile` becomes `npub`, `nevent` becomes `note` and `naddr` is
+ * re-encoded without relays. Other ids are returned unchanged.
+ */
+export function stableNostrIri(id: string): string {
+  if (!id.startsWith('nostr:')) return id;
+  try {
+    const decoded = nip19.decode(id.slice('nostr:'.length));
+    switch (decoded.type) {
+      case 'nprofile':
+        return `nostr:${nip19.npubEncode((decoded.data as { pubkey: string }).pubkey)}`;
+      case 'nevent':
+        return `nostr:${nip19.noteEncode((decoded.data as { id: string }).id)}`;
+      case 'naddr': {
+        const { identifier, pubkey, kind } = decoded.data as { identifier: string; pubkey: string; kind: number };
+        return `nostr:${nip19.naddrEncode({ identifier, pubkey, kind })}`;
+      }
+      default:
+        return id;
+    }
+  } catch {
+    return id;
+  }
+}
+
+/**
+ * Web URL for a NIP-21 `nostr:` id, built from a gateway template. The id is
+ * first made stable (no relay hints), so a page keeps the same URLs as relays
+ * change. Other ids are returned unchanged.
+ */
+export function nostrGatewayUrl(id: string, gateway: string = DEFAULT_NOSTR_GATEWAY): string {
+  if (!id.startsWith('nostr:')) return id;
+  return gateway.replace(GATEWAY_PLACEHOLDER, stableNostrIri(id).slice('nostr:'.length));
+}
@@ -0,0 +1,22 @@
+/**
+ * Splitting AMB person display names for formats that store family and
+ * given names separately (vCard N, Dublin Core "Family, Given")
+ */
+
+import type { Person } from '../types/index.js';
+
+/**
+ * Family and given name of a person: the last word of the name is the family
+ * name, honorifics the display name repeats are dropped
+ */
+export function splitPersonName(person: Person): { familyName: string; givenName: string } {
+  let bare = person.name.trim();
+  if (person.honorificPrefix && bare.startsWith(`${person.honorificPrefix} `)) {
+    bare = bare.slice(person.honorificPrefix.length + 1);
+  }
+  if (person.honorificSuffix && bare.endsWith(` ${person.honorificSuffix}`)) {
+    bare = bare.slice(0, -(person.honorificSuffix.length + 1));
+  }
+  const parts = bare.replace(/,$/, '').split(/\s+/);
+  return { familyName: parts.at(-1) ?? '', givenName: parts.slice(0, -1).join(' ') };
+}
@@ -0,0 +1,18 @@
+/**
+ * URL- and file-name-safe slugs of titles
+ */
+
+/**
+ * Slug of a resource name: lowercase ASCII words joined by '-'
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+    .replace(/-+$/, '');
+}
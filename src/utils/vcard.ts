@@ -0,0 +1,112 @@
+/**
+ * Minimal vCard (RFC 2426 / RFC 6350) reading and writing, as used for LOM
+ * contributor entities
+ */
+
+/**
+ * The vCard properties the converters use
+ */
+export interface VCard {
+  fn?: string;
+  // N: family;given;additional;prefix;suffix
+  familyName?: string;
+  givenName?: string;
+  honorificPrefix?: string;
+  honorificSuffix?: string;
+  org?: string;
+  email?: string;
+  url?: string;
+  // UID, or an X-ORCID / X-GND-URI / X-ROR extension
+  uid?: string;
+}
+
+const unescape = (value: string) => value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+const escape = (value: string) => value.replace(/([\\;,])/g, '\\$1').replace(/\n/g, '\\n');
+
+/** Split on separators that are not backslash-escaped. */
+function splitUnescaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]!;
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[i + 1];
+      i++;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Parse the first vCard in `text`. Unknown properties are ignored.
+ */
+export function parseVCard(text: string): VCard {
+  const card: VCard = {};
+  // Unfold continuation lines (CRLF/LF followed by a space or tab)
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    // Strip parameters and a group prefix (item1.EMAIL;TYPE=work → EMAIL)
+    const name = line.slice(0, colon).split(';')[0]!.split('.').pop()!.trim().toUpperCase();
+    const value = line.slice(colon + 1).trim();
+    if (!value) continue;
+    switch (name) {
+      case 'FN':
+        card.fn ??= unescape(value);
+        break;
+      case 'N': {
+        const [family, given, , prefix, suffix] = splitUnescaped(value, ';').map(part => unescape(part).trim());
+        if (family) card.familyName = family;
+        if (given) card.givenName = given;
+        if (prefix) card.honorificPrefix = prefix;
+        if (suffix) card.honorificSuffix = suffix;
+        break;
+      }
+      case 'ORG': {
+        const org = unescape(splitUnescaped(value, ';')[0]!).trim();
+        if (org) card.org ??= org;
+        break;
+      }
+      case 'EMAIL':
+        card.email ??= value;
+        break;
+      case 'URL':
+        card.url ??= unescape(value);
+        break;
+      case 'UID':
+      case 'X-ORCID':
+      case 'X-GND-URI':
+      case 'X-ROR':
+        card.uid ??= unescape(value).replace(/^urn:uri:/, '');
+        break;
+      case 'END':
+        return card;
+    }
+  }
+  return card;
+}
+
+/**
+ * Serialize a vCard 3.0
+ */
+export function formatVCard(card: VCard): string {
+  const lines = ['BEGIN:VCARD', 'VERSION:3.0'];
+  if (card.familyName !== undefined || card.givenName !== undefined) {
+    const n = [card.familyName, card.givenName, '', card.honorificPrefix, card.honorificSuffix];
+    lines.push(`N:${n.map(part => escape(part ?? '')).join(';')}`);
+  }
+  if (card.fn !== undefined) lines.push(`FN:${escape(card.fn)}`);
+  if (card.org !== undefined) lines.push(`ORG:${escape(card.org)}`);
+  if (card.email !== undefined) lines.push(`EMAIL;TYPE=INTERNET:${card.email}`);
+  if (card.url !== undefined) lines.push(`URL:${card.url}`);
+  if (card.uid !== undefined) lines.push(`UID:${card.uid}`);
+  lines.push('END:VCARD');
+  return lines.join('\n');
+}
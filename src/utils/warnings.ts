@@ -0,0 +1,36 @@
+/**
+ * Conversion warnings that fail the conversion in strict mode
+ */
+
+import { ConversionError, ConversionErrorCode, ConversionWarning } from '../types/index.js';
+
+/**
+ * Report a lossy step: collected as a warning by default, thrown as a
+ * ConversionError with `errorCode` in strict mode
+ */
+export type WarnFn = (warning: ConversionWarning, errorCode: ConversionErrorCode) => void;
+
+/**
+ * A `warn` function and the warnings it collected
+ */
+export interface WarningCollector {
+  warn: WarnFn;
+  warnings: ConversionWarning[];
+}
+
+/**
+ * Collect warnings into `warnings` (a new array by default), or, with
+ * `strict`, throw the first one as a "Strict mode: …" ConversionError
+ */
+export function createWarningCollector(
+  strict: boolean | undefined,
+  warnings: ConversionWarning[] = []
+): WarningCollector {
+  const warn: WarnFn = (warning, errorCode) => {
+    if (strict) {
+      throw new ConversionError(`Strict mode: ${warning.message}`, errorCode);
+    }
+    warnings.push(warning);
+  };
+  return { warn, warnings };
+}
@@ -0,0 +1,108 @@
+/**
+ * XML parsing and building helpers shared by the XML-based converters
+ */
+
+import { XMLBuilder, XMLParser, XMLValidator } from 'fast-xml-parser';
+import { ConversionError, ConversionErrorCode } from '../types/index.js';
+
+/**
+ * A parsed XML element. Namespace prefixes are stripped; child elements are
+ * always arrays, attributes are prefixed with `@`, text content is `#text`.
+ */
+export interface XmlElement {
+  [name: string]: XmlElement[] | string | undefined;
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@',
+  textNodeName: '#text',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  isArray: (_name, _jpath, _isLeaf, isAttribute) => !isAttribute,
+});
+
+/**
+ * Parse an XML document. Throws a ConversionError (INVALID_FORMAT) on
+ * malformed input.
+ */
+export function parseXml(xml: string): XmlElement {
+  const valid = XMLValidator.validate(xml);
+  if (valid !== true) {
+    throw new ConversionError(
+      `Invalid XML: ${valid.err.msg} (line ${valid.err.line})`,
+      ConversionErrorCode.INVALID_FORMAT
+    );
+  }
+  return parser.parse(xml) as XmlElement;
+}
+
+/**
+ * Child elements named `name`; text-only children come back as `{ '#text' }`
+ */
+export function xmlChildren(element: XmlElement | undefined, name: string): XmlElement[] {
+  const value = element?.[name];
+  if (!Array.isArray(value)) return [];
+  return value.map(child => (typeof child === 'string' ? { '#text': child } : child));
+}
+
+/**
+ * First child element named `name`
+ */
+export function xmlChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return xmlChildren(element, name)[0];
+}
+
+/**
+ * Text content of an element, undefined when empty
+ */
+export function xmlText(element: XmlElement | undefined): string | undefined {
+  const text = element?.['#text'];
+  return typeof text === 'string' && text !== '' ? text : undefined;
+}
+
+/**
+ * Attribute value of an element
+ */
+export function xmlAttr(element: XmlElement | undefined, name: string): string | undefined {
+  const value = element?.[`@${name}`];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Depth-first search for the first element named `name`, so documents
+ * wrapped in an envelope (e.g. an OAI-PMH record) are found too
+ */
+export function findXmlElement(element: XmlElement, name: string): XmlElement | undefined {
+  const direct = xmlChild(element, name);
+  if (direct) return direct;
+  for (const [key, value] of Object.entries(element)) {
+    if (key.startsWith('@') || !Array.isArray(value)) continue;
+    for (const child of value) {
+      if (typeof child === 'string') continue;
+      const found = findXmlElement(child, name);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+const builder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@',
+  textNodeName: '#text',
+  cdataPropName: '#cdata',
+  format: true,
+  indentBy: '  ',
+  suppressEmptyNode: true,
+});
+
+/**
+ * Serialize an element tree (same conventions as parseXml, plus `#cdata`
+ * for CDATA sections) as an XML document
+ */
+export function buildXml(root: Record<string, unknown>): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${builder.build(root)}`;
+}
@@ -0,0 +1,43 @@
+/**
+ * YAML parsing and formatting, and splitting Markdown files with YAML front
+ * matter
+ */
+
+import { parse, stringify } from 'yaml';
+import { ConversionError, ConversionErrorCode } from '../types/index.js';
+
+/** A leading `---` block closed by `---` or `...`. */
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Parse a single YAML document. Throws a ConversionError (INVALID_FORMAT) on
+ * malformed YAML or a stream of several documents.
+ */
+export function parseYaml(text: string): unknown {
+  try {
+    return parse(text);
+  } catch (error) {
+    throw new ConversionError(
+      `Invalid YAML: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`,
+      ConversionErrorCode.INVALID_FORMAT
+    );
+  }
+}
+
+/**
+ * Format a value as a YAML document. Long strings are not folded, so URLs
+ * stay on one line.
+ */
+export function formatYaml(value: unknown): string {
+  return stringify(value, { lineWidth: 0 });
+}
+
+/**
+ * The YAML front matter and Markdown body of a document, or undefined if it
+ * does not start with front matter
+ */
+export function splitFrontMatter(text: string): { frontMatter: string; body: string } | undefined {
+  const match = FRONT_MATTER.exec(text);
+  if (!match) return undefined;
+  return { frontMatter: match[1] ?? '', body: text.slice(match[0].length) };
+}
@@ -0,0 +1,267 @@
+/**
+ * Zod schemas for AMB learning resources
+ * Mirror the interfaces in src/types/amb.ts so malformed input is reported up
+ * front instead of surfacing as a ConversionError halfway through ambToNostr.
+ */
+
+import { z } from 'zod';
+import { AmbLearningResource } from '../types/amb.js';
+
+/**
+ * A single validation problem, located by a JSON path such as `$.creator[0].name`
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * Result of validating a value against a schema
+ */
+export interface ValidationResult<T> {
+  valid: boolean;
+  data?: T;
+  issues: ValidationIssue[];
+}
+
+const nonEmptyString = z.string().min(1);
+
+export const localizedStringSchema = z.record(z.string(), z.string());
+
+export const ambContextSchema = z.array(
+  z.union([
+    z.string(),
+    z.object({ '@language': z.string().optional() }).passthrough(),
+  ])
+);
+
+export const conceptSchema = z
+  .object({
+    id: nonEmptyString,
+    type: z.literal('Concept').optional(),
+    prefLabel: localizedStringSchema.optional(),
+  })
+  .passthrough();
+
+export const organizationSchema = z
+  .object({
+    id: z.string().optional(),
+    type: z.literal('Organization'),
+    name: nonEmptyString,
+    url: z.string().optional(),
+    email: z.string().optional(),
+    nostrPubkey: z.string().optional(),
+    relayHint: z.string().optional(),
+  })
+  .passthrough();
+
+export const personSchema = z
+  .object({
+    id: z.string().optional(),
+    type: z.literal('Person'),
+    name: nonEmptyString,
+    honorificPrefix: z.string().optional(),
+    honorificSuffix: z.string().optional(),
+    email: z.string().optional(),
+    affiliation: organizationSchema.optional(),
+    nostrPubkey: z.string().optional(),
+    relayHint: z.string().optional(),
+  })
+  .passthrough();
+
+export const personOrOrganizationSchema = z.discriminatedUnion('type', [
+  personSchema,
+  organizationSchema,
+]);
+
+export const fundingSchemeSchema = z
+  .object({
+    id: z.string().optional(),
+    type: z.literal('FundingScheme'),
+    name: nonEmptyString,
+  })
+  .passthrough();
+
+export const funderSchema = z.discriminatedUnion('type', [
+  personSchema,
+  organizationSchema,
+  fundingSchemeSchema,
+]);
+
+export const licenseSchema = z
+  .object({
+    id: nonEmptyString,
+    type: z.string().optional(),
+    name: z.string().optional(),
+  })
+  .passthrough();
+
+export const mediaObjectSchema = z
+  .object({
+    id: z.string().optional(),
+    type: z.enum(['MediaObject', 'VideoObject', 'AudioObject']).optional(),
+    contentUrl: z.string().optional(),
+    embedUrl: z.string().optional(),
+    encodingFormat: z.string().optional(),
+    sha256: z.string().optional(),
+    inLanguage: z.string().optional(),
+    contentSize: z.string().optional(),
+    bitrate: z.string().optional(),
+  })
+  .passthrough();
+
+export const mainEntityOfPageSchema = z
+  .object({
+    id: nonEmptyString,
+    type: z.string().optional(),
+    provider: z
+      .object({
+        id: z.string().optional(),
+        name: z.string().optional(),
+        type: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    dateCreated: z.string().optional(),
+    dateModified: z.string().optional(),
+  })
+  .passthrough();
+
+export const learningResourceReferenceSchema = z
+  .object({
+    id: nonEmptyString,
+    type: z.array(z.string()).optional(),
+    name: z.string().optional(),
+    creator: z.array(personOrOrganizationSchema).optional(),
+    license: z.union([licenseSchema, z.string()]).optional(),
+    nostrEvent: z
+      .object({
+        pubkey: nonEmptyString,
+        dTag: nonEmptyString,
+        relayHint: z.string().optional(),
+      })
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * isBasedOn sources are often known only by name (AMB draft: id or name)
+ */
+export const isBasedOnReferenceSchema = learningResourceReferenceSchema
+  .extend({ id: nonEmptyString.optional() })
+  .refine((ref) => ref.id !== undefined || ref.name !== undefined, {
+    message: 'isBasedOn entry needs an id or a name',
+  });
+
+/**
+ * `<ns>` and `<facet>` become segments of a colon-delimited tag key, so
+ * ambToNostr refuses colons in them; reject those keys here already.
+ */
+const extSegment = z.string().min(1).refine((s) => !s.includes(':'), {
+  message: "must not contain ':'",
+});
+
+export const extSchema = z.record(
+  extSegment,
+  z.record(extSegment, z.array(z.union([conceptSchema, z.string()])))
+);
+
+export const ambLearningResourceSchema = z
+  .object({
+    '@context': ambContextSchema,
+    id: nonEmptyString,
+    type: z.array(z.string()).min(1),
+    name: nonEmptyString,
+    creator: z.array(personOrOrganizationSchema).optional(),
+    contributor: z.array(personOrOrganizationSchema).optional(),
+    description: z.string().optional(),
+    keywords: z.array(z.string()).optional(),
+    about: z.array(conceptSchema).optional(),
+
+    isAccessibleForFree: z.boolean().optional(),
+    conditionsOfAccess: conceptSchema.optional(),
+    license: licenseSchema.optional(),
+
+    inLanguage: z.array(z.string()).optional(),
+
+    learningResourceType: z.array(conceptSchema).optional(),
+    audience: z.array(conceptSchema).optional(),
+    educationalLevel: z.array(conceptSchema).optional(),
+    teaches: z.array(conceptSchema).optional(),
+    assesses: z.array(conceptSchema).optional(),
+    competencyRequired: z.array(conceptSchema).optional(),
+    interactivityType: conceptSchema.optional(),
+    suggestedAge: z
+      .object({
+        minValue: z.number().int().optional(),
+        maxValue: z.number().int().optional(),
+      })
+      .refine((age) => age.minValue !== undefined || age.maxValue !== undefined, {
+        message: 'suggestedAge needs at least one of minValue/maxValue',
+      })
+      .optional(),
+
+    dateCreated: z.string().optional(),
+    datePublished: z.string().optional(),
+    dateModified: z.string().optional(),
+    duration: z.string().optional(),
+
+    publisher: z.array(personOrOrganizationSchema).optional(),
+    funder: z.array(funderSchema).optional(),
+
+    image: z.string().optional(),
+    trailer: mediaObjectSchema.optional(),
+    encoding: z.array(mediaObjectSchema).optional(),
+    caption: z.array(mediaObjectSchema).optional(),
+
+    hasPart: z.array(learningResourceReferenceSchema).optional(),
+    isPartOf: z.array(learningResourceReferenceSchema).optional(),
+    isBasedOn: z.array(isBasedOnReferenceSchema).optional(),
+
+    mainEntityOfPage: z.array(mainEntityOfPageSchema).optional(),
+
+    ext: extSchema.optional(),
+  })
+  .passthrough();
+
+/**
+ * Render a Zod issue path as a JSON path, e.g. ['creator', 0, 'name'] → `$.creator[0].name`
+ */
+export function toJsonPath(path: Array<string | number>): string {
+  let out = '$';
+  for (const segment of path) {
+    if (typeof segment === 'number') {
+      out += `[${segment}]`;
+    } else if (/^[A-Za-z_$][\w$]*$/.test(segment)) {
+      out += `.${segment}`;
+    } else {
+      out += `[${JSON.stringify(segment)}]`;
+    }
+  }
+  return out;
+}
+
+/**
+ * Flatten a ZodError into ValidationIssues
+ */
+export function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: toJsonPath(issue.path),
+    message: issue.message,
+    code: issue.code,
+  }));
+}
+
+/**
+ * Validate an AMB learning resource against the Zod schemas
+ */
+export function validateAmb(resource: unknown): ValidationResult<AmbLearningResource> {
+  const parsed = ambLearningResourceSchema.safeParse(resource);
+  if (parsed.success) {
+    // Zod types absent optional properties as `| undefined`, which
+    // exactOptionalPropertyTypes keeps apart from the AMB interfaces
+    return { valid: true, data: parsed.data as AmbLearningResource, issues: [] };
+  }
+  return { valid: false, issues: toValidationIssues(parsed.error) };
+}
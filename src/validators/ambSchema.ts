@@ -0,0 +1,63 @@
+/**
+ * Validation against the official AMB JSON Schema
+ * The draft schema and its vocabulary enums are bundled in src/schemas/amb, so
+ * this runs fully offline.
+ */
+
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import ambDraftSchema from '../schemas/amb/schema.json' with { type: 'json' };
+import { AmbLearningResource } from '../types/amb.js';
+import { ValidationIssue, ValidationResult, toJsonPath } from './amb.js';
+
+/**
+ * The bundled AMB draft JSON Schema
+ */
+export const AMB_JSON_SCHEMA = ambDraftSchema;
+
+let compiled: ValidateFunction | undefined;
+
+/**
+ * Compile the schema once, on first use
+ */
+function getValidator(): ValidateFunction {
+  if (!compiled) {
+    const ajv = new Ajv({ allErrors: true, strict: false });
+    addFormats(ajv);
+    compiled = ajv.compile(ambDraftSchema);
+  }
+  return compiled;
+}
+
+/**
+ * Turn an Ajv instance path (`/creator/0/name`) into a JSON path (`$.creator[0].name`)
+ */
+function instancePathToJsonPath(instancePath: string): string {
+  if (!instancePath) return '$';
+  const segments = instancePath
+    .slice(1)
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map(segment => (/^\d+$/.test(segment) ? Number(segment) : segment));
+  return toJsonPath(segments);
+}
+
+function toIssue(error: ErrorObject): ValidationIssue {
+  return {
+    path: instancePathToJsonPath(error.instancePath),
+    message: error.message ?? 'is invalid',
+    code: error.keyword,
+  };
+}
+
+/**
+ * Validate an AMB learning resource against the bundled AMB JSON Schema,
+ * including its controlled vocabularies (hcrt, educationalLevel, …)
+ */
+export function validateAgainstAmbSchema(resource: unknown): ValidationResult<AmbLearningResource> {
+  const validate = getValidator();
+  if (validate(resource)) {
+    return { valid: true, data: resource as AmbLearningResource, issues: [] };
+  }
+  return { valid: false, issues: (validate.errors ?? []).map(toIssue) };
+}
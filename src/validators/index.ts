@@ -1,7 +1,6 @@
 /**
  * Validators for AMB and Nostr data
- * (Placeholder - Zod schemas coming soon)
  */
 
-// Export placeholder - will be populated with Zod schemas
-export {};
\ No newline at end of file
+export * from './amb.js';
+export * from './ambSchema.js';
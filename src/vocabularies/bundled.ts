@@ -0,0 +1,62 @@
+/**
+ * Bundled SKOS vocabularies, for offline concept label enrichment
+ */
+
+import schulfaecher from '../schemas/vocabs/schulfaecher.json' with { type: 'json' };
+import hochschulfaechersystematik from '../schemas/vocabs/hochschulfaechersystematik.json' with { type: 'json' };
+import educationalLevel from '../schemas/vocabs/educationalLevel.json' with { type: 'json' };
+import hcrt from '../schemas/vocabs/hcrt.json' with { type: 'json' };
+import educationalAudienceRole from '../schemas/vocabs/educationalAudienceRole.json' with { type: 'json' };
+import { SkosVocabulary, VocabularyRegistry } from '../types/index.js';
+import { parseSkosJsonLd } from './skos.js';
+import { createVocabularyRegistry } from './registry.js';
+
+/**
+ * Names of the bundled vocabularies
+ */
+export type BundledVocabulary =
+  | 'schulfaecher'
+  | 'hochschulfaechersystematik'
+  | 'educationalLevel'
+  | 'hcrt'
+  | 'educationalAudienceRole';
+
+/** The bundled SKOS JSON-LD documents; parsed on first use. */
+const BUNDLED_DOCUMENTS: Record<BundledVocabulary, unknown> = {
+  schulfaecher,
+  hochschulfaechersystematik,
+  educationalLevel,
+  hcrt,
+  educationalAudienceRole,
+};
+
+const bundled = new Map<BundledVocabulary, SkosVocabulary>();
+
+let defaultRegistry: VocabularyRegistry | undefined;
+
+/**
+ * Bundled vocabularies: KIM Schulfächer, Hochschulfächersystematik,
+ * educationalLevel and HCRT, and the LRMI educationalAudienceRole. The
+ * Hochschulfächersystematik is an excerpt; load the published file for all
+ * of its subjects. Defaults to all five.
+ */
+export function bundledVocabularies(
+  names: BundledVocabulary[] = Object.keys(BUNDLED_DOCUMENTS) as BundledVocabulary[]
+): SkosVocabulary[] {
+  return names.map(name => {
+    let vocabulary = bundled.get(name);
+    if (!vocabulary) {
+      vocabulary = parseSkosJsonLd(BUNDLED_DOCUMENTS[name]);
+      bundled.set(name, vocabulary);
+    }
+    return vocabulary;
+  });
+}
+
+/**
+ * The registry over all bundled vocabularies, created on first use
+ */
+export function defaultVocabularyRegistry(): VocabularyRegistry {
+  defaultRegistry ??= createVocabularyRegistry(bundledVocabularies());
+  return defaultRegistry;
+}
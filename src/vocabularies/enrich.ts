@@ -0,0 +1,36 @@
+/**
+ * Concept label enrichment from SKOS vocabularies
+ */
+
+import { AmbLearningResource, Concept, VocabularyRegistry } from '../types/index.js';
+
+/** Concept properties whose labels are filled in. */
+const ENRICHED_PROPERTIES = ['about', 'educationalLevel', 'learningResourceType', 'audience', 'teaches'] as const;
+
+/**
+ * Fill in missing prefLabel languages of the concepts in `about`,
+ * `educationalLevel`, `learningResourceType`, `audience` and `teaches` from
+ * the registry (e.g. `defaultVocabularyRegistry()`), by concept id. Labels the
+ * record already has are kept; concepts the registry does not know stay as
+ * they are. Returns a new record.
+ */
+export function enrichConcepts(
+  resource: AmbLearningResource,
+  registry: VocabularyRegistry
+): AmbLearningResource {
+  const enrich = (concept: Concept): Concept => {
+    const labels = typeof concept?.id === 'string' ? registry.lookup(concept.id) : undefined;
+    if (!labels) return concept;
+    const prefLabel = { ...labels, ...concept.prefLabel };
+    return Object.keys(prefLabel).length === Object.keys(concept.prefLabel ?? {}).length
+      ? concept
+      : { ...concept, prefLabel };
+  };
+
+  const enriched: AmbLearningResource = { ...resource };
+  for (const property of ENRICHED_PROPERTIES) {
+    const concepts = resource[property];
+    if (Array.isArray(concepts)) enriched[property] = concepts.map(enrich);
+  }
+  return enriched;
+}
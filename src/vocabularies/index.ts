@@ -0,0 +1,10 @@
+/**
+ * SKOS vocabularies for concept label enrichment, bundled or parsed from
+ * JSON-LD and Turtle
+ */
+
+export * from './turtle.js';
+export * from './skos.js';
+export * from './registry.js';
+export * from './bundled.js';
+export * from './enrich.js';
@@ -0,0 +1,40 @@
+/**
+ * Vocabulary registry: concept labels by id
+ */
+
+import { LocalizedString, SkosVocabulary, VocabularyRegistry } from '../types/index.js';
+
+/** The id with its scheme swapped between http and https, for lookups. */
+function otherScheme(id: string): string | undefined {
+  if (id.startsWith('http://')) return `https://${id.slice('http://'.length)}`;
+  if (id.startsWith('https://')) return `http://${id.slice('https://'.length)}`;
+  return undefined;
+}
+
+/**
+ * Create a registry over the given vocabularies (none by default; pass
+ * `bundledVocabularies()` for the bundled ones, or vocabularies read with
+ * `parseVocabulary`). Later vocabularies win where labels conflict.
+ */
+export function createVocabularyRegistry(vocabularies: SkosVocabulary[] = []): VocabularyRegistry {
+  const registered: SkosVocabulary[] = [];
+  const labels = new Map<string, LocalizedString>();
+
+  const registry: VocabularyRegistry = {
+    get vocabularies() {
+      return [...registered];
+    },
+    add(vocabulary) {
+      registered.push(vocabulary);
+      for (const concept of vocabulary.concepts) {
+        labels.set(concept.id, { ...labels.get(concept.id), ...concept.prefLabel });
+      }
+    },
+    lookup(id) {
+      const alternative = otherScheme(id);
+      return labels.get(id) ?? (alternative === undefined ? undefined : labels.get(alternative));
+    },
+  };
+  vocabularies.forEach(vocabulary => registry.add(vocabulary));
+  return registry;
+}
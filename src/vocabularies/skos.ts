@@ -0,0 +1,140 @@
+/**
+ * Reading SKOS vocabularies from JSON-LD and Turtle
+ */
+
+import { LocalizedString, SkosConcept, SkosVocabulary } from '../types/index.js';
+import { parseTurtle } from './turtle.js';
+
+const SKOS = 'http://www.w3.org/2004/02/skos/core#';
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const DCT_TITLE = 'http://purl.org/dc/terms/title';
+
+/**
+ * Serializations `parseVocabulary` reads
+ */
+export type VocabularyFormat = 'jsonld' | 'turtle';
+
+/**
+ * Keys a JSON-LD property may appear under: the compact term (as in SkoHub
+ * vocabularies), a `skos:`/`dct:` prefixed name, or the full IRI.
+ */
+const KEYS = {
+  prefLabel: ['prefLabel', 'skos:prefLabel', `${SKOS}prefLabel`],
+  title: ['title', 'dct:title', 'dcterms:title', DCT_TITLE],
+  type: ['type', '@type', 'rdf:type', RDF_TYPE],
+};
+
+function property(node: Record<string, unknown>, keys: string[]): unknown {
+  const key = keys.find(candidate => node[candidate] !== undefined);
+  return key === undefined ? undefined : node[key];
+}
+
+/**
+ * Labels of a JSON-LD label value: a language map, `{ "@value", "@language" }`
+ * objects, or arrays of either. Strings without a language are skipped.
+ */
+function labels(value: unknown, into: LocalizedString = {}): LocalizedString {
+  if (Array.isArray(value)) {
+    for (const entry of value) labels(entry, into);
+  } else if (value && typeof value === 'object') {
+    const literal = value as Record<string, unknown>;
+    if (typeof literal['@value'] === 'string') {
+      if (typeof literal['@language'] === 'string') into[literal['@language'].toLowerCase()] = literal['@value'];
+    } else {
+      for (const [language, label] of Object.entries(literal)) {
+        if (typeof label === 'string' && !language.startsWith('@')) into[language.toLowerCase()] = label;
+      }
+    }
+  }
+  return into;
+}
+
+function types(node: Record<string, unknown>): string[] {
+  const value = property(node, KEYS.type);
+  return (Array.isArray(value) ? value : [value]).filter((type): type is string => typeof type === 'string');
+}
+
+const isType = (node: Record<string, unknown>, name: string): boolean =>
+  types(node).some(type => type === name || type === `skos:${name}` || type === SKOS + name);
+
+/**
+ * Read a SKOS vocabulary from a JSON-LD document: SkoHub-style compact
+ * JSON (a ConceptScheme with `hasTopConcept`/`narrower` trees), a `@graph`
+ * of nodes, or expanded JSON-LD. Every node with an id and prefLabel other
+ * than the ConceptScheme is taken as a concept.
+ */
+export function parseSkosJsonLd(document: unknown): SkosVocabulary {
+  const concepts = new Map<string, LocalizedString>();
+  let scheme: Record<string, unknown> | undefined;
+
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+    const node = value as Record<string, unknown>;
+    const id = node['@id'] ?? node.id;
+    if (typeof id === 'string') {
+      if (isType(node, 'ConceptScheme')) {
+        scheme ??= node;
+      } else {
+        const prefLabel = labels(property(node, KEYS.prefLabel));
+        if (Object.keys(prefLabel).length > 0) {
+          concepts.set(id, { ...concepts.get(id), ...prefLabel });
+        }
+      }
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (key !== '@context' && child && typeof child === 'object') visit(child);
+    }
+  };
+  visit(document);
+
+  const id = scheme?.['@id'] ?? scheme?.id;
+  const vocabulary: SkosVocabulary = {
+    id: typeof id === 'string' ? id : '',
+    concepts: [...concepts].map(([conceptId, prefLabel]) => ({ id: conceptId, prefLabel })),
+  };
+  const title = scheme && labels(property(scheme, [...KEYS.title, ...KEYS.prefLabel]));
+  if (title && Object.keys(title).length > 0) vocabulary.title = title;
+  return vocabulary;
+}
+
+/**
+ * Read a SKOS vocabulary from Turtle: the skos:prefLabel literals of every
+ * subject, and the skos:ConceptScheme with its dct:title (or prefLabel).
+ */
+export function parseSkosTurtle(text: string): SkosVocabulary {
+  const triples = parseTurtle(text);
+  const schemeId = triples.find(
+    triple => triple.predicate === RDF_TYPE && triple.object.value === `${SKOS}ConceptScheme`
+  )?.subject;
+
+  const concepts = new Map<string, LocalizedString>();
+  const title: LocalizedString = {};
+  for (const { subject, predicate, object } of triples) {
+    if (object.termType !== 'Literal' || !object.language) continue;
+    if (subject === schemeId) {
+      if (predicate === DCT_TITLE || (predicate === `${SKOS}prefLabel` && !title[object.language])) {
+        title[object.language] = object.value;
+      }
+    } else if (predicate === `${SKOS}prefLabel` && !subject.startsWith('_:')) {
+      concepts.set(subject, { ...concepts.get(subject), [object.language]: object.value });
+    }
+  }
+
+  const vocabulary: SkosVocabulary = {
+    id: schemeId ?? '',
+    concepts: [...concepts].map(([id, prefLabel]): SkosConcept => ({ id, prefLabel })),
+  };
+  if (Object.keys(title).length > 0) vocabulary.title = title;
+  return vocabulary;
+}
+
+/**
+ * Read a SKOS vocabulary from JSON-LD or Turtle text
+ */
+export function parseVocabulary(text: string, format: VocabularyFormat): SkosVocabulary {
+  return format === 'turtle' ? parseSkosTurtle(text) : parseSkosJsonLd(JSON.parse(text));
+}
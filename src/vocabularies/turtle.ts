@@ -0,0 +1,258 @@
+/**
+ * Minimal Turtle reader for SKOS vocabularies
+ * Covers the Turtle vocabulary publishers write (prefixes, base IRIs,
+ * predicate and object lists, language-tagged and long literals, blank node
+ * property lists and collections); triples come out as plain objects.
+ */
+
+/**
+ * An object of a triple: an IRI, a blank node or a literal
+ */
+export type TurtleObject =
+  | { termType: 'NamedNode'; value: string }
+  | { termType: 'BlankNode'; value: string }
+  | { termType: 'Literal'; value: string; language?: string; datatype?: string };
+
+/**
+ * A parsed triple
+ */
+export interface TurtleTriple {
+  subject: string;
+  predicate: string;
+  object: TurtleObject;
+}
+
+const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+const ESCAPES: Record<string, string> = { t: '\t', b: '\b', n: '\n', r: '\r', f: '\f', '"': '"', "'": "'", '\\': '\\' };
+
+/** Characters that end a prefixed name or keyword. */
+const DELIMITER = /[\s<>"'{}|^`;,()[\]#]/;
+
+class TurtleReader {
+  private position = 0;
+  private base = '';
+  private blankNodes = 0;
+  private readonly prefixes: Record<string, string> = {};
+  readonly triples: TurtleTriple[] = [];
+
+  constructor(private readonly text: string) {}
+
+  parse(): TurtleTriple[] {
+    for (this.skip(); this.position < this.text.length; this.skip()) {
+      this.statement();
+    }
+    return this.triples;
+  }
+
+  private fail(message: string): never {
+    const line = this.text.slice(0, this.position).split('\n').length;
+    throw new Error(`Turtle syntax error on line ${line}: ${message}`);
+  }
+
+  /** Skip whitespace and comments. */
+  private skip(): void {
+    while (this.position < this.text.length) {
+      const char = this.text[this.position]!;
+      if (/\s/.test(char)) {
+        this.position++;
+      } else if (char === '#') {
+        const end = this.text.indexOf('\n', this.position);
+        this.position = end < 0 ? this.text.length : end + 1;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private peek(): string {
+    this.skip();
+    return this.text[this.position] ?? '';
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) this.fail(`expected "${char}"`);
+    this.position++;
+  }
+
+  /** A keyword or prefixed name, up to the next delimiter. */
+  private word(): string {
+    this.skip();
+    const start = this.position;
+    while (this.position < this.text.length && !DELIMITER.test(this.text[this.position]!)) this.position++;
+    // A trailing dot ends the statement, it is not part of the name
+    while (this.position > start && this.text[this.position - 1] === '.') this.position--;
+    return this.text.slice(start, this.position);
+  }
+
+  private statement(): void {
+    const start = this.position;
+    const keyword = this.word();
+    if (keyword === '@prefix' || /^prefix$/i.test(keyword)) {
+      const prefix = this.word();
+      if (!prefix.endsWith(':')) this.fail(`invalid prefix "${prefix}"`);
+      this.prefixes[prefix.slice(0, -1)] = this.iriRef();
+      if (keyword.startsWith('@')) this.expect('.');
+      return;
+    }
+    if (keyword === '@base' || /^base$/i.test(keyword)) {
+      this.base = this.iriRef();
+      if (keyword.startsWith('@')) this.expect('.');
+      return;
+    }
+
+    this.position = start;
+    const subject = this.subject();
+    // `[ … ] .` on its own is a complete statement
+    if (this.peek() !== '.') this.predicateObjectList(subject);
+    this.expect('.');
+  }
+
+  private subject(): string {
+    const char = this.peek();
+    if (char === '[') return this.blankNodePropertyList();
+    if (char === '(') return this.collection();
+    return this.iri();
+  }
+
+  private predicateObjectList(subject: string): void {
+    for (;;) {
+      const predicate = this.peek() === 'a' && DELIMITER.test(this.text[this.position + 1] ?? ' ')
+        ? (this.position++, `${RDF}type`)
+        : this.iri();
+      for (;;) {
+        this.triples.push({ subject, predicate, object: this.object() });
+        if (this.peek() !== ',') break;
+        this.position++;
+      }
+      if (this.peek() !== ';') return;
+      // Repeated and trailing semicolons are allowed
+      while (this.peek() === ';') this.position++;
+      if (['.', ']', ''].includes(this.peek())) return;
+    }
+  }
+
+  private object(): TurtleObject {
+    const char = this.peek();
+    if (char === '"' || char === "'") return this.literal();
+    if (char === '[') return { termType: 'BlankNode', value: this.blankNodePropertyList() };
+    if (char === '(') return { termType: 'BlankNode', value: this.collection() };
+    if (/[-+\d.]/.test(char)) {
+      const number = this.word();
+      const datatype = /[eE]/.test(number) ? 'double' : number.includes('.') ? 'decimal' : 'integer';
+      return { termType: 'Literal', value: number, datatype: XSD + datatype };
+    }
+    const start = this.position;
+    const word = this.word();
+    if (word === 'true' || word === 'false') return { termType: 'Literal', value: word, datatype: `${XSD}boolean` };
+    this.position = start;
+    const iri = this.iri();
+    return iri.startsWith('_:') ? { termType: 'BlankNode', value: iri } : { termType: 'NamedNode', value: iri };
+  }
+
+  /** An IRI reference, prefixed name or blank node label. */
+  private iri(): string {
+    if (this.peek() === '<') return this.iriRef();
+    const name = this.word();
+    const colon = name.indexOf(':');
+    if (colon < 0) this.fail(`unexpected "${name || this.text[this.position]}"`);
+    const prefix = name.slice(0, colon);
+    if (prefix === '_') return name;
+    const namespace = this.prefixes[prefix];
+    if (namespace === undefined) this.fail(`undefined prefix "${prefix}:"`);
+    return namespace + name.slice(colon + 1).replace(/\\(.)/g, '$1');
+  }
+
+  private iriRef(): string {
+    this.expect('<');
+    const end = this.text.indexOf('>', this.position);
+    if (end < 0) this.fail('unterminated IRI');
+    const iri = this.text.slice(this.position, end).replace(/\\u([0-9a-fA-F]{4})/g, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16))
+    );
+    this.position = end + 1;
+    if (!this.base || /^[a-z][a-z0-9+.-]*:/i.test(iri)) return iri;
+    return new URL(iri, this.base).href;
+  }
+
+  private literal(): TurtleObject {
+    const quote = this.text[this.position]!;
+    const long = this.text.startsWith(quote.repeat(3), this.position);
+    const delimiter = long ? quote.repeat(3) : quote;
+    this.position += delimiter.length;
+
+    let value = '';
+    while (!this.text.startsWith(delimiter, this.position)) {
+      const char = this.text[this.position];
+      if (char === undefined || (!long && char === '\n')) this.fail('unterminated string');
+      if (char === '\\') {
+        const escape = this.text[this.position + 1] ?? '';
+        if (escape === 'u' || escape === 'U') {
+          const length = escape === 'u' ? 4 : 8;
+          value += String.fromCodePoint(parseInt(this.text.slice(this.position + 2, this.position + 2 + length), 16));
+          this.position += 2 + length;
+          continue;
+        }
+        const unescaped = ESCAPES[escape];
+        if (unescaped === undefined) this.fail(`invalid escape "\\${escape}"`);
+        value += unescaped;
+        this.position += 2;
+        continue;
+      }
+      value += char;
+      this.position++;
+    }
+    this.position += delimiter.length;
+
+    if (this.text[this.position] === '@') {
+      const match = /^@([a-zA-Z]+(?:-[a-zA-Z0-9]+)*)/.exec(this.text.slice(this.position));
+      if (!match) this.fail('invalid language tag');
+      this.position += match[0].length;
+      return { termType: 'Literal', value, language: match[1]!.toLowerCase() };
+    }
+    if (this.text.startsWith('^^', this.position)) {
+      this.position += 2;
+      return { termType: 'Literal', value, datatype: this.iri() };
+    }
+    return { termType: 'Literal', value };
+  }
+
+  private blankNodePropertyList(): string {
+    this.expect('[');
+    const node = `_:b${this.blankNodes++}`;
+    if (this.peek() !== ']') this.predicateObjectList(node);
+    this.expect(']');
+    return node;
+  }
+
+  private collection(): string {
+    this.expect('(');
+    const head = `_:b${this.blankNodes++}`;
+    let node = head;
+    let empty = true;
+    while (this.peek() !== ')') {
+      if (!this.peek()) this.fail('unterminated collection');
+      if (!empty) {
+        const next = `_:b${this.blankNodes++}`;
+        this.triples.push({ subject: node, predicate: `${RDF}rest`, object: { termType: 'BlankNode', value: next } });
+        node = next;
+      }
+      this.triples.push({ subject: node, predicate: `${RDF}first`, object: this.object() });
+      empty = false;
+    }
+    this.position++;
+    if (empty) return `${RDF}nil`;
+    const nil: TurtleObject = { termType: 'NamedNode', value: `${RDF}nil` };
+    this.triples.push({ subject: node, predicate: `${RDF}rest`, object: nil });
+    return head;
+  }
+}
+
+/**
+ * Parse a Turtle document into triples. Throws on syntax errors, naming the
+ * line.
+ */
+export function parseTurtle(text: string): TurtleTriple[] {
+  return new TurtleReader(text).parse();
+}
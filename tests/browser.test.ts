@@ -0,0 +1,22 @@
+/**
+ * The browser entry point must bundle without Node built-ins
+ */
+
+import { build } from 'esbuild';
+import { join } from 'path';
+
+describe('browser bundle', () => {
+  test('bundles src/browser.ts for the browser platform', async () => {
+    const result = await build({
+      entryPoints: [join(__dirname, '../src/browser.ts')],
+      bundle: true,
+      format: 'esm',
+      platform: 'browser',
+      target: 'es2020',
+      write: false,
+      logLevel: 'silent',
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.outputFiles[0]!.text).toContain('ambToNostr');
+  }, 60_000);
+});
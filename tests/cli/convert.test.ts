@@ -0,0 +1,52 @@
+/**
+ * Tests for the convert command
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createConvertCommand } from '../../src/cli/commands/convert';
+
+describe('convert command', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'amb-convert-'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('converts each record of a YAML list, reporting failures per record', async () => {
+    const input = join(dir, 'list.yaml');
+    const output = join(dir, 'events.jsonl');
+    writeFileSync(input, [
+      '- "@context": [https://w3id.org/kim/amb/context.jsonld]',
+      '  id: https://example.org/r1',
+      '  type: [LearningResource]',
+      '  name: Erste Ressource',
+      '- "@context": [https://w3id.org/kim/amb/context.jsonld]',
+      '  type: [LearningResource]',
+      '  name: Ohne Id',
+      '- "@context": [https://w3id.org/kim/amb/context.jsonld]',
+      '  id: https://example.org/r3',
+      '  type: [LearningResource]',
+      '  name: Dritte Ressource',
+      '',
+    ].join('\n'));
+    const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+
+    await createConvertCommand().parseAsync(['amb:nostr', input, '-o', output], { from: 'user' });
+
+    expect(exit).not.toHaveBeenCalled();
+    const events = readFileSync(output, 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+    expect(events.map(event => event.tags.find((tag: string[]) => tag[0] === 'd')[1])).toEqual([
+      'https://example.org/r1',
+      'https://example.org/r3',
+    ]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/^✗ Error \(record 2\): .*id/));
+  });
+});
@@ -7,11 +7,13 @@
  * For each invalid example: verify ambToNostr() doesn't crash.
  * Some invalid examples may still convert (they're invalid per JSON Schema
  * but may have enough structure for our converter), while others should fail.
+ * Every example must be rejected by the bundled AMB JSON Schema.
  */
 
 import { readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
 import { ambToNostr } from '../../src/converters/ambToNostr.js';
+import { validateAgainstAmbSchema } from '../../src/validators/ambSchema.js';
 
 const INVALID_DIR = join(__dirname, '../data/amb-spec/invalid');
 const OPTIONS = {
@@ -41,5 +43,14 @@ describe('AMB Spec Invalid Examples Tests', () => {
         expect(result.error).toBeDefined();
       }
     });
+
+    test(`rejected by AMB JSON Schema: ${filename}`, () => {
+      const original = JSON.parse(readFileSync(join(INVALID_DIR, filename), 'utf-8'));
+
+      const result = validateAgainstAmbSchema(original);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues.length).toBeGreaterThan(0);
+    });
   }
 });
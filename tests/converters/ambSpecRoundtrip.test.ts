@@ -12,9 +12,10 @@ import { readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
 import { ambToNostr } from '../../src/converters/ambToNostr.js';
 import { nostrToAmb } from '../../src/converters/nostrToAmb.js';
+import { ConversionOptions } from '../../src/types/index.js';
 
 const VALID_DIR = join(__dirname, '../data/amb-spec/valid');
-const OPTIONS = {
+const OPTIONS: ConversionOptions = {
   pubkey: '79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798',
   timestamp: 1700000000,
 };
@@ -96,44 +97,54 @@ const validFiles = readdirSync(VALID_DIR)
   .filter(f => f.endsWith('.json'))
   .sort();
 
-describe('AMB Spec Roundtrip Tests', () => {
-  for (const filename of validFiles) {
-    test(`roundtrip: ${filename}`, () => {
-      const raw = readFileSync(join(VALID_DIR, filename), 'utf-8');
-      const original = JSON.parse(raw);
-
-      // Step 1: AMB → Nostr
-      const nostrResult = ambToNostr(original, OPTIONS);
-
-      // Some valid AMB files may lack required fields for our converter (id, name)
-      // In that case, the conversion should at least not crash
-      if (!nostrResult.success) {
-        // If it fails, verify it's due to a known reason (missing required field)
-        expect(nostrResult.error).toBeDefined();
-        return;
-      }
+/**
+ * AMB → Nostr → AMB for one spec example; fails with the list of differences
+ */
+function roundtrip(filename: string, options: ConversionOptions): void {
+  const raw = readFileSync(join(VALID_DIR, filename), 'utf-8');
+  const original = JSON.parse(raw);
+
+  // Step 1: AMB → Nostr
+  const nostrResult = ambToNostr(original, options);
+
+  // Some valid AMB files may lack required fields for our converter (id, name)
+  // In that case, the conversion should at least not crash
+  if (!nostrResult.success) {
+    // If it fails, verify it's due to a known reason (missing required field)
+    expect(nostrResult.error).toBeDefined();
+    return;
+  }
 
-      const nostrEvent = nostrResult.data!;
-      expect(nostrEvent.kind).toBe(30142);
-      expect(nostrEvent.tags.length).toBeGreaterThan(0);
+  const nostrEvent = nostrResult.data!;
+  expect(nostrEvent.kind).toBe(30142);
+  expect(nostrEvent.tags.length).toBeGreaterThan(0);
 
-      // Step 2: Nostr → AMB
-      const ambResult = nostrToAmb(nostrEvent);
+  // Step 2: Nostr → AMB
+  const ambResult = nostrToAmb(nostrEvent);
 
-      if (!ambResult.success) {
-        // If reverse fails, report the error
-        throw new Error(`nostrToAmb failed: ${ambResult.error?.message}`);
-      }
+  if (!ambResult.success) {
+    // If reverse fails, report the error
+    throw new Error(`nostrToAmb failed: ${ambResult.error?.message}`);
+  }
 
-      const roundtripped = ambResult.data!;
+  const roundtripped = ambResult.data!;
 
-      // Step 3: Compare all properties (strip @context)
-      const originalClean = stripContext(original);
-      const roundtrippedClean = stripContext(roundtripped);
+  // Step 3: Compare all properties (strip @context)
+  const originalClean = stripContext(original);
+  const roundtrippedClean = stripContext(roundtripped);
 
-      const diffs = deepDiff(originalClean, roundtrippedClean);
+  const diffs = deepDiff(originalClean, roundtrippedClean);
 
-      expect(diffs).toEqual([]);
-    });
+  expect(diffs).toEqual([]);
+}
+
+describe('AMB Spec Roundtrip Tests', () => {
+  for (const filename of validFiles) {
+    test(`roundtrip: ${filename}`, () => roundtrip(filename, OPTIONS));
+  }
+
+  for (const filename of validFiles) {
+    test(`roundtrip with boundary markers: ${filename}`, () =>
+      roundtrip(filename, { ...OPTIONS, boundaryMarkers: true }));
   }
 });
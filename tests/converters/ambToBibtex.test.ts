@@ -0,0 +1,53 @@
+/**
+ * Tests for AMB → BibTeX citation export
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ambToBibtex, citationKey } from '../../src/converters/ambToBibtex';
+import { ConversionErrorCode } from '../../src/types';
+
+const presentation = JSON.parse(readFileSync(join(__dirname, '../data/amb/example_2_presentation.json'), 'utf-8'));
+
+describe('ambToBibtex', () => {
+  test('writes a misc entry with the citation fields', () => {
+    const result = ambToBibtex({ ...presentation, keywords: ['C#', 'Paging & Swapping'] });
+    expect(result.success).toBe(true);
+    expect(result.data).toBe(
+      [
+        '@misc{lechtenborger2020os08,',
+        '  author = {Lechtenbörger, Jens},',
+        '  title = {{OS08: Virtual Memory I}},',
+        '  year = {2020},',
+        '  month = jun,',
+        '  url = {https://oer.gitlab.io/OS/Operating-Systems-Memory-I.html},',
+        `  abstract = {${presentation.description}},`,
+        '  keywords = {C\\#, Paging \\& Swapping},',
+        '  language = {en}',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('writes books, braces organizations and takes a given key', () => {
+    const entry = ambToBibtex(
+      {
+        ...presentation,
+        creator: [{ type: 'Organization', name: 'ZUM e.V.' }, { type: 'Person', name: 'Erika Muster' }],
+        publisher: [{ type: 'Organization', name: 'Cornelsen' }],
+        learningResourceType: [{ id: 'https://w3id.org/kim/hcrt/textbook' }],
+      },
+      { key: 'os08' }
+    ).data!;
+    expect(entry).toMatch(/^@book\{os08,\n/);
+    expect(entry).toContain('  author = {{ZUM e.V.} and Muster, Erika},\n');
+    expect(entry).toContain('  publisher = {Cornelsen},\n');
+  });
+
+  test('derives citation keys and fails without an id', () => {
+    expect(citationKey({ ...presentation, creator: undefined, datePublished: undefined })).toBe('os08');
+    expect(citationKey({ ...presentation, name: '', creator: undefined, datePublished: undefined })).toBe('resource');
+    expect(ambToBibtex({ ...presentation, id: '' }).error?.code).toBe(ConversionErrorCode.MISSING_REQUIRED_FIELD);
+  });
+});
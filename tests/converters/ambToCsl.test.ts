@@ -0,0 +1,80 @@
+/**
+ * Tests for AMB → CSL-JSON citation export
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ambToCsl } from '../../src/converters/ambToCsl';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { nostrToAmb, nostrEventAddress } from '../../src/converters/nostrToAmb';
+import { ConversionErrorCode } from '../../src/types';
+
+const presentation = JSON.parse(readFileSync(join(__dirname, '../data/amb/example_2_presentation.json'), 'utf-8'));
+
+describe('ambToCsl', () => {
+  test('cites creators without honorifics, date, publisher and landing page', () => {
+    const resource = {
+      ...presentation,
+      publisher: [{ type: 'Organization', name: 'TIB' }],
+      mainEntityOfPage: [{ id: 'https://doi.org/10.5281/zenodo.1234567' }],
+    };
+    const result = ambToCsl(resource);
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({
+      id: 'https://oer.gitlab.io/OS/Operating-Systems-Memory-I.html',
+      type: 'speech',
+      title: 'OS08: Virtual Memory I',
+      author: [{ family: 'Lechtenbörger', given: 'Jens' }],
+      publisher: 'TIB',
+      issued: { 'date-parts': [[2020, 6, 29]] },
+      URL: 'https://doi.org/10.5281/zenodo.1234567',
+      DOI: '10.5281/zenodo.1234567',
+      abstract: presentation.description,
+      keyword: 'Computer Science, Virtual Memory',
+      language: 'en',
+      license: 'https://creativecommons.org/licenses/by-sa/4.0/',
+    });
+  });
+
+  test('falls back to the resource id, and to the naddr of Nostr records', () => {
+    expect(ambToCsl(presentation).data!.URL).toBe(presentation.id);
+
+    // An event authored on Nostr: a slug d tag and no alias to an external id
+    const event = ambToNostr(presentation, { pubkey: 'a'.repeat(64), dTagStrategy: 'slug' }).data!;
+    const resource = nostrToAmb({ ...event, tags: event.tags.filter(tag => tag[0] !== 'alias') }).data!;
+    expect(resource.id).toMatch(/^nostr:naddr1/);
+
+    const item = ambToCsl(resource).data!;
+    expect(item.URL).toBe(resource.id);
+    expect(item.author).toEqual([{ family: 'Lechtenbörger', given: 'Jens' }]);
+    expect(ambToCsl(resource, { gateway: 'https://njump.me/{naddr}' }).data!.URL).toMatch(
+      /^https:\/\/njump\.me\/naddr1/
+    );
+  });
+
+  test('cites the event address of records whose restored id links nowhere', () => {
+    const record = { ...presentation, id: 'urn:uuid:8b0f0a54-2e3b-4c1a-9a57-2f6f5c1e0d11' };
+    const event = ambToNostr(record, { pubkey: 'a'.repeat(64), dTagStrategy: 'slug' }).data!;
+    const resource = nostrToAmb(event).data!;
+    expect(resource.id).toBe(record.id);
+    expect(ambToCsl(resource).data!.URL).toBeUndefined();
+
+    const naddr = nostrEventAddress(event)!;
+    expect(naddr).toMatch(/^nostr:naddr1/);
+    expect(ambToCsl(resource, { naddr }).data!.URL).toBe(naddr);
+    expect(ambToCsl(resource, { naddr, gateway: 'https://njump.me/{naddr}' }).data!.URL).toMatch(
+      /^https:\/\/njump\.me\/naddr1/
+    );
+  });
+
+  test('cites organizations literally and fails without a name', () => {
+    const item = ambToCsl({
+      ...presentation,
+      creator: [{ type: 'Organization', name: 'ZUM e.V.' }],
+      learningResourceType: undefined,
+    }).data!;
+    expect(item.author).toEqual([{ literal: 'ZUM e.V.' }]);
+    expect(item.type).toBe('document');
+    expect(ambToCsl({ ...presentation, name: '' }).error?.code).toBe(ConversionErrorCode.MISSING_REQUIRED_FIELD);
+  });
+});
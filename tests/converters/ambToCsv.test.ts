@@ -0,0 +1,53 @@
+/**
+ * Tests for AMB → CSV spreadsheet conversion
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ambToCsv } from '../../src/converters/ambToCsv';
+import { csvToAmb } from '../../src/converters/csvToAmb';
+import { ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const csv = readFileSync(join(__dirname, '../data/csv/materialien.csv'), 'utf-8');
+const mapping = JSON.parse(readFileSync(join(__dirname, '../data/csv/mapping.json'), 'utf-8'));
+const resources = csvToAmb(csv, mapping)
+  .data!.filter(record => record.result.success)
+  .map(record => record.result.data!);
+
+describe('ambToCsv', () => {
+  test('writes one row per resource with the mapped columns', () => {
+    const result = ambToCsv(resources, mapping);
+    expect(result.success).toBe(true);
+    expect(result.warnings).toBeUndefined();
+    expect(result.data!.split('\n')[0]).toBe(
+      'URL,Titel,Beschreibung,Autor:innen,ORCID,Fach,Schlagwörter,Lizenz,Sprache,Veröffentlicht,Kostenlos,Klassenstufe'
+    );
+    expect(result.data).toContain(
+      'https://oer.example.org/hebel,"Der ""Hebel""",,Max Beispiel;Erika Muster,;https://orcid.org/0000-0002-1825-0097,' +
+        'Physik,Mechanik,https://creativecommons.org/licenses/by/4.0/,Deutsch,,false,7;8'
+    );
+  });
+
+  test('round-trips through csvToAmb', () => {
+    const written = ambToCsv(resources, { ...mapping, delimiter: '\t' }).data!;
+    const reread = csvToAmb(written, mapping).data!.map(record => record.result.data);
+    expect(reread).toEqual(resources);
+  });
+
+  test('reports values no column holds, or fails in strict mode', () => {
+    const resource = {
+      ...resources[0]!,
+      about: [{ id: 'http://w3id.org/kim/schulfaecher/s1017', prefLabel: { de: 'Mathematik' } }],
+      publisher: [{ type: 'Organization' as const, name: 'OER-Verlag' }],
+    };
+    const result = ambToCsv([resource], mapping);
+    expect(result.warningDetails!.map(w => [w.code, w.path])).toEqual([
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, '$.about[].prefLabel.de'],
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, '$.publisher[].name'],
+    ]);
+
+    const strict = ambToCsv([resource], mapping, { strict: true });
+    expect(strict.success).toBe(false);
+    expect(strict.error?.code).toBe(ConversionErrorCode.UNSUPPORTED_PROPERTY);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for AMB → DataCite conversion
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ambToDatacite } from '../../src/converters/ambToDatacite';
+import { dataciteToAmb } from '../../src/converters/dataciteToAmb';
+import { AmbLearningResource, ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const resource = dataciteToAmb(readFileSync(join(__dirname, '../data/datacite/zenodo.json'), 'utf-8')).data!;
+
+describe('ambToDatacite', () => {
+  const result = ambToDatacite(resource);
+  const datacite = result.data!;
+
+  test('writes DOI, landing page, creators and identifiers', () => {
+    expect(result.success).toBe(true);
+    expect(result.warnings).toBeUndefined();
+    expect(datacite).toMatchObject({
+      doi: '10.5281/zenodo.1234567',
+      url: 'https://zenodo.org/records/1234567',
+      titles: [{ title: 'Offener Kurs: Einführung in die Bruchrechnung', lang: 'de' }],
+      publisher: { name: 'Zenodo' },
+      publicationYear: 2024,
+      language: 'de',
+      types: { resourceTypeGeneral: 'Text', resourceType: 'lesson_plan' },
+    });
+    expect(datacite.creators![0]).toEqual({
+      name: 'Muster, Erika',
+      nameType: 'Personal',
+      givenName: 'Erika',
+      familyName: 'Muster',
+      nameIdentifiers: [
+        {
+          nameIdentifier: 'https://orcid.org/0000-0002-1825-0097',
+          nameIdentifierScheme: 'ORCID',
+          schemeUri: 'https://orcid.org',
+        },
+      ],
+      affiliation: [
+        {
+          name: 'Universität Potsdam',
+          affiliationIdentifier: 'https://ror.org/03bnmw459',
+          affiliationIdentifierScheme: 'ROR',
+        },
+      ],
+    });
+    expect(datacite.rightsList).toEqual([
+      {
+        rightsUri: 'https://creativecommons.org/licenses/by-sa/4.0/',
+        rightsIdentifier: 'CC-BY-SA-4.0',
+        rightsIdentifierScheme: 'SPDX',
+        schemeUri: 'https://spdx.org/licenses/',
+      },
+      { rights: 'Open Access', rightsUri: 'info:eu-repo/semantics/openAccess' },
+    ]);
+    expect(datacite.fundingReferences).toEqual([
+      {
+        funderName: 'Bundesministerium für Bildung und Forschung',
+        funderIdentifier: 'https://doi.org/10.13039/501100002347',
+        funderIdentifierType: 'Crossref Funder ID',
+        awardTitle: 'OERinfo',
+        awardUri: 'https://foerderportal.bund.de/foekat/01PO16012',
+      },
+    ]);
+  });
+
+  test('round-trips through dataciteToAmb', () => {
+    const reread = dataciteToAmb(datacite);
+    expect(reread.warnings).toBeUndefined();
+    expect(reread.data).toEqual(resource);
+  });
+
+  test('reports properties DataCite cannot carry, or fails in strict mode', () => {
+    const { mainEntityOfPage, ...withoutPage } = resource;
+    const lossy: AmbLearningResource = {
+      ...withoutPage,
+      id: mainEntityOfPage![0]!.id,
+      audience: [{ id: 'http://purl.org/dcx/lrmi-vocabs/educationalAudienceRole/student' }],
+      funder: [{ type: 'FundingScheme', name: 'OERinfo' }],
+    };
+    const converted = ambToDatacite(lossy);
+    expect(converted.data).toMatchObject({ doi: '10.5281/zenodo.1234567' });
+    expect(converted.data!.url).toBeUndefined();
+    expect(converted.warningDetails!.map(w => [w.code, w.path])).toEqual([
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, '$.audience'],
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, '$.funder[0]'],
+    ]);
+
+    const strict = ambToDatacite(lossy, { strict: true });
+    expect(strict.success).toBe(false);
+    expect(strict.error?.code).toBe(ConversionErrorCode.UNSUPPORTED_PROPERTY);
+  });
+});
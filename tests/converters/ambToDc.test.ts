@@ -0,0 +1,83 @@
+/**
+ * Tests for AMB → Dublin Core (oai_dc) conversion
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ambToDc } from '../../src/converters/ambToDc';
+import { dcToAmb } from '../../src/converters/dcToAmb';
+import { ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const resource: any = {
+  '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }],
+  id: 'https://example.org/resources/1',
+  type: ['LearningResource'],
+  name: 'Bruchrechnung',
+  description: 'Ein Arbeitsblatt.',
+  keywords: ['Mathematik'],
+  about: [{ id: 'https://w3id.org/kim/schulfaecher/s1017' }],
+  creator: [{ type: 'Person', name: 'Erika Muster' }],
+  publisher: [{ type: 'Organization', name: 'Landesbildungsserver' }],
+  datePublished: '2023-03-15',
+  learningResourceType: [{ id: 'https://w3id.org/kim/hcrt/worksheet' }, { id: 'https://w3id.org/kim/hcrt/text' }],
+  encoding: [{ type: 'MediaObject', contentUrl: 'https://example.org/files/1.pdf', encodingFormat: 'application/pdf' }],
+  inLanguage: ['de'],
+  license: { id: 'https://creativecommons.org/licenses/by/4.0/' },
+  isAccessibleForFree: true,
+};
+
+describe('ambToDc', () => {
+  const result = ambToDc(resource);
+
+  test('writes an oai_dc record', () => {
+    expect(result.success).toBe(true);
+    expect(result.warnings).toBeUndefined();
+    const xml = result.data!;
+    expect(xml).toContain('<oai_dc:dc xmlns:oai_dc="http://www.openarchives.org/OAI/2.0/oai_dc/"');
+    expect(xml).toContain('<dc:title xml:lang="de">Bruchrechnung</dc:title>');
+    expect(xml).toContain('<dc:creator>Muster, Erika</dc:creator>');
+    expect(xml).toContain('<dc:type>https://w3id.org/kim/hcrt/worksheet</dc:type>');
+    expect(xml).toContain('<dc:type>Text</dc:type>');
+    expect(xml).toContain('<dc:rights>info:eu-repo/semantics/openAccess</dc:rights>');
+  });
+
+  test('round-trips through dcToAmb', () => {
+    const back = dcToAmb(result.data!);
+    expect(back.warnings).toBeUndefined();
+    expect(back.data).toEqual(resource);
+  });
+
+  test('round-trips a spec fixture', () => {
+    const fixture = JSON.parse(
+      readFileSync(join(__dirname, '../data/amb-spec/valid/MIT-License.json'), 'utf-8')
+    );
+    const dc = ambToDc(fixture);
+    expect(dc.warnings).toBeUndefined();
+    expect(dcToAmb(dc.data!).data).toEqual(fixture);
+  });
+
+  test('reports what Dublin Core cannot carry', () => {
+    const lossy = ambToDc({
+      ...resource,
+      type: ['LearningResource', 'Course'],
+      dateCreated: '2023-01-01',
+      educationalLevel: [{ id: 'https://w3id.org/kim/educationalLevel/level_1' }],
+      creator: [{ type: 'Person', name: 'Erika Muster', id: 'https://orcid.org/0000-0002-1825-0097' }],
+      isAccessibleForFree: false,
+    });
+    expect(lossy.warningDetails!.map(w => w.path)).toEqual([
+      '$.type',
+      '$.educationalLevel',
+      '$.dateCreated',
+      '$.isAccessibleForFree',
+      '$.creator[0].id',
+    ]);
+    expect(lossy.warningDetails!.every(w => w.code === ConversionWarningCode.UNSUPPORTED_PROPERTY)).toBe(true);
+  });
+
+  test('fails in strict mode on a dropped property', () => {
+    const strict = ambToDc({ ...resource, duration: 'PT10M' }, { strict: true });
+    expect(strict.success).toBe(false);
+    expect((strict.error as any).code).toBe(ConversionErrorCode.UNSUPPORTED_PROPERTY);
+  });
+});
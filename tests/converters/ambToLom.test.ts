@@ -0,0 +1,125 @@
+/**
+ * Tests for AMB → LOM conversion
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ambToLom } from '../../src/converters/ambToLom';
+import { lomToAmb } from '../../src/converters/lomToAmb';
+import { ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const VALID_DIR = join(__dirname, '../data/amb-spec/valid');
+const load = (filename: string) => JSON.parse(readFileSync(join(VALID_DIR, filename), 'utf-8'));
+
+const resource: any = {
+  '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }],
+  id: 'https://example.org/oer',
+  type: ['LearningResource'],
+  name: 'Bruchrechnung',
+  description: 'Arbeitsblätter',
+  keywords: ['Brüche', 'Mathematik'],
+  inLanguage: ['de'],
+  creator: [
+    { type: 'Person', name: 'Dr. Erika Muster', honorificPrefix: 'Dr.', id: 'https://orcid.org/0000-0002-1825-0097' },
+    { type: 'Organization', name: 'OER-Werkstatt', url: 'https://werkstatt.example.org' },
+  ],
+  contributor: [{ type: 'Person', name: 'Max Beispiel', affiliation: { type: 'Organization', name: 'Schule' } }],
+  publisher: [{ type: 'Organization', name: 'Landesbildungsserver' }],
+  dateCreated: '2023-02-01',
+  datePublished: '2023-03-15',
+  learningResourceType: [{ id: 'https://w3id.org/kim/hcrt/worksheet' }, { id: 'https://w3id.org/kim/hcrt/video' }],
+  audience: [{ id: 'http://purl.org/dcx/lrmi-vocabs/educationalAudienceRole/student' }],
+  interactivityType: { id: 'http://purl.org/dcx/lrmi-vocabs/interactivityType/active' },
+  educationalLevel: [{ id: 'https://w3id.org/kim/educationalLevel/level_1', prefLabel: { de: 'Primarstufe' } }],
+  about: [{ id: 'http://w3id.org/kim/schulfaecher/s1017', prefLabel: { de: 'Mathematik', en: 'Mathematics' } }],
+  teaches: [{ id: 'https://example.org/competencies/fractions' }],
+  suggestedAge: { minValue: 9 },
+  isAccessibleForFree: true,
+  license: { id: 'https://creativecommons.org/licenses/by/4.0/' },
+  encoding: [{ type: 'MediaObject', contentUrl: 'https://example.org/oer.pdf', encodingFormat: 'application/pdf' }],
+  duration: 'PT10M',
+  isBasedOn: [{ id: 'https://example.org/original', name: 'Original' }],
+};
+
+describe('ambToLom', () => {
+  test('writes a LOM record with the LOM namespace', () => {
+    const result = ambToLom(resource);
+    expect(result.success).toBe(true);
+    expect(result.data).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<lom xmlns="http:\/\/ltsc.ieee.org\/xsd\/LOM">/);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  test('uses LOMv1.0 values where they exist and concept URIs otherwise', () => {
+    const xml = ambToLom(resource).data!;
+    expect(xml).toContain('<value>problem statement</value>');
+    expect(xml).toMatch(/<source>https:\/\/w3id.org\/kim\/hcrt\/<\/source>\s*<value>https:\/\/w3id.org\/kim\/hcrt\/video<\/value>/);
+    expect(xml).toContain('<value>learner</value>');
+  });
+
+  test('writes contributors as vCards', () => {
+    const xml = ambToLom(resource).data!;
+    expect(xml).toContain('N:Muster;Erika;;Dr.;\nFN:Dr. Erika Muster');
+    expect(xml).toContain('FN:OER-Werkstatt\nORG:OER-Werkstatt\nURL:https://werkstatt.example.org');
+    expect(xml).toContain('<value>unknown</value>');
+  });
+
+  test('round-trips through lomToAmb', () => {
+    const back = lomToAmb(ambToLom(resource).data!);
+    expect(back.success).toBe(true);
+    expect(back.warnings).toBeUndefined();
+    expect(back.data).toEqual(resource);
+  });
+
+  test('round-trips the spec examples it fully supports', () => {
+    for (const filename of ['MIT-License.json', 'educationalLevel.json', 'suggested-min-age.json']) {
+      const amb = load(filename);
+      const back = lomToAmb(ambToLom(amb).data!);
+      expect(back.data, filename).toEqual(amb);
+    }
+  });
+
+  test('warns about properties LOM cannot carry', () => {
+    const result = ambToLom({
+      ...resource,
+      type: ['LearningResource', 'Course'],
+      funder: [{ type: 'Organization', name: 'BMBF' }],
+      image: 'https://example.org/preview.png',
+    });
+    expect(result.success).toBe(true);
+    expect(result.warningDetails).toEqual([
+      {
+        code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+        message: '$.type "Course" has no LOM element; dropped',
+        path: '$.type',
+        value: 'Course',
+      },
+      { code: ConversionWarningCode.UNSUPPORTED_PROPERTY, message: '$.funder has no LOM element; dropped', path: '$.funder' },
+      { code: ConversionWarningCode.UNSUPPORTED_PROPERTY, message: '$.image has no LOM element; dropped', path: '$.image' },
+    ]);
+  });
+
+  test('warns about reference details LOM relations cannot carry', () => {
+    const result = ambToLom(load('isBasedOn.json'));
+    expect(result.warningDetails!.map(w => w.path)).toEqual(['$.image', '$.isBasedOn[0].creator', '$.isBasedOn[0].license']);
+  });
+
+  test('warns about encoding and affiliation details', () => {
+    const result = ambToLom({
+      ...resource,
+      encoding: [{ type: 'MediaObject', contentUrl: 'https://example.org/oer.mp4', bitrate: '831' }],
+      creator: [{ type: 'Person', name: 'A', affiliation: { type: 'Organization', name: 'U', id: 'https://ror.org/x' } }],
+    });
+    expect(result.warningDetails!.map(w => w.path)).toEqual(['$.creator[0].affiliation.id', '$.encoding[0].bitrate']);
+  });
+
+  test('fails on unsupported properties in strict mode', () => {
+    const result = ambToLom({ ...resource, image: 'https://example.org/preview.png' }, { strict: true });
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ConversionErrorCode.UNSUPPORTED_PROPERTY);
+  });
+
+  test('requires id and name', () => {
+    expect(ambToLom({ ...resource, id: '' }).error?.code).toBe(ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    expect(ambToLom({ ...resource, name: '' }).error?.code).toBe(ConversionErrorCode.MISSING_REQUIRED_FIELD);
+  });
+});
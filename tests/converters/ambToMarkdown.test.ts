@@ -0,0 +1,31 @@
+/**
+ * Tests for AMB → Markdown front matter conversion
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ambToMarkdown } from '../../src/converters/ambToMarkdown';
+import { markdownToAmb } from '../../src/converters/markdownToAmb';
+import { nostrToAmb } from '../../src/converters/nostrToAmb';
+
+const markdown = readFileSync(join(__dirname, '../data/markdown/bruchrechnung.md'), 'utf-8');
+const event = JSON.parse(readFileSync(join(__dirname, '../data/nostr-amb/event_1.json'), 'utf-8'));
+
+describe('ambToMarkdown', () => {
+  const resource = markdownToAmb(markdown).data!;
+
+  test('writes the description as the body and the rest as front matter', () => {
+    const written = ambToMarkdown(resource).data!;
+    expect(written.startsWith('---\n"@context":\n')).toBe(true);
+    expect(written).toContain('\nid: https://oer.example.org/bruchrechnung\n');
+    expect(written).not.toContain('description:');
+    const body = 'Übungen zum **Kürzen** und Erweitern von Brüchen.\n\n- zehn Aufgaben\n- mit Lösungen\n';
+    expect(written.endsWith(`---\n\n${body}`)).toBe(true);
+  });
+
+  test('round-trips AMB records converted from events', () => {
+    const amb = nostrToAmb(event).data!;
+    expect(markdownToAmb(ambToMarkdown(amb).data!).data).toEqual(amb);
+    expect(markdownToAmb(ambToMarkdown(resource).data!).data).toEqual(resource);
+  });
+});
@@ -11,6 +11,9 @@ import {
   AmbLearningResource,
   NostrEducationalKind,
   ConversionOptions,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarningCode,
 } from '../../src/types';
 
 // Test data directory
@@ -362,6 +365,75 @@ describe('ambToNostr', () => {
   });
 });
 
+describe('deterministicIds', () => {
+  const pubkey = 'a'.repeat(64);
+  const resource: any = {
+    '@context': ['https://w3id.org/kim/amb/context.jsonld'],
+    id: 'https://example.org/r1',
+    type: ['LearningResource'],
+    name: 'Test',
+    dateModified: '2024-03-01T12:00:00Z',
+    datePublished: '2023-01-01',
+    about: [{ id: 'https://example.org/subject/math', prefLabel: { en: 'Math', de: 'Mathematik' } }],
+    ext: {
+      zz: { facet: ['b'] },
+      aa: { facet: ['a'] },
+    },
+  };
+
+  test('created_at comes from dateModified, then datePublished', () => {
+    expect(ambToNostr(resource, { pubkey, deterministicIds: true }).data!.created_at).toBe(1709294400);
+    const { dateModified: _, ...published } = resource;
+    expect(ambToNostr(published, { pubkey, deterministicIds: true }).data!.created_at).toBe(1672531200);
+  });
+
+  test('explicit timestamp still wins', () => {
+    expect(ambToNostr(resource, { pubkey, deterministicIds: true, timestamp: 5 }).data!.created_at).toBe(5);
+  });
+
+  test('identical input yields a byte-identical event with its id hash', () => {
+    const a = ambToNostr(resource, { pubkey, deterministicIds: true }).data!;
+    const b = ambToNostr(JSON.parse(JSON.stringify(resource)), { pubkey, deterministicIds: true }).data!;
+    expect(JSON.stringify(a)).toBe(JSON.stringify(b));
+    expect(a.id).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test('object key order does not change the tags', () => {
+    const reordered = {
+      ...resource,
+      about: [{ prefLabel: { de: 'Mathematik', en: 'Math' }, id: 'https://example.org/subject/math' }],
+      ext: { aa: { facet: ['a'] }, zz: { facet: ['b'] } },
+    };
+    const a = ambToNostr(resource, { pubkey, deterministicIds: true }).data!;
+    const b = ambToNostr(reordered, { pubkey, deterministicIds: true }).data!;
+    expect(b.tags).toEqual(a.tags);
+    expect(b.id).toBe(a.id);
+    expect(a.tags.filter(t => t[0]!.startsWith('about:prefLabel')).map(t => t[0])).toEqual([
+      'about:prefLabel:de',
+      'about:prefLabel:en',
+    ]);
+  });
+
+  test('falls back to the supplied clock when the record has no dates', () => {
+    const { dateModified: _m, datePublished: _p, ...undated } = resource;
+    const result = ambToNostr(undated, { pubkey, deterministicIds: true, clock: () => 42 });
+    expect(result.data!.created_at).toBe(42);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  test('warns without any time source, fails in strict mode', () => {
+    const { dateModified: _m, datePublished: _p, ...undated } = resource;
+    const result = ambToNostr(undated, { pubkey, deterministicIds: true });
+    expect(result.warningDetails?.map(w => w.code)).toEqual([ConversionWarningCode.NON_DETERMINISTIC_TIMESTAMP]);
+    const strictResult = ambToNostr(undated, { pubkey, deterministicIds: true, strict: true });
+    expect((strictResult.error as ConversionError).code).toBe(ConversionErrorCode.NON_DETERMINISTIC_TIMESTAMP);
+  });
+
+  test('without the option no id is set', () => {
+    expect(ambToNostr(resource, { pubkey }).data!.id).toBeUndefined();
+  });
+});
+
 describe('ext namespace emission', () => {
   test('emits concept ext tags in id, prefLabel, type order', () => {
     const resource: any = {
@@ -620,3 +692,224 @@ describe('strict roundtrip fixes', () => {
     expect(tags.filter((t) => t[0] === 'suggestedAge:maxValue')).toEqual([]);
   });
 });
+
+describe('strict mode', () => {
+  const resource: any = {
+    '@context': ['https://w3id.org/kim/amb/context.jsonld'],
+    id: 'https://example.org/r1',
+    type: ['LearningResource'],
+    name: 'Test',
+  };
+  const strict: ConversionOptions = { pubkey: 'a'.repeat(64), strict: true };
+
+  test('accepts standard input', () => {
+    const result = ambToNostr(resource, strict);
+    expect(result.success).toBe(true);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  test.each([
+    ['missing pubkey', { ...resource }, { strict: true }, ConversionErrorCode.DEFAULT_PUBKEY],
+    [
+      'Concept-typed type',
+      { ...resource, type: [{ id: 'LearningResource' }] },
+      strict,
+      ConversionErrorCode.NON_STANDARD_TYPE,
+    ],
+    [
+      'array license',
+      { ...resource, license: [{ id: 'https://creativecommons.org/licenses/by/4.0/' }] },
+      strict,
+      ConversionErrorCode.LOSSY_LICENSE,
+    ],
+  ])('rejects %s', (_label, input, opts, code) => {
+    const result = ambToNostr(input, opts as ConversionOptions);
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(ConversionError);
+    expect((result.error as ConversionError).code).toBe(code);
+    expect(result.data).toBeUndefined();
+  });
+
+  test('the same input only warns without strict', () => {
+    const result = ambToNostr(
+      { ...resource, license: [{ id: 'https://creativecommons.org/licenses/by/4.0/' }] },
+      { pubkey: 'a'.repeat(64) }
+    );
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual(['Non-standard AMB: license is an array of Concepts, using first entry']);
+  });
+});
+
+describe('structured warnings', () => {
+  const resource: any = {
+    '@context': ['https://w3id.org/kim/amb/context.jsonld'],
+    id: 'https://example.org/r1',
+    type: ['LearningResource'],
+    name: 'Test',
+  };
+
+  test('warningDetails mirror warnings with codes and paths', () => {
+    const result = ambToNostr({
+      ...resource,
+      type: [{ id: 'LearningResource' }],
+      license: [{ id: 'https://creativecommons.org/licenses/by/4.0/' }],
+    });
+    expect(result.warningDetails?.map(w => w.code)).toEqual([
+      ConversionWarningCode.DEFAULT_PUBKEY,
+      ConversionWarningCode.NON_STANDARD_TYPE,
+      ConversionWarningCode.LOSSY_LICENSE,
+    ]);
+    expect(result.warningDetails?.map(w => w.message)).toEqual(result.warnings);
+    expect(result.warningDetails?.[2]).toMatchObject({ path: '$.license' });
+  });
+
+  test('undecodable creator id points at the entry', () => {
+    const result = ambToNostr(
+      {
+        ...resource,
+        creator: [
+          { type: 'Person', name: 'Plain' },
+          { type: 'Person', name: 'Jane Doe', id: 'nostr:npub1invalid' },
+        ],
+      },
+      { pubkey: 'a'.repeat(64) }
+    );
+    expect(result.warningDetails).toEqual([
+      expect.objectContaining({
+        code: ConversionWarningCode.UNDECODABLE_NOSTR_ID,
+        path: '$.creator[1].id',
+        value: 'nostr:npub1invalid',
+      }),
+    ]);
+  });
+
+  test('no warnings, no warningDetails', () => {
+    const result = ambToNostr(resource, { pubkey: 'a'.repeat(64) });
+    expect(result.warningDetails).toBeUndefined();
+  });
+});
+
+describe('dTagStrategy', () => {
+  const pubkey = 'a'.repeat(64);
+  const resource: any = {
+    '@context': ['https://w3id.org/kim/amb/context.jsonld'],
+    id: 'https://oersi.org/resources/aHR0cHM6Ly93d3cub2VyYnctZXhhbXBsZS5kZS9rdXJzLzEyMzQ1',
+    type: ['LearningResource'],
+    name: 'Einführung in die Größenordnungen!',
+  };
+  const dOf = (opts: ConversionOptions) => ambToNostr(resource, { pubkey, ...opts }).data!.tags;
+
+  test('uri (default) uses the id and emits no alias', () => {
+    const tags = dOf({});
+    expect(tags[0]).toEqual(['d', resource.id]);
+    expect(tags.some(t => t[0] === 'alias')).toBe(false);
+  });
+
+  test('hash uses the SHA-256 of the id and keeps the id in an alias tag', () => {
+    const tags = dOf({ dTagStrategy: 'hash' });
+    expect(tags[0]![1]).toMatch(/^[0-9a-f]{64}$/);
+    expect(tags[1]).toEqual(['alias', resource.id]);
+    expect(dOf({ dTagStrategy: 'hash' })[0]).toEqual(tags[0]);
+  });
+
+  test('slug derives an ASCII slug from the name', () => {
+    expect(dOf({ dTagStrategy: 'slug' })[0]).toEqual(['d', 'einfuhrung-in-die-grossenordnungen']);
+  });
+
+  test('a function strategy is called with the resource', () => {
+    const tags = dOf({ dTagStrategy: r => r.id.split('/').pop()!.slice(0, 8) });
+    expect(tags[0]).toEqual(['d', 'aHR0cHM6']);
+  });
+
+  test('an empty slug is rejected', () => {
+    const result = ambToNostr({ ...resource, name: '!!!' }, { pubkey, dTagStrategy: 'slug' });
+    expect(result.success).toBe(false);
+    expect((result.error as ConversionError).code).toBe(ConversionErrorCode.INVALID_FORMAT);
+  });
+
+  test('the original id survives the round-trip', () => {
+    for (const dTagStrategy of ['hash', 'slug'] as const) {
+      const event = ambToNostr(resource, { pubkey, dTagStrategy }).data!;
+      expect(nostrToAmb(event).data!.id).toBe(resource.id);
+    }
+  });
+});
+
+describe('boundaryMarkers', () => {
+  const pubkey = 'a'.repeat(64);
+  const resource: any = {
+    '@context': ['https://w3id.org/kim/amb/context.jsonld'],
+    id: 'https://example.org/r1',
+    type: ['LearningResource'],
+    name: 'Test',
+    creator: [
+      { type: 'Person', name: 'Jane Doe' },
+      { type: 'Organization', name: 'ACME', url: 'https://acme.example' },
+    ],
+    publisher: [
+      { type: 'Organization', name: 'Publisher A' },
+      { type: 'Organization', name: 'Publisher B' },
+    ],
+  };
+
+  test('emits a boundary tag before each entry', () => {
+    const tags = ambToNostr(resource, { pubkey, boundaryMarkers: true }).data!.tags;
+    const creatorTags = tags.filter(t => t[0]!.startsWith('creator') || (t[0] === 'boundary' && t[1] === 'creator'));
+    expect(creatorTags).toEqual([
+      ['boundary', 'creator'],
+      ['creator:name', 'Jane Doe'],
+      ['creator:type', 'Person'],
+      ['boundary', 'creator'],
+      ['creator:name', 'ACME'],
+      ['creator:type', 'Organization'],
+      ['creator:url', 'https://acme.example'],
+    ]);
+  });
+
+  test('marks only flattened creators, not those emitted as p tags', () => {
+    const npub = nip19.npubEncode(pubkey);
+    const creator = [
+      { type: 'Person', name: 'Nostr User', id: `nostr:${npub}` },
+      { type: 'Person', name: 'Jane Doe' },
+    ];
+    const tags = ambToNostr({ ...resource, creator }, { pubkey, boundaryMarkers: true }).data!.tags;
+    const creatorTags = tags.filter(t =>
+      t[0]!.startsWith('creator') || t[0] === 'p' || (t[0] === 'boundary' && t[1] === 'creator'));
+    expect(creatorTags).toEqual([
+      ['p', pubkey, '', 'creator'],
+      ['boundary', 'creator'],
+      ['creator:name', 'Jane Doe'],
+      ['creator:type', 'Person'],
+    ]);
+  });
+
+  test('emits none by default', () => {
+    const tags = ambToNostr(resource, { pubkey }).data!.tags;
+    expect(tags.some(t => t[0] === 'boundary')).toBe(false);
+  });
+
+  test('id-less entries round-trip as separate objects', () => {
+    const event = ambToNostr(resource, { pubkey, boundaryMarkers: true }).data!;
+    const amb = nostrToAmb(event).data!;
+    expect(amb.creator).toEqual(resource.creator);
+    expect(amb.publisher).toEqual(resource.publisher);
+    expect((amb as any).boundary).toBeUndefined();
+  });
+
+  test('a creator list nested in a hasPart entry round-trips within that entry', () => {
+    const hasPart = [{
+      id: 'https://example.org/r1/part1',
+      creator: [
+        { type: 'Person', name: 'Jane Doe' },
+        { type: 'Person', name: 'John Roe' },
+      ],
+    }];
+    const event = ambToNostr({ ...resource, hasPart }, { pubkey, boundaryMarkers: true }).data!;
+    expect(event.tags.filter(t => t[0] === 'boundary' && t[1]!.startsWith('hasPart'))).toEqual([
+      ['boundary', 'hasPart'],
+      ['boundary', 'hasPart:creator'],
+      ['boundary', 'hasPart:creator'],
+    ]);
+    expect(nostrToAmb(event).data!.hasPart).toEqual(hasPart);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for CSV/TSV spreadsheet → AMB conversion
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { csvToAmb } from '../../src/converters/csvToAmb';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { validateAmb } from '../../src/validators';
+import { ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const csv = readFileSync(join(__dirname, '../data/csv/materialien.csv'), 'utf-8');
+const mapping = JSON.parse(readFileSync(join(__dirname, '../data/csv/mapping.json'), 'utf-8'));
+
+describe('csvToAmb', () => {
+  const result = csvToAmb(csv, mapping);
+  const records = result.data!;
+  const [first, second, third] = records.map(record => record.result);
+
+  test('converts each row to a valid AMB record', () => {
+    expect(result.success).toBe(true);
+    expect(records.map(record => record.row)).toEqual([2, 3, 5]);
+    for (const row of [first!, second!]) {
+      expect(validateAmb(row.data).valid).toBe(true);
+      expect(ambToNostr(row.data!, { pubkey: 'a'.repeat(64) }).success).toBe(true);
+    }
+  });
+
+  test('maps columns to AMB paths, splitting list cells on ";"', () => {
+    expect(first!.data).toEqual({
+      '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }],
+      id: 'https://oer.example.org/bruchrechnung',
+      type: ['LearningResource'],
+      name: 'Bruchrechnung',
+      description: 'Brüche addieren,\nkürzen und erweitern',
+      creator: [{ type: 'Person', name: 'Erika Muster', id: 'https://orcid.org/0000-0002-1825-0097' }],
+      about: [{ id: 'http://w3id.org/kim/schulfaecher/s1017' }],
+      keywords: ['Brüche', 'Kürzen'],
+      license: { id: 'https://creativecommons.org/licenses/by-sa/4.0/' },
+      inLanguage: ['de'],
+      datePublished: '2024-03-01',
+      isAccessibleForFree: true,
+      ext: { edufeed: { grade: ['6'] } },
+    });
+    expect(first!.warnings).toBeUndefined();
+  });
+
+  test('lines up list entries across columns by position', () => {
+    expect(second!.data!.name).toBe('Der "Hebel"');
+    expect(second!.data!.creator).toEqual([
+      { type: 'Person', name: 'Max Beispiel' },
+      { type: 'Person', name: 'Erika Muster', id: 'https://orcid.org/0000-0002-1825-0097' },
+    ]);
+    expect(second!.data!.ext).toEqual({ edufeed: { grade: ['7', '8'] } });
+  });
+
+  test('reports values AMB cannot hold per row', () => {
+    expect(second!.warningDetails).toEqual([
+      {
+        code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+        message: 'Column "Fach" value "Astronomie" has no mapping; dropped',
+        path: '$.about[].id',
+        value: 'Astronomie',
+      },
+      {
+        code: ConversionWarningCode.UNSUPPORTED_PROPERTY,
+        message: 'Column "Veröffentlicht" value "März 2024" is not a full ISO 8601 date; dropped',
+        path: '$.datePublished',
+        value: 'März 2024',
+      },
+    ]);
+    expect(second!.data!.about).toEqual([{ id: 'http://w3id.org/kim/schulfaecher/s1022' }]);
+  });
+
+  test('fails rows without an id and reports unmapped columns on the batch', () => {
+    expect(third!.success).toBe(false);
+    expect(third!.error).toMatchObject({ code: ConversionErrorCode.MISSING_REQUIRED_FIELD });
+    expect(result.warnings).toEqual(['Column "Notizen" is not in the mapping; dropped']);
+  });
+
+  test('reads TSV and honours column separators', () => {
+    const tsv = 'url\ttitle\ttags\nhttps://example.org/a\tA\tx, y\n';
+    const converted = csvToAmb(tsv, {
+      columns: [
+        { column: 'url', path: 'id' },
+        { column: 'title', path: 'name' },
+        { column: 'tags', path: 'keywords', separator: ',' },
+      ],
+    });
+    expect(converted.data![0]!.result.data).toMatchObject({ id: 'https://example.org/a', keywords: ['x', 'y'] });
+  });
+
+  test('fails rows in strict mode', () => {
+    const complete = { ...mapping, columns: [...mapping.columns, { column: 'Notizen', path: 'ext.edufeed.note' }] };
+    const strict = csvToAmb(csv, complete, { strict: true });
+    expect(strict.success).toBe(true);
+    expect(strict.data!.map(record => record.result.success)).toEqual([true, false, false]);
+    expect(strict.data![1]!.result.error).toMatchObject({ code: ConversionErrorCode.UNMAPPED_VOCABULARY_VALUE });
+
+    expect(csvToAmb(csv, mapping, { strict: true }).error?.code).toBe(ConversionErrorCode.UNSUPPORTED_PROPERTY);
+  });
+
+  test('rejects mappings that do not fit AMB', () => {
+    const invalid = (path: string) =>
+      csvToAmb(csv, { columns: [{ column: 'URL', path }] }).error?.message;
+    expect(invalid('creator.name')).toBe('Mapping path "creator.name" is in a list; write creator[].name');
+    expect(invalid('about[]')).toBe('Mapping path "about[]" is a list of objects; name a property, e.g. about[].id');
+    expect(invalid('license[].id')).toBe('Mapping path "license[].id" marks license as a list, which it is not');
+    expect(invalid('keywords[].id')).toBe('Mapping path "keywords[].id" goes into a list of strings');
+    expect(csvToAmb(csv, { columns: [] } as any).error?.code).toBe(ConversionErrorCode.INVALID_INPUT);
+    expect(csvToAmb('a;"b\n', mapping).error?.code).toBe(ConversionErrorCode.INVALID_FORMAT);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for DataCite (Zenodo) → AMB conversion
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { dataciteToAmb } from '../../src/converters/dataciteToAmb';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { validateAmb } from '../../src/validators';
+import { ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const zenodo = readFileSync(join(__dirname, '../data/datacite/zenodo.json'), 'utf-8');
+
+describe('dataciteToAmb', () => {
+  const result = dataciteToAmb(zenodo);
+  const amb = result.data!;
+
+  test('converts a Zenodo record to a valid AMB resource with its DOI as landing page', () => {
+    expect(result.success).toBe(true);
+    expect(validateAmb(amb).valid).toBe(true);
+    expect(ambToNostr(amb, { pubkey: 'a'.repeat(64) }).success).toBe(true);
+    expect(amb).toMatchObject({
+      '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }],
+      id: 'https://zenodo.org/records/1234567',
+      type: ['LearningResource'],
+      name: 'Offener Kurs: Einführung in die Bruchrechnung',
+      description: 'Ein offener Kurs zur Bruchrechnung für die Klassen 5 und 6.\nMit Arbeitsblättern.',
+      mainEntityOfPage: [{ id: 'https://doi.org/10.5281/zenodo.1234567' }],
+      inLanguage: ['de'],
+      datePublished: '2024-03-01',
+      dateModified: '2024-03-15',
+      learningResourceType: [{ id: 'https://w3id.org/kim/hcrt/lesson_plan' }],
+      encoding: [{ type: 'MediaObject', encodingFormat: 'application/pdf' }],
+      publisher: [{ type: 'Organization', name: 'Zenodo' }],
+    });
+  });
+
+  test('maps creators with ORCID ids and ROR affiliations', () => {
+    expect(amb.creator).toEqual([
+      {
+        type: 'Person',
+        name: 'Erika Muster',
+        id: 'https://orcid.org/0000-0002-1825-0097',
+        affiliation: { type: 'Organization', name: 'Universität Potsdam', id: 'https://ror.org/03bnmw459' },
+      },
+      { type: 'Person', name: 'Max Beispiel' },
+    ]);
+  });
+
+  test('maps subjects, rights, relations and funding', () => {
+    expect(amb.about).toEqual([{ id: 'http://w3id.org/kim/schulfaecher/s1017', prefLabel: { de: 'Mathematik' } }]);
+    expect(amb.keywords).toEqual(['Bruchrechnung', 'OER']);
+    expect(amb.license).toEqual({ id: 'https://creativecommons.org/licenses/by-sa/4.0/' });
+    expect(amb.isAccessibleForFree).toBe(true);
+    expect(amb.isPartOf).toEqual([{ id: 'https://zenodo.org/communities/oer-mathe' }]);
+    expect(amb.hasPart).toEqual([{ id: 'https://doi.org/10.5281/zenodo.1234568' }]);
+    expect(amb.isBasedOn).toEqual([{ id: 'https://doi.org/10.5281/zenodo.1111111' }]);
+    expect(amb.funder).toEqual([
+      {
+        type: 'Organization',
+        name: 'Bundesministerium für Bildung und Forschung',
+        id: 'https://doi.org/10.13039/501100002347',
+      },
+      { type: 'FundingScheme', name: 'OERinfo', id: 'https://foerderportal.bund.de/foekat/01PO16012' },
+    ]);
+  });
+
+  test('reports values AMB cannot hold', () => {
+    expect(result.warningDetails!.map(w => [w.code, w.path])).toEqual([
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, '$.name'],
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, '$.description'],
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, '$.creator[].affiliation'],
+      [ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE, '$.about'],
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, '$.dateCreated'],
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, undefined],
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, undefined],
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, undefined],
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, undefined],
+    ]);
+    expect(result.warnings).toContain(
+      'relatedIdentifiers (IsVersionOf) "10.5281/zenodo.1234500" has no AMB relation; dropped'
+    );
+    expect(result.warnings).toContain('sizes "2.4 MB" has no AMB property; dropped');
+  });
+
+  test('reads bare records, resolves SPDX ids and bare identifiers', () => {
+    const converted = dataciteToAmb(
+      {
+        doi: '10.5281/zenodo.42',
+        titles: [{ title: 'Lineare Funktionen' }],
+        creators: [
+          {
+            name: 'Muster, Erika',
+            nameIdentifiers: [{ nameIdentifier: '0000-0002-1825-0097', nameIdentifierScheme: 'ORCID' }],
+          },
+          {
+            name: 'Universität Potsdam',
+            nameType: 'Organizational',
+            nameIdentifiers: [{ nameIdentifier: '03bnmw459', nameIdentifierScheme: 'ROR' }],
+          },
+        ],
+        rightsList: [{ rightsIdentifier: 'cc0-1.0' }],
+        types: { resourceTypeGeneral: 'Audiovisual' },
+        fundingReferences: [
+          { funderName: 'DFG', funderIdentifier: '501100001659', funderIdentifierType: 'Crossref Funder ID' },
+        ],
+      },
+      { defaultLanguage: 'en' }
+    );
+    expect(converted.warnings).toBeUndefined();
+    expect(converted.data).toMatchObject({
+      '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'en' }],
+      id: 'https://doi.org/10.5281/zenodo.42',
+      creator: [
+        { type: 'Person', name: 'Erika Muster', id: 'https://orcid.org/0000-0002-1825-0097' },
+        { type: 'Organization', name: 'Universität Potsdam', id: 'https://ror.org/03bnmw459' },
+      ],
+      license: { id: 'https://creativecommons.org/publicdomain/zero/1.0/' },
+      learningResourceType: [{ id: 'https://w3id.org/kim/hcrt/video' }],
+      funder: [{ type: 'Organization', name: 'DFG', id: 'https://doi.org/10.13039/501100001659' }],
+    });
+    const record = { url: 'https://example.org/a', titles: [{ title: 'A' }] };
+    expect(dataciteToAmb(record, { id: 'https://example.org/b' }).data!.id).toBe('https://example.org/b');
+  });
+
+  test('fails on records without a title or an id, invalid JSON, and in strict mode', () => {
+    expect(dataciteToAmb({ doi: '10.5281/zenodo.42' }).error?.code).toBe(ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    expect(dataciteToAmb({ titles: [{ title: 'A' }] }).error?.code).toBe(ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    expect(dataciteToAmb('{').error?.code).toBe(ConversionErrorCode.INVALID_FORMAT);
+    const strict = dataciteToAmb(zenodo, { strict: true });
+    expect(strict.success).toBe(false);
+    expect(strict.error?.code).toBe(ConversionErrorCode.UNSUPPORTED_PROPERTY);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for Dublin Core (oai_dc) / OAI-PMH → AMB conversion
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { dcToAmb, oaiPmhToAmb } from '../../src/converters/dcToAmb';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { validateAmb } from '../../src/validators';
+import { ConversionError, ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const listRecords = readFileSync(join(__dirname, '../data/oai-pmh/ListRecords_oai_dc.xml'), 'utf-8');
+
+const record = (body: string) => `<?xml version="1.0"?>
+<oai_dc:dc xmlns:oai_dc="http://www.openarchives.org/OAI/2.0/oai_dc/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <dc:title>Test</dc:title>
+  <dc:identifier>https://example.org/r1</dc:identifier>
+  ${body}
+</oai_dc:dc>`;
+
+describe('dcToAmb', () => {
+  const result = dcToAmb(listRecords);
+  const amb = result.data as any;
+
+  test('converts the first oai_dc record of a response into a valid AMB record', () => {
+    expect(result.success).toBe(true);
+    expect(validateAmb(amb).valid).toBe(true);
+  });
+
+  test('maps the Dublin Core elements', () => {
+    expect(amb).toEqual({
+      '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }],
+      id: 'https://repository.example.org/handle/1001',
+      type: ['LearningResource'],
+      name: 'Lineare Algebra für Lehramtsstudierende',
+      description: 'Skript zur Vorlesung im Wintersemester.',
+      keywords: ['Lineare Algebra', 'Lehrerbildung'],
+      about: [{ id: 'https://w3id.org/kim/hochschulfaechersystematik/n105' }],
+      inLanguage: ['de'],
+      creator: [
+        { type: 'Person', name: 'Erika Muster' },
+        { type: 'Person', name: 'Max Beispiel' },
+      ],
+      publisher: [{ type: 'Organization', name: 'Universität Beispielstadt' }],
+      datePublished: '2023-10-16',
+      learningResourceType: [{ id: 'https://w3id.org/kim/hcrt/text' }],
+      encoding: [
+        {
+          type: 'MediaObject',
+          contentUrl: 'https://repository.example.org/bitstream/1001/skript.pdf',
+          encodingFormat: 'application/pdf',
+        },
+      ],
+      license: { id: 'https://creativecommons.org/licenses/by/4.0/' },
+      isAccessibleForFree: true,
+    });
+  });
+
+  test('reports every dropped value', () => {
+    expect(result.warningDetails!.map(w => [w.code, w.value])).toEqual([
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, 'Linear Algebra for Student Teachers'],
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, 'urn:nbn:de:0000-1001'],
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, '2023'],
+      [ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE, 'info:eu-repo/semantics/lecture'],
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, 'https://repository.example.org/handle/1000'],
+    ]);
+    expect(result.warnings).toContain('dc:date "2023" is not a full ISO 8601 date; dropped');
+  });
+
+  test('takes a DOI identifier as doi.org URL', () => {
+    const amb = dcToAmb(record('<dc:identifier>doi:10.1234/abc.5</dc:identifier>').replace(
+      '<dc:identifier>https://example.org/r1</dc:identifier>',
+      ''
+    )).data!;
+    expect(amb.id).toBe('https://doi.org/10.1234/abc.5');
+  });
+
+  test('maps DCMI Type URIs, HCRT ids and custom types', () => {
+    const result = dcToAmb(
+      record(`
+        <dc:type>http://purl.org/dc/dcmitype/MovingImage</dc:type>
+        <dc:type>worksheet</dc:type>
+        <dc:type>Lernmodul</dc:type>`),
+      { types: { Lernmodul: 'https://w3id.org/kim/hcrt/course' } }
+    );
+    expect(result.data!.learningResourceType).toEqual([
+      { id: 'https://w3id.org/kim/hcrt/video' },
+      { id: 'https://w3id.org/kim/hcrt/worksheet' },
+      { id: 'https://w3id.org/kim/hcrt/course' },
+    ]);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  test('normalizes language codes and picks the title in the preferred language', () => {
+    const result = dcToAmb(
+      record(`
+        <dc:title xml:lang="en">English title</dc:title>
+        <dc:language>eng</dc:language>
+        <dc:language>de-DE</dc:language>
+        <dc:language>Klingonisch</dc:language>`).replace('<dc:title>Test</dc:title>', '')
+    );
+    expect(result.data!.name).toBe('English title');
+    expect(result.data!.inLanguage).toEqual(['en', 'de']);
+    expect(result.data!['@context']).toEqual(['https://w3id.org/kim/amb/context.jsonld', { '@language': 'en' }]);
+    expect(result.warningDetails).toEqual([
+      {
+        code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+        message: 'dc:language "Klingonisch" has no AMB mapping; dropped',
+        path: '$.inLanguage',
+        value: 'Klingonisch',
+      },
+    ]);
+  });
+
+  test('fails in strict mode on a lossy value', () => {
+    const result = dcToAmb(record('<dc:coverage>Europa</dc:coverage>'), { strict: true });
+    expect(result.success).toBe(false);
+    expect((result.error as any).code).toBe(ConversionErrorCode.UNSUPPORTED_PROPERTY);
+  });
+
+  test('requires a title and a URL or DOI identifier', () => {
+    expect((dcToAmb(record('').replace('<dc:title>Test</dc:title>', '')).error as any).code).toBe(
+      ConversionErrorCode.MISSING_REQUIRED_FIELD
+    );
+    const noId = dcToAmb(record('<dc:identifier>ISBN 978-3-16-148410-0</dc:identifier>').replace(
+      '<dc:identifier>https://example.org/r1</dc:identifier>',
+      ''
+    ));
+    expect((noId.error as any).code).toBe(ConversionErrorCode.MISSING_REQUIRED_FIELD);
+  });
+
+  test('rejects malformed XML and documents without a dc record', () => {
+    expect((dcToAmb('<dc><title>').error as any).code).toBe(ConversionErrorCode.INVALID_FORMAT);
+    expect(dcToAmb('<lom/>').error!.message).toBe('No oai_dc record found');
+    const notText = dcToAmb(undefined as any);
+    expect(notText.error).toBeInstanceOf(ConversionError);
+    expect(notText.error!.code).toBe(ConversionErrorCode.CONVERSION_FAILED);
+  });
+
+  test('chains into ambToNostr', () => {
+    const event = ambToNostr(amb).data!;
+    expect(event.kind).toBe(30142);
+    expect(event.tags).toContainEqual(['d', 'https://repository.example.org/handle/1001']);
+  });
+});
+
+describe('oaiPmhToAmb', () => {
+  const result = oaiPmhToAmb(listRecords);
+  const { records, resumptionToken } = result.data!;
+
+  test('returns one entry per record with the resumption token', () => {
+    expect(result.success).toBe(true);
+    expect(records.map(r => [r.identifier, r.deleted])).toEqual([
+      ['oai:repository.example.org:1001', false],
+      ['oai:repository.example.org:1002', true],
+      ['oai:repository.example.org:1003', false],
+      ['oai:repository.example.org:1004', false],
+    ]);
+    expect(resumptionToken).toBe('oai_dc///100');
+  });
+
+  test('converts each record on its own', () => {
+    expect(records[0]!.result!.data!.id).toBe('https://repository.example.org/handle/1001');
+    expect(records[1]!.result).toBeUndefined();
+    expect(records[1]!.datestamp).toBe('2024-05-01');
+    expect(records[3]!.result!.success).toBe(false);
+    expect(records[3]!.result!.error!.message).toBe('Dublin Core record must have a dc:title');
+  });
+
+  test('falls back to the OAI identifier as id', () => {
+    const { data, warnings } = records[2]!.result!;
+    expect(data!.id).toBe('oai:repository.example.org:1003');
+    expect(data!.creator).toEqual([{ type: 'Person', name: 'Landesbildungsserver' }]);
+    expect(data!.learningResourceType).toEqual([{ id: 'https://w3id.org/kim/hcrt/worksheet' }]);
+    expect(warnings).toEqual([
+      'dc:identifier "ISBN 978-3-16-148410-0" is not the resource URL; dropped',
+      'dc:date "2022" is not a full ISO 8601 date; dropped',
+    ]);
+  });
+
+  test('treats noRecordsMatch as an empty list and fails on other OAI-PMH errors', () => {
+    const response = (error: string) =>
+      `<OAI-PMH xmlns="http://www.openarchives.org/OAI/2.0/">${error}</OAI-PMH>`;
+    expect(oaiPmhToAmb(response('<error code="noRecordsMatch">none</error>')).data).toEqual({ records: [] });
+    const failed = oaiPmhToAmb(response('<error code="badResumptionToken">expired</error>'));
+    expect(failed.success).toBe(false);
+    expect(failed.error!.message).toBe('OAI-PMH error badResumptionToken: expired');
+    expect(oaiPmhToAmb('<lom/>').error!.message).toBe('Not an OAI-PMH response');
+  });
+});
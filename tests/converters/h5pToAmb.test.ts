@@ -0,0 +1,113 @@
+/**
+ * Tests for H5P metadata → AMB conversion
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { h5pToAmb } from '../../src/converters/h5pToAmb';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { validateAmb } from '../../src/validators';
+import { ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const h5pJson = readFileSync(join(__dirname, '../data/h5p/h5p.json'), 'utf-8');
+const contentJson = readFileSync(join(__dirname, '../data/h5p/content.json'), 'utf-8');
+const specExample = JSON.parse(
+  readFileSync(join(__dirname, '../data/amb-spec/valid/h5p-media-type.json'), 'utf-8')
+);
+
+const CONTENT_URL = 'https://oer.example.org/h5p/bruchrechnung.h5p';
+
+describe('h5pToAmb', () => {
+  const result = h5pToAmb(h5pJson, contentJson, { id: 'https://oer.example.org/h5p/4711', contentUrl: CONTENT_URL });
+  const amb = result.data as any;
+
+  test('converts h5p.json into a valid AMB record', () => {
+    expect(result.success).toBe(true);
+    expect(validateAmb(amb).valid).toBe(true);
+    expect(ambToNostr(amb, { pubkey: 'a'.repeat(64) }).success).toBe(true);
+  });
+
+  test('maps title, language, license, authors and source', () => {
+    expect(amb).toMatchObject({
+      '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }],
+      id: 'https://oer.example.org/h5p/4711',
+      type: ['LearningResource'],
+      name: 'Bruchrechnung – Quiz',
+      inLanguage: ['de'],
+      license: { id: 'https://creativecommons.org/licenses/by-sa/4.0/' },
+      creator: [{ type: 'Person', name: 'Erika Muster' }],
+      contributor: [{ type: 'Person', name: 'Max Beispiel' }],
+      isBasedOn: [{ id: 'https://h5p.example.org/node/4711' }],
+    });
+  });
+
+  test('derives learningResourceType from the main library', () => {
+    expect(amb.learningResourceType).toEqual([{ id: 'https://w3id.org/kim/hcrt/assessment' }]);
+  });
+
+  test('describes the package as an encoding in the media type of the spec example', () => {
+    expect(amb.encoding).toEqual([
+      { type: 'MediaObject', encodingFormat: specExample.encoding[0].encodingFormat, contentUrl: CONTENT_URL },
+    ]);
+  });
+
+  test('takes the description from content.json', () => {
+    expect(amb.description).toBe('Teste dein Wissen über Brüche.\nZehn Fragen, keine Zeitbegrenzung.');
+  });
+
+  test('reports what AMB cannot hold', () => {
+    expect(result.warningDetails!.map(w => [w.code, w.message])).toEqual([
+      [ConversionWarningCode.UNSUPPORTED_PROPERTY, 'h5p.json yearFrom "2021" is not a full ISO 8601 date; dropped'],
+      [
+        ConversionWarningCode.UNSUPPORTED_PROPERTY,
+        'h5p.json changes "[{"date":"05-03-23 10:12:00","author":"Max Beispiel","log":"Fragen ergänzt"}]" has no AMB counterpart; dropped',
+      ],
+    ]);
+  });
+
+  test('uses contentUrl as id and accepts parsed objects', () => {
+    const converted = h5pToAmb({ title: 'Memory', mainLibrary: 'H5P.MemoryGame', license: 'CC0 1.0' }, undefined, {
+      contentUrl: CONTENT_URL,
+    });
+    expect(converted.success).toBe(true);
+    expect(converted.data).toMatchObject({
+      id: CONTENT_URL,
+      license: { id: 'https://creativecommons.org/publicdomain/zero/1.0/' },
+      learningResourceType: [{ id: 'https://w3id.org/kim/hcrt/educational_game' }],
+    });
+    expect(converted.warnings).toBeUndefined();
+  });
+
+  test('maps libraries from the options and leaves undisclosed licenses out', () => {
+    const converted = h5pToAmb({ title: 'Tour', mainLibrary: 'H5P.CustomTour', license: 'U' }, undefined, {
+      contentUrl: CONTENT_URL,
+      libraries: { 'H5P.CustomTour': 'https://w3id.org/kim/hcrt/simulation' },
+    });
+    expect(converted.data!.learningResourceType).toEqual([{ id: 'https://w3id.org/kim/hcrt/simulation' }]);
+    expect(converted.data!.license).toBeUndefined();
+    expect(converted.warnings).toBeUndefined();
+  });
+
+  test('warns about unmapped libraries and licenses without a URL, or fails in strict mode', () => {
+    const h5p = { title: 'Tour', mainLibrary: 'H5P.CustomTour', license: 'ODC PDDL' };
+    const lenient = h5pToAmb(h5p, undefined, { contentUrl: CONTENT_URL });
+    expect(lenient.warningDetails!.map(w => w.code)).toEqual([
+      ConversionWarningCode.UNSUPPORTED_PROPERTY,
+      ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+    ]);
+
+    const strict = h5pToAmb(h5p, undefined, { contentUrl: CONTENT_URL, strict: true });
+    expect(strict.success).toBe(false);
+    expect(strict.error?.code).toBe(ConversionErrorCode.UNSUPPORTED_PROPERTY);
+  });
+
+  test('needs a title and a URL', () => {
+    expect(h5pToAmb({ title: 'Quiz' }).error?.code).toBe(ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    expect(h5pToAmb({}, undefined, { contentUrl: CONTENT_URL }).error?.code).toBe(
+      ConversionErrorCode.MISSING_REQUIRED_FIELD
+    );
+    expect(h5pToAmb('not json', undefined, { contentUrl: CONTENT_URL }).error?.code).toBe(
+      ConversionErrorCode.INVALID_FORMAT
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for AMB extraction from HTML pages
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { htmlToAmb } from '../../src/converters/htmlToAmb';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { validateAmb } from '../../src/validators';
+import { ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const page = (name: string) => readFileSync(join(__dirname, '../data/html', name), 'utf-8');
+
+describe('htmlToAmb', () => {
+  describe('schema.org JSON-LD', () => {
+    const result = htmlToAmb(page('course-landing-page.html'), { baseUrl: 'https://oer.example.org/start' });
+    const amb = result.data as any;
+
+    test('extracts a valid AMB record from the learning resource node', () => {
+      expect(result.success).toBe(true);
+      expect(validateAmb(amb).valid).toBe(true);
+      expect(amb).toEqual({
+        '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }],
+        id: 'https://oer.example.org/resources/bruchrechnung',
+        type: ['LearningResource', 'Course'],
+        name: 'Bruchrechnung verstehen',
+        description: 'Ein Kurs mit Erklärvideos und Arbeitsblättern zur Bruchrechnung.',
+        keywords: ['Brüche', 'Bruchrechnung', 'Mathematik'],
+        learningResourceType: [
+          { id: 'https://w3id.org/kim/hcrt/course', prefLabel: { de: 'Kurs' } },
+          { id: 'https://w3id.org/kim/hcrt/worksheet' },
+        ],
+        inLanguage: ['de'],
+        creator: [
+          {
+            type: 'Person',
+            name: 'Erika Muster',
+            id: 'https://orcid.org/0000-0002-1825-0097',
+            affiliation: { type: 'Organization', name: 'Universität Beispielstadt' },
+          },
+        ],
+        publisher: [{ type: 'Organization', name: 'OER-Portal', url: 'https://oer.example.org/' }],
+        audience: [{ id: 'http://purl.org/dcx/lrmi-vocabs/educationalAudienceRole/student' }],
+        datePublished: '2023-03-15',
+        duration: 'PT45M',
+        license: { id: 'https://creativecommons.org/licenses/by-sa/4.0/' },
+        isAccessibleForFree: true,
+        image: 'https://oer.example.org/bilder/bruch.png',
+        mainEntityOfPage: [{ id: 'https://oer.example.org/kurse/bruchrechnung' }],
+      });
+    });
+
+    test('reports what it drops', () => {
+      expect(result.warningDetails!.map(w => [w.code, w.path])).toEqual([
+        [ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE, '$.educationalLevel'],
+        [ConversionWarningCode.UNSUPPORTED_PROPERTY, '$.dateModified'],
+        [ConversionWarningCode.UNSUPPORTED_PROPERTY, '$.hasCourseInstance'],
+      ]);
+    });
+
+    test('ignores commented-out JSON-LD', () => {
+      expect(amb.name).not.toBe('Auskommentiert');
+    });
+
+    test('chains into ambToNostr', () => {
+      const event = ambToNostr(amb).data!;
+      expect(event.kind).toBe(30142);
+      expect(event.tags).toContainEqual(['d', 'https://oer.example.org/resources/bruchrechnung']);
+      expect(event.tags).toContainEqual(['mainEntityOfPage:id', 'https://oer.example.org/kurse/bruchrechnung']);
+    });
+  });
+
+  describe('Open Graph and meta fallback', () => {
+    const result = htmlToAmb(page('open-graph-only.html'));
+
+    test('builds the record from meta tags', () => {
+      expect(result.success).toBe(true);
+      expect(result.warnings).toBeUndefined();
+      expect(result.data).toEqual({
+        '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }],
+        id: 'https://blog.example.org/photosynthese',
+        type: ['LearningResource'],
+        name: 'Photosynthese – Arbeitsblatt',
+        description: 'Arbeitsblatt zur Photosynthese für die 7. Klasse',
+        keywords: ['Biologie', 'Photosynthese', 'Pflanzen'],
+        inLanguage: ['de'],
+        creator: [{ type: 'Person', name: 'Max Beispiel' }],
+        datePublished: '2022-09-01T08:00:00+02:00',
+        image: 'https://blog.example.org/img/photo.jpg',
+        mainEntityOfPage: [{ id: 'https://blog.example.org/photosynthese' }],
+      });
+    });
+
+    test('falls back to <title> and baseUrl', () => {
+      const html = '<html lang="en"><head><title>Plain &amp; simple</title></head></html>';
+      const amb = htmlToAmb(html, { baseUrl: 'https://example.org/plain' }).data!;
+      expect(amb.name).toBe('Plain & simple');
+      expect(amb.id).toBe('https://example.org/plain');
+      expect(amb.inLanguage).toEqual(['en']);
+      expect(amb.mainEntityOfPage).toEqual([{ id: 'https://example.org/plain' }]);
+    });
+  });
+
+  test('fills gaps in a CreativeWork node from meta tags', () => {
+    const html = `<html><head>
+      <meta name="description" content="From meta">
+      <script type="application/ld+json">{"@context": "https://schema.org", "@type": "CreativeWork",
+        "url": "https://example.org/work", "name": "Work"}</script>
+    </head></html>`;
+    const amb = htmlToAmb(html).data!;
+    expect(amb.id).toBe('https://example.org/work');
+    expect(amb.type).toEqual(['LearningResource']);
+    expect(amb.description).toBe('From meta');
+    expect(amb.mainEntityOfPage).toBeUndefined();
+  });
+
+  test('skips unparseable JSON-LD with a warning, or fails in strict mode', () => {
+    const html = `<html><head><title>T</title><script type="application/ld+json">{"@type": </script></head></html>`;
+    const result = htmlToAmb(html, { baseUrl: 'https://example.org/t' });
+    expect(result.success).toBe(true);
+    expect(result.warningDetails![0]!.code).toBe(ConversionWarningCode.INVALID_JSON_LD);
+    const strict = htmlToAmb(html, { baseUrl: 'https://example.org/t', strict: true });
+    expect((strict.error as any).code).toBe(ConversionErrorCode.INVALID_JSON_LD);
+  });
+
+  test('requires a page URL and a title', () => {
+    expect((htmlToAmb('<title>T</title>').error as any).code).toBe(ConversionErrorCode.MISSING_REQUIRED_FIELD);
+    expect((htmlToAmb('<p>x</p>', { baseUrl: 'https://example.org/' }).error as any).code).toBe(
+      ConversionErrorCode.MISSING_REQUIRED_FIELD
+    );
+    expect((htmlToAmb('<title>T</title>', { baseUrl: 'page.html' }).error as any).code).toBe(
+      ConversionErrorCode.INVALID_INPUT
+    );
+  });
+});
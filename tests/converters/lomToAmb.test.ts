@@ -0,0 +1,169 @@
+/**
+ * Tests for LOM / LOM-DE → AMB conversion
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { lomToAmb } from '../../src/converters/lomToAmb';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { validateAmb } from '../../src/validators';
+import { ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const xml = readFileSync(join(__dirname, '../data/lom/lom-de_course.xml'), 'utf-8');
+
+const minimal = (body: string) => `<?xml version="1.0"?>
+<lom xmlns="http://ltsc.ieee.org/xsd/LOM">
+  <general>
+    <identifier><catalog>URI</catalog><entry>https://example.org/r1</entry></identifier>
+    <title><string language="en">Test</string></title>
+  </general>
+  ${body}
+</lom>`;
+
+describe('lomToAmb', () => {
+  const result = lomToAmb(xml);
+  const amb = result.data as any;
+
+  test('converts a LOM-DE record into a valid AMB record', () => {
+    expect(result.success).toBe(true);
+    expect(validateAmb(amb).valid).toBe(true);
+  });
+
+  test('maps the general section', () => {
+    expect(amb['@context']).toEqual(['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }]);
+    expect(amb.id).toBe('https://oer.example.org/resources/4711');
+    expect(amb.type).toEqual(['LearningResource']);
+    expect(amb.name).toBe('Einführung in die Bruchrechnung');
+    expect(amb.description).toBe('Arbeitsblätter und Erklärvideo zur Bruchrechnung.');
+    expect(amb.keywords).toEqual(['Bruchrechnung', 'Mathematik']);
+    expect(amb.inLanguage).toEqual(['de']);
+  });
+
+  test('maps vCard contributors to persons and organizations by role', () => {
+    expect(amb.creator).toEqual([
+      {
+        type: 'Person',
+        name: 'Dr. Erika Muster',
+        id: 'https://orcid.org/0000-0002-1825-0097',
+        honorificPrefix: 'Dr.',
+        affiliation: { type: 'Organization', name: 'Universität Beispielstadt' },
+      },
+    ]);
+    expect(amb.publisher).toEqual([
+      { type: 'Organization', name: 'Landesbildungsserver', url: 'https://bildungsserver.example.org' },
+    ]);
+    expect(amb.contributor).toEqual([{ type: 'Person', name: 'Max Beispiel' }]);
+    expect(amb.dateCreated).toBe('2023-02-01');
+    expect(amb.datePublished).toBe('2023-03-15');
+  });
+
+  test('maps educational vocabularies to concepts', () => {
+    expect(amb.learningResourceType).toEqual([
+      { id: 'https://w3id.org/kim/hcrt/worksheet' },
+      { id: 'https://w3id.org/kim/hcrt/video' },
+    ]);
+    expect(amb.audience).toEqual([
+      { id: 'http://purl.org/dcx/lrmi-vocabs/educationalAudienceRole/student' },
+      { id: 'http://purl.org/dcx/lrmi-vocabs/educationalAudienceRole/teacher' },
+    ]);
+    expect(amb.educationalLevel).toEqual([{ id: 'https://w3id.org/kim/educationalLevel/level_1' }]);
+    expect(amb.interactivityType).toEqual({ id: 'http://purl.org/dcx/lrmi-vocabs/interactivityType/expositive' });
+    expect(amb.suggestedAge).toEqual({ minValue: 9, maxValue: 11 });
+  });
+
+  test('maps rights, technical and relation', () => {
+    expect(amb.isAccessibleForFree).toBe(true);
+    expect(amb.license).toEqual({ id: 'https://creativecommons.org/licenses/by-sa/4.0/' });
+    expect(amb.encoding).toEqual([
+      { type: 'MediaObject', contentUrl: 'https://oer.example.org/files/4711.pdf', encodingFormat: 'application/pdf' },
+    ]);
+    expect(amb.isPartOf).toEqual([{ id: 'https://oer.example.org/collections/12', name: 'Mathematik Klasse 5' }]);
+  });
+
+  test('maps taxonPaths to about concepts resolved against their source', () => {
+    expect(amb.about).toEqual([{ id: 'http://w3id.org/kim/schulfaecher/s1017', prefLabel: { de: 'Mathematik' } }]);
+  });
+
+  test('reports dropped values as structured warnings', () => {
+    expect(result.warningDetails).toEqual([
+      {
+        code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+        message: 'LOM learningResourceType value "broadcast" has no AMB mapping; dropped',
+        path: '$.learningResourceType',
+        value: 'broadcast',
+      },
+      {
+        code: ConversionWarningCode.UNMAPPED_VOCABULARY_VALUE,
+        message: 'taxon "m-5" has no URI and its source is not a URI; dropped',
+        path: '$.about',
+        value: 'm-5',
+      },
+    ]);
+  });
+
+  test('fails on dropped values in strict mode', () => {
+    const strict = lomToAmb(xml, { strict: true });
+    expect(strict.success).toBe(false);
+    expect(strict.error?.code).toBe(ConversionErrorCode.UNMAPPED_VOCABULARY_VALUE);
+  });
+
+  test('accepts extra vocabulary mappings', () => {
+    const mapped = lomToAmb(xml, {
+      vocabularies: { learningResourceType: { Broadcast: 'https://w3id.org/kim/hcrt/video' } },
+    });
+    expect(mapped.warningDetails!.map(w => w.value)).toEqual(['m-5']);
+  });
+
+  test('prefers the LangString in defaultLanguage', () => {
+    const english = lomToAmb(xml, { defaultLanguage: 'en' }).data as any;
+    expect(english.name).toBe('Introduction to fractions');
+    expect(english['@context'][1]).toEqual({ '@language': 'en' });
+    expect(english.keywords).toEqual(['Bruchrechnung', 'Mathematics']);
+  });
+
+  test('takes concept URIs given as vocabulary values', () => {
+    const amb = lomToAmb(
+      minimal(`<educational><learningResourceType><source>https://w3id.org/kim/hcrt/scheme</source>
+        <value>https://w3id.org/kim/hcrt/map</value></learningResourceType></educational>`)
+    ).data as any;
+    expect(amb.learningResourceType).toEqual([{ id: 'https://w3id.org/kim/hcrt/map' }]);
+  });
+
+  test('finds a LOM record inside an OAI-PMH envelope', () => {
+    const wrapped = `<OAI-PMH xmlns="http://www.openarchives.org/OAI/2.0/"><GetRecord><record><metadata>
+      ${minimal('').replace('<?xml version="1.0"?>', '')}</metadata></record></GetRecord></OAI-PMH>`;
+    const result = lomToAmb(wrapped);
+    expect(result.success).toBe(true);
+    expect(result.data!.id).toBe('https://example.org/r1');
+  });
+
+  test('falls back to technical.location for the id', () => {
+    const result = lomToAmb(`<lom><general><title><string language="en">T</string></title></general>
+      <technical><location>https://example.org/file.pdf</location></technical></lom>`);
+    expect(result.data!.id).toBe('https://example.org/file.pdf');
+    expect(result.data!.encoding).toBeUndefined();
+  });
+
+  test('drops vCards without a name', () => {
+    const result = lomToAmb(
+      minimal(`<lifeCycle><contribute><role><source>LOMv1.0</source><value>author</value></role>
+        <entity>BEGIN:VCARD&#10;VERSION:3.0&#10;EMAIL:x@example.org&#10;END:VCARD</entity></contribute></lifeCycle>`)
+    );
+    expect(result.data!.creator).toBeUndefined();
+    expect(result.warningDetails![0]).toMatchObject({ code: ConversionWarningCode.INVALID_VCARD, path: '$.creator' });
+  });
+
+  test('rejects malformed XML, non-LOM documents and records without an id', () => {
+    expect(lomToAmb('<lom><general>').error?.code).toBe(ConversionErrorCode.INVALID_FORMAT);
+    expect(lomToAmb('<record/>').error?.code).toBe(ConversionErrorCode.INVALID_FORMAT);
+    expect(lomToAmb('<lom><general><title><string>T</string></title></general></lom>').error?.code).toBe(
+      ConversionErrorCode.MISSING_REQUIRED_FIELD
+    );
+  });
+
+  test('chains into ambToNostr', () => {
+    const event = ambToNostr(amb, { pubkey: 'a'.repeat(64) });
+    expect(event.success).toBe(true);
+    expect(event.data!.tags).toContainEqual(['learningResourceType:id', 'https://w3id.org/kim/hcrt/worksheet']);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for IMS content package (Common Cartridge, SCORM) import
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { manifestToAmb, packageToAmb } from '../../src/converters/manifestToAmb';
+import { ambCollectionToNostr } from '../../src/converters/ambToNostr';
+import { validateAmb } from '../../src/validators';
+import { ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const scormDirectory = join(__dirname, '../data/ims/scorm2004');
+const scormManifest = readFileSync(join(scormDirectory, 'imsmanifest.xml'), 'utf-8');
+const ccManifest = readFileSync(join(__dirname, '../data/ims/common-cartridge/imsmanifest.xml'), 'utf-8');
+
+const BASE = 'https://oer.example.org/kurse/bruchrechnung/';
+const PUBKEY = 'b'.repeat(64);
+
+describe('packageToAmb', () => {
+  test('maps the organization tree to a course with linked parts', async () => {
+    const result = await packageToAmb(scormDirectory, { baseUrl: BASE });
+    expect(result.success).toBe(true);
+    const [course, module, intro, kuerzen, test] = result.data as any[];
+
+    for (const record of result.data!) expect(validateAmb(record).valid).toBe(true);
+    expect(result.data!.map(record => record.id)).toEqual([
+      BASE,
+      `${BASE}#MODULE-1`,
+      `${BASE}content/intro.html`,
+      `${BASE}content/kuerzen.html`,
+      `${BASE}test/index.html`,
+    ]);
+    expect(course.type).toEqual(['LearningResource', 'Course']);
+    expect(course.hasPart).toEqual([
+      { id: `${BASE}#MODULE-1`, name: 'Grundlagen' },
+      { id: `${BASE}test/index.html`, name: 'Abschlusstest' },
+    ]);
+    expect(module.isPartOf).toEqual([{ id: BASE, name: 'Einführung in die Bruchrechnung' }]);
+    expect(module.hasPart.map((part: any) => part.id)).toEqual([intro.id, kuerzen.id]);
+    expect(intro.isPartOf).toEqual([{ id: module.id, name: 'Grundlagen' }]);
+    expect(test.isPartOf).toEqual([{ id: BASE, name: 'Einführung in die Bruchrechnung' }]);
+  });
+
+  test('reads external and embedded LOM metadata', async () => {
+    const result = await packageToAmb(scormDirectory, { baseUrl: BASE });
+    const [course, , intro, kuerzen] = result.data as any[];
+
+    expect(course.name).toBe('Einführung in die Bruchrechnung');
+    expect(course.license).toEqual({ id: 'https://creativecommons.org/licenses/by/4.0/' });
+    expect(course.creator).toEqual([{ type: 'Person', name: 'Erika Muster' }]);
+    expect(kuerzen.name).toBe('Brüche kürzen und erweitern');
+    expect(kuerzen.learningResourceType).toEqual([{ id: 'https://w3id.org/kim/hcrt/drill_and_practice' }]);
+    expect(intro.name).toBe('Was ist ein Bruch?');
+
+    expect(result.warningDetails).toEqual([
+      {
+        code: ConversionWarningCode.MISSING_METADATA_FILE,
+        message: 'item "ITEM-3": metadata file "metadata/missing.xml" could not be read from the package; dropped',
+        value: 'metadata/missing.xml',
+      },
+    ]);
+  });
+
+  test('fails in strict mode when a metadata file is missing', async () => {
+    const result = await packageToAmb(scormDirectory, { baseUrl: BASE, strict: true });
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ConversionErrorCode.MISSING_METADATA_FILE);
+  });
+
+  test('fails for a directory without a manifest', async () => {
+    const result = await packageToAmb(join(scormDirectory, 'metadata'));
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ConversionErrorCode.INVALID_INPUT);
+  });
+});
+
+describe('manifestToAmb', () => {
+  test('titles the course after the organization when metadata files are out of reach', () => {
+    const result = manifestToAmb(scormManifest, { baseUrl: BASE });
+    expect(result.success).toBe(true);
+    expect(result.data![0]!.name).toBe('Bruchrechnung (Kursstruktur)');
+    expect(result.warningDetails!.map(w => w.message)).toEqual([
+      'manifest: metadata file "metadata/course.xml" is not read from a bare manifest; import the unzipped package',
+      'item "ITEM-3": metadata file "metadata/missing.xml" is not read from a bare manifest; import the unzipped package',
+    ]);
+  });
+
+  test('needs a URI for the course', () => {
+    const result = manifestToAmb(scormManifest);
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ConversionErrorCode.MISSING_REQUIRED_FIELD);
+  });
+
+  test('reads Common Cartridge manifests, skipping the untitled root item', () => {
+    const result = manifestToAmb(ccManifest);
+    expect(result.success).toBe(true);
+    const [course, ...parts] = result.data as any[];
+    expect(course).toMatchObject({
+      id: 'https://lms.example.org/export/cc/42',
+      name: 'Photosynthesis',
+      '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'en' }],
+    });
+    expect(parts.map(part => part.id)).toEqual([
+      'https://lms.example.org/export/cc/42#I_1',
+      'https://lms.example.org/export/cc/42#I_2',
+      'https://lms.example.org/export/cc/42#I_3',
+    ]);
+    expect(parts[0]['@context']).toEqual(course['@context']);
+  });
+
+  test('links content referenced by several items once', () => {
+    const result = manifestToAmb(ccManifest, { baseUrl: 'https://lms.example.org/cc/42/' });
+    const [course, light, quiz] = result.data as any[];
+    expect(result.data).toHaveLength(3);
+    expect(light).toMatchObject({
+      id: 'https://lms.example.org/cc/42/web_resources/light.html',
+      name: 'Light reactions',
+    });
+    expect(quiz.id).toBe('https://lms.example.org/cc/42/#I_2');
+    expect(course.hasPart.map((part: any) => part.id)).toEqual([light.id, quiz.id]);
+  });
+
+  test('rejects documents that are not manifests', () => {
+    const result = manifestToAmb('<lom/>');
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ConversionErrorCode.INVALID_FORMAT);
+  });
+});
+
+describe('ambCollectionToNostr', () => {
+  test('links the records of a package with a tags', async () => {
+    const { data: records } = await packageToAmb(scormDirectory, { baseUrl: BASE });
+    const result = ambCollectionToNostr(records!, { pubkey: PUBKEY, timestamp: 1700000000 });
+    expect(result.success).toBe(true);
+    const [course, module] = result.data!;
+
+    expect(course!.tags.filter(tag => tag[0] === 'a')).toEqual([
+      ['a', `30142:${PUBKEY}:${BASE}#MODULE-1`, '', 'hasPart'],
+      ['a', `30142:${PUBKEY}:${BASE}test/index.html`, '', 'hasPart'],
+    ]);
+    expect(module!.tags.filter(tag => tag[0] === 'a')).toEqual([
+      ['a', `30142:${PUBKEY}:${BASE}content/intro.html`, '', 'hasPart'],
+      ['a', `30142:${PUBKEY}:${BASE}content/kuerzen.html`, '', 'hasPart'],
+      ['a', `30142:${PUBKEY}:${BASE}`, '', 'isPartOf'],
+    ]);
+  });
+
+  test('addresses records by the d tag strategy in use', async () => {
+    const { data: records } = await packageToAmb(scormDirectory, { baseUrl: BASE });
+    const result = ambCollectionToNostr(records!, { pubkey: PUBKEY, dTagStrategy: 'hash' });
+    const hash = createHash('sha256').update(BASE).digest('hex');
+    expect(result.data![4]!.tags).toContainEqual(['a', `30142:${PUBKEY}:${hash}`, '', 'isPartOf']);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Tests for Markdown front matter → AMB conversion
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { markdownToAmb } from '../../src/converters/markdownToAmb';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { validateAmb } from '../../src/validators';
+import { ConversionErrorCode } from '../../src/types';
+
+const markdown = readFileSync(join(__dirname, '../data/markdown/bruchrechnung.md'), 'utf-8');
+
+describe('markdownToAmb', () => {
+  const result = markdownToAmb(markdown);
+
+  test('reads the front matter as the AMB record', () => {
+    expect(result.success).toBe(true);
+    expect(validateAmb(result.data).valid).toBe(true);
+    expect(result.data).toMatchObject({
+      '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }],
+      id: 'https://oer.example.org/bruchrechnung',
+      name: 'Bruchrechnung – Übungen',
+      keywords: ['Brüche', 'Kürzen'],
+      datePublished: '2024-03-01',
+      isAccessibleForFree: true,
+    });
+  });
+
+  test('makes the Markdown body the description, which ambToNostr puts in content', () => {
+    const description = 'Übungen zum **Kürzen** und Erweitern von Brüchen.\n\n- zehn Aufgaben\n- mit Lösungen';
+    expect(result.data!.description).toBe(description);
+    expect(ambToNostr(result.data!, { pubkey: 'a'.repeat(64) }).data!.content).toBe(description);
+  });
+
+  test('accepts front matter without a body', () => {
+    const converted = markdownToAmb('---\nid: https://example.org/a\nname: A\ndescription: Kurz\n---\n');
+    expect(converted.data).toEqual({ id: 'https://example.org/a', name: 'A', description: 'Kurz' });
+  });
+
+  test('rejects files without front matter, malformed YAML and two descriptions', () => {
+    expect(markdownToAmb('# Bruchrechnung\n').error?.code).toBe(ConversionErrorCode.INVALID_FORMAT);
+    expect(markdownToAmb('---\nname: [A\n---\n').error?.code).toBe(ConversionErrorCode.INVALID_FORMAT);
+    expect(markdownToAmb('---\n- A\n---\n').error?.code).toBe(ConversionErrorCode.INVALID_FORMAT);
+    expect(markdownToAmb('---\nname: A\ndescription: Kurz\n---\nLang\n').error?.code).toBe(
+      ConversionErrorCode.INVALID_INPUT
+    );
+  });
+});
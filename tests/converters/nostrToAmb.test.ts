@@ -5,8 +5,14 @@
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { nip19 } from 'nostr-tools';
-import { nostrToAmb } from '../../src/converters/nostrToAmb';
-import { NostrEvent, AmbLearningResource } from '../../src/types';
+import { nostrToAmb, idFromMainEntityOfPage } from '../../src/converters/nostrToAmb';
+import {
+  NostrEvent,
+  AmbLearningResource,
+  ConversionError,
+  ConversionErrorCode,
+  ConversionWarningCode,
+} from '../../src/types';
 
 // Test data directory
 const TEST_DATA_DIR = join(__dirname, '../data/nostr-amb');
@@ -721,3 +727,184 @@ describe('scalar type coercion', () => {
     expect(result.data!.suggestedAge).toEqual({ minValue: 18 });
   });
 });
+
+describe('strict mode', () => {
+  function eventWithTags(tags: string[][]): NostrEvent {
+    return { kind: 30142, pubkey: 'a'.repeat(64), created_at: 1, content: '',
+      tags: [['d', 'https://example.org/r1'], ['name', 'T'], ['type', 'LearningResource'], ...tags] };
+  }
+
+  test('accepts conforming ext keys', () => {
+    const result = nostrToAmb(eventWithTags([['ext:ekw:gradeLevel:id', 'https://example.org/grade/5']]), { strict: true });
+    expect(result.success).toBe(true);
+  });
+
+  test('rejects a non-conforming ext key instead of ignoring it', () => {
+    const result = nostrToAmb(eventWithTags([['ext:ekw:konfi:themen:id', 'x']]), { strict: true });
+    expect(result.success).toBe(false);
+    expect((result.error as ConversionError).code).toBe(ConversionErrorCode.NON_CONFORMING_EXT_KEY);
+    expect((result.error as ConversionError).details).toEqual({ key: 'ext:ekw:konfi:themen:id' });
+  });
+
+  test('rejects a legacy unprefixed ext namespace', () => {
+    const result = nostrToAmb(eventWithTags([['ekw:gradeLevel:id', 'https://example.org/grade/5']]), { strict: true });
+    expect(result.success).toBe(false);
+    expect((result.error as ConversionError).code).toBe(ConversionErrorCode.LEGACY_EXT_NAMESPACE);
+  });
+});
+
+describe('structured warnings', () => {
+  function eventWithTags(tags: string[][], d = 'https://example.org/r1'): NostrEvent {
+    return { kind: 30142, pubkey: 'a'.repeat(64), created_at: 1, content: '',
+      tags: [['d', d], ['name', 'T'], ['type', 'LearningResource'], ...tags] };
+  }
+
+  test('ignored ext keys carry the index of their first tag', () => {
+    const result = nostrToAmb(eventWithTags([
+      ['ext:ekw:gradeLevel:id', 'https://example.org/grade/5'],
+      ['ext:ekw:konfi:themen:id', 'x'],
+      ['ext:ekw:konfi:themen:id', 'y'],
+    ]));
+    expect(result.warningDetails).toEqual([
+      expect.objectContaining({
+        code: ConversionWarningCode.NON_CONFORMING_EXT_KEY,
+        tagIndex: 4,
+        value: 'ext:ekw:konfi:themen:id',
+      }),
+    ]);
+    expect(result.warnings).toEqual(result.warningDetails!.map(w => w.message));
+  });
+
+  test('legacy namespaces point at ext.<ns>', () => {
+    const result = nostrToAmb(eventWithTags([['ekw:gradeLevel:id', 'https://example.org/grade/5']]));
+    expect(result.warningDetails).toEqual([
+      expect.objectContaining({
+        code: ConversionWarningCode.LEGACY_EXT_NAMESPACE,
+        path: '$.ext.ekw',
+        tagIndex: 3,
+        value: 'ekw',
+      }),
+    ]);
+  });
+
+  test('a non-URI d tag kept verbatim reports the d tag', () => {
+    const event = eventWithTags([], 'slug');
+    event.pubkey = '';
+    const result = nostrToAmb(event);
+    expect(result.warningDetails).toEqual([
+      expect.objectContaining({ code: ConversionWarningCode.NON_URI_D_TAG, path: '$.id', tagIndex: 0, value: 'slug' }),
+    ]);
+  });
+});
+
+describe('id restoration', () => {
+  function eventWithTags(tags: string[][]): NostrEvent {
+    return { kind: 30142, pubkey: 'a'.repeat(64), created_at: 1, content: '',
+      tags: [['d', 'short-slug'], ['name', 'T'], ['type', 'LearningResource'], ...tags] };
+  }
+
+  test('the alias tag restores the id and is not copied into the record', () => {
+    const result = nostrToAmb(eventWithTags([['alias', 'https://example.org/long/id']]));
+    expect(result.data!.id).toBe('https://example.org/long/id');
+    expect((result.data as any).alias).toBeUndefined();
+    expect(result.warnings).toBeUndefined();
+  });
+
+  test('resolveId takes precedence over the alias tag', () => {
+    const result = nostrToAmb(
+      eventWithTags([['alias', 'https://example.org/alias'], ['mainEntityOfPage:id', 'https://example.org/page']]),
+      { resolveId: idFromMainEntityOfPage }
+    );
+    expect(result.data!.id).toBe('https://example.org/page');
+  });
+
+  test('a resolver returning undefined falls back to naddr derivation', () => {
+    const result = nostrToAmb(eventWithTags([]), { resolveId: () => undefined });
+    expect(result.data!.id).toMatch(/^nostr:naddr1/);
+  });
+});
+
+describe('boundary markers', () => {
+  function eventWithTags(tags: string[][]): NostrEvent {
+    return { kind: 30142, pubkey: 'a'.repeat(64), created_at: 1, content: '',
+      tags: [['d', 'https://example.org/r1'], ['name', 'T'], ['type', 'LearningResource'], ...tags] };
+  }
+  const creators = [
+    ['creator:name', 'Jane Doe'],
+    ['creator:type', 'Person'],
+    ['creator:url', 'https://acme.example'],
+    ['creator:email', 'info@acme.example'],
+  ];
+
+  test('without markers, disjoint id-less entries merge (heuristic)', () => {
+    const result = nostrToAmb(eventWithTags(creators));
+    expect(result.data!.creator).toHaveLength(1);
+  });
+
+  test('a boundary tag splits entries the heuristic would merge', () => {
+    const result = nostrToAmb(eventWithTags([
+      ['boundary', 'creator'], ...creators.slice(0, 2),
+      ['boundary', 'creator'], ...creators.slice(2),
+    ]));
+    expect(result.data!.creator).toEqual([
+      { name: 'Jane Doe', type: 'Person' },
+      { url: 'https://acme.example', email: 'info@acme.example' },
+    ]);
+  });
+
+  test('markers for other properties do not split', () => {
+    const result = nostrToAmb(eventWithTags([['boundary', 'publisher'], ...creators]));
+    expect(result.data!.creator).toHaveLength(1);
+  });
+});
+
+describe('nostrToAmb label languages', () => {
+  const event = {
+    kind: 30142, pubkey: 'a'.repeat(64), created_at: 1, content: '',
+    tags: [
+      ['d', 'https://example.org/r1'], ['name', 'T'], ['type', 'LearningResource'],
+      ['about:id', 'https://w3id.org/kim/hochschulfaechersystematik/n079'],
+      ['about:prefLabel:de', 'Informatik'],
+      ['about:prefLabel:en', 'Computer Science'],
+      ['educationalLevel:id', 'https://w3id.org/kim/educationalLevel/level_06'],
+      ['educationalLevel:prefLabel:de', 'Bachelor oder äquivalent'],
+      ['audience:id', 'http://purl.org/dcx/lrmi-vocabs/educationalAudienceRole/student'],
+      ['audience:prefLabel:fr', 'étudiant'],
+      ['ext:ekw:gradeLevel:id', 'https://example.org/grade/5'],
+      ['ext:ekw:gradeLevel:prefLabel:de', 'Klasse 5'],
+      ['ext:ekw:gradeLevel:prefLabel:en', 'Grade 5'],
+    ],
+  };
+
+  test('keeps the first language along the fallback chain', () => {
+    const amb = nostrToAmb(event, { languages: ['en-GB', 'de'] }).data!;
+    expect(amb.about![0]!.prefLabel).toEqual({ en: 'Computer Science' });
+    expect(amb.educationalLevel![0]!.prefLabel).toEqual({ de: 'Bachelor oder äquivalent' });
+    expect(amb.audience![0]).not.toHaveProperty('prefLabel');
+    expect((amb.ext!.ekw.gradeLevel[0] as any).prefLabel).toEqual({ en: 'Grade 5' });
+
+    const anyLanguage = nostrToAmb(event, { languages: ['en', '*'] }).data!;
+    expect(anyLanguage.audience![0]!.prefLabel).toEqual({ fr: 'étudiant' });
+  });
+
+  test('flattens prefLabel maps to a label string', () => {
+    const amb = nostrToAmb(event, { languages: ['en', 'de', '*'], flattenLabels: true }).data!;
+    expect(amb.about![0]).toEqual({
+      id: 'https://w3id.org/kim/hochschulfaechersystematik/n079',
+      label: 'Computer Science',
+    });
+    expect(amb.educationalLevel![0]!.label).toBe('Bachelor oder äquivalent');
+    expect(amb.audience![0]!.label).toBe('étudiant');
+    expect(amb.ext!.ekw.gradeLevel[0]).toEqual({ id: 'https://example.org/grade/5', type: 'Concept', label: 'Grade 5' });
+
+    // Without languages: defaultLanguage, then any
+    const german = nostrToAmb(event, { flattenLabels: true }).data!;
+    expect(german.about![0]!.label).toBe('Informatik');
+    expect(german.audience![0]!.label).toBe('étudiant');
+  });
+
+  test('leaves labels untouched by default', () => {
+    const amb = nostrToAmb(event).data!;
+    expect(amb.about![0]!.prefLabel).toEqual({ de: 'Informatik', en: 'Computer Science' });
+  });
+});
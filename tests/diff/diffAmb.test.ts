@@ -0,0 +1,94 @@
+/**
+ * Tests for the AMB / kind-30142 structural diff
+ */
+
+import { diffAmb, diffNostrAmbEvents, diffValues } from '../../src/diff';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { ConversionErrorCode, ConversionError } from '../../src/types';
+
+const PUBKEY = 'a'.repeat(64);
+
+const before: any = {
+  '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }],
+  id: 'https://example.org/r1',
+  type: ['LearningResource'],
+  name: 'Bruchrechnung',
+  keywords: ['Mathe', 'Brüche', 'Klasse 6'],
+  about: [
+    { id: 'https://w3id.org/kim/schulfaecher/s1017', type: 'Concept', prefLabel: { de: 'Mathematik' } },
+    { id: 'https://w3id.org/kim/schulfaecher/s1013', type: 'Concept', prefLabel: { de: 'Informatik' } },
+  ],
+  license: { id: 'https://creativecommons.org/licenses/by/4.0/' },
+  hasPart: [{ id: 'https://example.org/r1/part1', type: ['LearningResource'], name: 'Teil 1' }],
+};
+
+const after: any = {
+  ...before,
+  keywords: ['Klasse 6', 'Mathe', 'Dezimalzahlen'],
+  about: [
+    { id: 'https://w3id.org/kim/schulfaecher/s1017', type: 'Concept', prefLabel: { de: 'Mathe' } },
+    { id: 'https://w3id.org/kim/schulfaecher/s1005', type: 'Concept', prefLabel: { de: 'Physik' } },
+  ],
+  license: { id: 'https://creativecommons.org/licenses/by-sa/4.0/' },
+  hasPart: [
+    ...before.hasPart,
+    { id: 'https://example.org/r1/part2', type: ['LearningResource'], name: 'Teil 2' },
+  ],
+};
+
+const expected = [
+  { path: '$.keywords[1]', kind: 'removed', before: 'Brüche' },
+  { path: '$.keywords[2]', kind: 'added', after: 'Dezimalzahlen' },
+  { path: '$.about[0].prefLabel.de', kind: 'changed', before: 'Mathematik', after: 'Mathe' },
+  { path: '$.about[1]', kind: 'removed', before: before.about[1] },
+  { path: '$.about[1]', kind: 'added', after: after.about[1] },
+  {
+    path: '$.license.id',
+    kind: 'changed',
+    before: 'https://creativecommons.org/licenses/by/4.0/',
+    after: 'https://creativecommons.org/licenses/by-sa/4.0/',
+  },
+  { path: '$.hasPart[1]', kind: 'added', after: after.hasPart[1] },
+];
+
+describe('diffAmb', () => {
+  test('reports keyword, concept, license and hasPart changes', () => {
+    expect(diffAmb(before, after)).toEqual(expected);
+  });
+
+  test('reordering array entries is not a change', () => {
+    expect(diffAmb(before, { ...before, about: [...before.about].reverse(), keywords: [...before.keywords].reverse() }))
+      .toEqual([]);
+  });
+
+  test('positional diffValues would report the reorder', () => {
+    expect(diffValues(before.keywords, [...before.keywords].reverse())).toHaveLength(2);
+  });
+});
+
+describe('diffNostrAmbEvents', () => {
+  test('compares events at the AMB field level, independent of property order', () => {
+    const a = ambToNostr(before, { pubkey: PUBKEY }).data!;
+    const b = ambToNostr(after, { pubkey: PUBKEY }).data!;
+    // Regroup the tags by property (stable, so each object's tags keep their order)
+    const base = (tag: string[]) => tag[0]!.split(':')[0]!;
+    b.tags = [...b.tags].sort((x, y) => base(y).localeCompare(base(x)));
+    const result = diffNostrAmbEvents(a, b);
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(expect.arrayContaining(expected));
+    expect(result.data).toHaveLength(expected.length);
+  });
+
+  test('identical events have no changes', () => {
+    const a = ambToNostr(before, { pubkey: PUBKEY }).data!;
+    expect(diffNostrAmbEvents(a, { ...a, created_at: a.created_at + 60 }).data).toEqual([]);
+  });
+
+  test('an unconvertible event fails the diff', () => {
+    const a = ambToNostr(before, { pubkey: PUBKEY }).data!;
+    const result = diffNostrAmbEvents(a, { ...a, tags: [] });
+    expect(result.success).toBe(false);
+    expect((result.error as ConversionError).code).toBe(ConversionErrorCode.CONVERSION_FAILED);
+    expect(result.error!.message).toContain('second event');
+  });
+});
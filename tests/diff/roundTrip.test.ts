@@ -0,0 +1,100 @@
+/**
+ * Tests for the round-trip fidelity checker
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { checkRoundTrip, diffValues } from '../../src/diff';
+
+const VALID_DIR = join(__dirname, '../data/amb-spec/valid');
+const PUBKEY = 'a'.repeat(64);
+
+const base: any = {
+  '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'en' }],
+  id: 'https://example.org/r1',
+  type: ['LearningResource'],
+  name: 'Test',
+};
+
+describe('diffValues', () => {
+  test('reports added, removed, changed and retyped fields with JSON paths', () => {
+    expect(
+      diffValues(
+        { a: 1, b: 'x', c: [1, 2], d: { e: true }, 'f:g': 1 },
+        { a: 2, c: [1], d: 'flat', h: null, 'f:g': 1 }
+      )
+    ).toEqual([
+      { path: '$.a', kind: 'changed', before: 1, after: 2 },
+      { path: '$.b', kind: 'removed', before: 'x' },
+      { path: '$.c[1]', kind: 'removed', before: 2 },
+      { path: '$.d', kind: 'retyped', before: { e: true }, after: 'flat' },
+      { path: '$.h', kind: 'added', after: null },
+    ]);
+  });
+});
+
+describe('checkRoundTrip', () => {
+  test('a plain record round-trips losslessly', () => {
+    const result = checkRoundTrip(base, { pubkey: PUBKEY });
+    expect(result.success).toBe(true);
+    expect(result.data!.changes).toEqual([]);
+    expect(result.data!.lossless).toBe(true);
+    expect(result.data!.event.kind).toBe(30142);
+  });
+
+  test('uses the record @language for the reverse conversion', () => {
+    const result = checkRoundTrip(base, { pubkey: PUBKEY });
+    expect(result.data!.roundTripped['@context']).toEqual(base['@context']);
+  });
+
+  test('nostrPubkey persons come back with a nostr:nprofile id', () => {
+    const result = checkRoundTrip(
+      { ...base, creator: [{ type: 'Person', name: 'Jane', nostrPubkey: 'b'.repeat(64) }] },
+      { pubkey: PUBKEY }
+    );
+    const kinds = Object.fromEntries(result.data!.changes.map(c => [c.path, c.kind]));
+    expect(kinds['$.creator[0].nostrPubkey']).toBe('removed');
+    expect(kinds['$.creator[0].id']).toBe('added');
+    expect(result.data!.lossless).toBe(false);
+  });
+
+  test('an array license collapses to one object', () => {
+    const result = checkRoundTrip(
+      { ...base, license: [{ id: 'https://creativecommons.org/licenses/by/4.0/' }] } as any,
+      { pubkey: PUBKEY }
+    );
+    expect(result.data!.changes).toEqual([
+      expect.objectContaining({ path: '$.license', kind: 'retyped' }),
+    ]);
+    expect(result.warnings).toEqual(['Non-standard AMB: license is an array of Concepts, using first entry']);
+  });
+
+  test('merged object boundaries show up, and boundary markers fix them', () => {
+    const record = {
+      ...base,
+      about: [{ prefLabel: { de: 'Mathematik' } }, { prefLabel: { en: 'Physics' } }],
+    } as any;
+    const merged = checkRoundTrip(record, { pubkey: PUBKEY });
+    expect(merged.data!.changes.map(c => `${c.kind} ${c.path}`)).toEqual([
+      'added $.about[0].prefLabel.en',
+      'removed $.about[1]',
+    ]);
+    expect(checkRoundTrip(record, { pubkey: PUBKEY, boundaryMarkers: true }).data!.lossless).toBe(true);
+  });
+
+  test('a failing conversion is returned as an error', () => {
+    const result = checkRoundTrip({ ...base, name: '' }, { pubkey: PUBKEY });
+    expect(result.success).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+
+  test('spec examples lose at most their @context extensions', () => {
+    for (const filename of readdirSync(VALID_DIR).filter(f => f.endsWith('.json'))) {
+      const record = JSON.parse(readFileSync(join(VALID_DIR, filename), 'utf-8'));
+      const result = checkRoundTrip(record, { pubkey: PUBKEY });
+      if (!result.success) continue;
+      const lost = result.data!.changes.filter(c => c.kind !== 'added' && !c.path.startsWith('$["@context"]'));
+      expect(lost, filename).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for the JSON-LD expansion/compaction stage
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  compactAmbJsonLd,
+  ambJsonLdToNostr,
+  nostrToAmbJsonLd,
+  createAmbDocumentLoader,
+  AMB_CONTEXT_URL,
+} from '../../src/jsonld';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const VALID_DIR = join(__dirname, '../data/amb-spec/valid');
+const PUBKEY = 'a'.repeat(64);
+
+const load = (filename: string) => JSON.parse(readFileSync(join(VALID_DIR, filename), 'utf-8'));
+
+const canonical = {
+  '@context': [AMB_CONTEXT_URL, { '@language': 'de' }],
+  id: 'https://example.org/oer',
+  type: ['LearningResource', 'Course'],
+  name: 'Beispielkurs',
+  creator: [{ type: 'Person', name: 'Jane Doe' }],
+  learningResourceType: [{ id: 'https://w3id.org/kim/hcrt/course' }],
+};
+
+describe('createAmbDocumentLoader', () => {
+  test('serves the bundled AMB context', async () => {
+    const loader = createAmbDocumentLoader();
+    const { document } = await loader(AMB_CONTEXT_URL);
+    expect((document as any)['@context']['@vocab']).toBe('https://schema.org/');
+  });
+
+  test('resolves unknown contexts to an empty context without fetching', async () => {
+    const loader = createAmbDocumentLoader();
+    expect((await loader('https://schema.org')).document).toEqual({ '@context': {} });
+  });
+
+  test('passes unknown contexts to the fallback loader', async () => {
+    const fallback = vi.fn(async (url: string) => ({ documentUrl: url, document: { '@context': { x: 'https://x.example/' } } }));
+    const loader = createAmbDocumentLoader(fallback);
+    await loader(AMB_CONTEXT_URL);
+    await loader('https://schema.org');
+    expect(fallback).toHaveBeenCalledTimes(1);
+    expect(fallback).toHaveBeenCalledWith('https://schema.org');
+  });
+});
+
+describe('compactAmbJsonLd', () => {
+  test('leaves canonical input unchanged', async () => {
+    const result = await compactAmbJsonLd(canonical);
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(canonical);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  test('drops an additional inline context', async () => {
+    const result = await compactAmbJsonLd(load('addingToContext.json'));
+    expect(result.success).toBe(true);
+    expect(result.data!['@context']).toEqual([AMB_CONTEXT_URL, { '@language': 'de' }]);
+    expect(result.data!.learningResourceType).toEqual([{ id: 'https://w3id.org/kim/hcrt/course' }]);
+  });
+
+  test('warns about remote contexts that are not bundled', async () => {
+    const result = await compactAmbJsonLd(load('additionalContext.json'));
+    expect(result.success).toBe(true);
+    expect(result.data!.type).toEqual(['LearningResource', 'Course']);
+    expect(result.warningDetails).toEqual([
+      {
+        code: ConversionWarningCode.UNBUNDLED_CONTEXT,
+        message: expect.stringContaining('https://json-ld.org/contexts/person.jsonld'),
+        path: '$["@context"]',
+        value: 'https://json-ld.org/contexts/person.jsonld',
+      },
+    ]);
+  });
+
+  test('does not warn when a document loader is supplied', async () => {
+    const documentLoader = async (url: string) => ({ documentUrl: url, document: { '@context': {} } });
+    const result = await compactAmbJsonLd(load('schemaorg-context.json'), { documentLoader });
+    expect(result.success).toBe(true);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  test('expands prefixed IRIs and full property IRIs', async () => {
+    const result = await compactAmbJsonLd({
+      '@context': [AMB_CONTEXT_URL, { '@language': 'de', schema: 'https://schema.org/', hcrt: 'https://w3id.org/kim/hcrt/' }],
+      id: 'https://example.org/oer',
+      type: ['LearningResource', 'schema:Course'],
+      'schema:name': 'Beispielkurs',
+      'https://schema.org/creator': { type: 'Person', name: 'Jane Doe' },
+      learningResourceType: { id: 'hcrt:course' },
+    });
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(canonical);
+  });
+
+  test('unwraps a @graph and embeds referenced nodes', async () => {
+    const result = await compactAmbJsonLd({
+      '@context': [AMB_CONTEXT_URL, { '@language': 'de' }],
+      '@graph': [
+        { id: 'https://example.org/people/jane', type: 'Person', name: 'Jane Doe' },
+        {
+          id: 'https://example.org/oer',
+          type: ['LearningResource', 'Course'],
+          name: 'Beispielkurs',
+          creator: { id: 'https://example.org/people/jane' },
+        },
+      ],
+    });
+    expect(result.success).toBe(true);
+    expect(result.data!.id).toBe('https://example.org/oer');
+    expect(result.data!.creator).toEqual([{ id: 'https://example.org/people/jane', type: 'Person', name: 'Jane Doe' }]);
+  });
+
+  test('keeps the resource when a nested node points back to it', async () => {
+    const result = await compactAmbJsonLd(load('videoWithoutContentUrl.json'));
+    expect(result.success).toBe(true);
+    expect(result.data!.encoding).toEqual([
+      { type: 'MediaObject', bitrate: '831', embedUrl: 'https://av.tib.eu/media/32641' },
+    ]);
+  });
+
+  test('keeps multilingual prefLabels as language maps', async () => {
+    const result = await compactAmbJsonLd(load('conceptsWithMultilingualLabels.json'));
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(load('conceptsWithMultilingualLabels.json'));
+  });
+
+  test('fails on a graph with several learning resources', async () => {
+    const result = await compactAmbJsonLd({
+      '@context': AMB_CONTEXT_URL,
+      '@graph': [
+        { id: 'https://example.org/a', type: 'LearningResource', name: 'A' },
+        { id: 'https://example.org/b', type: 'LearningResource', name: 'B' },
+      ],
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ConversionErrorCode.INVALID_FORMAT);
+  });
+
+  test('fails on a resource without an id', async () => {
+    const result = await compactAmbJsonLd({ '@context': AMB_CONTEXT_URL, type: 'LearningResource', name: 'A' });
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ConversionErrorCode.MISSING_REQUIRED_FIELD);
+  });
+
+  test('fails on malformed JSON-LD', async () => {
+    const result = await compactAmbJsonLd({ '@context': 42, id: 'https://example.org/a' });
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ConversionErrorCode.INVALID_FORMAT);
+    expect(result.error?.message).toMatch(/^JSON-LD processing failed/);
+  });
+});
+
+describe('ambJsonLdToNostr', () => {
+  test('converts non-canonical input like its canonical form', async () => {
+    const options = { pubkey: PUBKEY, deterministicIds: true };
+    const result = await ambJsonLdToNostr(load('schemaorg-context.json'), options);
+    const expected = ambToNostr(await compactAmbJsonLd(load('schemaorg-context.json')).then(r => r.data!), options);
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(expected.data);
+    expect(result.warningDetails!.map(w => w.code)).toContain(ConversionWarningCode.UNBUNDLED_CONTEXT);
+  });
+});
+
+describe('nostrToAmbJsonLd', () => {
+  test('emits compacted output for a converted event', async () => {
+    const event = ambToNostr(canonical as any, { pubkey: PUBKEY }).data!;
+    const result = await nostrToAmbJsonLd(event, { defaultLanguage: 'de' });
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(canonical);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for RDF output
+ */
+
+import { nip19 } from 'nostr-tools';
+import { ambToRdf, nostrToRdf, stableNostrIri, toTurtle } from '../../src/jsonld';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const PUBKEY = 'a'.repeat(64);
+const NPUB = nip19.npubEncode(PUBKEY);
+const NPROFILE = nip19.nprofileEncode({ pubkey: PUBKEY, relays: ['wss://relay.example'] });
+
+const resource: any = {
+  '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }],
+  id: 'https://example.org/oer',
+  type: ['LearningResource', 'Course'],
+  name: 'Beispielkurs',
+  creator: [{ type: 'Person', name: 'Jane Doe', id: `nostr:${NPROFILE}` }],
+  inLanguage: ['de'],
+  learningResourceType: [{ id: 'https://w3id.org/kim/hcrt/course', prefLabel: { de: 'Kurs', en: 'Course' } }],
+  encoding: [{ type: 'MediaObject', contentUrl: 'https://example.org/oer.pdf', encodingFormat: 'application/pdf' }],
+};
+
+describe('stableNostrIri', () => {
+  test('drops relay hints from nprofile and naddr', () => {
+    expect(stableNostrIri(`nostr:${NPROFILE}`)).toBe(`nostr:${NPUB}`);
+    const naddr = nip19.naddrEncode({ identifier: 'x', pubkey: PUBKEY, kind: 30142, relays: ['wss://relay.example'] });
+    expect(stableNostrIri(`nostr:${naddr}`)).toBe(
+      `nostr:${nip19.naddrEncode({ identifier: 'x', pubkey: PUBKEY, kind: 30142 })}`
+    );
+  });
+
+  test('leaves other ids unchanged', () => {
+    expect(stableNostrIri('https://example.org/oer')).toBe('https://example.org/oer');
+    expect(stableNostrIri(`nostr:${NPUB}`)).toBe(`nostr:${NPUB}`);
+    expect(stableNostrIri('nostr:garbage')).toBe('nostr:garbage');
+  });
+});
+
+describe('ambToRdf', () => {
+  test('emits sorted N-Quads by default', async () => {
+    const result = await ambToRdf(resource);
+    expect(result.success).toBe(true);
+    const lines = result.data!.trim().split('\n');
+    expect(lines).toEqual([...lines].sort());
+    expect(lines).toContain(
+      '<https://example.org/oer> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <https://schema.org/Course> .'
+    );
+    expect(lines).toContain('<https://example.org/oer> <https://schema.org/name> "Beispielkurs"@de .');
+    expect(lines).toContain('<https://example.org/oer> <https://schema.org/inLanguage> "de" .');
+    expect(lines).toContain(
+      '<https://w3id.org/kim/hcrt/course> <http://www.w3.org/2004/02/skos/core#prefLabel> "Course"@en .'
+    );
+  });
+
+  test('maps nostr ids to stable IRIs', async () => {
+    const result = await ambToRdf(resource);
+    expect(result.data).toContain(`<https://example.org/oer> <https://schema.org/creator> <nostr:${NPUB}> .`);
+    expect(result.data).not.toContain(NPROFILE);
+  });
+
+  test('accepts a custom nostr IRI mapping', async () => {
+    const result = await ambToRdf(resource, { nostrIri: id => `https://njump.example/${id.slice('nostr:'.length)}` });
+    expect(result.data).toContain(`<https://njump.example/${NPROFILE}>`);
+  });
+
+  test('emits Turtle with prefixes and inlined blank nodes', async () => {
+    const result = await ambToRdf(resource, { format: 'turtle' });
+    expect(result.success).toBe(true);
+    expect(result.data).toContain('@prefix schema: <https://schema.org/> .');
+    expect(result.data).toContain('<https://example.org/oer>\n  a schema:LearningResource, schema:Course ;');
+    expect(result.data).toContain(
+      '  schema:encoding [\n    a schema:MediaObject ;\n    schema:contentUrl <https://example.org/oer.pdf> ;\n    schema:encodingFormat "application/pdf"\n  ] ;'
+    );
+    expect(result.data).toContain('skos:prefLabel "Kurs"@de, "Course"@en .');
+  });
+
+  test('warns about unbundled contexts', async () => {
+    const result = await ambToRdf({ ...resource, '@context': [...resource['@context'], 'https://schema.org'] });
+    expect(result.success).toBe(true);
+    expect(result.warningDetails!.map(w => w.code)).toEqual([ConversionWarningCode.UNBUNDLED_CONTEXT]);
+  });
+
+  test('fails on malformed JSON-LD', async () => {
+    const result = await ambToRdf({ '@context': 42 });
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ConversionErrorCode.INVALID_FORMAT);
+  });
+});
+
+describe('nostrToRdf', () => {
+  test('converts an event through nostrToAmb', async () => {
+    // nostrToAmb names nostr creators by npub, so use an external identity here
+    const external = { ...resource, creator: [{ type: 'Person', name: 'Jane Doe', id: 'https://orcid.org/0000-0002-1825-0097' }] };
+    const event = ambToNostr(external, { pubkey: PUBKEY }).data!;
+    const [fromEvent, fromAmb] = await Promise.all([
+      nostrToRdf(event, { defaultLanguage: 'de' }),
+      ambToRdf(external),
+    ]);
+    expect(fromEvent.success).toBe(true);
+    expect(fromEvent.data).toBe(fromAmb.data);
+  });
+});
+
+describe('toTurtle', () => {
+  const named = (value: string) => ({ termType: 'NamedNode' as const, value });
+  const blank = (value: string) => ({ termType: 'BlankNode' as const, value });
+  const graph = { termType: 'DefaultGraph' as const, value: '' };
+
+  test('escapes literals and IRIs', () => {
+    const turtle = toTurtle([
+      {
+        subject: named('https://example.org/a b'),
+        predicate: named('https://schema.org/name'),
+        object: { termType: 'Literal', value: 'say "hi"\n', datatype: named('http://www.w3.org/2001/XMLSchema#string') },
+        graph,
+      },
+    ]);
+    expect(turtle).toBe('@prefix schema: <https://schema.org/> .\n\n<https://example.org/a\\u0020b>\n  schema:name "say \\"hi\\"\\n" .\n');
+  });
+
+  test('keeps blank nodes in a cycle as labelled subjects', () => {
+    const knows = named('https://schema.org/knows');
+    const turtle = toTurtle([
+      { subject: blank('_:b0'), predicate: knows, object: blank('_:b1'), graph },
+      { subject: blank('_:b1'), predicate: knows, object: blank('_:b0'), graph },
+    ]);
+    expect(turtle).toContain('_:b0\n  schema:knows _:b1 .');
+    expect(turtle).toContain('_:b1\n  schema:knows _:b0 .');
+  });
+});
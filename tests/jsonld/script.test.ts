@@ -0,0 +1,111 @@
+/**
+ * Tests for embeddable schema.org JSON-LD
+ */
+
+import { nip19 } from 'nostr-tools';
+import { ambToJsonLdScript, nostrToJsonLdScript, nostrGatewayUrl } from '../../src/jsonld';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { ConversionErrorCode, ConversionWarningCode } from '../../src/types';
+
+const PUBKEY = 'a'.repeat(64);
+const NPUB = nip19.npubEncode(PUBKEY);
+
+const resource: any = {
+  '@context': ['https://w3id.org/kim/amb/context.jsonld', { '@language': 'de' }],
+  id: 'https://example.org/oer',
+  type: ['LearningResource', 'Course'],
+  name: 'Beispielkurs',
+  creator: [{ type: 'Person', name: 'Jane Doe', id: `nostr:${NPUB}` }],
+  inLanguage: ['de'],
+  learningResourceType: [{ id: 'https://w3id.org/kim/hcrt/course', prefLabel: { de: 'Kurs', en: 'Course' } }],
+  audience: [{ id: 'http://purl.org/dcx/lrmi-vocabs/educationalAudienceRole/teacher' }],
+  interactivityType: { id: 'http://purl.org/dcx/lrmi-vocabs/interactivityType/expositive' },
+  license: { id: 'https://creativecommons.org/licenses/by/4.0/' },
+  suggestedAge: { minValue: 10, maxValue: 14 },
+};
+
+const parse = (script: string) =>
+  JSON.parse(script.replace(/^<script type="application\/ld\+json">\n/, '').replace(/\n<\/script>$/, ''));
+
+describe('nostrGatewayUrl', () => {
+  test('fills any entity placeholder', () => {
+    expect(nostrGatewayUrl(`nostr:${NPUB}`)).toBe(`https://njump.me/${NPUB}`);
+    expect(nostrGatewayUrl(`nostr:${NPUB}`, 'https://gateway.example/p/{npub}')).toBe(
+      `https://gateway.example/p/${NPUB}`
+    );
+    expect(nostrGatewayUrl('https://example.org/oer', 'https://gateway.example/{naddr}')).toBe(
+      'https://example.org/oer'
+    );
+  });
+});
+
+describe('ambToJsonLdScript', () => {
+  test('renders a compact schema.org document in a script element', () => {
+    const result = ambToJsonLdScript(resource);
+    expect(result.success).toBe(true);
+    expect(result.data).toMatch(/^<script type="application\/ld\+json">\n\{/);
+    expect(parse(result.data!)).toEqual({
+      '@context': 'https://schema.org',
+      '@id': 'https://example.org/oer',
+      '@type': ['LearningResource', 'Course'],
+      name: 'Beispielkurs',
+      creator: { '@type': 'Person', name: 'Jane Doe', '@id': `https://njump.me/${NPUB}` },
+      inLanguage: 'de',
+      learningResourceType: { '@type': 'DefinedTerm', '@id': 'https://w3id.org/kim/hcrt/course', name: 'Kurs' },
+      audience: {
+        '@type': 'EducationalAudience',
+        '@id': 'http://purl.org/dcx/lrmi-vocabs/educationalAudienceRole/teacher',
+        educationalRole: 'teacher',
+      },
+      interactivityType: 'expositive',
+      license: 'https://creativecommons.org/licenses/by/4.0/',
+      typicalAgeRange: '10-14',
+    });
+  });
+
+  test('labels concepts in the requested language', () => {
+    const result = ambToJsonLdScript(resource, { language: 'en', format: 'json' });
+    expect(JSON.parse(result.data!).learningResourceType.name).toBe('Course');
+  });
+
+  test('escapes markup so the script element cannot be closed early', () => {
+    const result = ambToJsonLdScript({ ...resource, description: 'Ende </script><script>alert(1)</script>' });
+    expect(result.data!.match(/<\/script>/g)).toHaveLength(1);
+    expect(parse(result.data!).description).toBe('Ende </script><script>alert(1)</script>');
+  });
+
+  test('drops ext with a warning, or fails in strict mode', () => {
+    const withExt = { ...resource, ext: { 'https://example.org/ns': { facet: ['x'] } } };
+    const lenient = ambToJsonLdScript(withExt);
+    expect(lenient.success).toBe(true);
+    expect(parse(lenient.data!).ext).toBeUndefined();
+    expect(lenient.warningDetails).toEqual([
+      expect.objectContaining({ code: ConversionWarningCode.UNSUPPORTED_PROPERTY, path: '$.ext' }),
+    ]);
+
+    const strict = ambToJsonLdScript(withExt, { strict: true });
+    expect(strict.success).toBe(false);
+    expect(strict.error?.code).toBe(ConversionErrorCode.UNSUPPORTED_PROPERTY);
+  });
+});
+
+describe('nostrToJsonLdScript', () => {
+  test('links the event through the gateway', () => {
+    const event = ambToNostr(resource, { pubkey: PUBKEY }).data!;
+    const result = nostrToJsonLdScript(event, { gateway: 'https://gateway.example/{naddr}', format: 'json' });
+    expect(result.success).toBe(true);
+    const document = JSON.parse(result.data!);
+    const naddr = nip19.naddrEncode({ identifier: 'https://example.org/oer', pubkey: PUBKEY, kind: event.kind });
+    expect(document['@id']).toBe('https://example.org/oer');
+    expect(document.sameAs).toBe(`https://gateway.example/${naddr}`);
+    expect(document.creator['@id']).toBe(`https://gateway.example/${NPUB}`);
+  });
+
+  test('resolves slug ids to gateway URLs', () => {
+    const event = ambToNostr(resource, { pubkey: PUBKEY, dTagStrategy: 'slug' }).data!;
+    const withoutAlias = { ...event, tags: event.tags.filter(tag => tag[0] !== 'alias') };
+    const document = JSON.parse(nostrToJsonLdScript(withoutAlias, { format: 'json' }).data!);
+    expect(document['@id']).toMatch(/^https:\/\/njump\.me\/naddr1/);
+    expect(document.sameAs).toBeUndefined();
+  });
+});
@@ -3,7 +3,7 @@ import { nip19 } from 'nostr-tools';
 import { nostrToAmbWithProfiles } from '../../src/profiles/resolveNames';
 import { DEFAULT_PROFILE_RELAYS } from '../../src/profiles/websocketFetcher';
 import type { ProfileInfo } from '../../src/profiles/types';
-import { NostrEvent } from '../../src/types';
+import { NostrEvent, ConversionWarningCode } from '../../src/types';
 
 const PK_A = 'a'.repeat(64);
 const PK_B = 'b'.repeat(64);
@@ -82,6 +82,7 @@ describe('nostrToAmbWithProfiles', () => {
     expect(result.success).toBe(true);
     expect(result.data!.creator![0].name).toBe(nip19.npubEncode(PK_A));
     expect(result.warnings).toContain('profile fetch failed: boom');
+    expect(result.warningDetails?.map((w) => w.code)).toEqual([ConversionWarningCode.PROFILE_FETCH_FAILED]);
   });
 
   test('pubkey absent from map → npub fallback name with a per-pubkey warning', async () => {
@@ -90,6 +91,9 @@ describe('nostrToAmbWithProfiles', () => {
     expect(result.success).toBe(true);
     expect(result.data!.creator![0].name).toBe(nip19.npubEncode(PK_A));
     expect(result.warnings!.some((w) => w.startsWith('no profile name for'))).toBe(true);
+    expect(result.warningDetails).toContainEqual(
+      expect.objectContaining({ code: ConversionWarningCode.PROFILE_NOT_FOUND, path: '$.creator[0].name', value: PK_A })
+    );
   });
 
   test('does not overwrite a person that already has a name', async () => {
@@ -0,0 +1,112 @@
+/**
+ * Tests for search document projection
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ambToSearchDocument, extSearchField, nostrToSearchDocument } from '../../src/search';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { ConversionErrorCode } from '../../src/types';
+
+const PUBKEY = 'a'.repeat(64);
+
+const course = JSON.parse(readFileSync(join(__dirname, '../data/amb/example_1_course.json'), 'utf-8'));
+
+describe('ambToSearchDocument', () => {
+  test('flattens concepts into ids and labels per language', () => {
+    const result = ambToSearchDocument(course);
+    expect(result.success).toBe(true);
+    const document = result.data!;
+    expect(document).toMatchObject({
+      id: 'https://oer.gitlab.io/OS',
+      resource_id: 'https://oer.gitlab.io/OS',
+      name: 'Computer Structures and Operating Systems',
+      keywords: ['Computer Science', 'Operation Systems', 'Computer Structures'],
+      inLanguage: ['en'],
+      license_id: 'https://creativecommons.org/licenses/by-sa/4.0/',
+      isAccessibleForFree: true,
+      about_id: ['https://w3id.org/kim/hochschulfaechersystematik/n079'],
+      about_label_de: ['Informatik'],
+      educationalLevel_id: ['https://w3id.org/kim/educationalLevel/level_06'],
+      educationalLevel_label_de: ['Bachelor oder äquivalent'],
+      educationalLevel_label_en: ['Bachelor or equivalent'],
+      creator_name: ['Jens Lechtenbörger'],
+    });
+    expect(document).not.toHaveProperty('event_id');
+  });
+
+  test('writes dates as Unix seconds for Typesense and as dates for OpenSearch', () => {
+    const resource = { ...course, datePublished: '2020-06-29' };
+    expect(ambToSearchDocument(resource).data!.datePublished).toBe(1593388800);
+    expect(ambToSearchDocument(resource, { schema: 'opensearch' }).data!.datePublished).toBe('2020-06-29');
+  });
+
+  test('keeps ext facets apart whose names differ only in separators', () => {
+    const ext = {
+      'a.b': { c: ['dotted namespace'] },
+      a: { b_c: ['underscored facet'], 'b.c': ['dotted facet'], x_label_de: ['label-like facet'] },
+    };
+    const document = ambToSearchDocument({ ...course, ext }).data!;
+    expect(document[extSearchField('a.b', 'c')]).toEqual(['dotted namespace']);
+    expect(document[extSearchField('a', 'b_c')]).toEqual(['underscored facet']);
+    expect(document[extSearchField('a', 'b.c')]).toEqual(['dotted facet']);
+    expect(Object.keys(document).filter(field => field.startsWith('ext_'))).toEqual([
+      'ext__a_2Eb__c',
+      'ext__a__b_5Fc',
+      'ext__a__b_2Ec',
+      'ext__a__x_5Flabel_5Fde',
+    ]);
+  });
+
+  test('fails without an id', () => {
+    expect(ambToSearchDocument({ ...course, id: '' }).error?.code).toBe(ConversionErrorCode.INVALID_INPUT);
+  });
+});
+
+describe('nostrToSearchDocument', () => {
+  const event = (tags: string[][]) => ({
+    id: 'e'.repeat(64),
+    kind: 30142,
+    pubkey: PUBKEY,
+    created_at: 1700000000,
+    content: '',
+    tags: [['d', 'https://example.org/r1'], ['name', 'Konfi-Einheit'], ['type', 'LearningResource'], ...tags],
+  });
+
+  test('keys the document by event address and flattens ext facets', () => {
+    const result = nostrToSearchDocument(
+      event([
+        ['ext:org.edufeed.ekw.konfi:zeitstruktur:id', 'urn:doppelstunde'],
+        ['ext:org.edufeed.ekw.konfi:zeitstruktur:prefLabel:de', 'Doppelstunde'],
+        ['ext:org.edufeed.ekw.konfi:zeitstruktur', '2 x 90 Min.'],
+        ['ext:ekw:gradeLevel:id', 'https://example.org/grade/5'],
+        ['ext:ekw:gradeLevel:name', 'Klasse 5'],
+      ])
+    );
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({
+      id: `30142:${PUBKEY}:https://example.org/r1`,
+      resource_id: 'https://example.org/r1',
+      event_id: 'e'.repeat(64),
+      pubkey: PUBKEY,
+      created_at: 1700000000,
+      name: 'Konfi-Einheit',
+      ext__org_2Eedufeed_2Eekw_2Ekonfi__zeitstruktur: ['urn:doppelstunde', '2 x 90 Min.'],
+      ext__org_2Eedufeed_2Eekw_2Ekonfi__zeitstruktur_label_de: ['Doppelstunde'],
+      ext__ekw__gradeLevel: ['https://example.org/grade/5'],
+      ext__ekw__gradeLevel_label_und: ['Klasse 5'],
+    });
+  });
+
+  test('matches the projection of the original record and passes warnings on', () => {
+    const nostrEvent = ambToNostr(course, { pubkey: PUBKEY, timestamp: 1700000000 }).data!;
+    const document = nostrToSearchDocument(nostrEvent).data!;
+    const { id, resource_id, ...fields } = ambToSearchDocument(course).data!;
+    expect(document).toMatchObject(fields);
+    expect(document.id).toBe(`30142:${PUBKEY}:https://oer.gitlab.io/OS`);
+
+    const legacy = nostrToSearchDocument(event([['ekw:gradeLevel', 'Klasse 5']]));
+    expect(legacy.warnings?.length).toBeGreaterThan(0);
+    expect(nostrToSearchDocument(event([['ekw:gradeLevel', 'Klasse 5']]), { strict: true }).success).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Tests for search collection schemas
+ */
+
+import { searchSchema, SEARCH_FIELDS } from '../../src/search';
+
+describe('searchSchema', () => {
+  test('generates a Typesense collection with regex fields for labels and ext facets', () => {
+    const collection = searchSchema('typesense', { name: 'amb_30142' });
+    expect(collection.name).toBe('amb_30142');
+    expect(collection.fields).toHaveLength(SEARCH_FIELDS.length);
+    expect(collection.fields).toContainEqual({ name: 'id', type: 'string' });
+    expect(collection.fields).toContainEqual({ name: 'about_id', type: 'string[]', facet: true, optional: true });
+    expect(collection.fields).toContainEqual({ name: 'created_at', type: 'int64', optional: true });
+    expect(collection.fields).toContainEqual({ name: '.*_label_.*', type: 'string[]', facet: true, optional: true });
+    expect(collection.fields).toContainEqual({ name: 'ext_.*', type: 'string[]', facet: true, optional: true });
+  });
+
+  test('generates an OpenSearch mapping with dynamic templates', () => {
+    const { mappings } = searchSchema('opensearch');
+    expect(mappings.properties.license_id).toEqual({ type: 'keyword' });
+    expect(mappings.properties.description).toEqual({ type: 'text' });
+    expect(mappings.properties.keywords).toEqual({ type: 'text', fields: { keyword: { type: 'keyword' } } });
+    expect(mappings.properties.datePublished).toEqual({
+      type: 'date',
+      format: 'strict_date_optional_time||epoch_second',
+    });
+    expect(mappings.dynamic_templates).toEqual([
+      {
+        label: {
+          match: '*_label_*',
+          match_mapping_type: 'string',
+          mapping: { type: 'text', fields: { keyword: { type: 'keyword' } } },
+        },
+      },
+      { ext: { match: 'ext_*', match_mapping_type: 'string', mapping: { type: 'keyword' } } },
+    ]);
+  });
+});
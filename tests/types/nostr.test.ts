@@ -0,0 +1,171 @@
+/**
+ * Tests for the NIP-AMB event grammar validator
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { validateNostrAmbEvent, parseExtKey, NostrEvent } from '../../src/types';
+
+const PK = 'a'.repeat(64);
+const VALID_DIR = join(__dirname, '../data/amb-spec/valid');
+
+function eventWith(tags: string[][]): NostrEvent {
+  return {
+    kind: 30142,
+    pubkey: PK,
+    created_at: 1,
+    content: '',
+    tags: [['d', 'https://example.org/r1'], ['type', 'LearningResource'], ['name', 'T'], ...tags],
+  };
+}
+
+function issuesAt(event: NostrEvent, tagIndex: number) {
+  return validateNostrAmbEvent(event).issues.filter(i => i.tagIndex === tagIndex);
+}
+
+describe('validateNostrAmbEvent', () => {
+  const validFiles = readdirSync(VALID_DIR).filter(f => f.endsWith('.json')).sort();
+
+  for (const filename of validFiles) {
+    test(`converter output has no errors: ${filename}`, () => {
+      const amb = JSON.parse(readFileSync(join(VALID_DIR, filename), 'utf-8'));
+      const event = ambToNostr(amb, { pubkey: PK, timestamp: 1700000000 }).data!;
+      const result = validateNostrAmbEvent(event);
+      expect(result.issues.filter(i => i.severity === 'error')).toEqual([]);
+      expect(result.valid).toBe(true);
+    });
+  }
+
+  test('reports missing required tags as event-level errors', () => {
+    const result = validateNostrAmbEvent({ kind: 30142, pubkey: PK, created_at: 1, content: '', tags: [] });
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(i => i.message)).toEqual([
+      'missing required d tag',
+      'missing required type tag',
+      'missing required name tag',
+    ]);
+    expect(result.issues.every(i => i.tagIndex === undefined)).toBe(true);
+  });
+
+  test('rejects a wrong kind and duplicate d/name tags', () => {
+    const event = eventWith([['d', 'https://example.org/r2'], ['name', 'U']]);
+    event.kind = 1;
+    const messages = validateNostrAmbEvent(event).issues.map(i => i.message);
+    expect(messages).toContain('kind must be 30142, got 1');
+    expect(messages).toContain('event must have exactly one d tag');
+    expect(messages).toContain('event must have exactly one name tag');
+  });
+
+  test('warns when type lacks LearningResource', () => {
+    const event = eventWith([]);
+    event.tags[1] = ['type', 'Course'];
+    const result = validateNostrAmbEvent(event);
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([
+      { severity: 'warning', message: "type tags should include 'LearningResource'" },
+    ]);
+  });
+
+  test('checks prefLabel:<lang> shapes', () => {
+    const event = eventWith([
+      ['about:prefLabel:de', 'Mathematik'],
+      ['about:prefLabel', 'Mathematik'],
+      ['about:prefLabel:de:extra', 'x'],
+    ]);
+    expect(issuesAt(event, 3)).toEqual([]);
+    expect(issuesAt(event, 4)[0]!.severity).toBe('error');
+    expect(issuesAt(event, 5)[0]!.message).toContain('about:prefLabel:<lang>');
+  });
+
+  test('rejects unknown sub-properties of known keys, warns on unknown keys', () => {
+    const event = eventWith([
+      ['creator:affiliation:name', 'Uni'],
+      ['creator:shoeSize', '42'],
+      ['license', 'https://creativecommons.org/licenses/by/4.0/'],
+      ['x-custom', 'value'],
+    ]);
+    expect(issuesAt(event, 3)).toEqual([]);
+    expect(issuesAt(event, 4)).toEqual([
+      { severity: 'error', message: "unknown sub-property 'shoeSize' for 'creator'", tagIndex: 4 },
+    ]);
+    expect(issuesAt(event, 5)[0]!.severity).toBe('error');
+    expect(issuesAt(event, 6)).toEqual([
+      { severity: 'warning', message: "unknown tag key 'x-custom'", tagIndex: 6 },
+    ]);
+  });
+
+  test('accepts the alias tag of a shortened d tag', () => {
+    expect(issuesAt(eventWith([['alias', 'https://example.org/long/id']]), 3)).toEqual([]);
+  });
+
+  test('checks boundary tags name an object property', () => {
+    const event = eventWith([['boundary', 'creator'], ['boundary', 'name']]);
+    expect(issuesAt(event, 3)).toEqual([]);
+    expect(issuesAt(event, 4)[0]!.severity).toBe('warning');
+    expect(issuesAt(eventWith([['boundary', 'hasPart:creator']]), 3)).toEqual([]);
+  });
+
+  test('checks scalar values', () => {
+    const event = eventWith([['isAccessibleForFree', 'yes'], ['suggestedAge:minValue', 'ten']]);
+    expect(issuesAt(event, 3)[0]!.severity).toBe('error');
+    expect(issuesAt(event, 4)[0]!.severity).toBe('error');
+  });
+
+  test('checks p tag arity and roles', () => {
+    const event = eventWith([
+      ['p', 'b'.repeat(64), 'wss://relay.test', 'creator'],
+      ['p', 'not-hex', '', 'creator'],
+      ['p', 'b'.repeat(64)],
+      ['p', 'b'.repeat(64), 'https://relay.test', 'mentor'],
+    ]);
+    expect(issuesAt(event, 3)).toEqual([]);
+    expect(issuesAt(event, 4).map(i => i.severity)).toEqual(['error']);
+    expect(issuesAt(event, 5).map(i => i.severity)).toEqual(['warning']);
+    expect(issuesAt(event, 6).map(i => i.severity)).toEqual(['warning', 'warning']);
+  });
+
+  test('checks a tag coordinates and roles', () => {
+    const event = eventWith([
+      ['a', `30142:${PK}:https://example.org/parent`, '', 'isPartOf'],
+      ['a', `30168:${PK}:form-1`, '', 'form'],
+      ['a', '30142:short:x', '', 'hasPart'],
+      ['a', `30142:${PK}:x`, '', 'sibling'],
+    ]);
+    expect(issuesAt(event, 3)).toEqual([]);
+    expect(issuesAt(event, 4)).toEqual([]);
+    expect(issuesAt(event, 5)[0]!.severity).toBe('error');
+    expect(issuesAt(event, 6)[0]!.severity).toBe('warning');
+  });
+
+  test('checks the ext grammar', () => {
+    const event = eventWith([
+      ['ext:ekw:gradeLevel:id', 'https://example.org/grade/5'],
+      ['ext:ekw:konfi:themen:id', 'x'],
+      ['ekw:gradeLevel:id', 'https://example.org/grade/5'],
+    ]);
+    expect(issuesAt(event, 3)).toEqual([]);
+    expect(issuesAt(event, 4)[0]!.severity).toBe('error');
+    expect(issuesAt(event, 5)[0]!.severity).toBe('warning');
+    expect(validateNostrAmbEvent(event).valid).toBe(false);
+  });
+
+  test('rejects malformed tags', () => {
+    const event = eventWith([['t'], ['t', 42 as unknown as string]]);
+    expect(issuesAt(event, 3)[0]!.message).toBe('tag must be an array of at least two strings');
+    expect(issuesAt(event, 4)[0]!.severity).toBe('error');
+  });
+});
+
+describe('parseExtKey', () => {
+  test('parses prefixed, legacy and scalar keys', () => {
+    expect(parseExtKey('ext:ekw:gradeLevel:prefLabel:de')).toEqual({
+      ns: 'ekw', facet: 'gradeLevel', sub: 'prefLabel:de', legacy: false,
+    });
+    expect(parseExtKey('ekw:gradeLevel:id')).toEqual({ ns: 'ekw', facet: 'gradeLevel', sub: 'id', legacy: true });
+    expect(parseExtKey('ext:ekw:bibleReference')).toEqual({
+      ns: 'ekw', facet: 'bibleReference', sub: null, legacy: false,
+    });
+    expect(parseExtKey('ext:ekw:konfi:themen:id')).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for the AMB Zod validators
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { validateAmb, toJsonPath } from '../../src/validators';
+
+const VALID_DIR = join(__dirname, '../data/amb-spec/valid');
+const INVALID_DIR = join(__dirname, '../data/amb-spec/invalid');
+
+function load(dir: string, filename: string): any {
+  return JSON.parse(readFileSync(join(dir, filename), 'utf-8'));
+}
+
+const base = {
+  '@context': ['https://w3id.org/kim/amb/context.jsonld'],
+  id: 'https://example.org/r1',
+  type: ['LearningResource'],
+  name: 'Resource',
+};
+
+describe('validateAmb', () => {
+  const validFiles = readdirSync(VALID_DIR).filter(f => f.endsWith('.json')).sort();
+
+  for (const filename of validFiles) {
+    test(`accepts spec example: ${filename}`, () => {
+      const result = validateAmb(load(VALID_DIR, filename));
+      expect(result.issues).toEqual([]);
+      expect(result.valid).toBe(true);
+      expect(result.data).toBeDefined();
+    });
+  }
+
+  test.each([
+    ['license-as-string.json', '$.license'],
+    ['typeWithoutArray.json', '$.type'],
+    ['isAccessibleForFree.json', '$.isAccessibleForFree'],
+    ['affiliationWithoutName.json', '$.publisher[0].affiliation.name'],
+    ['partWithoutId.json', '$.hasPart[0].id'],
+    ['isBasedOn_noIdOrName.json', '$.isBasedOn[0]'],
+    ['suggestedAge-as-string.json', '$.suggestedAge.minValue'],
+    ['noContext.json', '$["@context"]'],
+  ])('rejects %s at %s', (filename, path) => {
+    const result = validateAmb(load(INVALID_DIR, filename));
+    expect(result.valid).toBe(false);
+    expect(result.data).toBeUndefined();
+    expect(result.issues.map(i => i.path)).toContain(path);
+  });
+
+  test('reports missing required fields', () => {
+    const result = validateAmb({ '@context': base['@context'], type: ['LearningResource'] });
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(i => i.path).sort()).toEqual(['$.id', '$.name']);
+    expect(result.issues.every(i => i.code === 'invalid_type')).toBe(true);
+  });
+
+  test('rejects a creator with an unknown type', () => {
+    const result = validateAmb({ ...base, creator: [{ type: 'Robot', name: 'R2' }] });
+    expect(result.valid).toBe(false);
+    expect(result.issues[0]!.path).toBe('$.creator[0].type');
+  });
+
+  test('accepts mixed concept/scalar ext facets', () => {
+    const result = validateAmb({
+      ...base,
+      ext: { ekw: { gradeLevel: [{ id: 'https://example.org/grade/5', type: 'Concept' }, 'Klasse 5'] } },
+    });
+    expect(result.valid).toBe(true);
+  });
+
+  test('rejects colons in ext namespaces and facets', () => {
+    const result = validateAmb({
+      ...base,
+      ext: { 'ekw:konfi': { themen: ['x'] }, ekw: { 'konfi:themen': ['y'] } },
+    });
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(i => i.path)).toEqual(['$.ext["ekw:konfi"]', '$.ext.ekw["konfi:themen"]']);
+  });
+
+  test('returns the parsed record, keeping properties outside the profile', () => {
+    const input = { ...base, 'schema:sameAs': 'https://example.org/other' };
+    const { data } = validateAmb(input);
+    expect(data).toEqual(input);
+    expect(data).not.toBe(input);
+  });
+});
+
+describe('toJsonPath', () => {
+  test('renders identifiers, indices and quoted keys', () => {
+    expect(toJsonPath([])).toBe('$');
+    expect(toJsonPath(['creator', 0, 'affiliation', 'name'])).toBe('$.creator[0].affiliation.name');
+    expect(toJsonPath(['ext', 'org.edufeed.ekw', 'x'])).toBe('$.ext["org.edufeed.ekw"].x');
+  });
+});
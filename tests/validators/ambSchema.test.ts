@@ -0,0 +1,53 @@
+/**
+ * Tests for validation against the bundled AMB JSON Schema
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { validateAgainstAmbSchema, AMB_JSON_SCHEMA } from '../../src/validators';
+
+const VALID_DIR = join(__dirname, '../data/amb-spec/valid');
+const INVALID_DIR = join(__dirname, '../data/amb-spec/invalid');
+
+function load(dir: string, filename: string): any {
+  return JSON.parse(readFileSync(join(dir, filename), 'utf-8'));
+}
+
+describe('validateAgainstAmbSchema', () => {
+  const validFiles = readdirSync(VALID_DIR).filter(f => f.endsWith('.json')).sort();
+
+  for (const filename of validFiles) {
+    test(`accepts spec example: ${filename}`, () => {
+      const result = validateAgainstAmbSchema(load(VALID_DIR, filename));
+      expect(result.issues).toEqual([]);
+      expect(result.valid).toBe(true);
+    });
+  }
+
+  test.each([
+    ['Mozilla-Public-License.json', '$.license.id'],
+    ['educationalLevelWithWrongID.json', '$.educationalLevel'],
+    ['learningResourceType-wihtout-any-valid-id.json', '$.learningResourceType'],
+    ['mainEntityOfPageInvalidType.json', '$.mainEntityOfPage[0].type'],
+    ['wrongDefaultLanguageTag.json', '$["@context"]'],
+    ['wrongDuration.json', '$.duration'],
+    ['wrongDateTime.json', '$.dateModified'],
+    ['typeAsURI.json', '$.type[1]'],
+    ['videoWithoutUrls.json', '$.encoding[0]'],
+    ['contentSizeAndBitRateWithUnits.json', '$.encoding[0].contentSize'],
+  ])('rejects %s at %s', (filename, path) => {
+    const result = validateAgainstAmbSchema(load(INVALID_DIR, filename));
+    expect(result.valid).toBe(false);
+    expect(result.data).toBeUndefined();
+    expect(result.issues.map(i => i.path)).toContain(path);
+  });
+
+  test('reports the failing JSON Schema keyword as the issue code', () => {
+    const result = validateAgainstAmbSchema(load(INVALID_DIR, 'license-as-string.json'));
+    expect(result.issues).toContainEqual({ path: '$.license', message: 'must be object', code: 'type' });
+  });
+
+  test('exposes the bundled schema', () => {
+    expect(AMB_JSON_SCHEMA.required).toEqual(['@context', 'id', 'type', 'name']);
+  });
+});
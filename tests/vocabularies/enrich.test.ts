@@ -0,0 +1,92 @@
+/**
+ * Tests for concept label enrichment from SKOS vocabularies
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  enrichConcepts,
+  bundledVocabularies,
+  createVocabularyRegistry,
+  defaultVocabularyRegistry,
+} from '../../src/vocabularies';
+import { ambToNostr } from '../../src/converters/ambToNostr';
+import { nostrToAmb } from '../../src/converters/nostrToAmb';
+
+const uriOnly = JSON.parse(
+  readFileSync(join(__dirname, '../data/amb-spec/valid/conceptsAsObjectWithUriOnly.json'), 'utf-8')
+);
+
+describe('vocabulary registry', () => {
+  test('bundles the KIM and LRMI vocabularies', () => {
+    expect(bundledVocabularies().map(vocabulary => vocabulary.id)).toEqual([
+      'http://w3id.org/kim/schulfaecher/',
+      'https://w3id.org/kim/hochschulfaechersystematik/scheme',
+      'https://w3id.org/kim/educationalLevel/',
+      'https://w3id.org/kim/hcrt/scheme',
+      'http://purl.org/dcx/lrmi-vocabs/educationalAudienceRole/',
+    ]);
+    const registry = defaultVocabularyRegistry();
+    expect(registry.lookup('http://w3id.org/kim/schulfaecher/s1017')).toEqual({ de: 'Mathematik', en: 'Mathematics' });
+    expect(registry.lookup('https://w3id.org/kim/hcrt/slide')).toEqual({ de: 'Präsentation', en: 'Presentation' });
+  });
+
+  test('matches http and https ids and lets later vocabularies win', () => {
+    const registry = createVocabularyRegistry(bundledVocabularies(['hcrt']));
+    expect(registry.lookup('http://w3id.org/kim/hcrt/video')).toEqual({ de: 'Video', en: 'Video' });
+    expect(registry.lookup('https://w3id.org/kim/schulfaecher/s1017')).toBeUndefined();
+
+    registry.add({
+      id: 'https://example.org/film',
+      concepts: [{ id: 'https://w3id.org/kim/hcrt/video', prefLabel: { de: 'Film', fr: 'Vidéo' } }],
+    });
+    expect(registry.lookup('https://w3id.org/kim/hcrt/video')).toEqual({ de: 'Film', en: 'Video', fr: 'Vidéo' });
+    expect(registry.vocabularies).toHaveLength(2);
+  });
+});
+
+describe('enrichConcepts', () => {
+  test('labels URI-only concepts and keeps existing labels', () => {
+    const resource = {
+      ...uriOnly,
+      learningResourceType: [{ id: 'https://w3id.org/kim/hcrt/image', prefLabel: { de: 'Foto' } }],
+      educationalLevel: [{ id: 'https://example.org/unknown' }],
+    };
+    const enriched = enrichConcepts(resource, defaultVocabularyRegistry());
+    expect(enriched.about).toEqual([
+      {
+        id: 'https://w3id.org/kim/hochschulfaechersystematik/n059',
+        prefLabel: { de: 'Französisch', en: 'French', fr: 'Français' },
+      },
+    ]);
+    expect(enriched.audience).toEqual([
+      { id: 'http://purl.org/dcx/lrmi-vocabs/educationalAudienceRole/student', prefLabel: { en: 'student' } },
+    ]);
+    expect(enriched.learningResourceType).toEqual([
+      { id: 'https://w3id.org/kim/hcrt/image', prefLabel: { de: 'Foto', en: 'Image' } },
+    ]);
+    expect(enriched.educationalLevel).toEqual([{ id: 'https://example.org/unknown' }]);
+    expect(resource.about[0]).not.toHaveProperty('prefLabel');
+  });
+
+  test('ambToNostr enriches before writing tags', () => {
+    const pubkey = 'a'.repeat(64);
+    const plain = ambToNostr(uriOnly, { pubkey }).data!;
+    expect(plain.tags.some(tag => tag[0]!.startsWith('about:prefLabel'))).toBe(false);
+
+    const event = ambToNostr(uriOnly, { pubkey, enrichConcepts: defaultVocabularyRegistry() }).data!;
+    expect(event.tags).toContainEqual(['about:prefLabel:de', 'Französisch']);
+    expect(event.tags).toContainEqual(['audience:prefLabel:en', 'student']);
+    expect(nostrToAmb(event, { languages: ['en'], flattenLabels: true }).data!.about![0]!.label).toBe('French');
+
+    const registry = createVocabularyRegistry([
+      {
+        id: 'https://example.org/it',
+        concepts: [{ id: 'https://w3id.org/kim/hochschulfaechersystematik/n059', prefLabel: { it: 'Francese' } }],
+      },
+    ]);
+    const custom = ambToNostr(uriOnly, { pubkey, enrichConcepts: registry }).data!;
+    expect(custom.tags).toContainEqual(['about:prefLabel:it', 'Francese']);
+    expect(custom.tags.some(tag => tag[0] === 'audience:prefLabel:en')).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for reading SKOS vocabularies from Turtle and JSON-LD
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseTurtle, parseSkosTurtle, parseSkosJsonLd } from '../../src/vocabularies';
+import { loadVocabulary } from '../../src/cli/utils/vocabulary';
+
+const TURTLE_FILE = join(__dirname, '../data/vocabs/faecher.ttl');
+
+describe('parseTurtle', () => {
+  test('reads prefixes, base IRIs, object lists, blank nodes and collections', () => {
+    const triples = parseTurtle(readFileSync(TURTLE_FILE, 'utf-8'));
+    expect(triples).toContainEqual({
+      subject: 'https://example.org/faecher/mint/mathe',
+      predicate: 'http://www.w3.org/2004/02/skos/core#prefLabel',
+      object: { termType: 'Literal', value: 'Mathematics', language: 'en-gb' },
+    });
+    expect(triples).toContainEqual({
+      subject: '_:b0',
+      predicate: 'https://schema.org/text',
+      object: { termType: 'Literal', value: 'Schließt "Rechnen" ein' },
+    });
+    expect(triples).toContainEqual({
+      subject: 'https://example.org/faecher/mint/mathe',
+      predicate: 'https://schema.org/position',
+      object: { termType: 'Literal', value: '1', datatype: 'http://www.w3.org/2001/XMLSchema#integer' },
+    });
+    expect(triples.filter(triple => triple.predicate.endsWith('#first')).map(triple => triple.object.value)).toEqual([
+      'https://example.org/faecher/sprachen/de',
+      'https://example.org/faecher/sprachen/fr',
+    ]);
+  });
+
+  test('names the line of a syntax error', () => {
+    const turtle = '@prefix skos: <http://www.w3.org/2004/02/skos/core#> .\n\nex:a skos:prefLabel "A" .';
+    expect(() => parseTurtle(turtle)).toThrow('Turtle syntax error on line 3: undefined prefix "ex:"');
+    expect(() => parseTurtle('<a> <b> "open')).toThrow('unterminated string');
+  });
+});
+
+describe('parseSkosTurtle', () => {
+  test('collects concept labels and the scheme title', async () => {
+    const vocabulary = await loadVocabulary(TURTLE_FILE);
+    expect(vocabulary).toEqual(parseSkosTurtle(readFileSync(TURTLE_FILE, 'utf-8')));
+    expect(vocabulary.id).toBe('https://example.org/faecher/scheme');
+    expect(vocabulary.title).toEqual({ de: 'Fächer', en: 'Subjects' });
+    expect(vocabulary.concepts).toEqual([
+      { id: 'https://example.org/faecher/mint', prefLabel: { de: 'MINT', en: 'STEM' } },
+      { id: 'https://example.org/faecher/mint/mathe', prefLabel: { de: 'Mathematik', 'en-gb': 'Mathematics' } },
+      { id: 'https://example.org/faecher/sprachen', prefLabel: { de: 'Sprachen' } },
+    ]);
+  });
+});
+
+describe('parseSkosJsonLd', () => {
+  test('reads SkoHub concept trees', () => {
+    const vocabulary = parseSkosJsonLd({
+      '@context': 'https://w3id.org/kim/skos-context.jsonld',
+      id: 'https://example.org/faecher/scheme',
+      type: 'ConceptScheme',
+      title: { de: 'Fächer' },
+      hasTopConcept: [
+        {
+          id: 'https://example.org/faecher/mint',
+          type: 'Concept',
+          prefLabel: { de: 'MINT', en: 'STEM' },
+          narrower: [{ id: 'https://example.org/faecher/mint/mathe', prefLabel: { de: 'Mathematik' } }],
+        },
+      ],
+    });
+    expect(vocabulary).toEqual({
+      id: 'https://example.org/faecher/scheme',
+      title: { de: 'Fächer' },
+      concepts: [
+        { id: 'https://example.org/faecher/mint', prefLabel: { de: 'MINT', en: 'STEM' } },
+        { id: 'https://example.org/faecher/mint/mathe', prefLabel: { de: 'Mathematik' } },
+      ],
+    });
+  });
+
+  test('reads graphs with prefixed or expanded properties', () => {
+    const vocabulary = parseSkosJsonLd({
+      '@graph': [
+        {
+          '@id': 'https://example.org/scheme',
+          '@type': 'skos:ConceptScheme',
+          'dct:title': { '@value': 'S', '@language': 'en' },
+        },
+        {
+          '@id': 'https://example.org/a',
+          '@type': 'skos:Concept',
+          'skos:prefLabel': [{ '@value': 'A', '@language': 'en' }],
+        },
+        {
+          '@id': 'https://example.org/b',
+          'http://www.w3.org/2004/02/skos/core#prefLabel': [
+            { '@value': 'B', '@language': 'DE' },
+            { '@value': 'no language' },
+          ],
+        },
+      ],
+    });
+    expect(vocabulary.id).toBe('https://example.org/scheme');
+    expect(vocabulary.title).toEqual({ en: 'S' });
+    expect(vocabulary.concepts).toEqual([
+      { id: 'https://example.org/a', prefLabel: { en: 'A' } },
+      { id: 'https://example.org/b', prefLabel: { de: 'B' } },
+    ]);
+  });
+});